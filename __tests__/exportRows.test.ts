@@ -0,0 +1,35 @@
+import { ExportColumn, toCsv } from '@/lib/export/exportRows';
+
+type Row = { name: string; phone: string | null; amount: number | null };
+
+const columns: ExportColumn<Row>[] = [
+  { header: 'Name', value: row => row.name },
+  { header: 'Telefon', value: row => row.phone },
+  { header: 'Betrag', value: row => row.amount },
+];
+
+const lines = (rows: Row[]) => toCsv(rows, columns).replace(/^\uFEFF/, '').split('\r\n');
+
+describe('toCsv', () => {
+  it('writes a BOM, semicolons and decimal commas', () => {
+    const csv = toCsv([{ name: 'Mia', phone: null, amount: 49.5 }], columns);
+
+    expect(csv.startsWith('\uFEFF')).toBe(true);
+    expect(lines([{ name: 'Mia', phone: null, amount: 49.5 }])).toEqual(['Name;Telefon;Betrag', 'Mia;;49,5']);
+  });
+
+  it('quotes cells containing separators, quotes or line breaks', () => {
+    expect(lines([{ name: 'Müller; "Max"\nJr.', phone: null, amount: null }])[1]).toBe('"Müller; ""Max""\nJr.";;');
+  });
+
+  it('prefixes formula-like text with an apostrophe', () => {
+    expect(lines([{ name: '=HYPERLINK("http://x")', phone: '@SUM(A1)', amount: null }])[1])
+      .toBe('"\'=HYPERLINK(""http://x"")";\'@SUM(A1);');
+    expect(lines([{ name: '-Max', phone: '+Mia', amount: null }])[1]).toBe("'-Max;'+Mia;");
+  });
+
+  it('keeps phone numbers and negative numbers as they are', () => {
+    expect(lines([{ name: 'Mia', phone: '+49 (89) 123-45/6', amount: -12.5 }])[1]).toBe('Mia;+49 (89) 123-45/6;-12,5');
+    expect(lines([{ name: '-5', phone: '0049 89 123', amount: null }])[1]).toBe('-5;0049 89 123;');
+  });
+});
@@ -0,0 +1,94 @@
+import { ImportLookup, autoMapColumns, matchInstrument, validateImportRows } from '@/lib/import/importRows';
+
+const lookup: ImportLookup = {
+  students: [
+    { id: 's1', name: 'Mia Müller', email: 'mia@example.de', phone: '+49 89 123', instrument: 'Klavier', status: 'inactive' },
+  ],
+  teachers: [
+    { id: 't1', name: 'Tom Teacher', email: 'tom@example.de', phone: null, instrument: ['Gitarre', 'E-Bass'] },
+  ],
+  variants: [],
+  activeContracts: [],
+} as unknown as ImportLookup;
+
+const studentHeaders = ['Name', 'Instrument', 'E-Mail', 'Telefon', 'Status'];
+
+describe('autoMapColumns', () => {
+  it('maps known header names and marks missing fields with -1', () => {
+    expect(autoMapColumns('students', ['Schüler', 'Fach', 'Mail'])).toEqual({
+      name: 0,
+      instrument: 1,
+      email: 2,
+      phone: -1,
+      status: -1,
+    });
+  });
+});
+
+describe('matchInstrument', () => {
+  it('matches known instruments case-insensitively and keeps unknown ones', () => {
+    expect(matchInstrument(' klavier ')).toEqual({ instrument: 'Klavier', known: true });
+    expect(matchInstrument('Harfe')).toEqual({ instrument: 'Harfe', known: false });
+  });
+});
+
+describe('validateImportRows', () => {
+  const mapping = autoMapColumns('students', studentHeaders);
+
+  it('creates new students with defaults', () => {
+    const [row] = validateImportRows('students', [['Ben Berg', 'gitarre', '', '', '']], mapping, lookup);
+
+    expect(row.action).toBe('create');
+    expect(row.payload).toEqual({ name: 'Ben Berg', email: null, phone: null, instrument: 'Gitarre', status: 'active' });
+  });
+
+  it('keeps stored values for empty cells when updating an existing student', () => {
+    const [row] = validateImportRows('students', [['Mia Müller', 'Klavier', 'mia@example.de', '', '']], mapping, lookup);
+
+    expect(row.existingId).toBe('s1');
+    expect(row.action).toBe('unchanged');
+    expect(row.payload).toEqual({ name: 'Mia Müller', email: 'mia@example.de', instrument: 'Klavier' });
+  });
+
+  it('keeps stored values for unmapped columns and only diffs the filled fields', () => {
+    const partial = autoMapColumns('students', ['Name', 'Instrument', 'Telefon']);
+    const [row] = validateImportRows('students', [['Mia Müller', 'Cello', '+49 89 999']], partial, lookup);
+
+    expect(row.action).toBe('update');
+    expect(row.payload).toEqual({ name: 'Mia Müller', phone: '+49 89 999', instrument: 'Cello' });
+    expect(row.changes).toEqual([
+      { field: 'Telefon', from: '+49 89 123', to: '+49 89 999' },
+      { field: 'Instrument', from: 'Klavier', to: 'Cello' },
+    ]);
+  });
+
+  it('strips the apostrophe toCsv puts in front of formula-like text', () => {
+    const [row] = validateImportRows('students', [["'=Ben", 'Klavier', '', "'+Mia", '']], mapping, lookup);
+
+    expect(row.payload).toMatchObject({ name: '=Ben', phone: '+Mia' });
+    expect(validateImportRows('students', [["O'Brien", 'Klavier', '', '', '']], mapping, lookup)[0].payload.name).toBe("O'Brien");
+  });
+
+  it('diffs teacher instruments as a list and keeps their phone when the cell is empty', () => {
+    const teacherMapping = autoMapColumns('teachers', ['Name', 'E-Mail', 'Instrumente', 'Telefon']);
+    const [row] = validateImportRows('teachers', [['Tom Teacher', 'tom@example.de', 'gitarre; e-bass', '']], teacherMapping, lookup);
+
+    expect(row.action).toBe('unchanged');
+    expect(row.payload).toEqual({ name: 'Tom Teacher', email: 'tom@example.de', instrument: ['Gitarre', 'E-Bass'] });
+  });
+
+  it('reports missing required fields, invalid e-mails and duplicates', () => {
+    const rows = validateImportRows(
+      'students',
+      [['', 'Klavier', 'keine-mail', '', ''], ['Ben Berg', 'Klavier', '', '', 'pausiert'], ['Ben Berg', 'Klavier', '', '', '']],
+      mapping,
+      lookup
+    );
+
+    expect(rows.map(row => [row.rowNumber, row.action, row.errors])).toEqual([
+      [2, 'error', ['Name ist erforderlich', 'E-Mail-Adresse ist ungültig']],
+      [3, 'error', ['Unbekannter Status "pausiert"']],
+      [4, 'error', ['Doppelter Eintrag in der Datei']],
+    ]);
+  });
+});
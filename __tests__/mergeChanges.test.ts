@@ -0,0 +1,65 @@
+import { applyConflictChoices, mergeChanges, sameValue } from '@/lib/concurrency/mergeChanges';
+
+type LessonValues = Record<string, unknown> & {
+  date: string;
+  comment: string;
+  is_available: boolean;
+};
+
+const base: LessonValues = { date: '', comment: '', is_available: true };
+
+describe('sameValue', () => {
+  it('treats empty values, date spellings and unordered arrays as equal', () => {
+    expect(sameValue('', null)).toBe(true);
+    expect(sameValue(undefined, [])).toBe(true);
+    expect(sameValue('2025-10-02', '2025-10-02T00:00:00+00:00')).toBe(true);
+    expect(sameValue(['b', 'a'], ['a', 'b'])).toBe(true);
+    expect(sameValue(45, 45)).toBe(true);
+    expect(sameValue(true, false)).toBe(false);
+  });
+});
+
+describe('mergeChanges', () => {
+  it('takes fields only the other side changed', () => {
+    const mine = { ...base, comment: 'Tonleitern geübt' };
+    const { merged, conflicts, theirChanges } = mergeChanges(base, mine, { date: '2025-10-02T00:00:00+00:00', comment: null });
+
+    expect(merged).toEqual({ date: '2025-10-02T00:00:00+00:00', comment: 'Tonleitern geübt', is_available: true });
+    expect(conflicts).toEqual([]);
+    expect(theirChanges.map(change => change.field)).toEqual(['date']);
+  });
+
+  it('reports fields both sides changed differently as conflicts and keeps mine', () => {
+    const mine = { ...base, comment: 'Etüde 3', is_available: false };
+    const { merged, conflicts } = mergeChanges(base, mine, { comment: 'Etüde 4', is_available: false }, {
+      keyPrefix: 'l1:',
+      labelPrefix: 'Stunde 1 – ',
+    });
+
+    expect(merged.comment).toBe('Etüde 3');
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({ key: 'l1:comment', field: 'comment', mine: 'Etüde 3', theirs: 'Etüde 4' });
+    expect(conflicts[0].label.startsWith('Stunde 1 – ')).toBe(true);
+  });
+
+  it('ignores fields missing in the current row', () => {
+    const { merged, conflicts, theirChanges } = mergeChanges(base, { ...base, comment: 'neu' }, {});
+
+    expect(merged.comment).toBe('neu');
+    expect(conflicts).toEqual([]);
+    expect(theirChanges).toEqual([]);
+  });
+});
+
+describe('applyConflictChoices', () => {
+  it('uses their value only where chosen', () => {
+    const mine = { ...base, date: '2025-10-02', comment: 'Etüde 3' };
+    const { merged, conflicts } = mergeChanges(base, mine, { date: '2025-10-09', comment: 'Etüde 4' });
+
+    expect(applyConflictChoices(merged, conflicts, { comment: 'theirs' })).toEqual({
+      date: '2025-10-02',
+      comment: 'Etüde 4',
+      is_available: true,
+    });
+  });
+});
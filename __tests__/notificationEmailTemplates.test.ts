@@ -0,0 +1,70 @@
+import {
+  PendingNotificationEmail,
+  renderDigestEmail,
+  renderNotificationEmail,
+} from '../supabase/functions/_shared/notificationEmailTemplates';
+
+const APP_URL = 'https://app.example.de';
+
+const row = (overrides: Partial<PendingNotificationEmail>): PendingNotificationEmail => ({
+  notification_id: 'n1',
+  profile_id: 'p1',
+  email: 'lehrer@example.de',
+  full_name: 'Anna Admin',
+  frequency: 'instant',
+  type: 'declined_trial',
+  message: '',
+  created_at: '2025-09-23T08:00:00Z',
+  student_name: null,
+  teacher_name: null,
+  variant_name: null,
+  trial_student_name: 'Mia',
+  trial_instrument: 'Klavier',
+  trial_phone: null,
+  trial_email: null,
+  attempts: 0,
+  ...overrides,
+});
+
+describe('notification email templates', () => {
+  it('renders an open-trial row with its message instead of naming the addressee as decliner', () => {
+    const email = renderNotificationEmail(
+      row({
+        teacher_name: 'Tom Teacher',
+        message: 'Eine neue offene Probestunde mit Mia (Klavier) ist verfügbar. Sie können diese in Ihrer Probestundenübersicht annehmen.',
+      }),
+      APP_URL
+    );
+
+    expect(email.subject).toBe('[Musikakademie] Probestunde offen: Mia');
+    expect(email.text).toContain('Eine neue offene Probestunde mit Mia (Klavier) ist verfügbar.');
+    expect(email.text).not.toContain('Tom Teacher');
+    expect(email.text).not.toContain('abgelehnt');
+  });
+
+  it('renders the admin row of a decline with the declining teacher from the message', () => {
+    const email = renderNotificationEmail(
+      row({ message: 'Tom Teacher hat eine Probestunde mit Mia (Klavier) abgelehnt. Die Probestunde ist jetzt für andere Lehrer verfügbar.' }),
+      APP_URL
+    );
+
+    expect(email.text).toContain('Tom Teacher hat eine Probestunde mit Mia (Klavier) abgelehnt.');
+    expect(email.text.startsWith('Hallo Anna Admin,')).toBe(true);
+    expect(email.text).toContain(`Postfach: ${APP_URL}/inbox`);
+  });
+
+  it('lists each open-trial row once in the digest', () => {
+    const digest = renderDigestEmail(
+      [
+        row({ notification_id: 'n1', message: 'Eine neue offene Probestunde mit Mia (Klavier) ist verfügbar.' }),
+        row({ notification_id: 'n2', type: 'assigned_trial', trial_student_name: 'Ben', trial_instrument: 'Gitarre' }),
+      ],
+      APP_URL
+    );
+
+    expect(digest.subject).toBe('[Musikakademie] Tägliche Zusammenfassung: 2 Benachrichtigungen');
+    expect(digest.text.match(/Probestunde offen: Mia/g)).toHaveLength(1);
+    expect(digest.text).toContain('Eine neue offene Probestunde mit Mia (Klavier) ist verfügbar.');
+    expect(digest.text).toContain('Neue Probestunde: Ben');
+  });
+});
@@ -0,0 +1,167 @@
+import {
+  SepaCollectionItem,
+  SepaCreditor,
+  buildPain008Xml,
+  getSequenceType,
+  isValidBic,
+  isValidIban,
+  toSepaText,
+  validateCollectionItems,
+  validateCreditor,
+} from '@/lib/sepa/pain008';
+
+const creditor: SepaCreditor = {
+  name: 'Musikakademie München',
+  iban: 'DE89 3704 0044 0532 0130 00',
+  bic: 'COBADEFFXXX',
+  creditorId: 'DE98ZZZ09999999999',
+};
+
+const item = (overrides: Partial<SepaCollectionItem>): SepaCollectionItem => ({
+  contract_id: 'c1',
+  student_id: 's1',
+  student_name: 'Mia Müller',
+  student_bank_id: 'b1',
+  variant_name: 'Einzelunterricht 45',
+  amount: 89.5,
+  bank_record_id: 'b1',
+  account_holder_name: 'Jörg Müller',
+  iban: 'GB82WEST12345698765432',
+  bic: null,
+  mandate_reference: 'MA-2025-001',
+  mandate_date: '2025-01-15',
+  first_collected_at: null,
+  ...overrides,
+});
+
+const tagOrder = (xml: string, tags: string[]) => tags.map(tag => xml.indexOf(`<${tag}>`));
+
+describe('IBAN, BIC and creditor validation', () => {
+  it('checks the IBAN mod-97 checksum', () => {
+    expect(isValidIban('DE89370400440532013000')).toBe(true);
+    expect(isValidIban('de89 3704 0044 0532 0130 00')).toBe(true);
+    expect(isValidIban('DE89370400440532013001')).toBe(false);
+    expect(isValidIban('DE8937040044')).toBe(false);
+    expect(isValidIban(null)).toBe(false);
+  });
+
+  it('accepts BICs with 8 or 11 characters', () => {
+    expect(isValidBic('COBADEFF')).toBe(true);
+    expect(isValidBic('cobadeffxxx')).toBe(true);
+    expect(isValidBic('COBADEF')).toBe(false);
+    expect(isValidBic('COBADEFFXX')).toBe(false);
+  });
+
+  it('reports missing or invalid creditor data', () => {
+    expect(validateCreditor(creditor)).toEqual([]);
+    expect(validateCreditor({ ...creditor, name: ' ', iban: 'DE00', bic: 'XX', creditorId: 'ZZZ' })).toEqual([
+      'Name des Zahlungsempfängers fehlt',
+      'IBAN des Zahlungsempfängers ist ungültig',
+      'BIC des Zahlungsempfängers ist ungültig',
+      'Gläubiger-Identifikationsnummer fehlt oder ist ungültig',
+    ]);
+  });
+});
+
+describe('validateCollectionItems', () => {
+  it('separates valid items from items with mandate problems', () => {
+    const report = validateCollectionItems(
+      [
+        item({ contract_id: 'ok' }),
+        item({ contract_id: 'no-bank', bank_record_id: null }),
+        item({ contract_id: 'bad', iban: 'DE89370400440532013001', mandate_reference: 'MA_2025#1', mandate_date: '2025-11-01', amount: 0 }),
+      ],
+      '2025-10-02'
+    );
+
+    expect(report.valid.map(i => i.contract_id)).toEqual(['ok']);
+    expect(report.issues.map(i => [i.item.contract_id, i.problems])).toEqual([
+      ['no-bank', ['Keine Bankverbindung hinterlegt']],
+      ['bad', [
+        'IBAN ist ungültig',
+        'Mandatsreferenz enthält unzulässige Zeichen',
+        'Mandat ist erst nach dem Einzugsdatum gültig',
+        'Kein Betrag ermittelbar',
+      ]],
+    ]);
+  });
+});
+
+describe('toSepaText', () => {
+  it('transliterates umlauts and replaces characters outside the SEPA set', () => {
+    expect(toSepaText('Jörg Müller & Söhne', 70)).toBe('Joerg Mueller Soehne');
+    expect(toSepaText('Crème brûlée', 70)).toBe('Creme brulee');
+    expect(toSepaText('Straße 12', 5)).toBe('Stras');
+  });
+});
+
+describe('buildPain008Xml', () => {
+  const items = [
+    item({ contract_id: 'first', amount: 89.5 }),
+    item({ contract_id: 'recurring-1', amount: 0.1, first_collected_at: '2025-09-02', bic: 'COBADEFFXXX' }),
+    item({ contract_id: 'recurring-2', amount: 0.2, first_collected_at: '2025-09-02' }),
+  ];
+  const xml = buildPain008Xml({
+    creditor,
+    messageId: 'MA-2025-10',
+    collectionDate: '2025-10-02',
+    remittancePrefix: 'Unterricht 10/2025',
+    items,
+  });
+
+  it('groups first and recurring collections into separate payment blocks', () => {
+    expect(getSequenceType(items[0])).toBe('FRST');
+    expect(getSequenceType(items[1])).toBe('RCUR');
+
+    const blocks = xml.split('<PmtInf>').slice(1);
+    expect(blocks).toHaveLength(2);
+    expect(blocks[0]).toContain('<SeqTp>FRST</SeqTp>');
+    expect(blocks[0].match(/<DrctDbtTxInf>/g)).toHaveLength(1);
+    expect(blocks[1]).toContain('<SeqTp>RCUR</SeqTp>');
+    expect(blocks[1].match(/<DrctDbtTxInf>/g)).toHaveLength(2);
+  });
+
+  it('writes transaction counts and control sums per file and per block', () => {
+    const header = xml.slice(xml.indexOf('<GrpHdr>'), xml.indexOf('</GrpHdr>'));
+    expect(header).toContain('<NbOfTxs>3</NbOfTxs>');
+    expect(header).toContain('<CtrlSum>89.80</CtrlSum>');
+
+    const [first, recurring] = xml.split('<PmtInf>').slice(1);
+    expect(first).toContain('<NbOfTxs>1</NbOfTxs>');
+    expect(first).toContain('<CtrlSum>89.50</CtrlSum>');
+    expect(recurring).toContain('<CtrlSum>0.30</CtrlSum>');
+    expect(recurring).toContain('<InstdAmt Ccy="EUR">0.10</InstdAmt>');
+  });
+
+  it('keeps the element order of the pain.008.001.02 schema', () => {
+    const header = tagOrder(xml, ['GrpHdr', 'MsgId', 'CreDtTm', 'NbOfTxs', 'CtrlSum', 'InitgPty']);
+    expect(header).toEqual([...header].sort((a, b) => a - b));
+
+    const block = xml.split('<PmtInf>')[1];
+    const blockOrder = tagOrder(block, [
+      'PmtInfId', 'PmtMtd', 'BtchBookg', 'NbOfTxs', 'CtrlSum', 'PmtTpInf', 'ReqdColltnDt',
+      'Cdtr', 'CdtrAcct', 'CdtrAgt', 'ChrgBr', 'CdtrSchmeId', 'DrctDbtTxInf',
+    ]);
+    expect(blockOrder.every(position => position >= 0)).toBe(true);
+    expect(blockOrder).toEqual([...blockOrder].sort((a, b) => a - b));
+
+    const transaction = block.slice(block.indexOf('<DrctDbtTxInf>'));
+    const transactionOrder = tagOrder(transaction, [
+      'PmtId', 'DrctDbtTx', 'MndtId', 'DtOfSgntr', 'DbtrAgt', 'Dbtr', 'DbtrAcct', 'RmtInf',
+    ]);
+    expect(transactionOrder).toEqual([...transactionOrder].sort((a, b) => a - b));
+  });
+
+  it('writes debtor data, mandate and a fallback agent without BIC', () => {
+    const transaction = xml.split('<DrctDbtTxInf>')[1];
+    expect(transaction).toContain('<EndToEndId>MA-2025-10-1</EndToEndId>');
+    expect(transaction).toContain('<MndtId>MA-2025-001</MndtId>');
+    expect(transaction).toContain('<DtOfSgntr>2025-01-15</DtOfSgntr>');
+    expect(transaction).toContain('<Dbtr><Nm>Joerg Mueller</Nm></Dbtr>');
+    expect(transaction).toContain('<IBAN>GB82WEST12345698765432</IBAN>');
+    expect(transaction).toContain('<DbtrAgt><FinInstnId><Othr><Id>NOTPROVIDED</Id></Othr></FinInstnId></DbtrAgt>');
+    expect(transaction).toContain('<Ustrd>Unterricht 10/2025 Mia Mueller Einzelunterricht 45</Ustrd>');
+    expect(xml).toContain('<Id>DE98ZZZ09999999999</Id>');
+    expect(xml).toContain('<IBAN>DE89370400440532013000</IBAN>');
+  });
+});
@@ -0,0 +1,85 @@
+import { dedupeICalEvents, parseICal } from '@/lib/calendar/parseICal';
+
+const calendar = (...lines: string[]) =>
+  ['BEGIN:VCALENDAR', 'VERSION:2.0', ...lines, 'END:VCALENDAR'].join('\r\n');
+
+describe('parseICal', () => {
+  it('reads all-day events with an exclusive DTEND as inclusive end date', () => {
+    const events = parseICal(calendar(
+      'BEGIN:VEVENT',
+      'UID:herbst-2025@ferien',
+      'SUMMARY:Herbstferien Bayern',
+      'DTSTART;VALUE=DATE:20251103',
+      'DTEND;VALUE=DATE:20251108',
+      'END:VEVENT'
+    ));
+
+    expect(events).toEqual([
+      { uid: 'herbst-2025@ferien', summary: 'Herbstferien Bayern', start_date: '2025-11-03', end_date: '2025-11-07' },
+    ]);
+  });
+
+  it('treats events without DTEND or with DTEND on the start day as one day', () => {
+    const events = parseICal(calendar(
+      'BEGIN:VEVENT',
+      'SUMMARY:Buß- und Bettag',
+      'DTSTART;VALUE=DATE:20251119',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART:20251231T000000Z',
+      'DTEND:20251231T120000Z',
+      'END:VEVENT'
+    ));
+
+    expect(events.map(e => [e.uid, e.summary, e.start_date, e.end_date])).toEqual([
+      [null, 'Buß- und Bettag', '2025-11-19', '2025-11-19'],
+      [null, 'Ferien', '2025-12-31', '2025-12-31'],
+    ]);
+  });
+
+  it('unfolds continuation lines and unescapes text', () => {
+    const events = parseICal('\uFEFF' + calendar(
+      'BEGIN:VEVENT',
+      'SUMMARY:Weihnachtsferien\\, Bayern\\;',
+      '  (Schuljahr 2025/26)',
+      'DTSTART;VALUE=DATE:20251222',
+      'DTEND;VALUE=DATE:2026',
+      '\t0106',
+      'END:VEVENT'
+    ));
+
+    expect(events).toEqual([
+      { uid: null, summary: 'Weihnachtsferien, Bayern; (Schuljahr 2025/26)', start_date: '2025-12-22', end_date: '2026-01-05' },
+    ]);
+  });
+
+  it('skips events without start date and lines outside events', () => {
+    const events = parseICal(calendar(
+      'X-WR-CALNAME:Ferien',
+      'BEGIN:VEVENT',
+      'SUMMARY:Ohne Datum',
+      'END:VEVENT'
+    ));
+
+    expect(events).toEqual([]);
+  });
+});
+
+describe('dedupeICalEvents', () => {
+  it('keeps the last event per UID and all events without UID', () => {
+    const events = [
+      { uid: 'a', summary: 'Osterferien', start_date: '2026-03-30', end_date: '2026-04-10' },
+      { uid: null, summary: 'Schließtag', start_date: '2026-05-15', end_date: '2026-05-15' },
+      { uid: 'b', summary: 'Pfingstferien', start_date: '2026-05-26', end_date: '2026-06-05' },
+      { uid: 'a', summary: 'Osterferien (geändert)', start_date: '2026-03-30', end_date: '2026-04-11' },
+      { uid: null, summary: 'Schließtag', start_date: '2026-05-15', end_date: '2026-05-15' },
+    ];
+
+    expect(dedupeICalEvents(events).map(e => e.summary)).toEqual([
+      'Schließtag',
+      'Pfingstferien',
+      'Osterferien (geändert)',
+      'Schließtag',
+    ]);
+  });
+});
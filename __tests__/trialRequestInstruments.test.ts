@@ -0,0 +1,8 @@
+import { INSTRUMENTS } from '@/lib/constants';
+import { TRIAL_REQUEST_INSTRUMENTS } from '../supabase/functions/_shared/instruments';
+
+describe('trial request instruments', () => {
+  it('matches the instruments offered in the public form', () => {
+    expect(TRIAL_REQUEST_INSTRUMENTS).toEqual(INSTRUMENTS.filter(instrument => instrument !== 'andere'));
+  });
+});
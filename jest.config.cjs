@@ -0,0 +1,13 @@
+// Tests in __tests__/; TypeScript is compiled by ts-jest with tsconfig.test.json.
+// teacherOnboarding.test.cjs runs against a live project and needs SUPABASE_URL and
+// SUPABASE_SERVICE_ROLE_KEY in .env.
+module.exports = {
+  testEnvironment: 'node',
+  testMatch: ['<rootDir>/__tests__/**/*.test.{ts,cjs}'],
+  transform: {
+    '^.+\\.ts$': ['ts-jest', { tsconfig: 'tsconfig.test.json' }],
+  },
+  moduleNameMapper: {
+    '^@/(.*)$': '<rootDir>/src/$1',
+  },
+};
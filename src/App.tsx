@@ -5,10 +5,21 @@ import { StudentsTab } from '@/components/tabs/StudentsTab';
 import { TeachersTab } from '@/components/tabs/TeachersTab';
 import { ContractsTab } from '@/components/tabs/ContractsTab';
 import { TrialAppointmentsTab } from '@/components/tabs/TrialAppointmentsTab';
+import { TrialAnalyticsTab } from '@/components/tabs/TrialAnalyticsTab';
+import { AuditLogTab } from '@/components/tabs/AuditLogTab';
 import { NotificationsTab } from '@/components/tabs/NotificationsTab';
+import { ScheduleTab } from '@/components/tabs/ScheduleTab';
+import { InvoicesTab } from '@/components/tabs/InvoicesTab';
+import { DirectDebitTab } from '@/components/tabs/DirectDebitTab';
+import { PayrollTab } from '@/components/tabs/PayrollTab';
+import { ImportTab } from '@/components/tabs/ImportTab';
+import { TariffsTab } from '@/components/tabs/TariffsTab';
+import { RenewalsTab } from '@/components/tabs/RenewalsTab';
+import { StudentProfilePage } from '@/components/StudentProfilePage';
 import DatenschutzPage from '@/components/DatenschutzPage';
 import { PrivacyPolicyPage } from '@/components/PrivacyPolicyPage';
 import ImpressumPage from '@/components/ImpressumPage';
+import { TrialRequestPage } from '@/components/TrialRequestPage';
 import { useAuth } from '@/hooks/useAuth';
 import { Toaster } from 'sonner';
 import RegisterPage from '@/components/RegisterPage';
@@ -72,6 +83,10 @@ function App() {
           path="/impressum" 
           element={<ImpressumPage />} 
         />
+        <Route 
+          path="/probestunde" 
+          element={<TrialRequestPage />} 
+        />
         <Route 
           path="/" 
           element={user ? <Layout><Navigate to="/students" replace /></Layout> : <Navigate to="/login" replace />} 
@@ -80,6 +95,10 @@ function App() {
           path="/students" 
           element={user ? <Layout><StudentsTab /></Layout> : <Navigate to="/login" replace />} 
         />
+        <Route 
+          path="/students/:id" 
+          element={user ? <Layout><StudentProfilePage /></Layout> : <Navigate to="/login" replace />} 
+        />
         <Route 
           path="/teachers" 
           element={user ? <Layout><TeachersTab /></Layout> : <Navigate to="/login" replace />} 
@@ -92,6 +111,42 @@ function App() {
           path="/trials" 
           element={user ? <Layout><TrialAppointmentsTab /></Layout> : <Navigate to="/login" replace />} 
         />
+        <Route 
+          path="/trial-analytics" 
+          element={user ? <Layout><TrialAnalyticsTab /></Layout> : <Navigate to="/login" replace />} 
+        />
+        <Route 
+          path="/audit-log" 
+          element={user ? <Layout><AuditLogTab /></Layout> : <Navigate to="/login" replace />} 
+        />
+        <Route 
+          path="/schedule" 
+          element={user ? <Layout><ScheduleTab /></Layout> : <Navigate to="/login" replace />} 
+        />
+        <Route 
+          path="/renewals" 
+          element={user ? <Layout><RenewalsTab /></Layout> : <Navigate to="/login" replace />} 
+        />
+        <Route 
+          path="/invoices" 
+          element={user ? <Layout><InvoicesTab /></Layout> : <Navigate to="/login" replace />} 
+        />
+        <Route 
+          path="/sepa" 
+          element={user ? <Layout><DirectDebitTab /></Layout> : <Navigate to="/login" replace />} 
+        />
+        <Route 
+          path="/payroll" 
+          element={user ? <Layout><PayrollTab /></Layout> : <Navigate to="/login" replace />} 
+        />
+        <Route 
+          path="/tariffs" 
+          element={user ? <Layout><TariffsTab /></Layout> : <Navigate to="/login" replace />} 
+        />
+        <Route 
+          path="/import" 
+          element={user ? <Layout><ImportTab /></Layout> : <Navigate to="/login" replace />} 
+        />
         <Route 
           path="/inbox" 
           element={user ? <Layout><NotificationsTab /></Layout> : <Navigate to="/login" replace />} 
@@ -0,0 +1,117 @@
+import { useState } from 'react';
+import { AuditLogEntry, AuditTable } from '@/lib/supabase';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Badge } from '@/components/ui/badge';
+import { ChevronDown, History, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { getAuditHistory } from '@/lib/actions/auditActions';
+import { AUDIT_ACTION_LABELS, fmtAuditTime, getAuditChanges } from '@/lib/audit/auditLog';
+
+interface AuditHistoryProps {
+  table: AuditTable;
+  recordId: string;
+  // List the changes of all rows below recordId, e.g. the lessons of a contract
+  byParent?: boolean;
+}
+
+const ACTION_STYLES = {
+  insert: 'bg-green-50 text-green-700 border-green-200',
+  update: 'bg-blue-50 text-blue-700 border-blue-200',
+  delete: 'bg-red-50 text-red-700 border-red-200',
+};
+
+export function AuditEntryChanges({ entry }: { entry: AuditLogEntry }) {
+  const changes = getAuditChanges(entry);
+
+  if (changes.length === 0) {
+    return <p className="text-xs text-gray-500">Keine Details</p>;
+  }
+
+  return (
+    <ul className="space-y-0.5">
+      {changes.map(change => (
+        <li key={change.field} className="text-xs text-gray-700 break-words">
+          <span className="font-medium">{change.label}:</span>{' '}
+          {entry.action === 'update' ? (
+            <>
+              <span className="text-gray-500 line-through">{change.before}</span>
+              {' → '}
+              <span>{change.after}</span>
+            </>
+          ) : entry.action === 'insert' ? change.after : change.before}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function AuditActionBadge({ entry }: { entry: AuditLogEntry }) {
+  return (
+    <Badge variant="outline" className={ACTION_STYLES[entry.action]}>
+      {AUDIT_ACTION_LABELS[entry.action]}
+    </Badge>
+  );
+}
+
+export function AuditHistory({ table, recordId, byParent = false }: AuditHistoryProps) {
+  const [open, setOpen] = useState(false);
+  const [entries, setEntries] = useState<AuditLogEntry[] | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const handleOpenChange = async (value: boolean) => {
+    setOpen(value);
+    if (!value || entries) return;
+
+    setLoading(true);
+    try {
+      setEntries(await getAuditHistory(table, recordId, byParent));
+    } catch (error) {
+      console.error('Error loading history:', error);
+      toast.error('Fehler beim Laden des Verlaufs', {
+        description: error instanceof Error ? error.message : 'Unbekannter Fehler'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Collapsible open={open} onOpenChange={handleOpenChange} className="border rounded-md">
+      <CollapsibleTrigger className="flex w-full items-center justify-between px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50">
+        <span className="flex items-center gap-2">
+          <History className="h-4 w-4" />
+          Verlauf
+        </span>
+        <ChevronDown className={`h-4 w-4 transition-transform ${open ? 'rotate-180' : ''}`} />
+      </CollapsibleTrigger>
+      <CollapsibleContent className="border-t px-3 py-2">
+        {loading ? (
+          <div className="flex items-center justify-center py-4">
+            <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+          </div>
+        ) : !entries || entries.length === 0 ? (
+          <p className="text-sm text-gray-500 py-2">Noch keine Änderungen erfasst</p>
+        ) : (
+          <div className="max-h-64 overflow-y-auto">
+            <ol className="space-y-3">
+              {entries.map(entry => (
+                <li key={entry.id} className="space-y-1">
+                  <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500">
+                    <span>{fmtAuditTime(entry.created_at)}</span>
+                    <span>·</span>
+                    <span>{entry.actor?.full_name ?? 'System'}</span>
+                    <AuditActionBadge entry={entry} />
+                    {byParent && entry.record_label && (
+                      <span className="text-gray-700">{entry.record_label}</span>
+                    )}
+                  </div>
+                  <AuditEntryChanges entry={entry} />
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,52 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { Download } from 'lucide-react';
+import { toast } from 'sonner';
+import { EXPORT_FORMATS, ExportFormat } from '@/lib/export/exportRows';
+
+interface ExportMenuProps {
+  // Number of rows matching the current filters (undefined if only known after loading)
+  count?: number;
+  onExport: (format: ExportFormat) => Promise<void>;
+  className?: string;
+}
+
+export function ExportMenu({ count, onExport, className }: ExportMenuProps) {
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(true);
+    try {
+      await onExport(format);
+    } catch (error) {
+      console.error('Error exporting data:', error);
+      toast.error('Fehler beim Exportieren', {
+        description: error instanceof Error ? error.message : 'Unbekannter Fehler'
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" disabled={exporting || count === 0} className={className}>
+          <Download className="h-4 w-4 mr-2" />
+          {exporting ? 'Exportiere...' : 'Exportieren'}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel className="text-xs font-normal text-gray-500">
+          {count !== undefined ? `${count} Einträge (aktuelle Filter)` : 'Aktuelle Filter'}
+        </DropdownMenuLabel>
+        {EXPORT_FORMATS.map(format => (
+          <DropdownMenuItem key={format.value} onClick={() => handleExport(format.value)}>
+            {format.label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -3,6 +3,7 @@ import { Navigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 import { Sidebar } from '@/components/Sidebar';
 import { MobileNavigation } from '@/components/MobileNavigation';
+import { LessonQueueStatus } from '@/components/LessonQueueStatus';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { AlertCircle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
@@ -82,6 +83,8 @@ export function Layout({ children }: LayoutProps) {
           </div>
         </div>
       </main>
+
+      <LessonQueueStatus />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,56 @@
+import { AlertTriangle, CloudOff, RefreshCw } from 'lucide-react';
+import { useLessonQueueSync } from '@/hooks/useLessonQueue';
+import { retryQueuedLessonEdits } from '@/lib/offline/lessonQueue';
+
+// Connection and sync state of offline lesson edits; syncs the queue in the background
+export function LessonQueueStatus() {
+  const { online, entries } = useLessonQueueSync();
+
+  const conflicts = entries.filter(e => e.status === 'conflict').length;
+  const failed = entries.filter(e => e.status === 'error');
+  const open = entries.length - conflicts - failed.length;
+  const syncing = entries.some(e => e.status === 'syncing');
+
+  if (online && entries.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 left-4 z-50 flex flex-col gap-2 text-sm">
+      {(!online || open > 0) && (
+        <div className="flex items-center gap-2 rounded-full bg-white border border-gray-200 shadow-md px-3 py-1.5 text-gray-700">
+          {online ? (
+            <RefreshCw className={`h-4 w-4 text-brand-primary ${syncing ? 'animate-spin' : ''}`} />
+          ) : (
+            <CloudOff className="h-4 w-4 text-amber-500" />
+          )}
+          <span>
+            {!online ? 'Offline' : syncing ? 'Synchronisiere' : 'Wartet auf Synchronisierung'}
+            {open > 0 && ` · ${open} ${open === 1 ? 'Stunde' : 'Stunden'} lokal gespeichert`}
+          </span>
+        </div>
+      )}
+      {conflicts > 0 && (
+        <div className="flex items-center gap-2 rounded-full bg-red-50 border border-red-200 shadow-md px-3 py-1.5 text-red-700">
+          <AlertTriangle className="h-4 w-4" />
+          <span>{conflicts} {conflicts === 1 ? 'Konflikt' : 'Konflikte'} – bitte in der Stundenverfolgung prüfen</span>
+        </div>
+      )}
+      {failed.length > 0 && (
+        <div className="flex items-center gap-2 rounded-full bg-red-50 border border-red-200 shadow-md px-3 py-1.5 text-red-700">
+          <AlertTriangle className="h-4 w-4" />
+          <span>
+            {failed.length} {failed.length === 1 ? 'Stunde' : 'Stunden'} nicht synchronisiert – bitte in der Stundenverfolgung prüfen
+          </span>
+          {online && (
+            <button
+              type="button"
+              onClick={() => retryQueuedLessonEdits(failed.map(e => e.lesson_id))}
+              className="ml-1 font-medium underline hover:no-underline"
+            >
+              Erneut versuchen
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
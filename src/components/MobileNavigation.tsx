@@ -1,15 +1,17 @@
 import { useState } from 'react';
 import { NavLink, useNavigate, Link } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
+import { useUnreadNotifications } from '@/hooks/useUnreadNotifications';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { Sheet, SheetContent, SheetTrigger, SheetHeader, SheetTitle } from '@/components/ui/sheet';
-import { LogOut, Users, GraduationCap, FileText, Clock, Bell, Menu, Loader2 } from 'lucide-react';
+import { LogOut, Users, GraduationCap, FileText, RefreshCw, Receipt, Landmark, CalendarDays, Wallet, Tags, Upload, Clock, Bell, BarChart3, History, Menu, Loader2 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { toast } from 'sonner';
 
 export function MobileNavigation() {
   const { profile, signOut } = useAuth();
+  const unreadCount = useUnreadNotifications();
   const [isOpen, setIsOpen] = useState(false);
   const [isSigningOut, setIsSigningOut] = useState(false);
   const navigate = useNavigate();
@@ -75,6 +77,29 @@ export function MobileNavigation() {
       href: '/contracts',
       icon: FileText,
     },
+    ...(profile?.role === 'admin' ? [{
+      name: 'Verlängerungen',
+      href: '/renewals',
+      icon: RefreshCw,
+    }, {
+      name: 'Rechnungen',
+      href: '/invoices',
+      icon: Receipt,
+    }, {
+      name: 'Lastschrift',
+      href: '/sepa',
+      icon: Landmark,
+    }] : []),
+    {
+      name: 'Stundenplan',
+      href: '/schedule',
+      icon: CalendarDays,
+    },
+    {
+      name: 'Honorare',
+      href: '/payroll',
+      icon: Wallet,
+    },
     {
       name: 'Probestunden',
       href: '/trials',
@@ -84,7 +109,25 @@ export function MobileNavigation() {
       name: 'Postfach',
       href: '/inbox',
       icon: Bell,
+      badge: unreadCount,
     },
+    ...(profile?.role === 'admin' ? [{
+      name: 'Auswertung',
+      href: '/trial-analytics',
+      icon: BarChart3,
+    }, {
+      name: 'Tarife',
+      href: '/tariffs',
+      icon: Tags,
+    }, {
+      name: 'Import',
+      href: '/import',
+      icon: Upload,
+    }, {
+      name: 'Protokoll',
+      href: '/audit-log',
+      icon: History,
+    }] : []),
   ];
 
   return (
@@ -113,9 +156,12 @@ export function MobileNavigation() {
             <Button 
               variant="ghost" 
               size="sm"
-              className="p-2 hover:bg-gray-100"
+              className="relative p-2 hover:bg-gray-100"
             >
               <Menu className="h-6 w-6 text-gray-700" />
+              {unreadCount > 0 && (
+                <span className="absolute top-1 right-1 h-2.5 w-2.5 rounded-full bg-red-500" aria-label={`${unreadCount} ungelesene Benachrichtigungen`} />
+              )}
             </Button>
           </SheetTrigger>
           <SheetContent side="right" className="w-80 p-0">
@@ -170,6 +216,11 @@ export function MobileNavigation() {
                     >
                       <Icon className="h-5 w-5" />
                       <span>{item.name}</span>
+                      {!!item.badge && (
+                        <span className="!ml-auto min-w-6 rounded-full bg-red-500 px-2 py-0.5 text-center text-xs font-semibold text-white">
+                          {item.badge > 99 ? '99+' : item.badge}
+                        </span>
+                      )}
                     </NavLink>
                   );
                 })}
@@ -0,0 +1,58 @@
+import { useState, useEffect } from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Mail } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  EmailFrequency,
+  getNotificationEmailFrequency,
+  saveNotificationEmailFrequency
+} from '@/lib/actions/notificationEmailActions';
+
+const FREQUENCY_LABELS: Record<EmailFrequency, string> = {
+  instant: 'E-Mail sofort',
+  daily: 'Tägliche Zusammenfassung',
+  off: 'Keine E-Mails',
+};
+
+interface NotificationEmailPreferenceProps {
+  profileId: string;
+}
+
+export function NotificationEmailPreference({ profileId }: NotificationEmailPreferenceProps) {
+  const [frequency, setFrequency] = useState<EmailFrequency | null>(null);
+
+  useEffect(() => {
+    getNotificationEmailFrequency(profileId)
+      .then(setFrequency)
+      .catch(error => console.error('Error loading email preference:', error));
+  }, [profileId]);
+
+  const handleChange = async (value: string) => {
+    const previous = frequency;
+    setFrequency(value as EmailFrequency);
+    try {
+      await saveNotificationEmailFrequency(profileId, value as EmailFrequency);
+      toast.success('E-Mail-Einstellung gespeichert');
+    } catch (error) {
+      console.error('Error saving email preference:', error);
+      setFrequency(previous);
+      toast.error('Fehler beim Speichern der E-Mail-Einstellung', {
+        description: error instanceof Error ? error.message : 'Unbekannter Fehler'
+      });
+    }
+  };
+
+  return (
+    <Select value={frequency ?? undefined} onValueChange={handleChange} disabled={!frequency}>
+      <SelectTrigger className="w-[230px]" title="E-Mail-Benachrichtigungen">
+        <Mail className="h-4 w-4 mr-2 text-gray-500" />
+        <SelectValue placeholder="E-Mail-Einstellung" />
+      </SelectTrigger>
+      <SelectContent>
+        {(Object.keys(FREQUENCY_LABELS) as EmailFrequency[]).map(value => (
+          <SelectItem key={value} value={value}>{FREQUENCY_LABELS[value]}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
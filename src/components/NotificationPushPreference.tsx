@@ -0,0 +1,63 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Bell, BellOff } from 'lucide-react';
+import { toast } from 'sonner';
+import { getPushSubscription, isPushSupported, subscribeToPush, unsubscribeFromPush } from '@/lib/pwa/serviceWorker';
+
+// Push on this device for new trial assignments and fulfilled contracts
+export function NotificationPushPreference() {
+  const [subscribed, setSubscribed] = useState<boolean | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isPushSupported()) return;
+    getPushSubscription()
+      .then(subscription => setSubscribed(!!subscription))
+      .catch(error => console.error('Error loading push subscription:', error));
+  }, []);
+
+  if (!isPushSupported()) return null;
+
+  const blocked = Notification.permission === 'denied';
+
+  const handleToggle = async () => {
+    setSaving(true);
+    try {
+      if (subscribed) {
+        await unsubscribeFromPush();
+        setSubscribed(false);
+        toast.success('Push-Benachrichtigungen deaktiviert');
+      } else if (await subscribeToPush()) {
+        setSubscribed(true);
+        toast.success('Push-Benachrichtigungen aktiviert');
+      } else {
+        toast.error('Push-Benachrichtigungen nicht erlaubt', {
+          description: 'Bitte Benachrichtigungen in den Browser-Einstellungen zulassen.'
+        });
+      }
+    } catch (error) {
+      console.error('Error changing push subscription:', error);
+      toast.error('Fehler beim Ändern der Push-Einstellung', {
+        description: error instanceof Error ? error.message : 'Unbekannter Fehler'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Button
+      variant="outline"
+      onClick={handleToggle}
+      disabled={saving || subscribed === null || (blocked && !subscribed)}
+      title={blocked ? 'Benachrichtigungen sind im Browser blockiert' : 'Push-Benachrichtigungen auf diesem Gerät'}
+    >
+      {subscribed ? (
+        <Bell className="h-4 w-4 mr-2 text-brand-primary" />
+      ) : (
+        <BellOff className="h-4 w-4 mr-2 text-gray-500" />
+      )}
+      {subscribed ? 'Push an' : 'Push aus'}
+    </Button>
+  );
+}
@@ -0,0 +1,373 @@
+import { useState, useEffect, useMemo } from 'react';
+import { ContractVariant, ContractDiscount, PriceVersionMigration } from '@/lib/supabase';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertTriangle } from 'lucide-react';
+import { toast } from 'sonner';
+import { fmtDate } from '@/lib/utils';
+import {
+  RolloutStudent,
+  RolloutContract,
+  summarizePriceVersions,
+  simulateRollout
+} from '@/lib/pricing/priceVersionRollout';
+import {
+  getRolloutData,
+  getPriceVersionMigrations,
+  migrateStudentsPriceVersion
+} from '@/lib/actions/priceVersionActions';
+
+interface PriceVersionRolloutProps {
+  variants: ContractVariant[];
+  discounts: ContractDiscount[];
+  currentPriceVersion: number | null;
+}
+
+// Select values are strings; students without a version are grouped under this key
+const NO_VERSION = 'none';
+
+const formatAmount = (amount: number) => `${amount.toFixed(2)}€`;
+
+const formatDelta = (amount: number) => {
+  if (amount === 0) return '±0.00€';
+  return `${amount > 0 ? '+' : ''}${amount.toFixed(2)}€`;
+};
+
+const deltaClass = (amount: number) =>
+  amount > 0 ? 'text-green-700' : amount < 0 ? 'text-red-700' : 'text-gray-500';
+
+export function PriceVersionRollout({ variants, discounts, currentPriceVersion }: PriceVersionRolloutProps) {
+  const [students, setStudents] = useState<RolloutStudent[]>([]);
+  const [contracts, setContracts] = useState<RolloutContract[]>([]);
+  const [history, setHistory] = useState<PriceVersionMigration[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [fromVersion, setFromVersion] = useState<string | null>(null);
+  const [toVersion, setToVersion] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [onlyWithContracts, setOnlyWithContracts] = useState(true);
+  const [note, setNote] = useState('');
+  const [migrating, setMigrating] = useState(false);
+
+  useEffect(() => {
+    fetchRolloutData();
+  }, []);
+
+  const fetchRolloutData = async () => {
+    try {
+      const [data, migrations] = await Promise.all([getRolloutData(), getPriceVersionMigrations()]);
+      setStudents(data.students);
+      setContracts(data.contracts);
+      setHistory(migrations);
+    } catch (error) {
+      console.error('Error fetching price version rollout data:', error);
+      toast.error('Fehler beim Laden der Preisversionen', {
+        description: error instanceof Error ? error.message : 'Unbekannter Fehler'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const summaries = useMemo(() => summarizePriceVersions(students, contracts), [students, contracts]);
+
+  const targetVersions = useMemo(
+    () => Array.from(new Set(variants.filter(v => v.is_active && v.price_version != null).map(v => v.price_version as number)))
+      .sort((a, b) => b - a),
+    [variants]
+  );
+
+  // Defaults: move the oldest cohort to the current version
+  const selectedTo = toVersion ?? (currentPriceVersion != null ? String(currentPriceVersion) : targetVersions[0] != null ? String(targetVersions[0]) : '');
+  const sourceVersions = summaries.filter(s => String(s.price_version ?? NO_VERSION) !== selectedTo);
+  const selectedFrom = fromVersion ?? (sourceVersions.length > 0 ? String(sourceVersions[sourceVersions.length - 1].price_version ?? NO_VERSION) : '');
+
+  const simulation = useMemo(() => {
+    if (!selectedTo || !selectedFrom) return null;
+    const cohort = students.filter(s => String(s.price_version ?? NO_VERSION) === selectedFrom);
+    return simulateRollout(cohort, contracts, variants, discounts, Number(selectedTo));
+  }, [students, contracts, variants, discounts, selectedFrom, selectedTo]);
+
+  const visibleImpacts = (simulation?.students || []).filter(s => !onlyWithContracts || s.contracts.length > 0);
+  const selectedImpacts = visibleImpacts.filter(s => selectedIds.has(s.student.id));
+  const selectedMonthlyDelta = selectedImpacts.reduce((sum, s) => sum + s.monthly_delta, 0);
+  const selectedOneTimeDelta = selectedImpacts.reduce((sum, s) => sum + s.one_time_delta, 0);
+  const allSelected = visibleImpacts.length > 0 && selectedImpacts.length === visibleImpacts.length;
+
+  const toggleStudent = (studentId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(studentId)) {
+        next.delete(studentId);
+      } else {
+        next.add(studentId);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(allSelected ? new Set() : new Set(visibleImpacts.map(s => s.student.id)));
+  };
+
+  const handleMigrate = async () => {
+    if (selectedImpacts.length === 0) return;
+
+    const missing = selectedImpacts.filter(s => s.has_missing_successor).length;
+    const warning = missing > 0
+      ? `\n\nFür ${missing} Schüler gibt es in Version ${selectedTo} nicht zu jedem Vertrag eine passende Variante.`
+      : '';
+    if (!window.confirm(
+      `${selectedImpacts.length} Schüler auf Preisversion ${selectedTo} umstellen? Laufende Verträge behalten ihren Preis, Folgeverträge werden zur neuen Version angeboten.${warning}`
+    )) {
+      return;
+    }
+
+    setMigrating(true);
+    try {
+      const migrated = await migrateStudentsPriceVersion(selectedImpacts.map(s => s.student.id), Number(selectedTo), note.trim());
+      toast.success(`${migrated} Schüler auf Preisversion ${selectedTo} umgestellt`);
+      setSelectedIds(new Set());
+      setNote('');
+      fetchRolloutData();
+    } catch (error) {
+      console.error('Error migrating price version:', error);
+      toast.error('Fehler beim Umstellen der Preisversion', {
+        description: error instanceof Error ? error.message : 'Unbekannter Fehler'
+      });
+    } finally {
+      setMigrating(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-32">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-brand-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Cohorts */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Kohorten</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Preisversion</TableHead>
+                <TableHead>Schüler (aktiv)</TableHead>
+                <TableHead>Aktive Verträge</TableHead>
+                <TableHead className="text-right">Monatlicher Umsatz</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {summaries.map(summary => (
+                <TableRow key={summary.price_version ?? NO_VERSION}>
+                  <TableCell className="font-medium">
+                    {summary.price_version ?? 'Ohne Version'}
+                    {summary.price_version === currentPriceVersion && (
+                      <Badge className="ml-2 bg-brand-primary hover:bg-brand-primary">aktuell</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>{summary.students} ({summary.active_students})</TableCell>
+                  <TableCell>{summary.active_contracts}</TableCell>
+                  <TableCell className="text-right">{formatAmount(summary.monthly_revenue)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Simulation and migration */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Umstellung simulieren</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+            <div className="space-y-2">
+              <Label>Von Version</Label>
+              <Select value={selectedFrom} onValueChange={(value) => { setFromVersion(value); setSelectedIds(new Set()); }}>
+                <SelectTrigger className="w-full sm:w-[180px]">
+                  <SelectValue placeholder="Version wählen" />
+                </SelectTrigger>
+                <SelectContent>
+                  {sourceVersions.map(summary => (
+                    <SelectItem key={summary.price_version ?? NO_VERSION} value={String(summary.price_version ?? NO_VERSION)}>
+                      {summary.price_version != null ? `Version ${summary.price_version}` : 'Ohne Version'}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Auf Version</Label>
+              <Select value={selectedTo} onValueChange={(value) => { setToVersion(value); setFromVersion(null); setSelectedIds(new Set()); }}>
+                <SelectTrigger className="w-full sm:w-[180px]">
+                  <SelectValue placeholder="Version wählen" />
+                </SelectTrigger>
+                <SelectContent>
+                  {targetVersions.map(version => (
+                    <SelectItem key={version} value={String(version)}>Version {version}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-700 sm:pb-2">
+              <Checkbox checked={onlyWithContracts} onCheckedChange={(checked) => setOnlyWithContracts(checked === true)} />
+              Nur Schüler mit aktiven Verträgen
+            </label>
+          </div>
+
+          {simulation && (
+            <>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div className="rounded-md border p-3">
+                  <p className="text-sm text-gray-500">Monatlich (alle)</p>
+                  <p className={`text-xl font-semibold ${deltaClass(simulation.monthly_delta)}`}>{formatDelta(simulation.monthly_delta)}</p>
+                </div>
+                <div className="rounded-md border p-3">
+                  <p className="text-sm text-gray-500">Einmalig (alle)</p>
+                  <p className={`text-xl font-semibold ${deltaClass(simulation.one_time_delta)}`}>{formatDelta(simulation.one_time_delta)}</p>
+                </div>
+                <div className="rounded-md border p-3">
+                  <p className="text-sm text-gray-500">Ausgewählt ({selectedImpacts.length})</p>
+                  <p className={`text-xl font-semibold ${deltaClass(selectedMonthlyDelta)}`}>
+                    {formatDelta(selectedMonthlyDelta)} / Monat
+                  </p>
+                  {selectedOneTimeDelta !== 0 && (
+                    <p className={`text-sm ${deltaClass(selectedOneTimeDelta)}`}>{formatDelta(selectedOneTimeDelta)} einmalig</p>
+                  )}
+                </div>
+              </div>
+              <p className="text-xs text-gray-500">
+                Die Differenz wirkt erst bei Folgeverträgen; laufende Verträge behalten ihren Preis.
+                Rabatte werden wie im bestehenden Vertrag übernommen.
+              </p>
+              {simulation.missing_successors > 0 && (
+                <div className="flex items-start gap-2 text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-md p-3">
+                  <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                  <span>
+                    Für {simulation.missing_successors} Verträge gibt es in Version {simulation.to_version} keine passende Variante.
+                  </span>
+                </div>
+              )}
+
+              <div className="border rounded-md">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-[40px]">
+                        <Checkbox checked={allSelected} onCheckedChange={toggleAll} />
+                      </TableHead>
+                      <TableHead>Schüler</TableHead>
+                      <TableHead>Verträge</TableHead>
+                      <TableHead className="text-right">Monatlich</TableHead>
+                      <TableHead className="text-right">Einmalig</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {visibleImpacts.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={5} className="text-center text-gray-500 py-8">
+                          Keine Schüler in dieser Version
+                        </TableCell>
+                      </TableRow>
+                    ) : visibleImpacts.map(impact => (
+                      <TableRow key={impact.student.id}>
+                        <TableCell>
+                          <Checkbox
+                            checked={selectedIds.has(impact.student.id)}
+                            onCheckedChange={() => toggleStudent(impact.student.id)}
+                          />
+                        </TableCell>
+                        <TableCell className="font-medium">
+                          {impact.student.name}
+                          {impact.student.status !== 'active' && <Badge variant="secondary" className="ml-2">Inaktiv</Badge>}
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {impact.contracts.map(c => (
+                            <div key={c.contract_id} className={c.new_price === null ? 'text-amber-700' : 'text-gray-700'}>
+                              {c.variant_name}: {formatAmount(c.current_price)} → {c.new_price != null ? formatAmount(c.new_price) : 'keine Variante'}
+                            </div>
+                          ))}
+                        </TableCell>
+                        <TableCell className={`text-right ${deltaClass(impact.monthly_delta)}`}>{formatDelta(impact.monthly_delta)}</TableCell>
+                        <TableCell className={`text-right ${deltaClass(impact.one_time_delta)}`}>{formatDelta(impact.one_time_delta)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+                <div className="space-y-2 flex-1">
+                  <Label htmlFor="rollout_note">Notiz (Audit)</Label>
+                  <Input
+                    id="rollout_note"
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                    placeholder="z.B. Preisanpassung zum Schuljahr"
+                  />
+                </div>
+                <Button
+                  onClick={handleMigrate}
+                  disabled={migrating || selectedImpacts.length === 0}
+                  className="bg-brand-primary hover:bg-brand-primary/90 focus:ring-brand-primary"
+                >
+                  {migrating ? 'Stelle um...' : `Ausgewählte umstellen (${selectedImpacts.length})`}
+                </Button>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Audit trail */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Verlauf</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Datum</TableHead>
+                <TableHead>Schüler</TableHead>
+                <TableHead>Umstellung</TableHead>
+                <TableHead>Notiz</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {history.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center text-gray-500 py-8">
+                    Noch keine Umstellungen
+                  </TableCell>
+                </TableRow>
+              ) : history.map(entry => (
+                <TableRow key={entry.id}>
+                  <TableCell>{fmtDate(entry.migrated_at)}</TableCell>
+                  <TableCell>{entry.student?.name || 'Unbekannt'}</TableCell>
+                  <TableCell>{entry.from_version ?? '-'} → {entry.to_version}</TableCell>
+                  <TableCell className="text-sm text-gray-600">{entry.note || '-'}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,14 +1,16 @@
 import { NavLink, Link } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
+import { useUnreadNotifications } from '@/hooks/useUnreadNotifications';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
-import { LogOut, Users, GraduationCap, FileText, Clock, Bell, Loader2 } from 'lucide-react';
+import { LogOut, Users, GraduationCap, FileText, RefreshCw, Receipt, Landmark, CalendarDays, Wallet, Tags, Upload, Clock, Bell, BarChart3, History, Loader2 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useState } from 'react';
 import { toast } from 'sonner';
 
 export function Sidebar() {
   const { profile, signOut } = useAuth();
+  const unreadCount = useUnreadNotifications();
   const [isSigningOut, setIsSigningOut] = useState(false);
 
   const handleSignOut = async () => {
@@ -64,6 +66,29 @@ export function Sidebar() {
       href: '/contracts',
       icon: FileText,
     },
+    ...(profile?.role === 'admin' ? [{
+      name: 'Verlängerungen',
+      href: '/renewals',
+      icon: RefreshCw,
+    }, {
+      name: 'Rechnungen',
+      href: '/invoices',
+      icon: Receipt,
+    }, {
+      name: 'Lastschrift',
+      href: '/sepa',
+      icon: Landmark,
+    }] : []),
+    {
+      name: 'Stundenplan',
+      href: '/schedule',
+      icon: CalendarDays,
+    },
+    {
+      name: 'Honorare',
+      href: '/payroll',
+      icon: Wallet,
+    },
     {
       name: 'Probestunden',
       href: '/trials',
@@ -73,7 +98,25 @@ export function Sidebar() {
       name: 'Postfach',
       href: '/inbox',
       icon: Bell,
+      badge: unreadCount,
     },
+    ...(profile?.role === 'admin' ? [{
+      name: 'Auswertung',
+      href: '/trial-analytics',
+      icon: BarChart3,
+    }, {
+      name: 'Tarife',
+      href: '/tariffs',
+      icon: Tags,
+    }, {
+      name: 'Import',
+      href: '/import',
+      icon: Upload,
+    }, {
+      name: 'Protokoll',
+      href: '/audit-log',
+      icon: History,
+    }] : []),
   ];
 
   return (
@@ -109,6 +152,11 @@ export function Sidebar() {
             >
               <Icon className="h-6 w-6" />
               <span>{item.name}</span>
+              {!!item.badge && (
+                <span className="!ml-auto min-w-6 rounded-full bg-red-500 px-2 py-0.5 text-center text-xs font-semibold text-white">
+                  {item.badge > 99 ? '99+' : item.badge}
+                </span>
+              )}
             </NavLink>
           );
         })}
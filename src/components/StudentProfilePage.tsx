@@ -0,0 +1,303 @@
+import { useState, useEffect } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { Contract, getContractTypeDisplay, getLegacyContractTypeDisplay } from '@/lib/supabase';
+import { useAuth } from '@/hooks/useAuth';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeft, User, FileText, Calendar, CreditCard, GraduationCap } from 'lucide-react';
+import { toast } from 'sonner';
+import { fmtDate } from '@/lib/utils';
+import { getStudentProfile, StudentProfile } from '@/lib/students/getStudentProfile';
+import { buildStudentTimeline, TimelineKind, TIMELINE_KINDS } from '@/lib/students/studentTimeline';
+import { GUARDIAN_ROLE_LABELS, sortGuardians } from '@/lib/students/guardians';
+
+const formatPrice = (price?: number | null) => (price != null ? `${Number(price).toFixed(2)}€` : '-');
+
+const TIMELINE_ICONS: Record<TimelineKind, typeof FileText> = {
+  contract: FileText,
+  lesson: Calendar,
+  payment: CreditCard,
+  trial: GraduationCap,
+};
+
+const getContractLabel = (contract: Contract) => {
+  if (contract.contract_variant) return getContractTypeDisplay(contract.contract_variant);
+  if (contract.type) return getLegacyContractTypeDisplay(contract.type);
+  return 'Unbekannt';
+};
+
+export function StudentProfilePage() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { profile: userProfile, isAdmin } = useAuth();
+  const [studentProfile, setStudentProfile] = useState<StudentProfile | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [timelineFilter, setTimelineFilter] = useState<TimelineKind | 'all'>('all');
+
+  useEffect(() => {
+    if (id) {
+      fetchProfile(id);
+    }
+  }, [id]);
+
+  const fetchProfile = async (studentId: string) => {
+    setLoading(true);
+    try {
+      setStudentProfile(await getStudentProfile(studentId));
+    } catch (error) {
+      console.error('Error fetching student profile:', error);
+      toast.error('Fehler beim Laden des Schülerprofils', {
+        description: error instanceof Error ? error.message : 'Unbekannter Fehler'
+      });
+      setStudentProfile(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading || !userProfile) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-brand-primary"></div>
+      </div>
+    );
+  }
+
+  // Teachers only see students they have (or had) a contract with
+  const hasAccess = isAdmin || !!studentProfile?.contracts.some(c => c.teacher?.profile_id === userProfile.id);
+
+  if (!studentProfile || !hasAccess) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <User className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+          <p className="text-gray-500">
+            {studentProfile ? 'Nur Administratoren und zugewiesene Lehrer können dieses Profil sehen.' : 'Schüler nicht gefunden.'}
+          </p>
+          <Button variant="outline" className="mt-4" onClick={() => navigate('/students')}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Zur Schülerliste
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const { student, contracts } = studentProfile;
+  const guardians = sortGuardians(student.guardians);
+  const timeline = buildStudentTimeline(studentProfile);
+  const visibleTimeline = timelineFilter === 'all' ? timeline : timeline.filter(entry => entry.kind === timelineFilter);
+
+  return (
+    <div className="h-full flex flex-col space-y-8">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">{student.name}</h1>
+          <p className="text-gray-600 mt-2">Stammdaten, Verträge, Stunden und Zahlungen</p>
+        </div>
+        <Button variant="outline" onClick={() => navigate(-1)}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Zurück
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Stammdaten</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <dl className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 text-sm">
+            <div>
+              <dt className="text-gray-500">Instrument</dt>
+              <dd className="font-medium">{student.instrument || '-'}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Status</dt>
+              <dd>
+                <Badge variant={student.status === 'active' ? 'default' : 'secondary'}>
+                  {student.status === 'active' ? 'Aktiv' : 'Inaktiv'}
+                </Badge>
+              </dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Bank-ID</dt>
+              <dd className="font-medium">{student.bank_id || '-'}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">E-Mail</dt>
+              <dd className="font-medium">{student.email || '-'}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Telefon</dt>
+              <dd className="font-medium">{student.phone || '-'}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Schüler seit</dt>
+              <dd className="font-medium">{fmtDate(student.created_at)}</dd>
+            </div>
+          </dl>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Erziehungsberechtigte & Kontakte</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {guardians.length === 0 ? (
+            <p className="text-sm text-gray-500">Keine Kontakte hinterlegt – der Schüler ist selbst Vertragspartner.</p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {guardians.map(guardian => (
+                <div key={guardian.id} className="border rounded-md p-4 text-sm space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium text-gray-900">{guardian.name}</span>
+                    <Badge variant="outline">{GUARDIAN_ROLE_LABELS[guardian.role]}</Badge>
+                    {guardian.is_contract_partner && <Badge>Vertragspartner</Badge>}
+                    {guardian.is_invoice_recipient && <Badge variant="secondary">Rechnungsempfänger</Badge>}
+                  </div>
+                  {guardian.email && <div className="text-gray-600">{guardian.email}</div>}
+                  {guardian.phone && <div className="text-gray-600">{guardian.phone}</div>}
+                  {guardian.address && <div className="text-gray-600">{guardian.address}</div>}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="space-y-4">
+        <h2 className="text-xl font-semibold text-gray-900">Verträge ({contracts.length})</h2>
+        {contracts.length === 0 ? (
+          <Card>
+            <CardContent className="py-8 text-center text-gray-500">Keine Verträge vorhanden</CardContent>
+          </Card>
+        ) : contracts.map(contract => (
+          <Card key={contract.id}>
+            <CardHeader>
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                <div>
+                  <CardTitle className="text-lg">{getContractLabel(contract)}</CardTitle>
+                  <p className="text-sm text-gray-600 mt-1">
+                    {contract.teacher?.name || 'Kein Lehrer'}
+                    {contract.term_start && ` · ${fmtDate(contract.term_start)}${contract.term_end ? ` – ${fmtDate(contract.term_end)}` : ''}`}
+                    {isAdmin && ` · ${formatPrice(contract.final_price)}`}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  {contract.previous_contract_id && <Badge variant="outline">Folgevertrag</Badge>}
+                  {contract.cancelled_at ? (
+                    <Badge variant="destructive">Gekündigt {fmtDate(contract.cancelled_at)}</Badge>
+                  ) : (
+                    <Badge variant={contract.status === 'active' ? 'default' : 'secondary'}>
+                      {contract.status === 'active' ? 'Aktiv' : 'Abgeschlossen'}
+                    </Badge>
+                  )}
+                  <Badge variant="outline">{contract.attendance_count}</Badge>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="p-0">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[60px]">Nr.</TableHead>
+                    <TableHead>Datum</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Kommentar</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {(contract.lessons || []).length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={4} className="text-center text-gray-500 py-6">
+                        Keine Stunden vorhanden
+                      </TableCell>
+                    </TableRow>
+                  ) : (contract.lessons || []).map(lesson => (
+                    <TableRow key={lesson.id}>
+                      <TableCell>{lesson.lesson_number}</TableCell>
+                      <TableCell>
+                        {lesson.date ? fmtDate(lesson.date) : lesson.planned_date ? (
+                          <span className="text-gray-500">geplant {fmtDate(lesson.planned_date)}</span>
+                        ) : '-'}
+                      </TableCell>
+                      <TableCell>
+                        {!lesson.is_available ? (
+                          <Badge variant="secondary">Ausgefallen</Badge>
+                        ) : lesson.date ? (
+                          <Badge variant="outline" className="border-green-200 text-green-700">Stattgefunden</Badge>
+                        ) : (
+                          <Badge variant="outline">Offen</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-700">{lesson.comment || '-'}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+            <CardTitle>Verlauf</CardTitle>
+            <div className="flex flex-wrap gap-2">
+              <Button
+                size="sm"
+                variant={timelineFilter === 'all' ? 'default' : 'outline'}
+                onClick={() => setTimelineFilter('all')}
+              >
+                Alle
+              </Button>
+              {TIMELINE_KINDS.map(kind => (
+                <Button
+                  key={kind.value}
+                  size="sm"
+                  variant={timelineFilter === kind.value ? 'default' : 'outline'}
+                  onClick={() => setTimelineFilter(kind.value)}
+                >
+                  {kind.label}
+                </Button>
+              ))}
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {visibleTimeline.length === 0 ? (
+            <p className="text-center text-gray-500 py-6">Keine Einträge</p>
+          ) : (
+            <ol className="space-y-4">
+              {visibleTimeline.map(entry => {
+                const Icon = TIMELINE_ICONS[entry.kind];
+                return (
+                  <li key={entry.id} className="flex gap-3">
+                    <div className="flex-shrink-0 h-8 w-8 rounded-full bg-gray-100 flex items-center justify-center">
+                      <Icon className="h-4 w-4 text-gray-600" />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium text-gray-900">{entry.title}</span>
+                        <span className="text-sm text-gray-500 whitespace-nowrap">{fmtDate(entry.date)}</span>
+                      </div>
+                      {(entry.detail || entry.amount != null) && (
+                        <p className="text-sm text-gray-600">
+                          {[entry.detail, entry.amount != null ? formatPrice(entry.amount) : null].filter(Boolean).join(' · ')}
+                        </p>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
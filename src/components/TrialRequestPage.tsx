@@ -0,0 +1,210 @@
+import { useState, useRef } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CheckCircle2 } from 'lucide-react';
+import { INSTRUMENTS } from '@/lib/constants';
+import { submitTrialRequest } from '@/lib/actions/trialActions';
+
+// Stored with the request as proof of consent
+const CONSENT_TEXT =
+  'Ich willige ein, dass die MusikAkademie München meine Angaben zur Bearbeitung der Probestunden-Anfrage speichert ' +
+  'und mich dazu per E-Mail oder Telefon kontaktiert. Die Einwilligung kann jederzeit widerrufen werden.';
+
+const emptyRequest = {
+  student_name: '',
+  instrument: '',
+  email: '',
+  phone: '',
+  preferred_times: '',
+  message: '',
+  // honeypot, hidden from people
+  website: ''
+};
+
+export function TrialRequestPage() {
+  const [request, setRequest] = useState(emptyRequest);
+  const [consent, setConsent] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [submitted, setSubmitted] = useState(false);
+  const shownAt = useRef(Date.now());
+
+  const handleChange = (field: keyof typeof emptyRequest, value: string) => {
+    setRequest(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!request.student_name.trim() || !request.instrument) {
+      setError('Bitte Name und Instrument angeben.');
+      return;
+    }
+    if (!request.email.trim() && !request.phone.trim()) {
+      setError('Bitte geben Sie eine E-Mail-Adresse oder Telefonnummer an.');
+      return;
+    }
+    if (!consent) {
+      setError('Bitte stimmen Sie der Verarbeitung Ihrer Daten zu.');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await submitTrialRequest({
+        ...request,
+        consent,
+        consent_text: CONSENT_TEXT,
+        elapsed_ms: Date.now() - shownAt.current
+      });
+      setSubmitted(true);
+    } catch (error) {
+      console.error('Error submitting trial request:', error);
+      setError(error instanceof Error ? error.message : 'Die Anfrage konnte nicht gesendet werden.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-gray-50 px-4 py-12">
+      <Card className="w-full max-w-xl">
+        <CardHeader className="items-center text-center">
+          <img src="/logo.png" alt="MAM Logo" className="h-16 w-auto mb-3" />
+          <CardTitle className="text-2xl">Probestunde anfragen</CardTitle>
+          <CardDescription>
+            Wir melden uns innerhalb weniger Tage mit einem Terminvorschlag.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {submitted ? (
+            <div className="text-center space-y-4 py-6">
+              <CheckCircle2 className="h-12 w-12 text-green-500 mx-auto" />
+              <p className="text-gray-700">Vielen Dank! Ihre Anfrage ist bei uns eingegangen.</p>
+              <Link to="/impressum" className="text-sm text-gray-500 hover:underline">Impressum</Link>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="student_name">Name des Schülers *</Label>
+                  <Input
+                    id="student_name"
+                    value={request.student_name}
+                    onChange={(e) => handleChange('student_name', e.target.value)}
+                    maxLength={200}
+                    required
+                  />
+                </div>
+
+                <div>
+                  <Label htmlFor="instrument">Instrument *</Label>
+                  <Select value={request.instrument} onValueChange={(value) => handleChange('instrument', value)}>
+                    <SelectTrigger id="instrument">
+                      <SelectValue placeholder="Instrument auswählen..." />
+                    </SelectTrigger>
+                    <SelectContent className="max-h-64">
+                      {INSTRUMENTS.filter(instrument => instrument !== 'andere').map(instrument => (
+                        <SelectItem key={instrument} value={instrument}>{instrument}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div>
+                  <Label htmlFor="email">E-Mail</Label>
+                  <Input
+                    id="email"
+                    type="email"
+                    value={request.email}
+                    onChange={(e) => handleChange('email', e.target.value)}
+                    maxLength={200}
+                  />
+                </div>
+
+                <div>
+                  <Label htmlFor="phone">Telefon</Label>
+                  <Input
+                    id="phone"
+                    type="tel"
+                    value={request.phone}
+                    onChange={(e) => handleChange('phone', e.target.value)}
+                    maxLength={50}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <Label htmlFor="preferred_times">Wunschzeiten</Label>
+                <Textarea
+                  id="preferred_times"
+                  value={request.preferred_times}
+                  onChange={(e) => handleChange('preferred_times', e.target.value)}
+                  placeholder="z. B. Montag und Mittwoch ab 16 Uhr"
+                  maxLength={1000}
+                  rows={2}
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="message">Anmerkungen</Label>
+                <Textarea
+                  id="message"
+                  value={request.message}
+                  onChange={(e) => handleChange('message', e.target.value)}
+                  placeholder="Alter, Vorkenntnisse, Fragen ..."
+                  maxLength={2000}
+                  rows={3}
+                />
+              </div>
+
+              {/* Honeypot: invisible for people, filled in by bots */}
+              <div className="absolute -left-[9999px]" aria-hidden="true">
+                <Label htmlFor="website">Website</Label>
+                <Input
+                  id="website"
+                  tabIndex={-1}
+                  autoComplete="off"
+                  value={request.website}
+                  onChange={(e) => handleChange('website', e.target.value)}
+                />
+              </div>
+
+              <div className="flex items-start space-x-2">
+                <Checkbox
+                  id="consent"
+                  checked={consent}
+                  onCheckedChange={(checked) => setConsent(checked === true)}
+                  className="mt-1"
+                />
+                <Label htmlFor="consent" className="text-sm font-normal text-gray-600 leading-relaxed">
+                  {CONSENT_TEXT} Weitere Informationen in der{' '}
+                  <Link to="/datenschutz" target="_blank" className="text-brand-primary hover:underline">
+                    Datenschutzerklärung
+                  </Link>. *
+                </Label>
+              </div>
+
+              {error && <p className="text-sm text-red-600">{error}</p>}
+
+              <Button
+                type="submit"
+                disabled={loading}
+                className="w-full bg-brand-primary hover:bg-brand-primary/90 focus:ring-brand-primary"
+              >
+                {loading ? 'Wird gesendet...' : 'Anfrage senden'}
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import { useState } from 'react';
+import { ContractCategory } from '@/lib/supabase';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from 'sonner';
+import { saveContractCategory } from '@/lib/actions/tariffActions';
+
+interface ContractCategoryFormProps {
+  category?: ContractCategory;
+  onSuccess: () => void;
+  onCancel: () => void;
+}
+
+// Technical key used by getLegacyContractType, e.g. "half_year_contract"
+const toCategoryKey = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/ä/g, 'ae').replace(/ö/g, 'oe').replace(/ü/g, 'ue').replace(/ß/g, 'ss')
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+
+export function ContractCategoryForm({ category, onSuccess, onCancel }: ContractCategoryFormProps) {
+  const [formData, setFormData] = useState({
+    display_name: category?.display_name || '',
+    name: category?.name || '',
+    description: category?.description || ''
+  });
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const name = toCategoryKey(formData.name || formData.display_name);
+    if (!formData.display_name.trim() || !name) {
+      toast.error('Bitte geben Sie einen Namen ein');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await saveContractCategory({
+        id: category?.id,
+        name,
+        display_name: formData.display_name.trim(),
+        description: formData.description.trim() || null
+      });
+      toast.success(category ? 'Kategorie aktualisiert' : 'Kategorie angelegt');
+      onSuccess();
+    } catch (error) {
+      console.error('Error saving contract category:', error);
+      toast.error('Fehler beim Speichern der Kategorie', {
+        description: error instanceof Error ? error.message : 'Unbekannter Fehler'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="display_name">Anzeigename *</Label>
+          <Input
+            id="display_name"
+            value={formData.display_name}
+            onChange={(e) => setFormData(prev => ({ ...prev, display_name: e.target.value }))}
+            required
+            placeholder="z.B. Halbjahresvertrag"
+          />
+        </div>
+
+        <div>
+          <Label htmlFor="name">Schlüssel</Label>
+          <Input
+            id="name"
+            value={formData.name}
+            onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+            disabled={!!category}
+            placeholder={toCategoryKey(formData.display_name) || 'half_year_contract'}
+            className="font-mono text-sm"
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            Wird aus dem Anzeigenamen erzeugt und kann nach dem Anlegen nicht mehr geändert werden.
+          </p>
+        </div>
+      </div>
+
+      <div>
+        <Label htmlFor="description">Beschreibung</Label>
+        <Textarea
+          id="description"
+          value={formData.description}
+          onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+          rows={3}
+        />
+      </div>
+
+      <div className="flex justify-end space-x-2 pt-6 border-t">
+        <Button
+          type="button"
+          variant="outline"
+          onClick={onCancel}
+          className="bg-brand-gray hover:bg-brand-gray/80 text-gray-700 border-brand-gray"
+        >
+          Abbrechen
+        </Button>
+        <Button
+          type="submit"
+          disabled={loading}
+          className="bg-brand-primary hover:bg-brand-primary/90"
+        >
+          {loading ? 'Speichern...' : category ? 'Kategorie aktualisieren' : 'Kategorie erstellen'}
+        </Button>
+      </div>
+    </form>
+  );
+}
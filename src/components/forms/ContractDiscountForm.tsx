@@ -0,0 +1,119 @@
+import { useState } from 'react';
+import { ContractDiscount } from '@/lib/supabase';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { AuditHistory } from '@/components/AuditHistory';
+import { toast } from 'sonner';
+import { saveContractDiscount } from '@/lib/actions/tariffActions';
+
+interface ContractDiscountFormProps {
+  discount?: ContractDiscount;
+  onSuccess: () => void;
+  onCancel: () => void;
+}
+
+export function ContractDiscountForm({ discount, onSuccess, onCancel }: ContractDiscountFormProps) {
+  const [formData, setFormData] = useState({
+    name: discount?.name || '',
+    discount_percent: discount ? String(discount.discount_percent).replace('.', ',') : '',
+    conditions: discount?.conditions || ''
+  });
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const percent = Number(formData.discount_percent.replace(',', '.'));
+    if (!formData.discount_percent || isNaN(percent) || percent <= 0 || percent > 100) {
+      toast.error('Bitte geben Sie einen Rabatt zwischen 0 und 100% ein');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await saveContractDiscount({
+        id: discount?.id,
+        name: formData.name.trim(),
+        discount_percent: percent,
+        conditions: formData.conditions.trim() || null
+      });
+      toast.success(discount ? 'Rabatt aktualisiert' : 'Rabatt angelegt');
+      onSuccess();
+    } catch (error) {
+      console.error('Error saving contract discount:', error);
+      toast.error('Fehler beim Speichern des Rabatts', {
+        description: error instanceof Error ? error.message : 'Unbekannter Fehler'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="name">Name *</Label>
+          <Input
+            id="name"
+            value={formData.name}
+            onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+            required
+            placeholder="z.B. Geschwisterrabatt"
+          />
+        </div>
+
+        <div>
+          <Label htmlFor="discount_percent">Rabatt (%) *</Label>
+          <Input
+            id="discount_percent"
+            inputMode="decimal"
+            value={formData.discount_percent}
+            onChange={(e) => setFormData(prev => ({ ...prev, discount_percent: e.target.value }))}
+            required
+            placeholder="10"
+          />
+        </div>
+      </div>
+
+      <div>
+        <Label htmlFor="conditions">Bedingungen</Label>
+        <Textarea
+          id="conditions"
+          value={formData.conditions}
+          onChange={(e) => setFormData(prev => ({ ...prev, conditions: e.target.value }))}
+          rows={3}
+          placeholder="z.B. ab dem zweiten Kind einer Familie"
+        />
+      </div>
+
+      {discount && (
+        <p className="text-xs text-gray-500">
+          Änderungen wirken sich auf neu berechnete Preise aus. Bestehende Verträge behalten ihren gespeicherten Endpreis.
+        </p>
+      )}
+
+      {discount && <AuditHistory table="contract_discounts" recordId={discount.id} />}
+
+      <div className="flex justify-end space-x-2 pt-6 border-t">
+        <Button
+          type="button"
+          variant="outline"
+          onClick={onCancel}
+          className="bg-brand-gray hover:bg-brand-gray/80 text-gray-700 border-brand-gray"
+        >
+          Abbrechen
+        </Button>
+        <Button
+          type="submit"
+          disabled={loading}
+          className="bg-brand-primary hover:bg-brand-primary/90"
+        >
+          {loading ? 'Speichern...' : discount ? 'Rabatt aktualisieren' : 'Rabatt erstellen'}
+        </Button>
+      </div>
+    </form>
+  );
+}
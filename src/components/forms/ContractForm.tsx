@@ -1,5 +1,5 @@
 import { useState, useEffect, useMemo } from 'react';
-import { supabase, Contract, Student, Teacher, ContractCategory, ContractVariant, ContractDiscount, ContractPricing, calculateContractPrice, getLegacyContractType } from '@/lib/supabase';
+import { supabase, Contract, Student, Teacher, ContractCategory, ContractVariant, ContractDiscount, ContractPricing, Room, SchoolClosure, calculateContractPrice, getLegacyContractType, getLegacyContractLessonCount } from '@/lib/supabase';
 import { useAuth } from '@/hooks/useAuth';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -10,8 +10,20 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { ReplaceContractConfirmationModal } from '@/components/modals/ReplaceContractConfirmationModal';
+import { AuditHistory } from '@/components/AuditHistory';
+import { SaveConflictModal } from '@/components/modals/SaveConflictModal';
 import { toast } from 'sonner';
-import { FileText } from 'lucide-react';
+import { FileText, AlertTriangle } from 'lucide-react';
+import { WEEKDAYS, DEFAULT_SESSION_MINUTES, formatSlotTime } from '@/lib/schedule/weeklySchedule';
+import { getScheduleConflicts, updateContractSchedule, ScheduleConflict } from '@/lib/actions/scheduleActions';
+import { getVariantsForStudent } from '@/lib/actions/priceVersionActions';
+import { linkContractRenewal } from '@/lib/actions/renewalActions';
+import { linkTrialContract } from '@/lib/actions/trialActions';
+import { getSchoolClosures } from '@/lib/actions/schoolCalendarActions';
+import { countLessonDates, getLessonDates } from '@/lib/calendar/schoolCalendar';
+import { fmtDate } from '@/lib/utils';
+import { fmtAuditValue } from '@/lib/audit/auditLog';
+import { ConflictChoice, MergeResult, applyConflictChoices, mergeChanges } from '@/lib/concurrency/mergeChanges';
 
 interface ContractFormProps {
   contract?: Contract;
@@ -21,8 +33,47 @@ interface ContractFormProps {
   onCancel: () => void;
   initialStudentId?: string;
   initialContract?: Contract;
+  // Set when the new contract is the follow-up of this contract (renewal chain)
+  previousContractId?: string;
+  // Set when the new contract results from this trial appointment (conversion)
+  trialAppointmentId?: string;
+  initialTeacherId?: string;
+  initialVariantId?: string;
 }
 
+// Fields the form edits, compared field by field when a save runs into a newer version
+type ContractValues = {
+  student_id: string;
+  teacher_id: string;
+  contract_variant_id: string;
+  discount_ids: string[];
+  custom_discount_percent: number | null;
+  billing_cycle: string | null;
+  paid_at: string | null;
+  first_payment_date: string | null;
+  term_start: string | null;
+  term_end: string | null;
+  term_label: string | null;
+  cancelled_at: string | null;
+};
+
+const dateOnly = (value?: string | null) => value ? value.slice(0, 10) : null;
+
+const toContractValues = (contract: Partial<Contract>): ContractValues => ({
+  student_id: contract.student_id || '',
+  teacher_id: contract.teacher_id || '',
+  contract_variant_id: contract.contract_variant_id || '',
+  discount_ids: contract.discount_ids || [],
+  custom_discount_percent: contract.custom_discount_percent || null,
+  billing_cycle: contract.billing_cycle || null,
+  paid_at: dateOnly(contract.paid_at),
+  first_payment_date: dateOnly(contract.first_payment_date),
+  term_start: dateOnly(contract.term_start),
+  term_end: dateOnly(contract.term_end),
+  term_label: contract.term_label || null,
+  cancelled_at: dateOnly(contract.cancelled_at),
+});
+
 // Deep copy utility function to create immutable snapshots
 const deepCopy = <T,>(obj: T): T => {
   if (obj === null || typeof obj !== 'object') {
@@ -50,7 +101,7 @@ const deepCopy = <T,>(obj: T): T => {
   return obj;
 };
 
-export function ContractForm({ contract, students, teachers, onSuccess, onCancel, initialStudentId, initialContract }: ContractFormProps) {
+export function ContractForm({ contract, students, teachers, onSuccess, onCancel, initialStudentId, initialContract, previousContractId, trialAppointmentId, initialTeacherId, initialVariantId }: ContractFormProps) {
   const { profile, isAdmin } = useAuth();
   
   // Enhanced teacher profile resolution
@@ -85,15 +136,28 @@ export function ContractForm({ contract, students, teachers, onSuccess, onCancel
   const [isCancelledToggle, setIsCancelledToggle] = useState<boolean>(!!contract?.cancelled_at || !!initialContract?.cancelled_at);
   const [cancelledAt, setCancelledAt] = useState<string | ''>(contract?.cancelled_at || initialContract?.cancelled_at || '');
 
+  // Weekly timetable slot
+  const [rooms, setRooms] = useState<Room[]>([]);
+  const [scheduleWeekday, setScheduleWeekday] = useState<string>(String(contract?.schedule_weekday || initialContract?.schedule_weekday || ''));
+  const [scheduleStartTime, setScheduleStartTime] = useState<string>(formatSlotTime(contract?.schedule_start_time || initialContract?.schedule_start_time));
+  const [roomId, setRoomId] = useState<string>(contract?.room_id || initialContract?.room_id || '');
+  const [scheduleConflicts, setScheduleConflicts] = useState<ScheduleConflict[]>([]);
+  // Holidays and closure days, skipped when planning the term
+  const [closures, setClosures] = useState<SchoolClosure[]>([]);
+
   const [formData, setFormData] = useState({
     student_id: contract?.student_id || initialContract?.student_id || initialStudentId || '',
-    teacher_id: contract?.teacher_id || initialContract?.teacher_id || '',
+    teacher_id: contract?.teacher_id || initialContract?.teacher_id || initialTeacherId || '',
     selectedCategoryId: initialContract?.contract_variant?.contract_category_id || '',
     selectedVariantId: contract?.contract_variant_id || initialContract?.contract_variant_id || '',
     selectedDiscountIds: contract?.discount_ids || initialContract?.discount_ids || []
   });
   const [loading, setLoading] = useState(false);
 
+  // Version the form is based on; a save against a newer version opens the conflict dialog
+  const [baseContract, setBaseContract] = useState<Contract | undefined>(contract);
+  const [saveConflict, setSaveConflict] = useState<(MergeResult<ContractValues> & { current: Contract }) | null>(null);
+
   // Filter students based on role - FIXED: Only admins can edit contracts
   const availableStudents = useMemo(() => {
     if (isAdmin) {
@@ -109,12 +173,14 @@ export function ContractForm({ contract, students, teachers, onSuccess, onCancel
   }, [isAdmin, profile, currentTeacher, students]);
 
   // Filter contract categories to exclude "Sondervereinbarung" and "Diplomausbildung"
+  // as well as deactivated ones (unless already selected)
   const availableCategories = useMemo(() => {
     return contractCategories.filter(category => 
       category.name !== 'special_discount' && 
-      category.name !== 'private_diploma'
+      category.name !== 'private_diploma' &&
+      (category.is_active !== false || category.id === formData.selectedCategoryId)
     );
-  }, [contractCategories]);
+  }, [contractCategories, formData.selectedCategoryId]);
 
   // Filter variants based on selected category
   const filteredVariants = useMemo(() => {
@@ -150,7 +216,12 @@ export function ContractForm({ contract, students, teachers, onSuccess, onCancel
   // Set initial category when prefilling from completed contract
   useEffect(() => {
     if (initialContract?.contract_variant_id && contractVariants.length > 0) {
-      const variant = contractVariants.find(v => v.id === initialContract.contract_variant_id);
+      // After a price version change the same variant exists under a new id
+      const variant = contractVariants.find(v => v.id === initialContract.contract_variant_id) ||
+        contractVariants.find(v =>
+          v.name === initialContract.contract_variant?.name &&
+          v.contract_category_id === initialContract.contract_variant?.contract_category?.id
+        );
       if (variant) {
         setFormData(prev => ({
           ...prev,
@@ -162,6 +233,20 @@ export function ContractForm({ contract, students, teachers, onSuccess, onCancel
     }
   }, [initialContract, contractVariants]);
 
+  // Preselect the variant suggested for a converted trial appointment
+  useEffect(() => {
+    if (!contract && initialVariantId && contractVariants.length > 0) {
+      const variant = contractVariants.find(v => v.id === initialVariantId);
+      if (variant) {
+        setFormData(prev => prev.selectedVariantId ? prev : {
+          ...prev,
+          selectedCategoryId: variant.contract_category_id,
+          selectedVariantId: variant.id
+        });
+      }
+    }
+  }, [contract, initialVariantId, contractVariants]);
+
   // Initialize custom discount if contract has one
   useEffect(() => {
     if (contract?.custom_discount_percent) {
@@ -199,15 +284,20 @@ export function ContractForm({ contract, students, teachers, onSuccess, onCancel
     const loadVariantsForStudent = async () => {
       try {
         if (formData.student_id) {
-          const { data, error } = await supabase.rpc('get_variants_for_student', { p_student_id: formData.student_id });
-          if (error) {
-            toast.error('Fehler beim Laden der Vertragsvarianten', { description: error.message });
+          let data: ContractVariant[];
+          try {
+            // A running contract keeps its variant even if the student moved to another price version
+            data = await getVariantsForStudent(formData.student_id, contract?.contract_variant_id);
+          } catch (error) {
+            toast.error('Fehler beim Laden der Vertragsvarianten', {
+              description: error instanceof Error ? error.message : 'Unbekannter Fehler'
+            });
             setContractVariants([]);
             return;
           }
-          setContractVariants(data || []);
+          setContractVariants(data);
           // Reset selected variant if it does not belong to the list anymore
-          if (formData.selectedVariantId && !(data || []).some((v: any) => v.id === formData.selectedVariantId)) {
+          if (formData.selectedVariantId && !data.some(v => v.id === formData.selectedVariantId)) {
             setFormData(prev => ({ ...prev, selectedVariantId: '' }));
           }
         } else {
@@ -233,6 +323,37 @@ export function ContractForm({ contract, students, teachers, onSuccess, onCancel
     }
   }, [formData.selectedVariantId, formData.selectedDiscountIds, useCustomDiscount, customDiscountPercent]);
 
+  // Check the weekly slot against other active contracts of the teacher / room
+  useEffect(() => {
+    if (!scheduleWeekday || !scheduleStartTime) {
+      setScheduleConflicts([]);
+      return;
+    }
+
+    let cancelled = false;
+    const sessionMinutes = contractVariants.find(v => v.id === formData.selectedVariantId)?.session_length_minutes;
+    getScheduleConflicts({
+      weekday: Number(scheduleWeekday),
+      startTime: scheduleStartTime,
+      durationMinutes: sessionMinutes || DEFAULT_SESSION_MINUTES,
+      teacherId: formData.teacher_id,
+      roomId,
+      excludeContractId: contract?.id,
+      contractVariantId: formData.selectedVariantId
+    })
+      .then(conflicts => {
+        if (!cancelled) setScheduleConflicts(conflicts);
+      })
+      .catch(error => {
+        console.error('Error checking schedule conflicts:', error);
+        if (!cancelled) setScheduleConflicts([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [scheduleWeekday, scheduleStartTime, roomId, formData.teacher_id, formData.selectedVariantId, contractVariants, contract?.id]);
+
   const fetchContractData = async () => {
     try {
       // Fetch contract categories
@@ -250,15 +371,14 @@ export function ContractForm({ contract, students, teachers, onSuccess, onCancel
 
       // Fetch contract variants (cohort-aware) when a student is selected
       if (formData.student_id) {
-        const { data: variantsData, error: variantsError } = await supabase
-          .rpc('get_variants_for_student', { p_student_id: formData.student_id });
-
-        if (variantsError) {
-          toast.error('Fehler beim Laden der Vertragsvarianten', { description: variantsError.message });
+        try {
+          setContractVariants(await getVariantsForStudent(formData.student_id, contract?.contract_variant_id));
+        } catch (error) {
+          toast.error('Fehler beim Laden der Vertragsvarianten', {
+            description: error instanceof Error ? error.message : 'Unbekannter Fehler'
+          });
           return;
         }
-
-        setContractVariants(variantsData || []);
       } else {
         setContractVariants([]);
       }
@@ -275,12 +395,48 @@ export function ContractForm({ contract, students, teachers, onSuccess, onCancel
       }
 
       setContractDiscounts(discountsData || []);
+
+      // Fetch rooms for the weekly slot
+      const { data: roomsData, error: roomsError } = await supabase
+        .from('rooms')
+        .select('*')
+        .eq('is_active', true)
+        .order('name');
+
+      if (roomsError) {
+        toast.error('Fehler beim Laden der Räume', { description: roomsError.message });
+        return;
+      }
+
+      setRooms(roomsData || []);
+
+      try {
+        setClosures(await getSchoolClosures());
+      } catch (error) {
+        // term suggestions simply ignore holidays then
+        console.error('Error loading school calendar:', error);
+      }
     } catch (error) {
       console.error('Error fetching contract data:', error);
       toast.error('Fehler beim Laden der Vertragsdaten');
     }
   };
 
+  // Lessons of the contract and how they fit into the term, holidays excluded
+  const termPlan = useMemo(() => {
+    const variant = contractVariants.find(v => v.id === formData.selectedVariantId);
+    const lessonCount = variant?.total_lessons || getLegacyContractLessonCount(contract?.type || '');
+    if (!termStart || !scheduleWeekday || !lessonCount) return null;
+
+    const weekday = Number(scheduleWeekday);
+    const dates = getLessonDates(termStart, weekday, lessonCount, closures);
+    return {
+      lessonCount,
+      lastLessonDate: dates.length === lessonCount ? dates[dates.length - 1] : null,
+      availableDates: termEnd ? countLessonDates(termStart, termEnd, weekday, closures) : null,
+    };
+  }, [contractVariants, formData.selectedVariantId, contract?.type, termStart, termEnd, scheduleWeekday, closures]);
+
   const calculatePricing = async () => {
     if (!formData.selectedVariantId) {
       setCalculatedPricing(null);
@@ -307,6 +463,73 @@ export function ContractForm({ contract, students, teachers, onSuccess, onCancel
     }
   };
 
+  const getFormValues = (): ContractValues => ({
+    student_id: formData.student_id,
+    teacher_id: formData.teacher_id,
+    contract_variant_id: formData.selectedVariantId,
+    discount_ids: formData.selectedDiscountIds.filter(id => id !== 'custom-discount'),
+    custom_discount_percent: useCustomDiscount && customDiscountPercent > 0 ? customDiscountPercent : null,
+    billing_cycle: billingCycle || null,
+    paid_at: billingCycle === 'upfront' && paidAt ? dateOnly(paidAt) : null,
+    first_payment_date: billingCycle === 'monthly' && firstPaymentDate ? dateOnly(firstPaymentDate) : null,
+    term_start: dateOnly(termStart),
+    term_end: dateOnly(termEnd),
+    term_label: termLabel || null,
+    cancelled_at: isCancelledToggle && cancelledAt ? dateOnly(cancelledAt) : null,
+  });
+
+  const applyFormValues = (values: ContractValues) => {
+    const variant = contractVariants.find(v => v.id === values.contract_variant_id);
+    setFormData(prev => ({
+      ...prev,
+      student_id: values.student_id,
+      teacher_id: values.teacher_id,
+      selectedCategoryId: variant?.contract_category_id || prev.selectedCategoryId,
+      selectedVariantId: values.contract_variant_id,
+      selectedDiscountIds: values.custom_discount_percent ? [...values.discount_ids, 'custom-discount'] : values.discount_ids
+    }));
+    setUseCustomDiscount(!!values.custom_discount_percent);
+    setCustomDiscountPercent(values.custom_discount_percent || 0);
+    setBillingCycle((values.billing_cycle || '') as typeof billingCycle);
+    setPaidAt(values.paid_at || '');
+    setFirstPaymentDate(values.first_payment_date || '');
+    setTermStart(values.term_start || '');
+    setTermEnd(values.term_end || '');
+    setTermLabel(values.term_label || '');
+    setIsCancelledToggle(!!values.cancelled_at);
+    setCancelledAt(values.cancelled_at || '');
+  };
+
+  const handleMergeConflict = (choices: Record<string, ConflictChoice>) => {
+    if (!saveConflict) return;
+    applyFormValues(applyConflictChoices(saveConflict.merged, saveConflict.conflicts, choices));
+    setBaseContract(saveConflict.current);
+    setSaveConflict(null);
+    toast.info('Änderungen zusammengeführt', { description: 'Bitte prüfen und erneut speichern.' });
+  };
+
+  const handleDiscardConflict = () => {
+    if (!saveConflict) return;
+    applyFormValues(toContractValues(saveConflict.current));
+    setBaseContract(saveConflict.current);
+    setSaveConflict(null);
+  };
+
+  const formatConflictValue = (field: string, value: unknown) => {
+    switch (field) {
+      case 'student_id':
+        return students.find(s => s.id === value)?.name ?? fmtAuditValue(value);
+      case 'teacher_id':
+        return teachers.find(t => t.id === value)?.name ?? fmtAuditValue(value);
+      case 'contract_variant_id':
+        return contractVariants.find(v => v.id === value)?.name ?? fmtAuditValue(value);
+      case 'discount_ids':
+        return fmtAuditValue((value as string[] | null)?.map(id => contractDiscounts.find(d => d.id === id)?.name ?? id));
+      default:
+        return fmtAuditValue(value);
+    }
+  };
+
   const handleSave = async () => {
     const loadingToast = toast.loading('Speichere Vertrag...');
     // Prepare contractData from form state
@@ -337,15 +560,47 @@ export function ContractForm({ contract, students, teachers, onSuccess, onCancel
       const { data: result, error } = await supabase.rpc('atomic_save_and_sync_contract', {
         contract_data: contractData,
         is_update: !!contract,
-        contract_id_param: contract?.id || null
+        contract_id_param: contract?.id || null,
+        expected_version: baseContract?.version ?? null
       });
       if (error) {
         console.error('Save error:', error);
         throw new Error(error.message || 'Datenbankfehler aufgetreten');
       }
+      if (result?.conflict) {
+        const current = result.current as Contract;
+        setSaveConflict({
+          current,
+          ...mergeChanges(toContractValues(baseContract || {}), getFormValues(), toContractValues(current))
+        });
+        toast.dismiss(loadingToast);
+        return;
+      }
       if (!result?.success || !result.contract_id) {
         throw new Error(result?.message || 'Speichern fehlgeschlagen');
       }
+      // 1b. Save the weekly slot and (re-)plan lesson dates
+      const slotChanged =
+        !contract ||
+        String(contract.schedule_weekday || '') !== scheduleWeekday ||
+        formatSlotTime(contract.schedule_start_time) !== scheduleStartTime ||
+        (contract.room_id || '') !== roomId;
+      if (slotChanged && (scheduleWeekday || contract)) {
+        await updateContractSchedule(
+          result.contract_id,
+          scheduleWeekday ? Number(scheduleWeekday) : null,
+          scheduleWeekday && scheduleStartTime ? scheduleStartTime : null,
+          roomId || null
+        );
+      }
+      // 1c. Record the renewal chain
+      if (!contract && previousContractId) {
+        await linkContractRenewal(previousContractId, result.contract_id);
+      }
+      // 1d. Record the trial conversion
+      if (!contract && trialAppointmentId) {
+        await linkTrialContract(trialAppointmentId, result.contract_id);
+      }
       // 2. Refetch the updated contract from Supabase
       const { data: updatedContract, error: fetchError } = await supabase
         .from('contracts')
@@ -411,6 +666,12 @@ export function ContractForm({ contract, students, teachers, onSuccess, onCancel
         return;
       }
 
+      if (!!scheduleWeekday !== !!scheduleStartTime) {
+        toast.error('Bitte Wochentag und Uhrzeit für den Stundenplan gemeinsam angeben');
+        setLoading(false);
+        return;
+      }
+
       // Validate custom discount if enabled
       if (useCustomDiscount) {
         if (customDiscountPercent < 0 || customDiscountPercent > 100) {
@@ -427,9 +688,10 @@ export function ContractForm({ contract, students, teachers, onSuccess, onCancel
           return;
       }
 
-      // Check for existing active contract with same (student_id, teacher_id) pair (for new contracts only)
+      // Check for existing active contract with same (student_id, teacher_id) pair (for new contracts only);
+      // a renewed contract keeps running until its term ends
       if (!contract && !isReplacementConfirmed) {
-        const { data: existingContract, error: checkError } = await supabase
+        let existingQuery = supabase
           .from('contracts')
           .select(`
             *,
@@ -445,8 +707,13 @@ export function ContractForm({ contract, students, teachers, onSuccess, onCancel
           `)
           .eq('student_id', formData.student_id)
           .eq('teacher_id', formData.teacher_id)
-          .eq('status', 'active')
-          .maybeSingle();
+          .eq('status', 'active');
+
+        if (previousContractId) {
+          existingQuery = existingQuery.neq('id', previousContractId);
+        }
+
+        const { data: existingContract, error: checkError } = await existingQuery.maybeSingle();
 
         if (checkError) {
           toast.error('Fehler beim Prüfen bestehender Verträge', { description: checkError.message });
@@ -820,6 +1087,109 @@ export function ContractForm({ contract, students, teachers, onSuccess, onCancel
               <Label className="w-32">Label (optional)</Label>
               <Input value={termLabel} onChange={e => setTermLabel(e.target.value)} placeholder="z. B. Schuljahr 2025/26" className="max-w-[360px]" />
             </div>
+            {termPlan?.lastLessonDate && (
+              <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+                <span>
+                  Letzter Termin der {termPlan.lessonCount} Stunden (ohne Ferien): {fmtDate(termPlan.lastLessonDate)}
+                </span>
+                {termEnd !== termPlan.lastLessonDate && (
+                  <Button type="button" variant="outline" size="sm" onClick={() => setTermEnd(termPlan.lastLessonDate!)}>
+                    Als Ende übernehmen
+                  </Button>
+                )}
+              </div>
+            )}
+            {termPlan?.availableDates != null && termPlan.availableDates < termPlan.lessonCount && (
+              <div className="flex items-center gap-2 rounded-lg border border-amber-300 bg-amber-50 p-3 text-sm text-amber-800">
+                <AlertTriangle className="h-4 w-4 shrink-0" />
+                Bis zum Ende sind ohne Ferien und Schließtage nur {termPlan.availableDates} Termine möglich, der Vertrag umfasst {termPlan.lessonCount} Stunden.
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Weekly timetable slot */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Stundenplan</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center gap-4">
+              <Label className="w-32">Wochentag</Label>
+              <Select
+                value={scheduleWeekday || 'none'}
+                onValueChange={(value) => setScheduleWeekday(value === 'none' ? '' : value)}
+                disabled={loading}
+              >
+                <SelectTrigger className="max-w-[220px]">
+                  <SelectValue placeholder="Wochentag auswählen" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Kein fester Termin</SelectItem>
+                  {WEEKDAYS.map((day) => (
+                    <SelectItem key={day.value} value={String(day.value)}>
+                      {day.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center gap-4">
+              <Label className="w-32">Uhrzeit</Label>
+              <Input
+                type="time"
+                step={300}
+                value={scheduleStartTime}
+                onChange={e => setScheduleStartTime(e.target.value)}
+                className="max-w-[220px]"
+                disabled={!scheduleWeekday}
+              />
+            </div>
+            <div className="flex items-center gap-4">
+              <Label className="w-32">Raum</Label>
+              <Select
+                value={roomId || 'none'}
+                onValueChange={(value) => setRoomId(value === 'none' ? '' : value)}
+                disabled={loading || !scheduleWeekday}
+              >
+                <SelectTrigger className="max-w-[220px]">
+                  <SelectValue placeholder="Raum auswählen" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Kein Raum</SelectItem>
+                  {rooms.map((room) => (
+                    <SelectItem key={room.id} value={room.id}>
+                      {room.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {scheduleWeekday && scheduleStartTime && (
+              <p className="text-xs text-gray-500">
+                Die Stundendaten werden ab Laufzeitbeginn wöchentlich vorgeplant und können in der Stundenverfolgung bestätigt oder geändert werden.
+              </p>
+            )}
+            {scheduleConflicts.length > 0 && (
+              <div className="rounded-lg border border-amber-300 bg-amber-50 p-3 text-sm text-amber-800">
+                <div className="flex items-center gap-2 font-medium mb-1">
+                  <AlertTriangle className="h-4 w-4" />
+                  Terminkonflikt
+                </div>
+                <ul className="space-y-1">
+                  {scheduleConflicts.map((conflict) => (
+                    <li key={conflict.contract_id}>
+                      {formatSlotTime(conflict.start_time)} Uhr – {conflict.student_name || 'anderer Vertrag'}
+                      {' '}({conflict.conflict_type === 'room'
+                        ? `Raum ${conflict.room_name || ''}`.trim()
+                        : conflict.conflict_type === 'teacher'
+                          ? `Lehrer ${conflict.teacher_name || ''}`.trim()
+                          : `Lehrer und Raum belegt`})
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
           </CardContent>
         </Card>
 
@@ -909,6 +1279,8 @@ export function ContractForm({ contract, students, teachers, onSuccess, onCancel
 
         {/* Contract Status control removed: status is display-only elsewhere */}
 
+        {contract && <AuditHistory table="contracts" recordId={contract.id} />}
+
         <div className="flex justify-end space-x-2 pt-6 border-t">
           <Button 
             type="button" 
@@ -941,6 +1313,20 @@ export function ContractForm({ contract, students, teachers, onSuccess, onCancel
           contractToReplace={contractToReplaceDetails}
         />
       )}
+
+      {contract && saveConflict && (
+        <SaveConflictModal
+          open={!!saveConflict}
+          table="contracts"
+          recordId={contract.id}
+          conflicts={saveConflict.conflicts}
+          theirChanges={saveConflict.theirChanges}
+          formatValue={formatConflictValue}
+          onMerge={handleMergeConflict}
+          onDiscard={handleDiscardConflict}
+          onClose={() => setSaveConflict(null)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,262 @@
+import { useState } from 'react';
+import { ContractCategory, ContractVariant } from '@/lib/supabase';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { GROUP_TYPES, GroupType } from '@/lib/payroll/teacherPayroll';
+import { saveContractVariant } from '@/lib/actions/tariffActions';
+
+interface ContractVariantFormProps {
+  variant?: ContractVariant;
+  categories: ContractCategory[];
+  defaultPriceVersion: number | null;
+  onSuccess: () => void;
+  onCancel: () => void;
+}
+
+type PaymentType = 'monthly' | 'one_time';
+
+const toInputValue = (value?: number | null) =>
+  value === null || value === undefined ? '' : String(value).replace('.', ',');
+
+// Empty input means "not set"; undefined signals an invalid number
+const parseOptionalNumber = (value: string): number | null | undefined => {
+  if (!value.trim()) return null;
+  const parsed = Number(value.replace(',', '.'));
+  return isNaN(parsed) || parsed < 0 ? undefined : parsed;
+};
+
+export function ContractVariantForm({ variant, categories, defaultPriceVersion, onSuccess, onCancel }: ContractVariantFormProps) {
+  const [formData, setFormData] = useState({
+    contract_category_id: variant?.contract_category_id || '',
+    name: variant?.name || '',
+    group_type: (variant?.group_type || 'single') as GroupType,
+    duration_months: toInputValue(variant?.duration_months),
+    session_length_minutes: toInputValue(variant?.session_length_minutes),
+    total_lessons: toInputValue(variant?.total_lessons),
+    payment_type: (variant?.one_time_price != null && variant?.monthly_price == null ? 'one_time' : 'monthly') as PaymentType,
+    price: toInputValue(variant?.monthly_price ?? variant?.one_time_price),
+    price_version: toInputValue(variant ? variant.price_version : defaultPriceVersion),
+    notes: variant?.notes || ''
+  });
+  const [loading, setLoading] = useState(false);
+
+  const handleChange = (field: keyof typeof formData, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.contract_category_id) {
+      toast.error('Bitte wählen Sie eine Kategorie aus');
+      return;
+    }
+
+    const numbers = {
+      duration_months: parseOptionalNumber(formData.duration_months),
+      session_length_minutes: parseOptionalNumber(formData.session_length_minutes),
+      total_lessons: parseOptionalNumber(formData.total_lessons),
+      price: parseOptionalNumber(formData.price),
+      price_version: parseOptionalNumber(formData.price_version)
+    };
+
+    if (Object.values(numbers).some(value => value === undefined)) {
+      toast.error('Bitte geben Sie gültige, nicht negative Zahlen ein');
+      return;
+    }
+    if (numbers.price === null || numbers.price === undefined) {
+      toast.error('Bitte geben Sie einen Preis ein');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await saveContractVariant({
+        id: variant?.id,
+        contract_category_id: formData.contract_category_id,
+        name: formData.name.trim(),
+        group_type: formData.group_type,
+        duration_months: numbers.duration_months ?? null,
+        session_length_minutes: numbers.session_length_minutes ?? null,
+        total_lessons: numbers.total_lessons ?? null,
+        monthly_price: formData.payment_type === 'monthly' ? numbers.price : null,
+        one_time_price: formData.payment_type === 'one_time' ? numbers.price : null,
+        notes: formData.notes.trim() || null,
+        price_version: numbers.price_version ?? null
+      });
+      toast.success(variant ? 'Variante aktualisiert' : 'Variante angelegt');
+      onSuccess();
+    } catch (error) {
+      console.error('Error saving contract variant:', error);
+      toast.error('Fehler beim Speichern der Variante', {
+        description: error instanceof Error ? error.message : 'Unbekannter Fehler'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="space-y-4">
+        <h3 className="text-lg font-medium text-gray-900">Grunddaten</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="contract_category_id">Kategorie *</Label>
+            <Select
+              value={formData.contract_category_id}
+              onValueChange={(value) => handleChange('contract_category_id', value)}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Kategorie auswählen..." />
+              </SelectTrigger>
+              <SelectContent>
+                {categories.map(category => (
+                  <SelectItem key={category.id} value={category.id}>
+                    {category.display_name}{category.is_active === false ? ' (inaktiv)' : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <Label htmlFor="name">Name *</Label>
+            <Input
+              id="name"
+              value={formData.name}
+              onChange={(e) => handleChange('name', e.target.value)}
+              required
+              placeholder="z.B. Halbjahresvertrag 45 Min."
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="group_type">Unterrichtsform *</Label>
+            <Select value={formData.group_type} onValueChange={(value) => handleChange('group_type', value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {GROUP_TYPES.map(type => (
+                  <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <Label htmlFor="price_version">Preisversion</Label>
+            <Input
+              id="price_version"
+              inputMode="numeric"
+              value={formData.price_version}
+              onChange={(e) => handleChange('price_version', e.target.value)}
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Nur Schüler mit dieser Preisversion bekommen die Variante angeboten.
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <h3 className="text-lg font-medium text-gray-900">Umfang</h3>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <Label htmlFor="duration_months">Laufzeit (Monate)</Label>
+            <Input
+              id="duration_months"
+              inputMode="numeric"
+              value={formData.duration_months}
+              onChange={(e) => handleChange('duration_months', e.target.value)}
+              placeholder="flexibel"
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="session_length_minutes">Einheit (Min.)</Label>
+            <Input
+              id="session_length_minutes"
+              inputMode="numeric"
+              value={formData.session_length_minutes}
+              onChange={(e) => handleChange('session_length_minutes', e.target.value)}
+              placeholder="variiert"
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="total_lessons">Anzahl Stunden</Label>
+            <Input
+              id="total_lessons"
+              inputMode="numeric"
+              value={formData.total_lessons}
+              onChange={(e) => handleChange('total_lessons', e.target.value)}
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <h3 className="text-lg font-medium text-gray-900">Preis</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="payment_type">Zahlungsart *</Label>
+            <Select value={formData.payment_type} onValueChange={(value) => handleChange('payment_type', value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="monthly">Monatlich</SelectItem>
+                <SelectItem value="one_time">Einmalig</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <Label htmlFor="price">{formData.payment_type === 'monthly' ? 'Monatspreis (€) *' : 'Einmalpreis (€) *'}</Label>
+            <Input
+              id="price"
+              inputMode="decimal"
+              value={formData.price}
+              onChange={(e) => handleChange('price', e.target.value)}
+              required
+            />
+          </div>
+        </div>
+
+        <div>
+          <Label htmlFor="notes">Notizen</Label>
+          <Textarea
+            id="notes"
+            value={formData.notes}
+            onChange={(e) => handleChange('notes', e.target.value)}
+            rows={2}
+          />
+        </div>
+      </div>
+
+      <div className="flex justify-end space-x-2 pt-6 border-t">
+        <Button
+          type="button"
+          variant="outline"
+          onClick={onCancel}
+          className="bg-brand-gray hover:bg-brand-gray/80 text-gray-700 border-brand-gray"
+        >
+          Abbrechen
+        </Button>
+        <Button
+          type="submit"
+          disabled={loading}
+          className="bg-brand-primary hover:bg-brand-primary/90"
+        >
+          {loading ? 'Speichern...' : variant ? 'Variante aktualisieren' : 'Variante erstellen'}
+        </Button>
+      </div>
+    </form>
+  );
+}
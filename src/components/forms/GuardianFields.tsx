@@ -0,0 +1,140 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Trash2 } from 'lucide-react';
+import { StudentGuardian } from '@/lib/supabase';
+import { StudentGuardianInput } from '@/lib/actions/guardianActions';
+import { GUARDIAN_ROLES, GUARDIAN_ROLE_LABELS } from '@/lib/students/guardians';
+
+interface GuardianFieldsProps {
+  guardians: StudentGuardianInput[];
+  onChange: (guardians: StudentGuardianInput[]) => void;
+}
+
+const emptyGuardian = (): StudentGuardianInput => ({
+  name: '',
+  role: 'mother',
+  email: '',
+  phone: '',
+  address: '',
+  is_contract_partner: false,
+  is_invoice_recipient: false
+});
+
+export function GuardianFields({ guardians, onChange }: GuardianFieldsProps) {
+  const updateGuardian = (index: number, changes: Partial<StudentGuardianInput>) => {
+    onChange(guardians.map((g, i) => (i === index ? { ...g, ...changes } : g)));
+  };
+
+  // Contract partner and invoice recipient are exclusive per student
+  const setExclusiveFlag = (index: number, flag: 'is_contract_partner' | 'is_invoice_recipient', checked: boolean) => {
+    onChange(guardians.map((g, i) => ({ ...g, [flag]: i === index ? checked : checked ? false : g[flag] })));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Erziehungsberechtigte & Kontakte</h3>
+          <p className="text-sm text-gray-500">Ohne Vertragspartner bzw. Rechnungsempfänger gilt der Schüler selbst.</p>
+        </div>
+        <Button type="button" variant="outline" size="sm" onClick={() => onChange([...guardians, emptyGuardian()])}>
+          <Plus className="h-4 w-4 mr-2" />
+          Kontakt hinzufügen
+        </Button>
+      </div>
+
+      {guardians.length === 0 ? (
+        <p className="text-sm text-gray-500">Keine Kontakte hinterlegt</p>
+      ) : guardians.map((guardian, index) => (
+        <div key={index} className="border rounded-md p-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor={`guardian-name-${index}`}>Name *</Label>
+              <Input
+                id={`guardian-name-${index}`}
+                value={guardian.name}
+                onChange={(e) => updateGuardian(index, { name: e.target.value })}
+                placeholder="Vor- und Nachname"
+              />
+            </div>
+            <div>
+              <Label>Rolle</Label>
+              <Select
+                value={guardian.role}
+                onValueChange={(value) => updateGuardian(index, { role: value as StudentGuardian['role'] })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {GUARDIAN_ROLES.map(role => (
+                    <SelectItem key={role} value={role}>{GUARDIAN_ROLE_LABELS[role]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor={`guardian-email-${index}`}>E-Mail</Label>
+              <Input
+                id={`guardian-email-${index}`}
+                type="email"
+                value={guardian.email || ''}
+                onChange={(e) => updateGuardian(index, { email: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor={`guardian-phone-${index}`}>Telefon</Label>
+              <Input
+                id={`guardian-phone-${index}`}
+                value={guardian.phone || ''}
+                onChange={(e) => updateGuardian(index, { phone: e.target.value })}
+              />
+            </div>
+            <div className="md:col-span-2">
+              <Label htmlFor={`guardian-address-${index}`}>Anschrift</Label>
+              <Input
+                id={`guardian-address-${index}`}
+                value={guardian.address || ''}
+                onChange={(e) => updateGuardian(index, { address: e.target.value })}
+                placeholder="Straße Nr., PLZ Ort"
+              />
+            </div>
+          </div>
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div className="flex flex-wrap gap-6">
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id={`guardian-partner-${index}`}
+                  checked={guardian.is_contract_partner}
+                  onCheckedChange={(checked) => setExclusiveFlag(index, 'is_contract_partner', checked === true)}
+                />
+                <Label htmlFor={`guardian-partner-${index}`}>Vertragspartner</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id={`guardian-recipient-${index}`}
+                  checked={guardian.is_invoice_recipient}
+                  onCheckedChange={(checked) => setExclusiveFlag(index, 'is_invoice_recipient', checked === true)}
+                />
+                <Label htmlFor={`guardian-recipient-${index}`}>Rechnungsempfänger</Label>
+              </div>
+            </div>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange(guardians.filter((_, i) => i !== index))}
+              className="text-red-600 hover:text-red-700"
+            >
+              <Trash2 className="h-4 w-4 mr-2" />
+              Entfernen
+            </Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
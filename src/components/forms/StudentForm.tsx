@@ -13,6 +13,12 @@ import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { ReplaceContractConfirmationModal } from '@/components/modals/ReplaceContractConfirmationModal';
 import { INSTRUMENTS } from '@/lib/constants';
+import { getStudentBankAccount, saveStudentBankAccount } from '@/lib/actions/sepaActions';
+import { getVariantsForStudent } from '@/lib/actions/priceVersionActions';
+import { getStudentGuardians, saveStudentGuardians, StudentGuardianInput } from '@/lib/actions/guardianActions';
+import { GuardianFields } from '@/components/forms/GuardianFields';
+import { AuditHistory } from '@/components/AuditHistory';
+import { isValidIban } from '@/lib/sepa/pain008';
 import { toast } from 'sonner';
 
 // Helper constants and functions for shadcn Select compatibility
@@ -90,6 +96,47 @@ export function StudentForm({ student, teachers, onSuccess, onCancel, prefilledS
   });
   const [loading, setLoading] = useState(false);
 
+  // SEPA mandate state (admin only, existing students)
+  const [bankAccount, setBankAccount] = useState({
+    account_holder_name: '',
+    iban: '',
+    bic: '',
+    mandate_reference: '',
+    mandate_date: ''
+  });
+
+  // Guardians (admin only); only saved once the existing list has been loaded
+  const [guardians, setGuardians] = useState<StudentGuardianInput[]>([]);
+  const [guardiansLoaded, setGuardiansLoaded] = useState(!student);
+
+  useEffect(() => {
+    if (!isAdmin || !student?.id) return;
+    getStudentGuardians(student.id)
+      .then(records => {
+        setGuardians(records.map(({ name, role, email, phone, address, is_contract_partner, is_invoice_recipient }) => ({
+          name, role, email, phone, address, is_contract_partner, is_invoice_recipient
+        })));
+        setGuardiansLoaded(true);
+      })
+      .catch(error => console.error('Error loading guardians:', error));
+  }, [isAdmin, student?.id]);
+
+  useEffect(() => {
+    if (!isAdmin || !student?.id) return;
+    getStudentBankAccount(student.id)
+      .then(record => {
+        if (!record) return;
+        setBankAccount({
+          account_holder_name: record.account_holder_name || '',
+          iban: record.iban || '',
+          bic: record.bic || '',
+          mandate_reference: record.mandate_reference || '',
+          mandate_date: record.mandate_date || ''
+        });
+      })
+      .catch(error => console.error('Error loading bank account:', error));
+  }, [isAdmin, student?.id]);
+
   // React Hook Form setup for prefilled data
   const { setValue, reset, watch, handleSubmit: rhfHandleSubmit, register } = useForm<FormValues>({
     defaultValues: {
@@ -122,12 +169,14 @@ export function StudentForm({ student, teachers, onSuccess, onCancel, prefilledS
   const [contractDataLoaded, setContractDataLoaded] = useState(false);
 
   // Filter contract categories to exclude "Sondervereinbarung" and "Diplomausbildung"
+  // as well as deactivated ones (unless already selected)
   const availableCategories = useMemo(() => {
     return contractCategories.filter(category => 
       category.name !== 'special_discount' && 
-      category.name !== 'private_diploma'
+      category.name !== 'private_diploma' &&
+      (category.is_active !== false || category.id === formData.selectedCategoryId)
     );
-  }, [contractCategories]);
+  }, [contractCategories, formData.selectedCategoryId]);
 
   // Filter variants based on selected category
   const filteredVariants = useMemo(() => {
@@ -238,11 +287,13 @@ export function StudentForm({ student, teachers, onSuccess, onCancel, prefilledS
         return;
       }
 
-      // Fetch contract variants using RPC - pass null for new students to get current price version
-      const { data: variants, error: variantsError } = await supabase
-        .rpc('get_variants_for_student', { p_student_id: student?.id || null });
-
-      if (variantsError) {
+      // Fetch contract variants using RPC - pass null for new students to get current price version;
+      // the running contract keeps its variant even after a price version migration
+      const activeContract = student?.contracts?.find(c => c.status === 'active') || student?.contracts?.[0];
+      let variants: ContractVariant[];
+      try {
+        variants = await getVariantsForStudent(student?.id || null, activeContract?.contract_variant_id);
+      } catch (variantsError) {
         console.error('Error fetching contract variants:', variantsError);
         return;
       }
@@ -260,7 +311,7 @@ export function StudentForm({ student, teachers, onSuccess, onCancel, prefilledS
       }
 
       setContractCategories(categories || []);
-      setContractVariants(variants || []);
+      setContractVariants(variants);
       setContractDiscounts(discounts || []);
       setContractDataLoaded(true);
     } catch (error) {
@@ -492,8 +543,32 @@ export function StudentForm({ student, teachers, onSuccess, onCancel, prefilledS
         return;
       }
 
+      // Validate SEPA mandate data before saving anything
+      if (isAdmin && student && bankAccount.iban.trim() && !isValidIban(bankAccount.iban)) {
+        toast.error('Die IBAN ist ungültig');
+        setLoading(false);
+        return;
+      }
+
+      if (isAdmin && guardians.some(g => !g.name.trim())) {
+        toast.error('Bitte geben Sie für jeden Kontakt einen Namen ein');
+        setLoading(false);
+        return;
+      }
+
       // Save student first
       const studentId = await performStudentSave(data);
+
+      if (isAdmin && guardiansLoaded) {
+        await saveStudentGuardians(studentId, guardians);
+      }
+
+      if (isAdmin && student) {
+        await saveStudentBankAccount(student.id, {
+          ...bankAccount,
+          mandate_date: bankAccount.mandate_date || null
+        });
+      }
       
       if (student) {
         toast.success('Schüler erfolgreich aktualisiert');
@@ -887,6 +962,8 @@ export function StudentForm({ student, teachers, onSuccess, onCancel, prefilledS
           </div>
         </div>
 
+        {isAdmin && <GuardianFields guardians={guardians} onChange={setGuardians} />}
+
         {/* Contract Section - Available for both admins and teachers when creating new students */}
         {(!student || isAdmin) && (
           <div className="space-y-4">
@@ -1113,10 +1190,60 @@ export function StudentForm({ student, teachers, onSuccess, onCancel, prefilledS
                   Diese ID wird automatisch beim Erstellen des Schülers generiert und kann nicht geändert werden.
                 </p>
               </div>
+              <div>
+                <Label htmlFor="account_holder_name">Kontoinhaber</Label>
+                <Input
+                  id="account_holder_name"
+                  value={bankAccount.account_holder_name}
+                  onChange={(e) => setBankAccount({ ...bankAccount, account_holder_name: e.target.value })}
+                  placeholder={student.name}
+                />
+              </div>
+              <div>
+                <Label htmlFor="iban">IBAN</Label>
+                <Input
+                  id="iban"
+                  value={bankAccount.iban}
+                  onChange={(e) => setBankAccount({ ...bankAccount, iban: e.target.value })}
+                  className="font-mono text-sm"
+                />
+                {bankAccount.iban.trim() && !isValidIban(bankAccount.iban) && (
+                  <p className="text-xs text-red-600 mt-1">Ungültige IBAN</p>
+                )}
+              </div>
+              <div>
+                <Label htmlFor="bic">BIC (optional)</Label>
+                <Input
+                  id="bic"
+                  value={bankAccount.bic}
+                  onChange={(e) => setBankAccount({ ...bankAccount, bic: e.target.value })}
+                  className="font-mono text-sm"
+                />
+              </div>
+              <div>
+                <Label htmlFor="mandate_reference">Mandatsreferenz</Label>
+                <Input
+                  id="mandate_reference"
+                  value={bankAccount.mandate_reference}
+                  onChange={(e) => setBankAccount({ ...bankAccount, mandate_reference: e.target.value })}
+                  maxLength={35}
+                />
+              </div>
+              <div>
+                <Label htmlFor="mandate_date">Mandatsdatum</Label>
+                <Input
+                  id="mandate_date"
+                  type="date"
+                  value={bankAccount.mandate_date}
+                  onChange={(e) => setBankAccount({ ...bankAccount, mandate_date: e.target.value })}
+                />
+              </div>
             </div>
           </div>
         )}
 
+        {student && <AuditHistory table="students" recordId={student.id} />}
+
         <div className="flex justify-end space-x-2 pt-6 border-t">
           <Button 
             type="button" 
@@ -5,6 +5,7 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AuditHistory } from '@/components/AuditHistory';
 import { INSTRUMENTS } from '@/lib/constants';
 import { toast } from 'sonner';
 
@@ -210,6 +211,8 @@ export function TeacherForm({ teacher, onSuccess, onCancel }: TeacherFormProps)
         </div>
       )}
 
+      {teacher && <AuditHistory table="teachers" recordId={teacher.id} />}
+
       <div className="flex justify-end space-x-2 pt-6 border-t">
         <Button 
           type="button" 
@@ -1,21 +1,28 @@
-import { useState, useMemo } from 'react';
-import { supabase, TrialAppointment, Teacher } from '@/lib/supabase';
+import { useState, useMemo, useEffect } from 'react';
+import { supabase, TrialAppointment, TrialOutcome, Teacher, Room } from '@/lib/supabase';
 import { useAuth } from '@/hooks/useAuth';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Separator } from '@/components/ui/separator';
+import { TrialScheduleFields } from '@/components/forms/TrialScheduleFields';
+import { AuditHistory } from '@/components/AuditHistory';
+import { TrialScheduleInput } from '@/lib/actions/trialActions';
+import { TRIAL_OUTCOMES, TRIAL_OUTCOME_LABELS } from '@/lib/trials/trialSchedule';
 import { INSTRUMENTS } from '@/lib/constants';
 import { toast } from 'sonner';
 
 interface TrialAppointmentFormProps {
   trialAppointment?: TrialAppointment;
   teachers: Teacher[];
+  // all loaded trials, for the agenda of the assigned teacher
+  trialAppointments?: TrialAppointment[];
   onSuccess: () => void;
   onCancel: () => void;
 }
 
-export function TrialAppointmentForm({ trialAppointment, teachers, onSuccess, onCancel }: TrialAppointmentFormProps) {
+export function TrialAppointmentForm({ trialAppointment, teachers, trialAppointments = [], onSuccess, onCancel }: TrialAppointmentFormProps) {
   const { profile, isAdmin } = useAuth();
   
   // Enhanced teacher profile resolution with robust string comparison
@@ -48,8 +55,33 @@ export function TrialAppointmentForm({ trialAppointment, teachers, onSuccess, on
     status: trialAppointment?.status || 'open',
     teacher_id: trialAppointment?.teacher_id || ''
   });
+  const [schedule, setSchedule] = useState<TrialScheduleInput>({
+    scheduled_at: trialAppointment?.scheduled_at || null,
+    duration_minutes: trialAppointment?.duration_minutes || 30,
+    room_id: trialAppointment?.room_id || null,
+    location: trialAppointment?.location || '',
+    proposed_slots: trialAppointment?.proposed_slots || []
+  });
+  const [outcome, setOutcome] = useState<TrialOutcome | null>(trialAppointment?.outcome || null);
+  const [outcomeNote, setOutcomeNote] = useState(trialAppointment?.outcome_note || '');
+  const [rooms, setRooms] = useState<Room[]>([]);
   const [loading, setLoading] = useState(false);
 
+  useEffect(() => {
+    supabase
+      .from('rooms')
+      .select('*')
+      .eq('is_active', true)
+      .order('name')
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error fetching rooms:', error);
+          return;
+        }
+        setRooms(data || []);
+      });
+  }, []);
+
   // Initialize custom instrument state based on existing data
   useState(() => {
     if (trialAppointment?.instrument && !INSTRUMENTS.includes(trialAppointment.instrument as any)) {
@@ -93,7 +125,12 @@ export function TrialAppointmentForm({ trialAppointment, teachers, onSuccess, on
       // Prepare data for submission
       const submitData = { 
         ...formData,
-        instrument: finalInstrument
+        instrument: finalInstrument,
+        ...schedule,
+        location: schedule.location?.trim() || null,
+        proposed_slots: schedule.proposed_slots.filter(Boolean),
+        outcome: schedule.scheduled_at ? outcome : null,
+        outcome_note: schedule.scheduled_at && outcome ? outcomeNote.trim() || null : null
       };
       
       // Convert empty string to null for teacher_id
@@ -101,8 +138,10 @@ export function TrialAppointmentForm({ trialAppointment, teachers, onSuccess, on
         submitData.teacher_id = null as any;
       }
 
-      // Set status based on teacher assignment
-      if (submitData.teacher_id) {
+      // Set status based on teacher assignment; an accepted trial stays accepted while its teacher is kept
+      if (submitData.teacher_id && trialAppointment?.status === 'accepted' && trialAppointment.teacher_id === submitData.teacher_id) {
+        submitData.status = 'accepted';
+      } else if (submitData.teacher_id) {
         submitData.status = 'assigned';
       } else {
         submitData.status = 'open';
@@ -176,6 +215,10 @@ export function TrialAppointmentForm({ trialAppointment, teachers, onSuccess, on
   // Filter teachers based on role - for editing, show all teachers
   const availableTeachers = teachers;
 
+  const teacherAgenda = formData.teacher_id
+    ? trialAppointments.filter(t => t.teacher_id === formData.teacher_id && t.id !== trialAppointment?.id)
+    : [];
+
   return (
     <form onSubmit={handleSubmit} className="space-y-4">
       {/* Show error if teacher profile is not resolved */}
@@ -291,6 +334,51 @@ export function TrialAppointmentForm({ trialAppointment, teachers, onSuccess, on
         )}
       </div>
 
+      <Separator />
+
+      <TrialScheduleFields
+        schedule={schedule}
+        rooms={rooms}
+        agenda={teacherAgenda}
+        onChange={setSchedule}
+      />
+
+      {/* Outcome - only for scheduled trials */}
+      {isAdmin && schedule.scheduled_at && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="outcome">Ergebnis</Label>
+            <Select
+              value={outcome || 'none'}
+              onValueChange={(value) => setOutcome(value === 'none' ? null : value as TrialOutcome)}
+            >
+              <SelectTrigger id="outcome">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Noch offen</SelectItem>
+                {TRIAL_OUTCOMES.map(value => (
+                  <SelectItem key={value} value={value}>{TRIAL_OUTCOME_LABELS[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {outcome && (
+            <div>
+              <Label htmlFor="outcome_note">Notiz zum Ergebnis</Label>
+              <Input
+                id="outcome_note"
+                value={outcomeNote}
+                onChange={(e) => setOutcomeNote(e.target.value)}
+                placeholder="z. B. möchte im Herbst beginnen"
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      {trialAppointment && <AuditHistory table="trial_appointments" recordId={trialAppointment.id} />}
+
       <div className="flex justify-end space-x-2 pt-4">
         <Button 
           type="button" 
@@ -0,0 +1,179 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertTriangle, CalendarCheck, Plus, Trash2 } from 'lucide-react';
+import { Room, TrialAppointment } from '@/lib/supabase';
+import { TrialScheduleInput } from '@/lib/actions/trialActions';
+import {
+  TRIAL_DURATIONS,
+  toDateTimeLocal,
+  fromDateTimeLocal,
+  fmtTrialSlot,
+  getTrialLocation,
+  getUpcomingTrials
+} from '@/lib/trials/trialSchedule';
+
+interface TrialScheduleFieldsProps {
+  schedule: TrialScheduleInput;
+  rooms: Room[];
+  // other trials of the same teacher, shown as agenda
+  agenda?: TrialAppointment[];
+  onChange: (schedule: TrialScheduleInput) => void;
+}
+
+const overlaps = (schedule: TrialScheduleInput, trial: TrialAppointment) => {
+  if (!schedule.scheduled_at || !trial.scheduled_at) return false;
+  const start = new Date(schedule.scheduled_at).getTime();
+  const otherStart = new Date(trial.scheduled_at).getTime();
+  return start < otherStart + (trial.duration_minutes || 30) * 60000
+    && otherStart < start + schedule.duration_minutes * 60000;
+};
+
+export function TrialScheduleFields({ schedule, rooms, agenda = [], onChange }: TrialScheduleFieldsProps) {
+  const update = (changes: Partial<TrialScheduleInput>) => onChange({ ...schedule, ...changes });
+
+  const updateSlot = (index: number, value: string) => {
+    update({ proposed_slots: schedule.proposed_slots.map((slot, i) => (i === index ? fromDateTimeLocal(value) || '' : slot)) });
+  };
+
+  const upcoming = getUpcomingTrials(agenda).slice(0, 5);
+  const conflicts = upcoming.filter(trial => overlaps(schedule, trial));
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-lg font-medium text-gray-900">Termin</h3>
+        <p className="text-sm text-gray-500">Vorgeschlagene Zeiten festhalten und den vereinbarten Termin eintragen.</p>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>Terminvorschläge</Label>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => update({ proposed_slots: [...schedule.proposed_slots, ''] })}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Vorschlag hinzufügen
+          </Button>
+        </div>
+        {schedule.proposed_slots.length === 0 ? (
+          <p className="text-sm text-gray-500">Keine Vorschläge</p>
+        ) : schedule.proposed_slots.map((slot, index) => (
+          <div key={index} className="flex gap-2">
+            <Input
+              type="datetime-local"
+              value={toDateTimeLocal(slot)}
+              onChange={(e) => updateSlot(index, e.target.value)}
+            />
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              disabled={!slot}
+              onClick={() => update({ scheduled_at: slot })}
+              title="Als Termin übernehmen"
+            >
+              <CalendarCheck className="h-4 w-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => update({ proposed_slots: schedule.proposed_slots.filter((_, i) => i !== index) })}
+              className="text-red-600"
+              title="Vorschlag entfernen"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="scheduled_at">Vereinbarter Termin</Label>
+          <Input
+            id="scheduled_at"
+            type="datetime-local"
+            value={toDateTimeLocal(schedule.scheduled_at)}
+            onChange={(e) => update({ scheduled_at: fromDateTimeLocal(e.target.value) })}
+          />
+        </div>
+
+        <div>
+          <Label htmlFor="duration_minutes">Dauer</Label>
+          <Select
+            value={String(schedule.duration_minutes)}
+            onValueChange={(value) => update({ duration_minutes: Number(value) })}
+          >
+            <SelectTrigger id="duration_minutes">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TRIAL_DURATIONS.map(minutes => (
+                <SelectItem key={minutes} value={String(minutes)}>{minutes} Minuten</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div>
+          <Label htmlFor="room_id">Raum</Label>
+          <Select
+            value={schedule.room_id || 'none'}
+            onValueChange={(value) => update({ room_id: value === 'none' ? null : value })}
+          >
+            <SelectTrigger id="room_id">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">Kein Raum</SelectItem>
+              {rooms.map(room => (
+                <SelectItem key={room.id} value={room.id}>{room.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div>
+          <Label htmlFor="location">Ort</Label>
+          <Input
+            id="location"
+            value={schedule.location || ''}
+            onChange={(e) => update({ location: e.target.value })}
+            placeholder="z. B. Online oder beim Schüler"
+          />
+        </div>
+      </div>
+
+      {conflicts.length > 0 && (
+        <div className="flex items-start gap-2 rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+          <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+          <span>
+            Überschneidung mit {conflicts.map(trial => `${trial.student_name} (${fmtTrialSlot(trial.scheduled_at)})`).join(', ')}
+          </span>
+        </div>
+      )}
+
+      {upcoming.length > 0 && (
+        <div className="space-y-1">
+          <Label>Weitere anstehende Probestunden der Lehrkraft</Label>
+          <ul className="text-sm text-gray-600 space-y-1">
+            {upcoming.map(trial => (
+              <li key={trial.id} className="flex justify-between gap-2">
+                <span>{fmtTrialSlot(trial.scheduled_at)}</span>
+                <span className="truncate">
+                  {trial.student_name} ({trial.instrument}){getTrialLocation(trial) && ` · ${getTrialLocation(trial)}`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,207 @@
+import { useState, useEffect } from 'react';
+import { supabase, ContractVariant, Student, Teacher, TrialAppointment } from '@/lib/supabase';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ContractForm } from '@/components/forms/ContractForm';
+import { getVariantsForStudent } from '@/lib/actions/priceVersionActions';
+import { convertTrialToStudent, TrialConversionInput } from '@/lib/actions/trialActions';
+import { getMatchingVariants } from '@/lib/trials/trialConversion';
+import { UserPlus } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface ConvertTrialModalProps {
+  open: boolean;
+  trialAppointment: TrialAppointment;
+  teachers: Teacher[];
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+const NONE = 'none';
+
+export function ConvertTrialModal({ open, trialAppointment, teachers, onClose, onSuccess }: ConvertTrialModalProps) {
+  const [studentData, setStudentData] = useState<TrialConversionInput>({
+    name: trialAppointment.student_name,
+    instrument: trialAppointment.instrument,
+    email: trialAppointment.email || '',
+    phone: trialAppointment.phone || ''
+  });
+  const [variants, setVariants] = useState<ContractVariant[]>([]);
+  const [variantId, setVariantId] = useState<string>(NONE);
+  // Set once the student exists; the contract step follows
+  const [student, setStudent] = useState<Student | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const teacher = teachers.find(t => t.id === trialAppointment.teacher_id);
+
+  // Variants of the current price version, as offered to new students
+  useEffect(() => {
+    if (!open) return;
+
+    getVariantsForStudent(trialAppointment.student_id || null)
+      .then(data => {
+        const matching = getMatchingVariants(data, trialAppointment);
+        setVariants(matching);
+        setVariantId(matching[0]?.id || NONE);
+      })
+      .catch(error => {
+        console.error('Error loading contract variants:', error);
+        toast.error('Fehler beim Laden der Vertragsvarianten', {
+          description: error instanceof Error ? error.message : 'Unbekannter Fehler'
+        });
+      });
+  }, [open, trialAppointment]);
+
+  // A trial converted before continues with the contract
+  useEffect(() => {
+    if (open && trialAppointment.student_id) {
+      loadStudent(trialAppointment.student_id).catch(error => {
+        console.error('Error loading student:', error);
+        toast.error('Fehler beim Laden des Schülers', {
+          description: error instanceof Error ? error.message : 'Unbekannter Fehler'
+        });
+      });
+    }
+  }, [open, trialAppointment.student_id]);
+
+  const loadStudent = async (studentId: string) => {
+    const { data, error } = await supabase
+      .from('students')
+      .select('*')
+      .eq('id', studentId)
+      .single();
+
+    if (error) {
+      throw new Error(error.message || 'Failed to load student');
+    }
+
+    setStudent(data);
+  };
+
+  const handleCreateStudent = async () => {
+    if (!studentData.name.trim() || !studentData.instrument.trim()) {
+      toast.error('Name und Instrument sind erforderlich');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const studentId = await convertTrialToStudent(trialAppointment.id, {
+        ...studentData,
+        email: studentData.email?.trim() || null,
+        phone: studentData.phone?.trim() || null
+      });
+      await loadStudent(studentId);
+      toast.success('Schüler erfolgreich erstellt');
+    } catch (error) {
+      console.error('Error converting trial appointment:', error);
+      toast.error('Fehler beim Anlegen des Schülers', {
+        description: error instanceof Error ? error.message : 'Unbekannter Fehler'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {student ? `Vertrag für ${student.name}` : 'Probestunde in Schüler umwandeln'}
+          </DialogTitle>
+        </DialogHeader>
+
+        {student ? (
+          <ContractForm
+            students={[student]}
+            teachers={teachers}
+            initialStudentId={student.id}
+            initialTeacherId={trialAppointment.teacher_id}
+            initialVariantId={variantId !== NONE ? variantId : undefined}
+            trialAppointmentId={trialAppointment.id}
+            onSuccess={onSuccess}
+            onCancel={onClose}
+          />
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-500">
+              Die Daten aus der Probestunde werden übernommen. Anschließend wird der Vertrag angelegt.
+            </p>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="convert-name">Schülername *</Label>
+                <Input
+                  id="convert-name"
+                  value={studentData.name}
+                  onChange={(e) => setStudentData(prev => ({ ...prev, name: e.target.value }))}
+                />
+              </div>
+              <div>
+                <Label htmlFor="convert-instrument">Instrument *</Label>
+                <Input
+                  id="convert-instrument"
+                  value={studentData.instrument}
+                  onChange={(e) => setStudentData(prev => ({ ...prev, instrument: e.target.value }))}
+                />
+              </div>
+              <div>
+                <Label htmlFor="convert-email">E-Mail</Label>
+                <Input
+                  id="convert-email"
+                  type="email"
+                  value={studentData.email || ''}
+                  onChange={(e) => setStudentData(prev => ({ ...prev, email: e.target.value }))}
+                />
+              </div>
+              <div>
+                <Label htmlFor="convert-phone">Telefon</Label>
+                <Input
+                  id="convert-phone"
+                  value={studentData.phone || ''}
+                  onChange={(e) => setStudentData(prev => ({ ...prev, phone: e.target.value }))}
+                />
+              </div>
+              <div>
+                <Label>Lehrer</Label>
+                <Input value={teacher ? `${teacher.name} (${teacher.instrument})` : 'Kein Lehrer zugewiesen'} disabled />
+              </div>
+              <div>
+                <Label htmlFor="convert-variant">Vertragsvariante</Label>
+                <Select value={variantId} onValueChange={setVariantId}>
+                  <SelectTrigger id="convert-variant">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>Im Vertrag auswählen</SelectItem>
+                    {variants.map(variant => (
+                      <SelectItem key={variant.id} value={variant.id}>{variant.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="flex justify-end space-x-2 pt-4">
+              <Button variant="outline" onClick={onClose} disabled={saving}>
+                Abbrechen
+              </Button>
+              <Button
+                onClick={handleCreateStudent}
+                disabled={saving}
+                className="bg-brand-primary hover:bg-brand-primary/90 focus:ring-brand-primary"
+              >
+                <UserPlus className="h-4 w-4 mr-2" />
+                {saving ? 'Speichern...' : 'Schüler anlegen und weiter'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
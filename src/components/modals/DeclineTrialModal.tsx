@@ -0,0 +1,85 @@
+import { useState } from 'react';
+import { TrialAppointment, TrialDeclineReason } from '@/lib/supabase';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { TRIAL_DECLINE_REASONS, TRIAL_DECLINE_REASON_LABELS } from '@/lib/trials/trialFunnel';
+import { X } from 'lucide-react';
+
+interface DeclineTrialModalProps {
+  open: boolean;
+  trialAppointment: TrialAppointment;
+  onClose: () => void;
+  onConfirm: (reason: TrialDeclineReason, note: string) => Promise<void>;
+}
+
+export function DeclineTrialModal({ open, trialAppointment, onClose, onConfirm }: DeclineTrialModalProps) {
+  const [reason, setReason] = useState<TrialDeclineReason>('no_capacity');
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const handleConfirm = async () => {
+    setSaving(true);
+    try {
+      await onConfirm(reason, note.trim());
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Probestunde ablehnen</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <p className="text-sm text-gray-500">
+            Die Probestunde mit {trialAppointment.student_name} ({trialAppointment.instrument}) wird wieder für alle Lehrer freigegeben.
+          </p>
+
+          <div>
+            <Label htmlFor="decline-reason">Grund</Label>
+            <Select value={reason} onValueChange={(value) => setReason(value as TrialDeclineReason)}>
+              <SelectTrigger id="decline-reason">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TRIAL_DECLINE_REASONS.map(value => (
+                  <SelectItem key={value} value={value}>{TRIAL_DECLINE_REASON_LABELS[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <Label htmlFor="decline-note">Anmerkung</Label>
+            <Input
+              id="decline-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Optional"
+            />
+          </div>
+
+          <div className="flex justify-end space-x-2 pt-2">
+            <Button variant="outline" onClick={onClose} disabled={saving}>
+              Abbrechen
+            </Button>
+            <Button
+              onClick={handleConfirm}
+              disabled={saving}
+              className="bg-brand-primary hover:bg-brand-primary/90 focus:ring-brand-primary"
+            >
+              <X className="h-4 w-4 mr-2" />
+              {saving ? 'Speichern...' : 'Ablehnen'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
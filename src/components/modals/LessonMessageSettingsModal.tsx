@@ -0,0 +1,138 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { toast } from 'sonner';
+import { getLessonMessageSettings, saveLessonMessageSettings } from '@/lib/actions/lessonMessageActions';
+
+interface LessonMessageSettingsModalProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+export function LessonMessageSettingsModal({ open, onClose }: LessonMessageSettingsModalProps) {
+  const [remindersEnabled, setRemindersEnabled] = useState(false);
+  const [hoursBefore, setHoursBefore] = useState('24');
+  const [cancellationNoticesEnabled, setCancellationNoticesEnabled] = useState(true);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setLoading(true);
+    getLessonMessageSettings()
+      .then(settings => {
+        if (!settings) return;
+        setRemindersEnabled(settings.reminders_enabled);
+        setHoursBefore(String(settings.reminder_hours_before));
+        setCancellationNoticesEnabled(settings.cancellation_notices_enabled);
+      })
+      .catch(error => {
+        console.error('Error loading lesson message settings:', error);
+        toast.error('Fehler beim Laden der Einstellungen', {
+          description: error instanceof Error ? error.message : 'Unbekannter Fehler'
+        });
+      })
+      .finally(() => setLoading(false));
+  }, [open]);
+
+  const handleSave = async () => {
+    const hours = Number(hoursBefore);
+    if (!Number.isInteger(hours) || hours < 1 || hours > 168) {
+      toast.error('Die Vorlaufzeit muss zwischen 1 und 168 Stunden liegen');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveLessonMessageSettings({
+        reminders_enabled: remindersEnabled,
+        reminder_hours_before: hours,
+        cancellation_notices_enabled: cancellationNoticesEnabled,
+      });
+      toast.success('Einstellungen gespeichert');
+      onClose();
+    } catch (error) {
+      console.error('Error saving lesson message settings:', error);
+      toast.error('Fehler beim Speichern der Einstellungen', {
+        description: error instanceof Error ? error.message : 'Unbekannter Fehler'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Erinnerungen & Absagen</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <Label htmlFor="reminders-enabled">Terminerinnerungen</Label>
+              <p className="text-sm text-gray-500">
+                Schüler bzw. Erziehungsberechtigte erhalten vor jeder geplanten Stunde eine E-Mail.
+              </p>
+            </div>
+            <Switch
+              id="reminders-enabled"
+              checked={remindersEnabled}
+              onCheckedChange={setRemindersEnabled}
+              disabled={loading}
+            />
+          </div>
+
+          {remindersEnabled && (
+            <div className="space-y-2">
+              <Label htmlFor="reminder-hours">Vorlaufzeit (Stunden)</Label>
+              <Input
+                id="reminder-hours"
+                type="number"
+                min="1"
+                max="168"
+                value={hoursBefore}
+                onChange={(e) => setHoursBefore(e.target.value)}
+                className="w-32"
+                disabled={loading}
+              />
+            </div>
+          )}
+
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <Label htmlFor="cancellation-notices-enabled">Absagen</Label>
+              <p className="text-sm text-gray-500">
+                Beim Austragen einer Stunde im Stundentracker kann eine Absage per E-Mail verschickt werden.
+              </p>
+            </div>
+            <Switch
+              id="cancellation-notices-enabled"
+              checked={cancellationNoticesEnabled}
+              onCheckedChange={setCancellationNoticesEnabled}
+              disabled={loading}
+            />
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={onClose}>
+              Abbrechen
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={saving || loading}
+              className="bg-brand-primary hover:bg-brand-primary/90 focus:ring-brand-primary"
+            >
+              {saving ? 'Speichern...' : 'Speichern'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState, useEffect, useRef } from 'react';
-import { supabase, Contract, getContractDuration } from '@/lib/supabase';
+import { supabase, Contract, Lesson, LessonCancellationReason, LessonMessage, getContractDuration } from '@/lib/supabase';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
@@ -9,14 +9,35 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Checkbox } from '@/components/ui/checkbox';
-import { Calendar, Save, X, Clock, CheckCircle, AlertCircle, FileText, XCircle } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Calendar, Save, X, Clock, CheckCircle, AlertCircle, FileText, XCircle, RotateCcw, CloudOff } from 'lucide-react';
 import { format } from 'date-fns';
 import { toast } from 'sonner';
 import { useAuth } from '@/hooks/useAuth';
 import { useIsMobile } from '@/hooks/useIsMobile';
+import { useOnlineStatus } from '@/hooks/useOnlineStatus';
+import { useLessonQueue } from '@/hooks/useLessonQueue';
 import { Accordion, AccordionItem, AccordionTrigger, AccordionContent } from '@/components/ui/accordion';
+import { AuditHistory } from '@/components/AuditHistory';
+import { SaveConflictModal } from '@/components/modals/SaveConflictModal';
+import { fmtAuditValue } from '@/lib/audit/auditLog';
 import { fmtDate, fmtRange } from '@/lib/utils';
 import { updateContractNotes } from '@/lib/actions/contractNotes';
+import { formatSlot } from '@/lib/schedule/weeklySchedule';
+import { getLessonMessages, getLessonMessageSettings, sendLessonCancellations } from '@/lib/actions/lessonMessageActions';
+import { logMakeupLesson } from '@/lib/actions/makeupActions';
+import { CANCELLATION_REASON_LABELS, CANCELLATION_REASONS, getOwedMakeupLessons, isCreditOpen } from '@/lib/lessons/makeupLessons';
+import { ConflictChoice, FieldChange, MergeResult, applyConflictChoices, mergeChanges } from '@/lib/concurrency/mergeChanges';
+import {
+  QUEUE_STATUS_LABELS,
+  QueuedLessonEdit,
+  cacheContractLessons,
+  getCachedContractLessons,
+  getQueuedLessonEdits,
+  isNetworkError,
+  queueLessonEdits,
+  removeQueuedLessonEdits
+} from '@/lib/offline/lessonQueue';
 
 interface LessonTrackerModalProps {
   contract: Contract;
@@ -25,18 +46,51 @@ interface LessonTrackerModalProps {
   onUpdate: () => void;
 }
 
+type LessonEdit = {
+  date: string;
+  comment: string;
+  is_available: boolean;
+  cancellation_reason: LessonCancellationReason | null;
+};
+
+const MESSAGE_KIND_LABELS: Record<LessonMessage['kind'], string> = {
+  reminder: 'Erinnerung',
+  cancellation: 'Absage',
+};
+
 export function LessonTrackerModal({ contract, open, onClose, onUpdate }: LessonTrackerModalProps) {
   const [lessons, setLessons] = useState<any[]>([]);
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
-  const [editedLessons, setEditedLessons] = useState<Record<string, { date: string; comment: string; is_available: boolean }>>({});
+  const [editedLessons, setEditedLessons] = useState<Record<string, LessonEdit>>({});
   
+  // Cancellation notices to the student or guardian and the message log per lesson
+  const [lessonMessages, setLessonMessages] = useState<LessonMessage[]>([]);
+  const [cancellationNoticesEnabled, setCancellationNoticesEnabled] = useState(false);
+  const [sendCancellationNotice, setSendCancellationNotice] = useState(true);
+  const [cancellationReason, setCancellationReason] = useState('');
+
+  // Makeup lessons owed for cancelled lessons (date per credit while logging)
+  const [makeupDates, setMakeupDates] = useState<Record<string, string>>({});
+  const [loggingCreditId, setLoggingCreditId] = useState<string | null>(null);
+
+  // Save rejected because lessons were changed in the meantime
+  const [lessonConflict, setLessonConflict] = useState<{
+    merges: (MergeResult<LessonEdit> & { row: Lesson })[];
+    conflicts: FieldChange[];
+    theirChanges: FieldChange[];
+    // Raised while syncing offline edits rather than by a save in this dialog
+    queued: boolean;
+  } | null>(null);
+
   // Private notes stable local state (no remounting)
   const [privateNotes, setPrivateNotes] = useState<string>('');
   const initializedRef = useRef(false);
 
   const { profile } = useAuth();
   const isMobile = useIsMobile();
+  const online = useOnlineStatus();
+  const queuedEdits = useLessonQueue(contract.id);
   const isAdminOrTeacher = profile?.role === 'admin' || profile?.role === 'teacher';
 
   useEffect(() => {
@@ -45,6 +99,11 @@ export function LessonTrackerModal({ contract, open, onClose, onUpdate }: Lesson
       // Initialize notes from contract data only once per modal open
       if (!initializedRef.current) {
         setPrivateNotes(contract.private_notes || '');
+        setSendCancellationNotice(true);
+        setCancellationReason('');
+        getLessonMessageSettings()
+          .then(settings => setCancellationNoticesEnabled(!!settings?.cancellation_notices_enabled))
+          .catch(error => console.error('Error loading lesson message settings:', error));
         initializedRef.current = true;
       }
     }
@@ -60,36 +119,205 @@ export function LessonTrackerModal({ contract, open, onClose, onUpdate }: Lesson
     try {
       const { data, error } = await supabase
         .from('lessons')
-        .select('*')
+        .select('*, makeup_credit:lesson_makeup_credits(*)')
         .eq('contract_id', contract.id)
         .order('lesson_number');
 
       if (error) {
+        if (isNetworkError(error.message) && loadCachedLessons()) return;
         toast.error('Fehler beim Laden der Stunden', { description: error.message });
         return;
       }
 
+      cacheContractLessons(contract.id, data || []);
       setLessons(data || []);
-      
-      // Initialize edited lessons state
-      const initialEdits: Record<string, { date: string; comment: string; is_available: boolean }> = {};
-      data?.forEach(lesson => {
-        initialEdits[lesson.id] = {
-          date: lesson.date || '',
-          comment: lesson.comment || '',
-          is_available: lesson.is_available ?? true
-        };
-      });
-      setEditedLessons(initialEdits);
+      getLessonMessages((data || []).map(lesson => lesson.id))
+        .then(setLessonMessages)
+        .catch(error => console.error('Error loading lesson messages:', error));
+      initLessonEdits(data || [], true);
     } catch (error) {
       console.error('Error fetching lessons:', error);
+      if (loadCachedLessons()) return;
       toast.error('Fehler beim Laden der Stunden');
     } finally {
       setLoading(false);
     }
   };
 
-  const handleLessonChange = (lessonId: string, field: 'date' | 'comment' | 'is_available', value: string | boolean) => {
+  // Without connection the tracker works on the lessons last loaded on this device
+  const loadCachedLessons = () => {
+    const cached = getCachedContractLessons(contract.id);
+    if (!cached) return false;
+
+    setLessons(cached);
+    initLessonEdits(cached, false);
+    toast.info('Offline – zuletzt geladener Stand', {
+      description: 'Änderungen werden auf dem Gerät gespeichert und später synchronisiert.'
+    });
+    return true;
+  };
+
+  const initLessonEdits = (rows: Lesson[], fresh: boolean) => {
+    // Planned dates are only suggested (see getPlannedHint); a lesson counts as held
+    // once the teacher confirms or enters its date
+    const initialEdits: Record<string, LessonEdit> = {};
+    rows.forEach(lesson => {
+      initialEdits[lesson.id] = {
+        date: lesson.date || '',
+        comment: lesson.comment || '',
+        is_available: lesson.is_available ?? true,
+        cancellation_reason: lesson.cancellation_reason ?? null
+      };
+    });
+
+    // Edits still waiting in the offline queue are shown instead of the loaded values
+    const queued = getQueuedLessonEdits(contract.id).filter(entry => initialEdits[entry.lesson_id]);
+    queued.forEach(entry => {
+      initialEdits[entry.lesson_id] = entry.values;
+    });
+    setEditedLessons(initialEdits);
+
+    // Rejected while syncing: merge against the lessons just loaded from the server
+    const conflicted = queued.filter(entry => entry.status === 'conflict');
+    if (fresh && conflicted.length > 0) {
+      openLessonConflict(
+        rows.filter(lesson => conflicted.some(entry => entry.lesson_id === lesson.id)),
+        Object.fromEntries(conflicted.map(entry => [entry.lesson_id, entry.base])),
+        initialEdits,
+        true
+      );
+    }
+  };
+
+  const toLessonEdit = (lesson: Lesson): LessonEdit => ({
+    date: lesson.date || '',
+    comment: lesson.comment || '',
+    is_available: lesson.is_available ?? true,
+    cancellation_reason: lesson.cancellation_reason ?? null
+  });
+
+  const openLessonConflict = (
+    rows: Lesson[],
+    bases: Record<string, LessonEdit> = {},
+    edits: Record<string, LessonEdit> = editedLessons,
+    queued = false
+  ) => {
+    const merges = rows.map(row => {
+      const original = lessons.find(l => l.id === row.id);
+      return {
+        row,
+        ...mergeChanges(
+          bases[row.id] ?? (original ? toLessonEdit(original) : toLessonEdit(row)),
+          edits[row.id] ?? toLessonEdit(row),
+          toLessonEdit(row),
+          { keyPrefix: `${row.id}.`, labelPrefix: `Stunde ${row.lesson_number}: ` }
+        )
+      };
+    });
+    setLessonConflict({
+      merges,
+      conflicts: merges.flatMap(m => m.conflicts),
+      theirChanges: merges.flatMap(m => m.theirChanges),
+      queued
+    });
+  };
+
+  // The conflicting lessons become the new base, so the next save carries their current version
+  const resolveLessonConflict = (choices: Record<string, ConflictChoice> | null) => {
+    if (!lessonConflict) return;
+    const edits: Record<string, LessonEdit> = {};
+    lessonConflict.merges.forEach(({ row, merged, conflicts }) => {
+      edits[row.id] = choices ? applyConflictChoices(merged, conflicts, choices) : toLessonEdit(row);
+    });
+    setLessons(prev => prev.map(l => {
+      const row = lessonConflict.merges.find(m => m.row.id === l.id)?.row;
+      return row ? { ...l, ...row, makeup_credit: l.makeup_credit } : l;
+    }));
+    setEditedLessons(prev => ({ ...prev, ...edits }));
+    setLessonConflict(null);
+
+    // Offline edits stay queued with the merged values and the current version,
+    // so they are synced even if this dialog is closed without saving
+    if (lessonConflict.queued) {
+      const rows = lessonConflict.merges.map(m => m.row);
+      const notices = Object.fromEntries(
+        getQueuedLessonEdits(contract.id).map(entry => [entry.lesson_id, entry.cancellation_notice])
+      );
+      removeQueuedLessonEdits(rows.map(row => row.id));
+      if (choices && profile) {
+        queueLessonEdits(rows
+          .filter(row => hasLessonChanges(row, edits[row.id]))
+          .map(row => toQueuedEdit(
+            row,
+            edits[row.id],
+            profile.id,
+            // Only if the lesson is still being cancelled with this edit
+            (row.is_available ?? true) && !edits[row.id].is_available ? notices[row.id] : undefined
+          )));
+      }
+    }
+
+    if (choices) {
+      toast.info('Änderungen zusammengeführt', { description: 'Bitte prüfen und erneut speichern.' });
+    }
+  };
+
+  // Drops an offline edit the server rejected and shows the stored values again
+  const discardQueuedEdit = (lesson: Lesson) => {
+    removeQueuedLessonEdits([lesson.id]);
+    setEditedLessons(prev => ({ ...prev, [lesson.id]: toLessonEdit(lesson) }));
+  };
+
+  const hasLessonChanges = (lesson: Lesson, data: LessonEdit) =>
+    (data.date || null) !== (lesson.date || null) ||
+    (data.comment || null) !== (lesson.comment || null) ||
+    data.is_available !== (lesson.is_available ?? true) ||
+    data.cancellation_reason !== (lesson.cancellation_reason ?? null);
+
+  const toQueuedEdit = (
+    lesson: Lesson,
+    data: LessonEdit,
+    profileId: string,
+    cancellationNotice?: QueuedLessonEdit['cancellation_notice']
+  ) => ({
+    lesson_id: lesson.id,
+    contract_id: lesson.contract_id,
+    lesson_number: lesson.lesson_number,
+    profile_id: profileId,
+    base: toLessonEdit(lesson),
+    values: { ...data, cancellation_reason: data.is_available ? null : data.cancellation_reason },
+    version: lesson.version,
+    cancellation_notice: cancellationNotice
+  });
+
+  // Without connection lesson edits go to the local queue; requested cancellation notices
+  // are queued with them and sent after the sync. Notes need the server and are not queued.
+  const queueOfflineEdits = (newlyCancelledIds: string[], notesSaved = false) => {
+    const changed = lessons.filter(lesson => editedLessons[lesson.id] && hasLessonChanges(lesson, editedLessons[lesson.id]));
+    if (changed.length === 0 || !profile) {
+      toast.error('Keine Verbindung', { description: 'Notizen können offline nicht gespeichert werden.' });
+      return;
+    }
+
+    const sendNotices = cancellationNoticesEnabled && sendCancellationNotice;
+    const notice = { reason: cancellationReason.trim() || null };
+    queueLessonEdits(changed.map(lesson => toQueuedEdit(
+      lesson,
+      editedLessons[lesson.id],
+      profile.id,
+      sendNotices && newlyCancelledIds.includes(lesson.id) ? notice : undefined
+    )));
+
+    const notesSkipped = !notesSaved && privateNotes !== (contract.private_notes || '');
+    toast.info(`${changed.length} Stunde${changed.length !== 1 ? 'n' : ''} offline gespeichert`, {
+      description: 'Wird synchronisiert, sobald wieder eine Verbindung besteht.' +
+        (sendNotices && newlyCancelledIds.length > 0 ? ' Absagen werden danach versendet.' : '') +
+        (notesSkipped ? ' Notizen bitte online erneut speichern.' : '')
+    });
+    onClose();
+  };
+
+  const handleLessonChange = (lessonId: string, field: keyof LessonEdit, value: LessonEdit[keyof LessonEdit]) => {
     setEditedLessons(prev => ({
       ...prev,
       [lessonId]: {
@@ -107,7 +335,8 @@ export function LessonTrackerModal({ contract, open, onClose, onUpdate }: Lesson
         is_available: isAvailable,
         // Only clear date if marking as unavailable; keep notes editable
         date: isAvailable ? prev[lessonId].date : '',
-        comment: prev[lessonId].comment
+        comment: prev[lessonId].comment,
+        cancellation_reason: isAvailable ? null : prev[lessonId].cancellation_reason
       }
     }));
   };
@@ -117,6 +346,25 @@ export function LessonTrackerModal({ contract, open, onClose, onUpdate }: Lesson
     if (typeof window !== 'undefined' && document.activeElement instanceof HTMLElement) {
       document.activeElement.blur();
     }
+
+    // The reason decides whether a makeup lesson is owed
+    const withoutReason = lessons.filter(lesson =>
+      editedLessons[lesson.id]?.is_available === false &&
+      !editedLessons[lesson.id]?.cancellation_reason &&
+      (lesson.is_available ?? true)
+    );
+    if (withoutReason.length > 0) {
+      toast.error('Bitte einen Ausfallgrund wählen', {
+        description: `Stunde ${withoutReason.map(lesson => lesson.lesson_number).join(', ')}`
+      });
+      return;
+    }
+
+    if (!navigator.onLine) {
+      queueOfflineEdits(getNewlyCancelledIds());
+      return;
+    }
+
     setSaving(true);
     try {
       let hasNotesChanges = false;
@@ -134,6 +382,9 @@ export function LessonTrackerModal({ contract, open, onClose, onUpdate }: Lesson
         }
       }
 
+      // Lessons that are marked unavailable with this save get a cancellation notice
+      const newlyCancelledIds = getNewlyCancelledIds();
+
       // 2. Prepare lesson updates with proper contract_id preservation
       const updates = Object.entries(editedLessons)
         .map(([lessonId, data]) => {
@@ -141,12 +392,7 @@ export function LessonTrackerModal({ contract, open, onClose, onUpdate }: Lesson
           if (!originalLesson) return null;
           
           // Check if there are actual changes
-          const hasChanges = 
-            (data.date || null) !== (originalLesson.date || null) ||
-            (data.comment || null) !== (originalLesson.comment || null) ||
-            data.is_available !== (originalLesson.is_available ?? true);
-          
-          if (!hasChanges) return null;
+          if (!hasLessonChanges(originalLesson, data)) return null;
           
           return {
             id: lessonId,
@@ -154,6 +400,8 @@ export function LessonTrackerModal({ contract, open, onClose, onUpdate }: Lesson
             date: data.date || null,
             comment: data.comment || null,
             is_available: data.is_available,
+            cancellation_reason: data.is_available ? null : data.cancellation_reason,
+            version: originalLesson.version,
             updated_at: new Date().toISOString()
           };
         })
@@ -179,6 +427,13 @@ export function LessonTrackerModal({ contract, open, onClose, onUpdate }: Lesson
           updates: updates
         });
 
+        // Connection dropped while saving: keep the lesson edits locally instead
+        if (batchError && isNetworkError(batchError.message)) {
+          queueOfflineEdits(newlyCancelledIds, hasNotesChanges);
+          setSaving(false);
+          return;
+        }
+
         if (batchError) {
           console.error('Batch update error:', batchError);
           toast.error('Fehler beim Speichern der Stunden', { 
@@ -191,8 +446,18 @@ export function LessonTrackerModal({ contract, open, onClose, onUpdate }: Lesson
         // Log the batch result for debugging
         console.log('Batch update result:', batchResult);
 
+        // Lessons changed by someone else since they were loaded: nothing was written
+        if (batchResult?.conflict) {
+          openLessonConflict(batchResult.conflicts as Lesson[]);
+          setSaving(false);
+          return;
+        }
+
         // Check if the batch update was successful
         if (batchResult && batchResult.success) {
+          // Saved online, so queued offline edits of these lessons are superseded
+          removeQueuedLessonEdits(updates.map(update => update!.id));
+
           // Check if contract should be marked as completed
           try {
             const { data: completionResult, error: completionError } = await supabase.rpc('check_contract_completion_after_lessons', {
@@ -208,6 +473,25 @@ export function LessonTrackerModal({ contract, open, onClose, onUpdate }: Lesson
             console.error('Error calling contract completion check:', error);
           }
 
+          if (cancellationNoticesEnabled && sendCancellationNotice && newlyCancelledIds.length > 0) {
+            try {
+              const result = await sendLessonCancellations(newlyCancelledIds, cancellationReason.trim() || null);
+              if (result.sent > 0) {
+                toast.success(result.sent === 1 ? 'Absage versendet' : `${result.sent} Absagen versendet`);
+              }
+              if (result.skipped > 0 || result.failed > 0) {
+                toast.warning(`${result.skipped + result.failed} Absage(n) nicht zugestellt`, {
+                  description: 'Keine E-Mail-Adresse hinterlegt oder Versand fehlgeschlagen'
+                });
+              }
+            } catch (error) {
+              console.error('Error sending cancellation notices:', error);
+              toast.error('Absage konnte nicht versendet werden', {
+                description: error instanceof Error ? error.message : 'Unbekannter Fehler'
+              });
+            }
+          }
+
           // Force refresh the lessons to get updated data
           await fetchLessons();
         } else {
@@ -275,9 +559,9 @@ export function LessonTrackerModal({ contract, open, onClose, onUpdate }: Lesson
     }
   };
 
-  // Calculate progress based on available lessons only
-  const availableLessons = lessons.filter(lesson => 
-    editedLessons[lesson.id]?.is_available ?? lesson.is_available ?? true
+  // Calculate progress based on available lessons and lessons with an owed makeup
+  const availableLessons = lessons.filter(lesson =>
+    (editedLessons[lesson.id]?.is_available ?? lesson.is_available ?? true) || isCreditOpen(lesson.makeup_credit)
   );
   
   const completedLessons = availableLessons.filter(lesson => 
@@ -341,7 +625,8 @@ export function LessonTrackerModal({ contract, open, onClose, onUpdate }: Lesson
     const editedData = editedLessons[lesson.id] || { 
       date: lesson.date || '', 
       comment: lesson.comment || '', 
-      is_available: lesson.is_available ?? true 
+      is_available: lesson.is_available ?? true,
+      cancellation_reason: lesson.cancellation_reason ?? null
     };
 
     if (!editedData.is_available) {
@@ -355,6 +640,165 @@ export function LessonTrackerModal({ contract, open, onClose, onUpdate }: Lesson
     return 'pending';
   };
 
+  // Planned date that has not been confirmed (saved as lessons.date) yet; past ones
+  // can be taken over with one click
+  const getPlannedHint = (lesson: Lesson) => {
+    if (lesson.date || !lesson.planned_date) return null;
+    const editedData = editedLessons[lesson.id];
+    if (!editedData?.is_available || editedData.date) return null;
+    const plannedDate = lesson.planned_date;
+    return (
+      <p className="text-xs text-gray-500 mt-1">
+        Geplant: {fmtDate(plannedDate)}
+        {plannedDate <= format(new Date(), 'yyyy-MM-dd') && (
+          <button
+            type="button"
+            onClick={() => handleLessonChange(lesson.id, 'date', plannedDate)}
+            className="ml-2 font-medium text-brand-primary hover:underline"
+          >
+            Bestätigen
+          </button>
+        )}
+      </p>
+    );
+  };
+
+  const scheduleSlot = formatSlot(contract);
+
+  const getNewlyCancelledIds = () =>
+    lessons
+      .filter(lesson => (lesson.is_available ?? true) && editedLessons[lesson.id]?.is_available === false)
+      .map(lesson => lesson.id);
+
+  // Latest reminder/cancellation of a lesson, e.g. "Absage gesendet am 12.03.2025"
+  const getMessageHint = (lessonId: string) => {
+    const message = lessonMessages.find(m => m.lesson_id === lessonId);
+    if (!message) return null;
+    const state = message.status === 'sent' ? 'gesendet' : message.status === 'failed' ? 'fehlgeschlagen' : 'nicht zugestellt';
+    return `${MESSAGE_KIND_LABELS[message.kind]} ${state} am ${fmtDate(message.created_at)}`;
+  };
+
+  const cancellationNoticePanel = cancellationNoticesEnabled && getNewlyCancelledIds().length > 0 && (
+    <div className="border border-amber-200 bg-amber-50 rounded-lg p-4 mb-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id="send-cancellation-notice"
+          checked={sendCancellationNotice}
+          onCheckedChange={(checked) => setSendCancellationNotice(checked === true)}
+        />
+        <Label htmlFor="send-cancellation-notice" className="text-sm">
+          Absage für {getNewlyCancelledIds().length} Stunde{getNewlyCancelledIds().length !== 1 ? 'n' : ''} an Schüler bzw. Erziehungsberechtigte senden
+        </Label>
+      </div>
+      {sendCancellationNotice && (
+        <Input
+          value={cancellationReason}
+          onChange={(e) => setCancellationReason(e.target.value)}
+          placeholder="Grund (optional, wird in der Absage genannt)"
+          className="bg-white focus:ring-brand-primary focus:border-brand-primary"
+        />
+      )}
+    </div>
+  );
+
+  const handleLogMakeup = async (lesson: Lesson) => {
+    const credit = lesson.makeup_credit;
+    const date = makeupDates[lesson.id];
+    if (!credit || !date) {
+      toast.error('Bitte ein Datum für die Nachholstunde wählen');
+      return;
+    }
+
+    setLoggingCreditId(credit.id);
+    try {
+      await logMakeupLesson(credit.id, date);
+      // Keep unsaved edits of the other lessons; the made-up lesson is now held on that date
+      setLessons(prev => prev.map(l => l.id === lesson.id
+        ? { ...l, date, is_available: true, cancellation_reason: null, makeup_credit: { ...credit, makeup_date: date, used_at: new Date().toISOString() } }
+        : l
+      ));
+      setEditedLessons(prev => ({
+        ...prev,
+        [lesson.id]: { ...prev[lesson.id], date, is_available: true, cancellation_reason: null }
+      }));
+      toast.success(`Nachholstunde für Stunde ${lesson.lesson_number} eingetragen`);
+      onUpdate();
+    } catch (error) {
+      console.error('Error logging makeup lesson:', error);
+      toast.error('Fehler beim Eintragen der Nachholstunde', {
+        description: error instanceof Error ? error.message : 'Unbekannter Fehler'
+      });
+    } finally {
+      setLoggingCreditId(null);
+    }
+  };
+
+  const reasonSelect = (lessonId: string, editedData: LessonEdit) => !editedData.is_available && (
+    <Select
+      value={editedData.cancellation_reason ?? undefined}
+      onValueChange={(value) => handleLessonChange(lessonId, 'cancellation_reason', value as LessonCancellationReason)}
+    >
+      <SelectTrigger className="w-full mt-2 h-8 text-xs">
+        <SelectValue placeholder="Ausfallgrund wählen" />
+      </SelectTrigger>
+      <SelectContent>
+        {CANCELLATION_REASONS.map(reason => (
+          <SelectItem key={reason} value={reason}>{CANCELLATION_REASON_LABELS[reason]}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  // Made-up lesson or owed makeup, shown with the lesson status
+  const getMakeupHint = (lesson: Lesson) => {
+    const credit = lesson.makeup_credit;
+    if (!credit) return null;
+    if (credit.used_at) return `Nachholstunde (${CANCELLATION_REASON_LABELS[credit.reason]})`;
+    if (isCreditOpen(credit)) return `Nachholstunde offen${credit.expires_on ? ` bis ${fmtDate(credit.expires_on)}` : ''}`;
+    return `Nachholanspruch verfallen am ${fmtDate(credit.expires_on)}`;
+  };
+
+  const owedMakeupLessons = getOwedMakeupLessons(lessons as Lesson[]);
+
+  const makeupPanel = isAdminOrTeacher && owedMakeupLessons.length > 0 && (
+    <Card className="mb-4">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <RotateCcw className="h-5 w-5" />
+          Offene Nachholstunden ({owedMakeupLessons.length})
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {owedMakeupLessons.map(lesson => (
+          <div key={lesson.id} className="flex flex-col md:flex-row md:items-center gap-2 md:gap-4">
+            <div className="flex-1 text-sm">
+              <span className="font-medium">Stunde {lesson.lesson_number}</span>
+              <span className="text-gray-600">
+                {' · '}{CANCELLATION_REASON_LABELS[lesson.makeup_credit!.reason]}
+                {lesson.makeup_credit!.expires_on && ` · gültig bis ${fmtDate(lesson.makeup_credit!.expires_on)}`}
+              </span>
+            </div>
+            <Input
+              type="date"
+              value={makeupDates[lesson.id] || ''}
+              onChange={(e) => setMakeupDates(prev => ({ ...prev, [lesson.id]: e.target.value }))}
+              className="md:w-44 focus:ring-brand-primary focus:border-brand-primary"
+              max={format(new Date(), 'yyyy-MM-dd')}
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handleLogMakeup(lesson)}
+              disabled={!makeupDates[lesson.id] || loggingCreditId === lesson.makeup_credit!.id}
+            >
+              Nachholstunde eintragen
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+
   const getContractTypeDisplayUnified = (c: Contract) => {
     if (c.contract_variant?.name) return c.contract_variant.name;
     // Legacy fallback
@@ -381,385 +825,488 @@ export function LessonTrackerModal({ contract, open, onClose, onUpdate }: Lesson
     }
   };
 
+  const conflictModal = lessonConflict && (
+    <SaveConflictModal
+      open
+      table="lessons"
+      recordId={contract.id}
+      byParent
+      conflicts={lessonConflict.conflicts}
+      theirChanges={lessonConflict.theirChanges}
+      formatValue={(field, value) =>
+        field === 'cancellation_reason' && value
+          ? CANCELLATION_REASON_LABELS[value as LessonCancellationReason]
+          : fmtAuditValue(value)
+      }
+      onMerge={resolveLessonConflict}
+      onDiscard={() => resolveLessonConflict(null)}
+      onClose={() => setLessonConflict(null)}
+    />
+  );
+
   // Mobile accordion view for Admin/Teacher
   if (isMobile && isAdminOrTeacher) {
     return (
-      <Dialog open={open} onOpenChange={onClose}>
-        <DialogContent className="w-screen h-[100svh] max-w-none p-0 rounded-none overflow-hidden md:rounded-lg md:max-w-6xl md:h-auto md:w-full">
-          <div className="w-full h-full overflow-hidden">
-            {/* Sticky header */}
-            <div className="sticky top-0 z-20 bg-white/95 backdrop-blur border-b w-full">
-              <div className="px-4 py-3 flex items-center justify-between w-full">
-                <div className="text-base font-semibold truncate">Stundenverfolgung – {contract.student?.name || '-'}</div>
-                <Badge variant={contract.status === 'active' ? 'default' : 'secondary'}>
-                  {contract.status === 'active' ? 'Aktiv' : 'Abgeschlossen'}
-                </Badge>
+      <>
+        <Dialog open={open} onOpenChange={onClose}>
+          <DialogContent className="w-screen h-[100svh] max-w-none p-0 rounded-none overflow-hidden md:rounded-lg md:max-w-6xl md:h-auto md:w-full">
+            <div className="w-full h-full overflow-hidden">
+              {/* Sticky header */}
+              <div className="sticky top-0 z-20 bg-white/95 backdrop-blur border-b w-full">
+                <div className="px-4 py-3 flex items-center justify-between w-full">
+                  <div className="text-base font-semibold truncate">Stundenverfolgung – {contract.student?.name || '-'}</div>
+                  <Badge variant={contract.status === 'active' ? 'default' : 'secondary'}>
+                    {contract.status === 'active' ? 'Aktiv' : 'Abgeschlossen'}
+                  </Badge>
+                </div>
+                {(!online || queuedEdits.length > 0) && (
+                  <div className="px-4 pb-2 flex items-center gap-2 text-xs text-amber-700">
+                    <CloudOff className="h-3.5 w-3.5 flex-shrink-0" />
+                    <span>
+                      {!online
+                        ? 'Offline – Änderungen werden auf dem Gerät gespeichert'
+                        : `${queuedEdits.length} Offline-Änderung${queuedEdits.length !== 1 ? 'en' : ''} noch nicht synchronisiert`}
+                    </span>
+                  </div>
+                )}
               </div>
-            </div>
 
-            {/* Scrollable body */}
-            <div className="flex flex-col h-[calc(100svh-60px)] w-full">
-              <div className="flex-1 overflow-y-auto overflow-x-hidden w-full px-4 pt-4 pb-24">
-              {/* Contract Overview Card (compact) */}
-              <div className="bg-white rounded-lg shadow-sm border border-gray-100 p-4 mb-4">
-                <div className="grid grid-cols-2 gap-3 text-sm">
-                  <div>
-                    <span className="font-medium">Typ:</span>{' '}
-                    <span>{contract.contract_variant?.name || contract.type || '-'}</span>
-                  </div>
-                  <div>
-                    <span className="font-medium">Instrument:</span>{' '}
-                    <span>{contract.student?.instrument || '-'}</span>
-                  </div>
-                  <div>
-                    <span className="font-medium">Lehrer:</span>{' '}
-                    <span>{contract.student?.teacher?.name || '-'}</span>
-                  </div>
-                  <div>
-                    <span className="font-medium">Fortschritt:</span>{' '}
-                    <span>{contract.attendance_count || '-'}</span>
+              {/* Scrollable body */}
+              <div className="flex flex-col h-[calc(100svh-60px)] w-full">
+                <div className="flex-1 overflow-y-auto overflow-x-hidden w-full px-4 pt-4 pb-24">
+                {/* Contract Overview Card (compact) */}
+                <div className="bg-white rounded-lg shadow-sm border border-gray-100 p-4 mb-4">
+                  <div className="grid grid-cols-2 gap-3 text-sm">
+                    <div>
+                      <span className="font-medium">Typ:</span>{' '}
+                      <span>{contract.contract_variant?.name || contract.type || '-'}</span>
+                    </div>
+                    <div>
+                      <span className="font-medium">Instrument:</span>{' '}
+                      <span>{contract.student?.instrument || '-'}</span>
+                    </div>
+                    <div>
+                      <span className="font-medium">Lehrer:</span>{' '}
+                      <span>{contract.student?.teacher?.name || '-'}</span>
+                    </div>
+                    <div>
+                      <span className="font-medium">Fortschritt:</span>{' '}
+                      <span>{contract.attendance_count || '-'}</span>
+                    </div>
+                    {scheduleSlot && (
+                      <div className="col-span-2">
+                        <span className="font-medium">Termin:</span>{' '}
+                        <span>{scheduleSlot}{contract.room?.name ? ` · ${contract.room.name}` : ''}</span>
+                      </div>
+                    )}
                   </div>
                 </div>
-              </div>
 
-              {/* Private Notes Panel - INLINED */}
-              {isAdminOrTeacher && (
-                <Card className="mb-6">
-                  <CardHeader>
-                    <CardTitle className="text-lg">
-                      Notizen (nur intern)
-                    </CardTitle>
-                  </CardHeader>
-                  <CardContent>
-                    <Textarea
-                      value={privateNotes}
-                      onChange={(e) => setPrivateNotes(e.target.value)}
-                      placeholder="Notizen hinzufügen (z.B. besondere Vereinbarungen, wichtige Hinweise, etc.)"
-                      className="min-h-[100px] resize-none focus:ring-brand-primary focus:border-brand-primary"
-                      rows={4}
-                    />
-                  </CardContent>
-                </Card>
-              )}
+                {/* Private Notes Panel - INLINED */}
+                {isAdminOrTeacher && (
+                  <Card className="mb-6">
+                    <CardHeader>
+                      <CardTitle className="text-lg">
+                        Notizen (nur intern)
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <Textarea
+                        value={privateNotes}
+                        onChange={(e) => setPrivateNotes(e.target.value)}
+                        placeholder="Notizen hinzufügen (z.B. besondere Vereinbarungen, wichtige Hinweise, etc.)"
+                        className="min-h-[100px] resize-none focus:ring-brand-primary focus:border-brand-primary"
+                        rows={4}
+                      />
+                    </CardContent>
+                  </Card>
+                )}
 
-              {/* Lessons Accordion */}
-              <Accordion type="single" collapsible className="w-full">
-              {lessons.map((lesson) => {
-                const editedData = editedLessons[lesson.id] || { date: '', comment: '', is_available: true };
-                const status = getLessonStatus(lesson);
-                // If lesson is undefined, skip rendering
-                if (!lesson) return null;
-                return (
-                  <AccordionItem key={lesson.id} value={lesson.id} className="mb-2 border rounded-lg">
-                    <div className="flex items-center justify-between px-4 py-3">
-                      <div className="flex items-center gap-2 select-none">
-                        {getStatusIcon(status)}
-                        <span className="font-medium">Stunde {lesson.lesson_number}</span>
-                      </div>
-                      <AccordionTrigger className="flex items-center gap-2 px-0 py-0 w-auto h-auto ml-2">
-                        <span className="text-sm text-gray-600">{editedData.date || 'Kein Datum'}</span>
-                      </AccordionTrigger>
-                    </div>
-                    <AccordionContent className="px-4 pb-4">
-                      <div className="flex flex-col gap-3">
-                        <div className="flex items-center gap-2">
-                          <Checkbox
-                            checked={editedData.is_available}
-                            onCheckedChange={(checked) => handleAvailabilityToggle(lesson.id, checked as boolean)}
-                            className="focus:ring-brand-primary"
-                          />
-                          <span className="text-sm text-gray-600">
-                            {editedData.is_available ? 'Verfügbar' : 'Nicht verfügbar'}
-                          </span>
-                        </div>
-                        <div>
-                          <Label>Datum</Label>
-                          <Input
-                            type="date"
-                            value={editedData.date}
-                            onChange={(e) => handleLessonChange(lesson.id, 'date', e.target.value)}
-                            className="w-full focus:ring-brand-primary focus:border-brand-primary"
-                            max={format(new Date(), 'yyyy-MM-dd')}
-                            disabled={!editedData.is_available}
-                          />
-                        </div>
-                        <div>
-                          <Label>Notizen</Label>
-                          <Textarea
-                            value={editedData.comment}
-                            onChange={(e) => handleLessonChange(lesson.id, 'comment', e.target.value)}
-                            placeholder={editedData.is_available ? "Notizen hinzufügen (z.B. Hausaufgaben gegeben, Stunde verpasst, etc.)" : "Grund/Notiz zur Ausfallstunde …"}
-                            className="min-h-[60px] resize-none focus:ring-brand-primary focus:border-brand-primary"
-                            rows={2}
-                          />
+                {cancellationNoticePanel}
+
+                {makeupPanel}
+
+                {/* Lessons Accordion */}
+                <Accordion type="single" collapsible className="w-full">
+                {lessons.map((lesson) => {
+                  const editedData = editedLessons[lesson.id] || { date: '', comment: '', is_available: true, cancellation_reason: null };
+                  const status = getLessonStatus(lesson);
+                  const queued = queuedEdits.find(entry => entry.lesson_id === lesson.id);
+                  // If lesson is undefined, skip rendering
+                  if (!lesson) return null;
+                  return (
+                    <AccordionItem key={lesson.id} value={lesson.id} className="mb-2 border rounded-lg">
+                      <div className="flex items-center justify-between px-4 py-3">
+                        <div className="flex items-center gap-2 select-none">
+                          {getStatusIcon(status)}
+                          <span className="font-medium">Stunde {lesson.lesson_number}</span>
+                          {queued && (
+                            <Badge
+                              variant="outline"
+                              className={queued.status === 'conflict' || queued.status === 'error'
+                                ? 'text-[10px] border-red-200 bg-red-50 text-red-700'
+                                : 'text-[10px] border-amber-200 bg-amber-50 text-amber-700'}
+                            >
+                              {QUEUE_STATUS_LABELS[queued.status]}
+                            </Badge>
+                          )}
                         </div>
+                        <AccordionTrigger className="flex items-center gap-2 px-0 py-0 w-auto h-auto ml-2">
+                          <span className="text-sm text-gray-600">{editedData.date || 'Kein Datum'}</span>
+                        </AccordionTrigger>
                       </div>
-                    </AccordionContent>
-                  </AccordionItem>
-                );
-              }).filter(Boolean)}
-            </Accordion>
+                      <AccordionContent className="px-4 pb-4">
+                        <div className="flex flex-col gap-3">
+                          <div className="flex items-center gap-2">
+                            <Checkbox
+                              checked={editedData.is_available}
+                              onCheckedChange={(checked) => handleAvailabilityToggle(lesson.id, checked as boolean)}
+                              className="focus:ring-brand-primary"
+                            />
+                            <span className="text-sm text-gray-600">
+                              {editedData.is_available ? 'Verfügbar' : 'Nicht verfügbar'}
+                            </span>
+                          </div>
+                          {reasonSelect(lesson.id, editedData)}
+                          <div>
+                            <Label>Datum</Label>
+                            <Input
+                              type="date"
+                              value={editedData.date}
+                              onChange={(e) => handleLessonChange(lesson.id, 'date', e.target.value)}
+                              className="w-full focus:ring-brand-primary focus:border-brand-primary"
+                              max={format(new Date(), 'yyyy-MM-dd')}
+                              disabled={!editedData.is_available}
+                            />
+                            {getPlannedHint(lesson)}
+                          </div>
+                          <div>
+                            <Label>Notizen</Label>
+                            <Textarea
+                              value={editedData.comment}
+                              onChange={(e) => handleLessonChange(lesson.id, 'comment', e.target.value)}
+                              placeholder={editedData.is_available ? "Notizen hinzufügen (z.B. Hausaufgaben gegeben, Stunde verpasst, etc.)" : "Grund/Notiz zur Ausfallstunde …"}
+                              className="min-h-[60px] resize-none focus:ring-brand-primary focus:border-brand-primary"
+                              rows={2}
+                            />
+                          </div>
+                          {queued?.status === 'error' && (
+                            <p className="text-xs text-red-700">
+                              Nicht synchronisiert: {queued.error || 'Unbekannter Fehler'} – bitte erneut speichern oder{' '}
+                              <button
+                                type="button"
+                                onClick={() => discardQueuedEdit(lesson)}
+                                className="font-medium underline hover:no-underline"
+                              >
+                                verwerfen
+                              </button>
+                            </p>
+                          )}
+                          {getMakeupHint(lesson) && (
+                            <p className="text-xs text-gray-500">{getMakeupHint(lesson)}</p>
+                          )}
+                          {getMessageHint(lesson.id) && (
+                            <p className="text-xs text-gray-500">{getMessageHint(lesson.id)}</p>
+                          )}
+                        </div>
+                      </AccordionContent>
+                    </AccordionItem>
+                  );
+                }).filter(Boolean)}
+              </Accordion>
+              <div className="mt-4">
+                <AuditHistory table="lessons" recordId={contract.id} byParent />
               </div>
+                </div>
 
-              {/* Sticky footer */}
-              <div className="sticky bottom-0 w-full border-t bg-background/80 backdrop-blur supports-[backdrop-filter]:bg-background/60">
-                <div className="flex gap-2 p-4 pb-[max(1rem,env(safe-area-inset-bottom))] w-full">
-                  <Button 
-                    variant="outline" 
-                    onClick={onClose}
-                    className="flex-1"
-                  >
-                    Abbrechen
-                  </Button>
-                  <Button 
-                    onClick={handleSave} 
-                    disabled={saving || loading}
-                    className="flex-1 bg-brand-primary hover:bg-brand-primary/90 focus:ring-brand-primary"
-                  >
-                    {saving ? 'Speichern...' : 'Fortschritt speichern'}
-                  </Button>
+                {/* Sticky footer */}
+                <div className="sticky bottom-0 w-full border-t bg-background/80 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+                  <div className="flex gap-2 p-4 pb-[max(1rem,env(safe-area-inset-bottom))] w-full">
+                    <Button 
+                      variant="outline" 
+                      onClick={onClose}
+                      className="flex-1"
+                    >
+                      Abbrechen
+                    </Button>
+                    <Button 
+                      onClick={handleSave} 
+                      disabled={saving || loading}
+                      className="flex-1 bg-brand-primary hover:bg-brand-primary/90 focus:ring-brand-primary"
+                    >
+                      {saving ? 'Speichern...' : online ? 'Fortschritt speichern' : 'Offline speichern'}
+                    </Button>
+                  </div>
                 </div>
               </div>
             </div>
-          </div>
-        </DialogContent>
-      </Dialog>
+          </DialogContent>
+        </Dialog>
+        {conflictModal}
+      </>
     );
   }
 
   return (
-    <Dialog open={open} onOpenChange={onClose}>
-      <DialogContent className="max-w-6xl max-h-[95vh] overflow-y-auto">
-        <DialogHeader>
-          <DialogTitle className="flex items-center gap-2">
-            <Calendar className="h-5 w-5" />
-            Stundenverfolgung - {contract.student?.name}
-          </DialogTitle>
-        </DialogHeader>
-
-        {/* Contract Overview */}
-        <Card className="mb-6">
-          <CardHeader>
-            <CardTitle className="text-lg flex items-center justify-between">
-              <span>Vertragsübersicht</span>
-              <div className="flex items-center gap-2">
-                <Badge variant="outline" className="text-sm">
-                  {completedLessons}/{totalAvailableLessons} Stunden
-                </Badge>
-                <span className="text-brand-primary font-medium text-sm">
-                  {progressPercentage}% abgeschlossen
-                </span>
-              </div>
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
-              <div>
-                <span className="text-sm font-medium text-gray-600">Typ:</span>
-                <p className="text-sm">{getContractTypeDisplayUnified(contract)}</p>
-              </div>
-              <div>
-                <span className="text-sm font-medium text-gray-600">Laufzeit:</span>
-                <p className="text-sm">{getContractDurationUnified(contract)}</p>
-              </div>
-              <div>
-                <span className="text-sm font-medium text-gray-600">Instrument:</span>
-                <p className="text-sm">{contract.student?.instrument}</p>
+    <>
+      <Dialog open={open} onOpenChange={onClose}>
+        <DialogContent className="max-w-6xl max-h-[95vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Calendar className="h-5 w-5" />
+              Stundenverfolgung - {contract.student?.name}
+            </DialogTitle>
+          </DialogHeader>
+
+          {/* Contract Overview */}
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center justify-between">
+                <span>Vertragsübersicht</span>
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline" className="text-sm">
+                    {completedLessons}/{totalAvailableLessons} Stunden
+                  </Badge>
+                  <span className="text-brand-primary font-medium text-sm">
+                    {progressPercentage}% abgeschlossen
+                  </span>
+                </div>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+                <div>
+                  <span className="text-sm font-medium text-gray-600">Typ:</span>
+                  <p className="text-sm">{getContractTypeDisplayUnified(contract)}</p>
+                </div>
+                <div>
+                  <span className="text-sm font-medium text-gray-600">Laufzeit:</span>
+                  <p className="text-sm">{getContractDurationUnified(contract)}</p>
+                </div>
+                <div>
+                  <span className="text-sm font-medium text-gray-600">Instrument:</span>
+                  <p className="text-sm">{contract.student?.instrument}</p>
+                </div>
+                <div>
+                  <span className="text-sm font-medium text-gray-600">Status:</span>
+                  <Badge variant={contract.status === 'active' ? 'default' : 'secondary'}>
+                    {contract.status === 'active' ? 'Aktiv' : 'Abgeschlossen'}
+                  </Badge>
+                </div>
               </div>
-              <div>
-                <span className="text-sm font-medium text-gray-600">Status:</span>
-                <Badge variant={contract.status === 'active' ? 'default' : 'secondary'}>
-                  {contract.status === 'active' ? 'Aktiv' : 'Abgeschlossen'}
-                </Badge>
+
+              {/* NEW: Payment & Cancellation badges + Laufzeit label */}
+              <div className="flex flex-wrap items-center gap-2 mb-4">
+                {contract.billing_cycle === 'upfront' && contract.paid_at && (
+                  <Badge variant="secondary">Bezahlt am {fmtDate(contract.paid_at)}</Badge>
+                )}
+                {contract.billing_cycle === 'monthly' && contract.first_payment_date && (
+                  <Badge variant="secondary">Erste Zahlung {fmtDate(contract.first_payment_date)}</Badge>
+                )}
+                {contract.cancelled_at && (
+                  <Badge variant="destructive" className="bg-transparent text-red-600 border-red-300">Gekündigt zum {fmtDate(contract.cancelled_at)}</Badge>
+                )}
               </div>
-            </div>
 
-            {/* NEW: Payment & Cancellation badges + Laufzeit label */}
-            <div className="flex flex-wrap items-center gap-2 mb-4">
-              {contract.billing_cycle === 'upfront' && contract.paid_at && (
-                <Badge variant="secondary">Bezahlt am {fmtDate(contract.paid_at)}</Badge>
-              )}
-              {contract.billing_cycle === 'monthly' && contract.first_payment_date && (
-                <Badge variant="secondary">Erste Zahlung {fmtDate(contract.first_payment_date)}</Badge>
+              {scheduleSlot && (
+                <div className="mb-4">
+                  <span className="text-sm font-medium text-gray-600">Termin:</span>
+                  <span className="text-sm ml-2">
+                    {scheduleSlot}{contract.room?.name ? ` · ${contract.room.name}` : ''}
+                  </span>
+                </div>
               )}
-              {contract.cancelled_at && (
-                <Badge variant="destructive" className="bg-transparent text-red-600 border-red-300">Gekündigt zum {fmtDate(contract.cancelled_at)}</Badge>
+
+              {(contract.term_label || contract.term_start || contract.term_end) && (
+                <div className="mb-4">
+                  <span className="text-sm font-medium text-gray-600">Laufzeit:</span>
+                  <span className="text-sm ml-2">
+                    {contract.term_label || fmtRange(contract.term_start, contract.term_end)}
+                  </span>
+                </div>
               )}
-            </div>
 
-            {(contract.term_label || contract.term_start || contract.term_end) && (
-              <div className="mb-4">
-                <span className="text-sm font-medium text-gray-600">Laufzeit:</span>
-                <span className="text-sm ml-2">
-                  {contract.term_label || fmtRange(contract.term_start, contract.term_end)}
-                </span>
+              {/* Progress Bar */}
+              <div className="w-full bg-gray-200 rounded-full h-3">
+                <div 
+                  className="bg-brand-primary h-3 rounded-full transition-all duration-300"
+                  style={{ width: `${progressPercentage}%` }}
+                />
+              </div>
+              
+              {/* Progress Summary */}
+              <div className="flex justify-between items-center mt-2 text-xs text-gray-600">
+                <span>{completedLessons} abgeschlossen</span>
+                <span>{totalAvailableLessons - completedLessons} verbleibend</span>
+                <span>{lessons.length - totalAvailableLessons} nicht verfügbar</span>
               </div>
-            )}
-
-            {/* Progress Bar */}
-            <div className="w-full bg-gray-200 rounded-full h-3">
-              <div 
-                className="bg-brand-primary h-3 rounded-full transition-all duration-300"
-                style={{ width: `${progressPercentage}%` }}
-              />
-            </div>
-            
-            {/* Progress Summary */}
-            <div className="flex justify-between items-center mt-2 text-xs text-gray-600">
-              <span>{completedLessons} abgeschlossen</span>
-              <span>{totalAvailableLessons - completedLessons} verbleibend</span>
-              <span>{lessons.length - totalAvailableLessons} nicht verfügbar</span>
-            </div>
-          </CardContent>
-        </Card>
-
-        {/* Private Notes Panel - INLINED */}
-        {isAdminOrTeacher && (
-          <Card className="mb-6">
-            <CardHeader>
-              <CardTitle className="text-lg">
-                Notizen (nur intern)
-              </CardTitle>
-            </CardHeader>
-            <CardContent>
-              <Textarea
-                value={privateNotes}
-                onChange={(e) => setPrivateNotes(e.target.value)}
-                placeholder="Notizen hinzufügen (z.B. besondere Vereinbarungen, wichtige Hinweise, etc.)"
-                className="min-h-[100px] resize-none focus:ring-brand-primary focus:border-brand-primary"
-                rows={4}
-              />
             </CardContent>
           </Card>
-        )}
 
-        {loading ? (
-          <div className="flex items-center justify-center py-8">
-            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-brand-primary"></div>
-          </div>
-        ) : (
-          <div className="space-y-4">
-            <div className="flex items-center justify-between">
-              <h3 className="text-lg font-medium">Stundenfortschritt</h3>
-              <div className="flex items-center gap-2 text-sm text-gray-600">
-                <CheckCircle className="h-4 w-4 text-green-600" />
-                <span>Abgeschlossen</span>
-                <Clock className="h-4 w-4 text-gray-400 ml-3" />
-                <span>Ausstehend</span>
-                <XCircle className="h-4 w-4 text-red-600 ml-3" />
-                <span>Nicht verfügbar</span>
-              </div>
+          {/* Private Notes Panel - INLINED */}
+          {isAdminOrTeacher && (
+            <Card className="mb-6">
+              <CardHeader>
+                <CardTitle className="text-lg">
+                  Notizen (nur intern)
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Textarea
+                  value={privateNotes}
+                  onChange={(e) => setPrivateNotes(e.target.value)}
+                  placeholder="Notizen hinzufügen (z.B. besondere Vereinbarungen, wichtige Hinweise, etc.)"
+                  className="min-h-[100px] resize-none focus:ring-brand-primary focus:border-brand-primary"
+                  rows={4}
+                />
+              </CardContent>
+            </Card>
+          )}
+
+          {loading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-brand-primary"></div>
             </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <h3 className="text-lg font-medium">Stundenfortschritt</h3>
+                <div className="flex items-center gap-2 text-sm text-gray-600">
+                  <CheckCircle className="h-4 w-4 text-green-600" />
+                  <span>Abgeschlossen</span>
+                  <Clock className="h-4 w-4 text-gray-400 ml-3" />
+                  <span>Ausstehend</span>
+                  <XCircle className="h-4 w-4 text-red-600 ml-3" />
+                  <span>Nicht verfügbar</span>
+                </div>
+              </div>
 
-            <div className="border rounded-lg overflow-hidden">
-              <Table>
-                <TableHeader>
-                  <TableRow className="bg-gray-50">
-                    <TableHead className="w-20">Stunde #</TableHead>
-                    <TableHead className="w-32">Verfügbar</TableHead>
-                    <TableHead className="w-40">Datum</TableHead>
-                    <TableHead>Kommentare/Notizen</TableHead>
-                    <TableHead className="w-40">Status</TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {lessons.map((lesson) => {
-                    const editedData = editedLessons[lesson.id] || { 
-                      date: '', 
-                      comment: '', 
-                      is_available: true 
-                    };
-                    const status = getLessonStatus(lesson);
-                    
-                    return (
-                      <TableRow key={lesson.id} className={`hover:bg-gray-50 ${!editedData.is_available ? 'opacity-60' : ''}`}>
-                        <TableCell className="font-medium flex items-center gap-2">
-                          {getStatusIcon(status)}
-                          {lesson.lesson_number}
-                        </TableCell>
-                        <TableCell>
-                          <div className="flex items-center space-x-2">
-                            <Checkbox
-                              checked={editedData.is_available}
-                              onCheckedChange={(checked) => 
-                                handleAvailabilityToggle(lesson.id, checked as boolean)
-                              }
-                              className="focus:ring-brand-primary"
+              {cancellationNoticePanel}
+
+              {makeupPanel}
+
+              <div className="border rounded-lg overflow-hidden">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="bg-gray-50">
+                      <TableHead className="w-20">Stunde #</TableHead>
+                      <TableHead className="w-32">Verfügbar</TableHead>
+                      <TableHead className="w-40">Datum</TableHead>
+                      <TableHead>Kommentare/Notizen</TableHead>
+                      <TableHead className="w-40">Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {lessons.map((lesson) => {
+                      const editedData = editedLessons[lesson.id] || { 
+                        date: '', 
+                        comment: '', 
+                        is_available: true,
+                        cancellation_reason: null
+                      };
+                      const status = getLessonStatus(lesson);
+                      
+                      return (
+                        <TableRow key={lesson.id} className={`hover:bg-gray-50 ${!editedData.is_available ? 'opacity-60' : ''}`}>
+                          <TableCell className="font-medium flex items-center gap-2">
+                            {getStatusIcon(status)}
+                            {lesson.lesson_number}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex items-center space-x-2">
+                              <Checkbox
+                                checked={editedData.is_available}
+                                onCheckedChange={(checked) => 
+                                  handleAvailabilityToggle(lesson.id, checked as boolean)
+                                }
+                                className="focus:ring-brand-primary"
+                              />
+                              <span className="text-sm text-gray-600">
+                                {editedData.is_available ? 'Verfügbar' : 'Nicht verfügbar'}
+                              </span>
+                            </div>
+                            {reasonSelect(lesson.id, editedData)}
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="date"
+                              value={editedData.date}
+                              onChange={(e) => handleLessonChange(lesson.id, 'date', e.target.value)}
+                              className="w-full focus:ring-brand-primary focus:border-brand-primary"
+                              max={format(new Date(), 'yyyy-MM-dd')}
+                              disabled={!editedData.is_available}
                             />
-                            <span className="text-sm text-gray-600">
-                              {editedData.is_available ? 'Verfügbar' : 'Nicht verfügbar'}
-                            </span>
-                          </div>
-                        </TableCell>
-                        <TableCell>
-                          <Input
-                            type="date"
-                            value={editedData.date}
-                            onChange={(e) => handleLessonChange(lesson.id, 'date', e.target.value)}
-                            className="w-full focus:ring-brand-primary focus:border-brand-primary"
-                            max={format(new Date(), 'yyyy-MM-dd')}
-                            disabled={!editedData.is_available}
-                          />
-                        </TableCell>
-                        <TableCell>
-                          <Textarea
-                            value={editedData.comment}
-                            onChange={(e) => handleLessonChange(lesson.id, 'comment', e.target.value)}
-                            placeholder={editedData.is_available ? "Notizen hinzufügen (z.B. Hausaufgaben gegeben, Stunde verpasst, etc.)" : "Grund/Notiz zur Ausfallstunde …"}
-                            className="min-h-[60px] resize-none focus:ring-brand-primary focus:border-brand-primary"
-                            rows={2}
-                          />
-                        </TableCell>
-                        <TableCell>
-                          {getStatusBadge(status)}
-                        </TableCell>
-                      </TableRow>
-                    );
-                  })}
-                </TableBody>
-              </Table>
+                            {getPlannedHint(lesson)}
+                          </TableCell>
+                          <TableCell>
+                            <Textarea
+                              value={editedData.comment}
+                              onChange={(e) => handleLessonChange(lesson.id, 'comment', e.target.value)}
+                              placeholder={editedData.is_available ? "Notizen hinzufügen (z.B. Hausaufgaben gegeben, Stunde verpasst, etc.)" : "Grund/Notiz zur Ausfallstunde …"}
+                              className="min-h-[60px] resize-none focus:ring-brand-primary focus:border-brand-primary"
+                              rows={2}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            {getStatusBadge(status)}
+                            {getMakeupHint(lesson) && (
+                              <p className="text-xs text-gray-500 mt-1">{getMakeupHint(lesson)}</p>
+                            )}
+                            {getMessageHint(lesson.id) && (
+                              <p className="text-xs text-gray-500 mt-1">{getMessageHint(lesson.id)}</p>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+
+              {lessons.length === 0 && (
+                <div className="text-center py-8">
+                  <AlertCircle className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+                  <p className="text-gray-500">Keine Stunden für diesen Vertrag gefunden.</p>
+                </div>
+              )}
+
+              <AuditHistory table="lessons" recordId={contract.id} byParent />
             </div>
+          )}
 
-            {lessons.length === 0 && (
-              <div className="text-center py-8">
-                <AlertCircle className="h-12 w-12 text-gray-300 mx-auto mb-4" />
-                <p className="text-gray-500">Keine Stunden für diesen Vertrag gefunden.</p>
+          <DialogFooter className="flex justify-between items-center pt-6 border-t">
+            <div className="flex items-center gap-4 text-sm text-gray-600">
+              <div className="flex items-center gap-1">
+                <FileText className="h-4 w-4" />
+                <span>Vertrag: {getContractTypeDisplayUnified(contract)}</span>
+              </div>
+              <div className="flex items-center gap-1">
+                <Calendar className="h-4 w-4" />
+                <span>Gültig für: {getContractDurationUnified(contract)}</span>
               </div>
-            )}
-          </div>
-        )}
-
-        <DialogFooter className="flex justify-between items-center pt-6 border-t">
-          <div className="flex items-center gap-4 text-sm text-gray-600">
-            <div className="flex items-center gap-1">
-              <FileText className="h-4 w-4" />
-              <span>Vertrag: {getContractTypeDisplayUnified(contract)}</span>
             </div>
-            <div className="flex items-center gap-1">
-              <Calendar className="h-4 w-4" />
-              <span>Gültig für: {getContractDurationUnified(contract)}</span>
+            <div className="flex gap-2">
+              <Button 
+                variant="outline" 
+                onClick={onClose}
+                className="bg-brand-gray hover:bg-brand-gray/80 text-gray-700 border-brand-gray focus:ring-brand-primary"
+              >
+                <X className="h-4 w-4 mr-2" />
+                Abbrechen
+              </Button>
+              <Button 
+                onClick={handleSave} 
+                disabled={saving || loading}
+                className="bg-brand-primary hover:bg-brand-primary/90 focus:ring-brand-primary"
+              >
+                <Save className="h-4 w-4 mr-2" />
+                {saving ? 'Speichern...' : 'Fortschritt speichern'}
+              </Button>
             </div>
-          </div>
-          <div className="flex gap-2">
-            <Button 
-              variant="outline" 
-              onClick={onClose}
-              className="bg-brand-gray hover:bg-brand-gray/80 text-gray-700 border-brand-gray focus:ring-brand-primary"
-            >
-              <X className="h-4 w-4 mr-2" />
-              Abbrechen
-            </Button>
-            <Button 
-              onClick={handleSave} 
-              disabled={saving || loading}
-              className="bg-brand-primary hover:bg-brand-primary/90 focus:ring-brand-primary"
-            >
-              <Save className="h-4 w-4 mr-2" />
-              {saving ? 'Speichern...' : 'Fortschritt speichern'}
-            </Button>
-          </div>
-        </DialogFooter>
-      </DialogContent>
-    </Dialog>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+      {conflictModal}
+    </>
   );
 }
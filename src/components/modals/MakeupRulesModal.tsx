@@ -0,0 +1,136 @@
+import { useState, useEffect } from 'react';
+import { MakeupRule } from '@/lib/supabase';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { toast } from 'sonner';
+import { getMakeupRules, saveMakeupRules, MakeupRuleInput } from '@/lib/actions/makeupActions';
+import { CANCELLATION_REASON_LABELS, CANCELLATION_REASONS } from '@/lib/lessons/makeupLessons';
+
+interface MakeupRulesModalProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+type RuleDraft = { grants_credit: boolean; valid_days: string };
+
+export function MakeupRulesModal({ open, onClose }: MakeupRulesModalProps) {
+  const [drafts, setDrafts] = useState<Partial<Record<MakeupRule['reason'], RuleDraft>>>({});
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setLoading(true);
+    getMakeupRules()
+      .then(rules => setDrafts(Object.fromEntries(rules.map(rule => [
+        rule.reason,
+        { grants_credit: rule.grants_credit, valid_days: rule.valid_days ? String(rule.valid_days) : '' }
+      ]))))
+      .catch(error => {
+        console.error('Error loading makeup rules:', error);
+        toast.error('Fehler beim Laden der Nachholregeln', {
+          description: error instanceof Error ? error.message : 'Unbekannter Fehler'
+        });
+      })
+      .finally(() => setLoading(false));
+  }, [open]);
+
+  const updateDraft = (reason: MakeupRule['reason'], patch: Partial<RuleDraft>) => {
+    setDrafts(prev => ({
+      ...prev,
+      [reason]: { grants_credit: false, valid_days: '', ...prev[reason], ...patch }
+    }));
+  };
+
+  const handleSave = async () => {
+    const rules: MakeupRuleInput[] = [];
+    for (const reason of CANCELLATION_REASONS) {
+      const draft = drafts[reason];
+      if (!draft) continue;
+      const validDays = draft.valid_days.trim() ? Number(draft.valid_days) : null;
+      if (validDays !== null && (!Number.isInteger(validDays) || validDays < 1)) {
+        toast.error('Die Gültigkeit muss eine positive Anzahl Tage sein');
+        return;
+      }
+      rules.push({ reason, grants_credit: draft.grants_credit, valid_days: validDays });
+    }
+
+    setSaving(true);
+    try {
+      await saveMakeupRules(rules);
+      toast.success('Nachholregeln gespeichert');
+      onClose();
+    } catch (error) {
+      console.error('Error saving makeup rules:', error);
+      toast.error('Fehler beim Speichern der Nachholregeln', {
+        description: error instanceof Error ? error.message : 'Unbekannter Fehler'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Nachholregeln</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <p className="text-sm text-gray-500">
+            Für welche Ausfallgründe wird eine Nachholstunde geschuldet? Ohne Gültigkeit verfällt der Anspruch nicht.
+            Änderungen gelten für künftig ausgetragene Stunden.
+          </p>
+
+          <div className="divide-y border rounded-lg">
+            {CANCELLATION_REASONS.map(reason => {
+              const draft = drafts[reason];
+              return (
+                <div key={reason} className="flex items-center justify-between gap-4 p-3">
+                  <div className="flex items-center gap-3">
+                    <Switch
+                      checked={!!draft?.grants_credit}
+                      onCheckedChange={(checked) => updateDraft(reason, { grants_credit: checked })}
+                      disabled={loading || !draft}
+                    />
+                    <span className="text-sm font-medium">{CANCELLATION_REASON_LABELS[reason]}</span>
+                  </div>
+                  {draft?.grants_credit && (
+                    <div className="flex items-center gap-2">
+                      <Input
+                        type="number"
+                        min="1"
+                        value={draft.valid_days}
+                        onChange={(e) => updateDraft(reason, { valid_days: e.target.value })}
+                        placeholder="∞"
+                        className="w-20"
+                      />
+                      <span className="text-sm text-gray-500">Tage</span>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={onClose}>
+              Abbrechen
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={saving || loading}
+              className="bg-brand-primary hover:bg-brand-primary/90 focus:ring-brand-primary"
+            >
+              {saving ? 'Speichern...' : 'Speichern'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
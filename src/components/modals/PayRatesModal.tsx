@@ -0,0 +1,152 @@
+import { useState } from 'react';
+import { Teacher, TeacherPayRate } from '@/lib/supabase';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { GROUP_TYPES, GroupType, getGroupTypeLabel } from '@/lib/payroll/teacherPayroll';
+import { savePayRate, deletePayRate } from '@/lib/actions/payrollActions';
+
+interface PayRatesModalProps {
+  open: boolean;
+  rates: TeacherPayRate[];
+  teachers: Pick<Teacher, 'id' | 'name'>[];
+  onClose: () => void;
+  onUpdate: () => void;
+}
+
+const DEFAULT_RATE = 'default';
+
+export function PayRatesModal({ open, rates, teachers, onClose, onUpdate }: PayRatesModalProps) {
+  const [teacherId, setTeacherId] = useState<string>(DEFAULT_RATE);
+  const [groupType, setGroupType] = useState<GroupType>('single');
+  const [hourlyRate, setHourlyRate] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const teacherName = (id?: string | null) =>
+    id ? teachers.find(t => t.id === id)?.name || 'Unbekannt' : 'Standard (alle Lehrkräfte)';
+
+  const sortedRates = [...rates].sort((a, b) => {
+    if (!a.teacher_id !== !b.teacher_id) return a.teacher_id ? 1 : -1;
+    return teacherName(a.teacher_id).localeCompare(teacherName(b.teacher_id), 'de') ||
+      a.group_type.localeCompare(b.group_type);
+  });
+
+  const handleSave = async () => {
+    const rate = Number(hourlyRate.replace(',', '.'));
+    if (!hourlyRate || isNaN(rate) || rate < 0) {
+      toast.error('Bitte geben Sie einen gültigen Stundensatz ein');
+      return;
+    }
+
+    const selectedTeacherId = teacherId === DEFAULT_RATE ? null : teacherId;
+    const existing = rates.find(r => (r.teacher_id || null) === selectedTeacherId && r.group_type === groupType);
+
+    setSaving(true);
+    try {
+      await savePayRate({ id: existing?.id, teacher_id: selectedTeacherId, group_type: groupType, hourly_rate: rate });
+      toast.success(existing ? 'Honorarsatz aktualisiert' : 'Honorarsatz angelegt');
+      setHourlyRate('');
+      onUpdate();
+    } catch (error) {
+      console.error('Error saving pay rate:', error);
+      toast.error('Fehler beim Speichern des Honorarsatzes', {
+        description: error instanceof Error ? error.message : 'Unbekannter Fehler'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (rate: TeacherPayRate) => {
+    try {
+      await deletePayRate(rate.id);
+      onUpdate();
+    } catch (error) {
+      console.error('Error deleting pay rate:', error);
+      toast.error('Fehler beim Löschen des Honorarsatzes', {
+        description: error instanceof Error ? error.message : 'Unbekannter Fehler'
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Honorarsätze verwalten</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Stundensätze je Unterrichtsform. Ein lehrerspezifischer Satz ersetzt den Standardsatz.
+            Vorhandene Sätze werden beim erneuten Speichern überschrieben.
+          </p>
+
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Select value={teacherId} onValueChange={setTeacherId}>
+              <SelectTrigger className="sm:w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={DEFAULT_RATE}>Standard (alle Lehrkräfte)</SelectItem>
+                {teachers.map(teacher => (
+                  <SelectItem key={teacher.id} value={teacher.id}>{teacher.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={groupType} onValueChange={(value) => setGroupType(value as GroupType)}>
+              <SelectTrigger className="sm:w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {GROUP_TYPES.map(type => (
+                  <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder="€/Std."
+              value={hourlyRate}
+              onChange={(e) => setHourlyRate(e.target.value)}
+              className="sm:w-28"
+            />
+            <Button
+              onClick={handleSave}
+              disabled={saving}
+              className="bg-brand-primary hover:bg-brand-primary/90 focus:ring-brand-primary"
+            >
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <div className="divide-y border rounded-lg max-h-80 overflow-y-auto">
+            {sortedRates.length === 0 && (
+              <p className="p-4 text-sm text-gray-500 text-center">Noch keine Honorarsätze angelegt.</p>
+            )}
+            {sortedRates.map(rate => (
+              <div key={rate.id} className="flex items-center justify-between p-3">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className="font-medium">{teacherName(rate.teacher_id)}</span>
+                  <Badge variant="outline" className="text-xs">{getGroupTypeLabel(rate.group_type)}</Badge>
+                </div>
+                <div className="flex items-center gap-3">
+                  <span className="text-sm">{Number(rate.hourly_rate).toFixed(2)}€/Std.</span>
+                  <Button variant="ghost" size="sm" onClick={() => handleDelete(rate)}>
+                    <Trash2 className="h-4 w-4 text-red-600" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,126 @@
+import { useState } from 'react';
+import { supabase, Room } from '@/lib/supabase';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Plus } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface RoomsModalProps {
+  open: boolean;
+  rooms: Room[];
+  onClose: () => void;
+  onUpdate: () => void;
+}
+
+export function RoomsModal({ open, rooms, onClose, onUpdate }: RoomsModalProps) {
+  const [name, setName] = useState('');
+  const [capacity, setCapacity] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const handleAdd = async () => {
+    if (!name.trim()) {
+      toast.error('Bitte geben Sie einen Raumnamen ein');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('rooms')
+        .insert([{ name: name.trim(), capacity: capacity ? Number(capacity) : null }]);
+
+      if (error) {
+        toast.error('Fehler beim Anlegen des Raums', { description: error.message });
+        return;
+      }
+
+      toast.success('Raum angelegt');
+      setName('');
+      setCapacity('');
+      onUpdate();
+    } catch (error) {
+      console.error('Error creating room:', error);
+      toast.error('Fehler beim Anlegen des Raums');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (room: Room) => {
+    try {
+      const { error } = await supabase
+        .from('rooms')
+        .update({ is_active: !room.is_active })
+        .eq('id', room.id);
+
+      if (error) {
+        toast.error('Fehler beim Aktualisieren des Raums', { description: error.message });
+        return;
+      }
+
+      onUpdate();
+    } catch (error) {
+      console.error('Error updating room:', error);
+      toast.error('Fehler beim Aktualisieren des Raums');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Räume verwalten</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex gap-2">
+            <Input
+              placeholder="Raumname, z. B. Raum 1"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+            <Input
+              type="number"
+              min="1"
+              placeholder="Plätze"
+              value={capacity}
+              onChange={(e) => setCapacity(e.target.value)}
+              className="w-24"
+            />
+            <Button
+              onClick={handleAdd}
+              disabled={saving}
+              className="bg-brand-primary hover:bg-brand-primary/90 focus:ring-brand-primary"
+            >
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <div className="divide-y border rounded-lg">
+            {rooms.length === 0 && (
+              <p className="p-4 text-sm text-gray-500 text-center">Noch keine Räume angelegt.</p>
+            )}
+            {rooms.map((room) => (
+              <div key={room.id} className="flex items-center justify-between p-3">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{room.name}</span>
+                  {room.capacity && (
+                    <Badge variant="outline" className="text-xs">{room.capacity} Plätze</Badge>
+                  )}
+                  {!room.is_active && (
+                    <Badge variant="secondary" className="text-xs">Inaktiv</Badge>
+                  )}
+                </div>
+                <Button variant="outline" size="sm" onClick={() => handleToggleActive(room)}>
+                  {room.is_active ? 'Deaktivieren' : 'Aktivieren'}
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,144 @@
+import { useState, useEffect } from 'react';
+import { AuditLogEntry, AuditTable } from '@/lib/supabase';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertTriangle, GitMerge } from 'lucide-react';
+import { getAuditHistory } from '@/lib/actions/auditActions';
+import { fmtAuditTime, fmtAuditValue } from '@/lib/audit/auditLog';
+import { ConflictChoice, FieldChange } from '@/lib/concurrency/mergeChanges';
+
+interface SaveConflictModalProps {
+  open: boolean;
+  table: AuditTable;
+  recordId: string;
+  // Look up the last change among the child rows, e.g. the lessons of a contract
+  byParent?: boolean;
+  conflicts: FieldChange[];
+  theirChanges: FieldChange[];
+  formatValue?: (field: string, value: unknown) => string;
+  onMerge: (choices: Record<string, ConflictChoice>) => void;
+  onDiscard: () => void;
+  onClose: () => void;
+}
+
+export function SaveConflictModal({
+  open,
+  table,
+  recordId,
+  byParent = false,
+  conflicts,
+  theirChanges,
+  formatValue = (_field, value) => fmtAuditValue(value),
+  onMerge,
+  onDiscard,
+  onClose
+}: SaveConflictModalProps) {
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>({});
+  const [lastChange, setLastChange] = useState<AuditLogEntry | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setChoices({});
+    getAuditHistory(table, recordId, byParent)
+      .then(entries => setLastChange(entries[0] ?? null))
+      .catch(error => console.error('Error loading last change:', error));
+  }, [open, table, recordId, byParent]);
+
+  const choiceButton = (change: FieldChange, choice: ConflictChoice) => {
+    const selected = (choices[change.key] ?? 'mine') === choice;
+    return (
+      <button
+        type="button"
+        onClick={() => setChoices(prev => ({ ...prev, [change.key]: choice }))}
+        className={`w-full text-left rounded-md border px-2 py-1 text-sm transition-colors ${
+          selected ? 'border-brand-primary bg-brand-primary/10 text-gray-900' : 'border-gray-200 text-gray-500 hover:bg-gray-50'
+        }`}
+      >
+        {formatValue(change.field, choice === 'mine' ? change.mine : change.theirs)}
+      </button>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-amber-500" />
+            Zwischenzeitlich geändert
+          </DialogTitle>
+          <DialogDescription>
+            {lastChange
+              ? `${lastChange.actor?.full_name ?? 'Ein anderer Benutzer'} hat den Datensatz am ${fmtAuditTime(lastChange.created_at)} geändert, nachdem Sie ihn geöffnet haben.`
+              : 'Ein anderer Benutzer hat den Datensatz geändert, nachdem Sie ihn geöffnet haben.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {conflicts.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-gray-900">Beide geändert – bitte auswählen</p>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-40">Feld</TableHead>
+                    <TableHead>Ihre Änderung</TableHead>
+                    <TableHead>Andere Änderung</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {conflicts.map(change => (
+                    <TableRow key={change.key}>
+                      <TableCell className="font-medium">{change.label}</TableCell>
+                      <TableCell>{choiceButton(change, 'mine')}</TableCell>
+                      <TableCell>{choiceButton(change, 'theirs')}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          {theirChanges.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-gray-900">Werden übernommen</p>
+              <ul className="space-y-1">
+                {theirChanges.map(change => (
+                  <li key={change.key} className="text-sm text-gray-700">
+                    <span className="font-medium">{change.label}:</span> {formatValue(change.field, change.theirs)}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {conflicts.length === 0 && theirChanges.length === 0 && (
+            <p className="text-sm text-gray-500">
+              Die anderen Änderungen betreffen keine Felder, die Sie bearbeitet haben.
+            </p>
+          )}
+
+          <p className="text-xs text-gray-500">
+            Nach dem Zusammenführen stehen die Werte im Formular und können vor dem Speichern noch geprüft werden.
+          </p>
+
+          <div className="flex justify-end space-x-2 pt-2">
+            <Button type="button" variant="outline" onClick={onDiscard}>
+              Meine Änderungen verwerfen
+            </Button>
+            <Button
+              type="button"
+              onClick={() => onMerge(choices)}
+              className="bg-brand-primary hover:bg-brand-primary/90 focus:ring-brand-primary"
+            >
+              <GitMerge className="h-4 w-4 mr-2" />
+              Zusammenführen
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,206 @@
+import { useState, useEffect } from 'react';
+import { SchoolClosure } from '@/lib/supabase';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Trash2, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { fmtDate } from '@/lib/utils';
+import { parseICal } from '@/lib/calendar/parseICal';
+import { CLOSURE_KIND_LABELS } from '@/lib/calendar/schoolCalendar';
+import {
+  getSchoolClosures,
+  createSchoolClosure,
+  deleteSchoolClosure,
+  importSchoolHolidays
+} from '@/lib/actions/schoolCalendarActions';
+
+interface SchoolCalendarModalProps {
+  open: boolean;
+  onClose: () => void;
+  onUpdate?: () => void;
+}
+
+export function SchoolCalendarModal({ open, onClose, onUpdate }: SchoolCalendarModalProps) {
+  const [closures, setClosures] = useState<SchoolClosure[]>([]);
+  const [name, setName] = useState('');
+  const [kind, setKind] = useState<SchoolClosure['kind']>('closure');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const fetchClosures = async () => {
+    try {
+      setClosures(await getSchoolClosures());
+    } catch (error) {
+      console.error('Error loading school calendar:', error);
+      toast.error('Fehler beim Laden des Ferienkalenders', {
+        description: error instanceof Error ? error.message : 'Unbekannter Fehler'
+      });
+    }
+  };
+
+  useEffect(() => {
+    if (open) fetchClosures();
+  }, [open]);
+
+  const afterChange = async () => {
+    await fetchClosures();
+    onUpdate?.();
+  };
+
+  const handleAdd = async () => {
+    if (!name.trim() || !startDate) {
+      toast.error('Bitte Bezeichnung und Beginn angeben');
+      return;
+    }
+    if (endDate && endDate < startDate) {
+      toast.error('Das Ende darf nicht vor dem Beginn liegen');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await createSchoolClosure({ name: name.trim(), kind, start_date: startDate, end_date: endDate || startDate });
+      toast.success('Eintrag angelegt', { description: 'Geplante Stundentermine wurden angepasst' });
+      setName('');
+      setStartDate('');
+      setEndDate('');
+      await afterChange();
+    } catch (error) {
+      console.error('Error creating closure:', error);
+      toast.error('Fehler beim Anlegen des Eintrags', {
+        description: error instanceof Error ? error.message : 'Unbekannter Fehler'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (closure: SchoolClosure) => {
+    try {
+      await deleteSchoolClosure(closure.id);
+      await afterChange();
+    } catch (error) {
+      console.error('Error deleting closure:', error);
+      toast.error('Fehler beim Löschen des Eintrags', {
+        description: error instanceof Error ? error.message : 'Unbekannter Fehler'
+      });
+    }
+  };
+
+  const handleImport = async (file?: File) => {
+    if (!file) return;
+
+    setSaving(true);
+    try {
+      const events = parseICal(await file.text());
+      if (events.length === 0) {
+        toast.error('Keine Termine in der Datei gefunden');
+        return;
+      }
+      const count = await importSchoolHolidays(events);
+      toast.success(`${count} Ferientermine importiert`, { description: file.name });
+      await afterChange();
+    } catch (error) {
+      console.error('Error importing iCal file:', error);
+      toast.error('Fehler beim Import der Ferien', {
+        description: error instanceof Error ? error.message : 'Unbekannter Fehler'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Ferien & Schließtage</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <p className="text-sm text-gray-500">
+            An diesen Tagen werden keine Stunden geplant. Geplante Termine offener Stunden verschieben sich automatisch.
+          </p>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            <Input
+              placeholder="Bezeichnung, z. B. Herbstferien"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="sm:col-span-2"
+            />
+            <Select value={kind} onValueChange={(value) => setKind(value as SchoolClosure['kind'])}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(CLOSURE_KIND_LABELS) as SchoolClosure['kind'][]).map(value => (
+                  <SelectItem key={value} value={value}>{CLOSURE_KIND_LABELS[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex gap-2">
+              <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} title="Beginn" />
+              <Input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} title="Ende (optional)" />
+            </div>
+          </div>
+
+          <div className="flex flex-col sm:flex-row gap-2 sm:justify-between">
+            <label className="inline-flex">
+              <Input
+                type="file"
+                accept=".ics,text/calendar"
+                className="hidden"
+                onChange={(e) => {
+                  handleImport(e.target.files?.[0]);
+                  e.target.value = '';
+                }}
+                disabled={saving}
+              />
+              <span className="inline-flex items-center justify-center rounded-md border px-4 py-2 text-sm font-medium cursor-pointer hover:bg-gray-50">
+                <Upload className="h-4 w-4 mr-2" />
+                Schulferien importieren (iCal)
+              </span>
+            </label>
+            <Button
+              onClick={handleAdd}
+              disabled={saving}
+              className="bg-brand-primary hover:bg-brand-primary/90 focus:ring-brand-primary"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Eintragen
+            </Button>
+          </div>
+
+          <div className="divide-y border rounded-lg">
+            {closures.length === 0 && (
+              <p className="p-4 text-sm text-gray-500 text-center">Noch keine Ferien oder Schließtage eingetragen.</p>
+            )}
+            {closures.map((closure) => (
+              <div key={closure.id} className="flex items-center justify-between gap-2 p-3">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium truncate">{closure.name}</span>
+                    <Badge variant="outline" className="text-xs">{CLOSURE_KIND_LABELS[closure.kind]}</Badge>
+                  </div>
+                  <p className="text-sm text-gray-500">
+                    {closure.start_date === closure.end_date
+                      ? fmtDate(closure.start_date)
+                      : `${fmtDate(closure.start_date)} – ${fmtDate(closure.end_date)}`}
+                  </p>
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => handleDelete(closure)} title="Löschen">
+                  <Trash2 className="h-4 w-4 text-red-600" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
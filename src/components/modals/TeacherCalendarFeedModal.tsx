@@ -0,0 +1,141 @@
+import { useState, useEffect } from 'react';
+import { Teacher } from '@/lib/supabase';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Copy, Download, Link2, Link2Off } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  getActiveCalendarToken,
+  getCalendarFeedUrl,
+  createCalendarToken,
+  revokeCalendarToken,
+  downloadTeacherCalendar
+} from '@/lib/actions/calendarFeedActions';
+
+interface TeacherCalendarFeedModalProps {
+  open: boolean;
+  teacher: Teacher;
+  onClose: () => void;
+}
+
+export function TeacherCalendarFeedModal({ open, teacher, onClose }: TeacherCalendarFeedModalProps) {
+  const [token, setToken] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setLoading(true);
+    getActiveCalendarToken(teacher.id)
+      .then(setToken)
+      .catch(error => {
+        console.error('Error loading calendar feed:', error);
+        toast.error('Fehler beim Laden des Kalender-Abos', {
+          description: error instanceof Error ? error.message : 'Unbekannter Fehler'
+        });
+      })
+      .finally(() => setLoading(false));
+  }, [open, teacher.id]);
+
+  const run = async (action: () => Promise<void>, errorTitle: string) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (error) {
+      console.error(`${errorTitle}:`, error);
+      toast.error(errorTitle, {
+        description: error instanceof Error ? error.message : 'Unbekannter Fehler'
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreate = () => run(async () => {
+    setToken(await createCalendarToken(teacher.id));
+    toast.success(token ? 'Neuer Abo-Link erstellt, der alte Link ist deaktiviert' : 'Abo-Link erstellt');
+  }, 'Fehler beim Erstellen des Abo-Links');
+
+  const handleRevoke = () => run(async () => {
+    await revokeCalendarToken(teacher.id);
+    setToken(null);
+    toast.success('Abo-Link deaktiviert');
+  }, 'Fehler beim Deaktivieren des Abo-Links');
+
+  const handleCopy = () => run(async () => {
+    await navigator.clipboard.writeText(getCalendarFeedUrl(token!));
+    toast.success('Link kopiert');
+  }, 'Link konnte nicht kopiert werden');
+
+  const handleDownload = () => run(async () => {
+    const calendar = await downloadTeacherCalendar(teacher.id);
+    const url = URL.createObjectURL(new Blob([calendar], { type: 'text/calendar;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `Unterricht_${teacher.name.replace(/\s+/g, '_')}.ics`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }, 'Fehler beim Herunterladen des Kalenders');
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Kalender – {teacher.name}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-2">
+            <h3 className="font-medium">Kalender abonnieren</h3>
+            <p className="text-sm text-gray-500">
+              Geplante Unterrichtsstunden, Probestunden sowie Ferien und Schließtage erscheinen automatisch im Kalender des Handys.
+              Wer den Link kennt, kann den Kalender lesen.
+            </p>
+            {token ? (
+              <>
+                <div className="flex gap-2">
+                  <Input readOnly value={getCalendarFeedUrl(token)} onFocus={(e) => e.target.select()} />
+                  <Button variant="outline" onClick={handleCopy} disabled={busy} title="Link kopieren">
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <Button variant="outline" size="sm" onClick={handleCreate} disabled={busy}>
+                    <Link2 className="h-4 w-4 mr-2" />
+                    Neuen Link erstellen
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={handleRevoke} disabled={busy} className="text-red-600">
+                    <Link2Off className="h-4 w-4 mr-2" />
+                    Link deaktivieren
+                  </Button>
+                </div>
+              </>
+            ) : (
+              <Button
+                onClick={handleCreate}
+                disabled={busy || loading}
+                className="bg-brand-primary hover:bg-brand-primary/90 focus:ring-brand-primary"
+              >
+                <Link2 className="h-4 w-4 mr-2" />
+                Abo-Link erstellen
+              </Button>
+            )}
+          </div>
+
+          <div className="space-y-2 border-t pt-4">
+            <h3 className="font-medium">Einmalig herunterladen</h3>
+            <p className="text-sm text-gray-500">
+              .ics-Datei mit dem aktuellen Stand zum Importieren; spätere Änderungen werden nicht übernommen.
+            </p>
+            <Button variant="outline" onClick={handleDownload} disabled={busy}>
+              <Download className="h-4 w-4 mr-2" />
+              .ics herunterladen
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,97 @@
+import { useState, useEffect } from 'react';
+import { supabase, Room, TrialAppointment } from '@/lib/supabase';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { TrialScheduleFields } from '@/components/forms/TrialScheduleFields';
+import { scheduleTrial, TrialScheduleInput } from '@/lib/actions/trialActions';
+import { toast } from 'sonner';
+
+interface TrialScheduleModalProps {
+  open: boolean;
+  trialAppointment: TrialAppointment;
+  // other trials of the same teacher
+  agenda: TrialAppointment[];
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+export function TrialScheduleModal({ open, trialAppointment, agenda, onClose, onSuccess }: TrialScheduleModalProps) {
+  const [schedule, setSchedule] = useState<TrialScheduleInput>({
+    scheduled_at: trialAppointment.scheduled_at || null,
+    duration_minutes: trialAppointment.duration_minutes || 30,
+    room_id: trialAppointment.room_id || null,
+    location: trialAppointment.location || '',
+    proposed_slots: trialAppointment.proposed_slots || []
+  });
+  const [rooms, setRooms] = useState<Room[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    supabase
+      .from('rooms')
+      .select('*')
+      .eq('is_active', true)
+      .order('name')
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error fetching rooms:', error);
+          return;
+        }
+        setRooms(data || []);
+      });
+  }, [open]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await scheduleTrial(trialAppointment.id, {
+        ...schedule,
+        location: schedule.location?.trim() || null,
+        proposed_slots: schedule.proposed_slots.filter(Boolean)
+      });
+      toast.success(schedule.scheduled_at ? 'Termin gespeichert' : 'Terminvorschläge gespeichert');
+      onSuccess();
+    } catch (error) {
+      console.error('Error scheduling trial appointment:', error);
+      toast.error('Fehler beim Speichern des Termins', {
+        description: error instanceof Error ? error.message : 'Unbekannter Fehler'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            Termin – {trialAppointment.student_name} ({trialAppointment.instrument})
+          </DialogTitle>
+        </DialogHeader>
+
+        <TrialScheduleFields
+          schedule={schedule}
+          rooms={rooms}
+          agenda={agenda}
+          onChange={setSchedule}
+        />
+
+        <div className="flex justify-end space-x-2 pt-4">
+          <Button variant="outline" onClick={onClose} disabled={saving}>
+            Abbrechen
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={saving}
+            className="bg-brand-primary hover:bg-brand-primary/90 focus:ring-brand-primary"
+          >
+            {saving ? 'Speichern...' : 'Termin speichern'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
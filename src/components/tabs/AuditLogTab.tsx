@@ -0,0 +1,229 @@
+import { useState, useEffect } from 'react';
+import { supabase, AuditAction, AuditLogEntry, AuditTable, Profile } from '@/lib/supabase';
+import { useAuth } from '@/hooks/useAuth';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AuditActionBadge, AuditEntryChanges } from '@/components/AuditHistory';
+import { ChevronLeft, ChevronRight, History, Search } from 'lucide-react';
+import { toast } from 'sonner';
+import { AUDIT_PAGE_SIZE, AuditLogFilters, searchAuditLog } from '@/lib/actions/auditActions';
+import { AUDIT_ACTION_LABELS, AUDIT_TABLES, AUDIT_TABLE_LABELS, fmtAuditTime } from '@/lib/audit/auditLog';
+
+const ALL = '__all__';
+
+export function AuditLogTab() {
+  const { isAdmin } = useAuth();
+  const [profiles, setProfiles] = useState<Pick<Profile, 'id' | 'full_name'>[]>([]);
+  const [searchInput, setSearchInput] = useState('');
+  const [filters, setFilters] = useState<AuditLogFilters>({});
+  const [page, setPage] = useState(0);
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [count, setCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!isAdmin) return;
+
+    supabase
+      .from('profiles')
+      .select('id, full_name')
+      .order('full_name')
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error fetching profiles:', error);
+          return;
+        }
+        setProfiles(data || []);
+      });
+  }, [isAdmin]);
+
+  useEffect(() => {
+    if (!isAdmin) return;
+
+    setLoading(true);
+    searchAuditLog(filters, page)
+      .then(result => {
+        setEntries(result.entries);
+        setCount(result.count);
+      })
+      .catch(error => {
+        console.error('Error loading audit log:', error);
+        toast.error('Fehler beim Laden des Änderungsprotokolls', {
+          description: error instanceof Error ? error.message : 'Unbekannter Fehler'
+        });
+      })
+      .finally(() => setLoading(false));
+  }, [isAdmin, filters, page]);
+
+  const updateFilters = (changes: Partial<AuditLogFilters>) => {
+    setFilters(prev => ({ ...prev, ...changes }));
+    setPage(0);
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateFilters({ search: searchInput });
+  };
+
+  if (!isAdmin) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <History className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+          <p className="text-gray-500">Nur Administratoren können das Änderungsprotokoll einsehen.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const pageCount = Math.max(1, Math.ceil(count / AUDIT_PAGE_SIZE));
+
+  return (
+    <div className="h-full flex flex-col space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Änderungsprotokoll</h1>
+        <p className="text-gray-600 mt-2">Wer hat wann was an Schülern, Lehrern, Verträgen, Stunden, Probestunden und Ermäßigungen geändert</p>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-6">
+            <form onSubmit={handleSearch} className="relative xl:col-span-2">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <Input
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                onBlur={() => searchInput !== (filters.search ?? '') && updateFilters({ search: searchInput })}
+                placeholder="Name oder ID suchen..."
+                className="pl-9"
+              />
+            </form>
+
+            <Select
+              value={filters.table ?? ALL}
+              onValueChange={(value) => updateFilters({ table: value === ALL ? null : value as AuditTable })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Alle Bereiche</SelectItem>
+                {AUDIT_TABLES.map(table => (
+                  <SelectItem key={table} value={table}>{AUDIT_TABLE_LABELS[table]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select
+              value={filters.action ?? ALL}
+              onValueChange={(value) => updateFilters({ action: value === ALL ? null : value as AuditAction })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Alle Aktionen</SelectItem>
+                {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map(action => (
+                  <SelectItem key={action} value={action}>{AUDIT_ACTION_LABELS[action]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select
+              value={filters.actorId ?? ALL}
+              onValueChange={(value) => updateFilters({ actorId: value === ALL ? null : value })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Alle Benutzer</SelectItem>
+                {profiles.map(profile => (
+                  <SelectItem key={profile.id} value={profile.id}>{profile.full_name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <div className="flex gap-2">
+              <Input
+                type="date"
+                value={filters.from ?? ''}
+                onChange={(e) => updateFilters({ from: e.target.value || null })}
+                aria-label="Von"
+              />
+              <Input
+                type="date"
+                value={filters.to ?? ''}
+                onChange={(e) => updateFilters({ to: e.target.value || null })}
+                aria-label="Bis"
+              />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {loading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-brand-primary"></div>
+        </div>
+      ) : (
+        <Card>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-36">Zeitpunkt</TableHead>
+                  <TableHead className="w-40">Benutzer</TableHead>
+                  <TableHead className="w-56">Datensatz</TableHead>
+                  <TableHead>Änderungen</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center text-gray-500 py-8">
+                      Keine Einträge gefunden
+                    </TableCell>
+                  </TableRow>
+                ) : entries.map(entry => (
+                  <TableRow key={entry.id} className="align-top">
+                    <TableCell className="text-sm text-gray-600 whitespace-nowrap">{fmtAuditTime(entry.created_at)}</TableCell>
+                    <TableCell className="text-sm">{entry.actor?.full_name ?? 'System'}</TableCell>
+                    <TableCell>
+                      <div className="space-y-1">
+                        <div className="flex items-center gap-2">
+                          <AuditActionBadge entry={entry} />
+                          <span className="text-xs text-gray-500">{AUDIT_TABLE_LABELS[entry.table_name]}</span>
+                        </div>
+                        <p className="text-sm font-medium">{entry.record_label || entry.record_id}</p>
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <AuditEntryChanges entry={entry} />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="flex items-center justify-between text-sm text-gray-600">
+        <span>{count} Einträge</span>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page === 0 || loading}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span>Seite {page + 1} von {pageCount}</span>
+          <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page + 1 >= pageCount || loading}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,22 +1,48 @@
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { supabase, Contract, Teacher, Student, ContractDiscount, getContractTypeDisplay, getLegacyContractTypeDisplay, generateContractPDF, PDFContractData } from '@/lib/supabase';
 import { useAuth } from '@/hooks/useAuth';
+import { useRealtimeChanges } from '@/hooks/useRealtimeChanges';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import { Plus, Search, MoreHorizontal, Edit, Calendar, FileText, Users, Trash2, Clock, ArrowLeft, Download } from 'lucide-react';
+import { Plus, Search, MoreHorizontal, Edit, Calendar, FileText, Users, Trash2, Clock, ArrowLeft, Download, Receipt, RotateCcw } from 'lucide-react';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { LessonTrackerModal } from '@/components/modals/LessonTrackerModal';
 import { TeacherContractsModal } from '@/components/modals/TeacherContractsModal';
 import { DeleteContractConfirmationModal } from '@/components/modals/DeleteContractConfirmationModal';
+import { MakeupRulesModal } from '@/components/modals/MakeupRulesModal';
 import { ContractForm } from '@/components/forms/ContractForm';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { toast } from 'sonner';
 import { fmtDate } from '@/lib/utils';
 import { formatMonthYearShort } from '@/lib/utils';
+import { createContractInvoice } from '@/lib/actions/invoiceActions';
+import { ExportMenu } from '@/components/ExportMenu';
+import { exportRows, ExportFormat } from '@/lib/export/exportRows';
+import { buildContractExportColumns } from '@/lib/export/entityColumns';
+import { getOwedMakeupLessons } from '@/lib/lessons/makeupLessons';
+import { getChangedId, removeRow, upsertRow } from '@/lib/realtime/mergeRows';
+
+const CONTRACT_LIST_SELECT = `
+  *,
+  student:students!fk_contracts_student_id(
+    id, name, instrument, status, bank_id
+  ),
+  teacher:teachers!contracts_teacher_id_fkey(id, name, bank_id),
+  contract_variant:contract_variants(
+    id, name, duration_months, group_type, session_length_minutes, total_lessons,
+    monthly_price, one_time_price,
+    contract_category:contract_categories(id, name, display_name)
+  ),
+  room:rooms(id, name),
+  lessons:lessons(
+    id, lesson_number, date, is_available, comment, cancellation_reason,
+    makeup_credit:lesson_makeup_credits(id, reason, expires_on, used_at, makeup_date)
+  )
+`;
 
 export function ContractsTab() {
   const { profile, isAdmin } = useAuth();
@@ -35,8 +61,11 @@ export function ContractsTab() {
   const [showAddForm, setShowAddForm] = useState(false);
   const [editingContract, setEditingContract] = useState<Contract | null>(null);
   const [deletingContract, setDeletingContract] = useState<Contract | null>(null);
+  const [showMakeupRules, setShowMakeupRules] = useState(false);
   const [selectedStudentForNewContract, setSelectedStudentForNewContract] = useState<string>('');
   const [allDiscounts, setAllDiscounts] = useState<ContractDiscount[]>([]);
+  const pendingContractIds = useRef(new Set<string>());
+  const pendingRefresh = useRef<ReturnType<typeof setTimeout>>();
 
   // Memoize current teacher lookup
   const currentTeacher = useMemo(() => 
@@ -173,19 +202,7 @@ export function ContractsTab() {
     try {
       let query = supabase
         .from('contracts')
-        .select(`
-          *,
-          student:students!fk_contracts_student_id(
-            id, name, instrument, status, bank_id
-          ),
-          teacher:teachers!contracts_teacher_id_fkey(id, name, bank_id),
-          contract_variant:contract_variants(
-            id, name, duration_months, group_type, session_length_minutes, total_lessons,
-            monthly_price, one_time_price,
-            contract_category:contract_categories(id, name, display_name)
-          ),
-          lessons:lessons(id, lesson_number, date, is_available, comment)
-        `)
+        .select(CONTRACT_LIST_SELECT)
         .order('created_at', { ascending: false });
 
       // Filter by specific teacher (for admin view) or current teacher (for teacher view)
@@ -313,10 +330,11 @@ export function ContractsTab() {
       return { current, total, percentage: Math.round((current / total) * 100) };
     }
 
-    // Calculate based on actual lesson data
+    // Calculate based on actual lesson data; cancelled lessons with an owed makeup still count
     const availableLessons = contract.lessons.filter(lesson => lesson.is_available !== false);
     const completedLessons = availableLessons.filter(lesson => lesson.date).length;
-    const totalAvailable = availableLessons.length;
+    const owedMakeups = getOwedMakeupLessons(contract.lessons).length;
+    const totalAvailable = availableLessons.length + owedMakeups;
     
     const percentage = totalAvailable > 0 ? Math.round((completedLessons / totalAvailable) * 100) : 0;
     
@@ -324,7 +342,8 @@ export function ContractsTab() {
       current: completedLessons,
       total: totalAvailable,
       percentage,
-      unavailable: contract.lessons.length - totalAvailable
+      unavailable: contract.lessons.length - totalAvailable,
+      owedMakeups
     };
   };
 
@@ -422,6 +441,20 @@ export function ContractsTab() {
     };
   };
 
+  const handleCreateInvoice = async (contract: Contract) => {
+    try {
+      const invoice = await createContractInvoice(contract.id);
+      toast.success(`Rechnung ${invoice.invoice_number} erstellt`, {
+        description: `${invoice.description} – ${Number(invoice.amount).toFixed(2)}€`
+      });
+    } catch (error) {
+      console.error('Error creating invoice:', error);
+      toast.error('Fehler beim Erstellen der Rechnung', {
+        description: error instanceof Error ? error.message : 'Unbekannter Fehler'
+      });
+    }
+  };
+
   const handleDownloadPDF = async (contract: Contract) => {
     try {
       toast.info('PDF-Download wird vorbereitet...', {
@@ -440,7 +473,10 @@ export function ContractsTab() {
             monthly_price, one_time_price,
             contract_category:contract_categories(id, name, display_name)
           ),
-          lessons:lessons(id, lesson_number, date, is_available, comment),
+          lessons:lessons(
+            id, lesson_number, date, is_available, comment, cancellation_reason,
+            makeup_credit:lesson_makeup_credits(id, reason, expires_on, used_at, makeup_date)
+          ),
           type, discount_ids, custom_discount_percent, payment_type, status, attendance_count, attendance_dates, created_at, updated_at
         `)
         .eq('id', contract.id)
@@ -555,7 +591,58 @@ export function ContractsTab() {
     fetchStudents();
   };
 
-  const filteredContracts = contracts.filter(contract => {
+  // Live updates: reload changed contracts of the current list. Saving the lesson tracker
+  // updates many lessons at once, so changes are collected and reloaded together.
+  const flushContractChanges = async () => {
+    const ids = [...pendingContractIds.current];
+    pendingContractIds.current.clear();
+
+    if (isAdmin) fetchTeacherContractCounts();
+
+    const scopeTeacherId = selectedTeacherForContracts?.id ?? (profile?.role === 'teacher' ? currentTeacher?.id : undefined);
+    if (ids.length === 0 || (isAdmin && !selectedTeacherForContracts)) return;
+
+    const { data, error } = await supabase
+      .from('contracts')
+      .select(CONTRACT_LIST_SELECT)
+      .in('id', ids);
+
+    if (error) {
+      console.error('Error refreshing contracts:', error);
+      return;
+    }
+
+    setContracts(prev => ids.reduce((rows, id) => {
+      const contract = data?.find(c => c.id === id);
+      return contract && (!scopeTeacherId || contract.teacher_id === scopeTeacherId)
+        ? upsertRow(rows, contract as Contract)
+        : removeRow(rows, id);
+    }, prev));
+  };
+
+  const queueContractRefresh = (contractId?: string) => {
+    if (contractId) pendingContractIds.current.add(contractId);
+    clearTimeout(pendingRefresh.current);
+    pendingRefresh.current = setTimeout(flushContractChanges, 300);
+  };
+
+  useEffect(() => () => clearTimeout(pendingRefresh.current), []);
+
+  useRealtimeChanges('contracts', payload => {
+    const id = getChangedId(payload);
+    if (payload.eventType === 'DELETE') {
+      if (id) setContracts(prev => removeRow(prev, id));
+      queueContractRefresh();
+    } else {
+      queueContractRefresh(id);
+    }
+  }, { enabled: !!profile });
+
+  useRealtimeChanges<{ id: string; contract_id: string }>('lessons', payload => {
+    if ('contract_id' in payload.new) queueContractRefresh(payload.new.contract_id);
+  }, { enabled: !!profile, event: 'UPDATE' });
+
+  const matchesContractFilters = (contract: Contract) => {
     const matchesSearch = contract.student?.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          contract.student?.instrument.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          contract.student?.teacher?.name.toLowerCase().includes(searchTerm.toLowerCase());
@@ -569,13 +656,36 @@ export function ContractsTab() {
     const matchesTeacher = teacherFilter === 'all' || contract.teacher?.id === teacherFilter;
     
     return matchesSearch && matchesStatus && matchesType && matchesTeacher;
-  });
+  };
+
+  const filteredContracts = contracts.filter(matchesContractFilters);
 
   const filteredTeachers = teachers.filter(teacher => {
     const matchesSearch = teacher.name.toLowerCase().includes(searchTerm.toLowerCase());
     return matchesSearch;
   });
 
+  const handleExportContracts = async (format: ExportFormat) => {
+    let rows = filteredContracts;
+
+    // In the teacher overview no contracts are loaded yet: export those of all listed teachers
+    if (isAdmin && !selectedTeacherForContracts) {
+      const { data, error } = await supabase
+        .from('contracts')
+        .select(CONTRACT_LIST_SELECT)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        throw new Error(error.message || 'Failed to load contracts');
+      }
+
+      const teacherIds = new Set(filteredTeachers.map(t => t.id));
+      rows = ((data || []) as Contract[]).filter(c => c.teacher?.id && teacherIds.has(c.teacher.id));
+    }
+
+    await exportRows(rows, buildContractExportColumns(allDiscounts), format, 'Vertraege');
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -618,16 +728,30 @@ export function ContractsTab() {
           </div>
         </div>
         
-        {/* Show add button only for admins when viewing contracts */}
-        {canAddContract() && (selectedTeacherForContracts || !isAdmin) && (
-          <Button 
-            onClick={() => setShowAddForm(true)} 
-            className="bg-brand-primary hover:bg-brand-primary/90 focus:ring-brand-primary"
-          >
-            <Plus className="h-4 w-4 mr-2" />
-            Neuer Vertrag
-          </Button>
-        )}
+        <div className="flex gap-3">
+          {isAdmin && (
+            <Button variant="outline" onClick={() => setShowMakeupRules(true)}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Nachholregeln
+            </Button>
+          )}
+          {isAdmin && (
+            <ExportMenu
+              count={selectedTeacherForContracts ? filteredContracts.length : undefined}
+              onExport={handleExportContracts}
+            />
+          )}
+          {/* Show add button only for admins when viewing contracts */}
+          {canAddContract() && (selectedTeacherForContracts || !isAdmin) && (
+            <Button 
+              onClick={() => setShowAddForm(true)} 
+              className="bg-brand-primary hover:bg-brand-primary/90 focus:ring-brand-primary"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Neuer Vertrag
+            </Button>
+          )}
+        </div>
       </div>
 
 
@@ -824,6 +948,12 @@ export function ContractsTab() {
                           <Download className="h-4 w-4 mr-2" />
                           Als PDF herunterladen
                         </DropdownMenuItem>
+                        {isAdmin && (
+                          <DropdownMenuItem onClick={() => handleCreateInvoice(contract)}>
+                            <Receipt className="h-4 w-4 mr-2" />
+                            Rechnung erstellen
+                          </DropdownMenuItem>
+                        )}
                         {canDeleteContract() && (
                           <DropdownMenuItem 
                             onClick={() => handleDeleteContract(contract.id)}
@@ -935,6 +1065,11 @@ export function ContractsTab() {
                               {progress.unavailable} nicht verfügbar
                             </Badge>
                           )}
+                          {Number(progress.owedMakeups) > 0 && (
+                            <Badge variant="outline" className="text-xs bg-amber-50 text-amber-700 border-amber-200">
+                              {progress.owedMakeups} Nachholstunde{progress.owedMakeups !== 1 ? 'n' : ''} offen
+                            </Badge>
+                          )}
                         </div>
                       </div>
                       <div className="w-full bg-gray-200 rounded-full h-2">
@@ -1064,6 +1199,13 @@ export function ContractsTab() {
         />
       )}
 
+      {isAdmin && (
+        <MakeupRulesModal
+          open={showMakeupRules}
+          onClose={() => setShowMakeupRules(false)}
+        />
+      )}
+
       {/* Teacher Contracts Modal */}
       {selectedTeacher && (
         <TeacherContractsModal
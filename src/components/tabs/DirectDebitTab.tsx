@@ -0,0 +1,429 @@
+import { useState, useEffect, useMemo } from 'react';
+import { SepaRun } from '@/lib/supabase';
+import { useAuth } from '@/hooks/useAuth';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Landmark, Download, AlertTriangle, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import { format, addMonths, startOfMonth } from 'date-fns';
+import { fmtDate, fmtMonthYear } from '@/lib/utils';
+import {
+  getSepaSettings,
+  saveSepaSettings,
+  getSepaCollectionItems,
+  getSepaRuns,
+  recordSepaRun
+} from '@/lib/actions/sepaActions';
+import {
+  SepaCollectionItem,
+  SepaValidationReport,
+  validateCollectionItems,
+  validateCreditor,
+  buildPain008Xml,
+  getSequenceType,
+  getEndToEndId
+} from '@/lib/sepa/pain008';
+
+const formatAmount = (amount: number) => `${Number(amount).toFixed(2)}€`;
+
+export function DirectDebitTab() {
+  const { isAdmin } = useAuth();
+  const [loading, setLoading] = useState(true);
+  const [runs, setRuns] = useState<SepaRun[]>([]);
+  const [creditor, setCreditor] = useState({ creditor_name: '', creditor_iban: '', creditor_bic: '', creditor_id: '' });
+  const [savingSettings, setSavingSettings] = useState(false);
+  const [month, setMonth] = useState(format(new Date(), 'yyyy-MM'));
+  const [collectionDate, setCollectionDate] = useState(format(addMonths(startOfMonth(new Date()), 1), 'yyyy-MM-dd'));
+  const [report, setReport] = useState<SepaValidationReport | null>(null);
+  const [preparing, setPreparing] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  useEffect(() => {
+    if (isAdmin) {
+      fetchData();
+    } else {
+      setLoading(false);
+    }
+  }, [isAdmin]);
+
+  const fetchData = async () => {
+    try {
+      const [settings, previousRuns] = await Promise.all([getSepaSettings(), getSepaRuns()]);
+      if (settings) {
+        setCreditor({
+          creditor_name: settings.creditor_name || '',
+          creditor_iban: settings.creditor_iban || '',
+          creditor_bic: settings.creditor_bic || '',
+          creditor_id: settings.creditor_id || ''
+        });
+      }
+      setRuns(previousRuns);
+    } catch (error) {
+      console.error('Error fetching SEPA data:', error);
+      toast.error('Fehler beim Laden der Lastschriftdaten', {
+        description: error instanceof Error ? error.message : 'Unbekannter Fehler'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const creditorProblems = useMemo(() => validateCreditor({
+    name: creditor.creditor_name,
+    iban: creditor.creditor_iban,
+    bic: creditor.creditor_bic,
+    creditorId: creditor.creditor_id
+  }), [creditor]);
+
+  const validTotal = useMemo(
+    () => (report?.valid || []).reduce((sum, item) => sum + Number(item.amount || 0), 0),
+    [report]
+  );
+
+  // Earlier runs for the selected month; their contracts are excluded from a new run
+  const monthRuns = runs.filter(run => run.period_month.startsWith(month));
+
+  const handleSaveSettings = async () => {
+    setSavingSettings(true);
+    try {
+      await saveSepaSettings({
+        creditor_name: creditor.creditor_name.trim(),
+        creditor_iban: creditor.creditor_iban.replace(/\s+/g, '').toUpperCase() || null,
+        creditor_bic: creditor.creditor_bic.trim().toUpperCase() || null,
+        creditor_id: creditor.creditor_id.replace(/\s+/g, '').toUpperCase() || null
+      });
+      toast.success('Gläubigerdaten gespeichert');
+    } catch (error) {
+      console.error('Error saving SEPA settings:', error);
+      toast.error('Fehler beim Speichern der Gläubigerdaten', {
+        description: error instanceof Error ? error.message : 'Unbekannter Fehler'
+      });
+    } finally {
+      setSavingSettings(false);
+    }
+  };
+
+  const handlePrepare = async () => {
+    setPreparing(true);
+    try {
+      const items = await getSepaCollectionItems(`${month}-01`);
+      setReport(validateCollectionItems(items, collectionDate));
+    } catch (error) {
+      console.error('Error preparing direct debit run:', error);
+      toast.error('Fehler beim Vorbereiten des Lastschriftlaufs', {
+        description: error instanceof Error ? error.message : 'Unbekannter Fehler'
+      });
+    } finally {
+      setPreparing(false);
+    }
+  };
+
+  const handleExport = async () => {
+    if (!report || report.valid.length === 0) return;
+    if (creditorProblems.length > 0) {
+      toast.error('Gläubigerdaten unvollständig', { description: creditorProblems.join('\n') });
+      return;
+    }
+
+    setExporting(true);
+    try {
+      const messageId = `MA-${month.replace('-', '')}-${format(new Date(), 'yyyyMMddHHmmss')}`;
+      const [year, monthNumber] = month.split('-');
+      const xml = buildPain008Xml({
+        creditor: {
+          name: creditor.creditor_name,
+          iban: creditor.creditor_iban,
+          bic: creditor.creditor_bic,
+          creditorId: creditor.creditor_id
+        },
+        messageId,
+        collectionDate,
+        remittancePrefix: `Unterricht ${monthNumber}/${year}`,
+        items: report.valid
+      });
+
+      await recordSepaRun(messageId, `${month}-01`, collectionDate, report.valid.map((item, index) => ({
+        contract_id: item.contract_id,
+        student_id: item.student_id,
+        bank_record_id: item.bank_record_id,
+        amount: Number(item.amount || 0),
+        sequence_type: getSequenceType(item),
+        end_to_end_id: getEndToEndId(messageId, index)
+      })));
+
+      const blob = new Blob([xml], { type: 'application/xml' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `Lastschrift_${month}.xml`;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      toast.success(`Lastschriftdatei mit ${report.valid.length} Buchung${report.valid.length !== 1 ? 'en' : ''} erstellt`);
+      setReport(null);
+      fetchData();
+    } catch (error) {
+      console.error('Error exporting direct debit file:', error);
+      toast.error('Fehler beim Erstellen der Lastschriftdatei', {
+        description: error instanceof Error ? error.message : 'Unbekannter Fehler'
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const renderItemRow = (item: SepaCollectionItem, problems: string[] = []) => (
+    <TableRow key={item.contract_id} className={problems.length > 0 ? 'bg-red-50' : ''}>
+      <TableCell className="font-medium">{item.student_name || 'Unbekannt'}</TableCell>
+      <TableCell className="text-sm text-gray-600">{item.variant_name || '-'}</TableCell>
+      <TableCell className="font-mono text-xs whitespace-nowrap">{item.iban || '-'}</TableCell>
+      <TableCell className="text-sm">{item.mandate_reference || '-'}</TableCell>
+      <TableCell>
+        <Badge variant="outline">{getSequenceType(item)}</Badge>
+      </TableCell>
+      <TableCell className="text-right whitespace-nowrap">{formatAmount(Number(item.amount || 0))}</TableCell>
+      <TableCell>
+        {problems.length > 0 ? (
+          <ul className="text-xs text-red-600 space-y-0.5">
+            {problems.map(problem => <li key={problem}>{problem}</li>)}
+          </ul>
+        ) : (
+          <span className="text-xs text-green-600">OK</span>
+        )}
+      </TableCell>
+    </TableRow>
+  );
+
+  if (!isAdmin) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <Landmark className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+          <p className="text-gray-500">Nur Administratoren können Lastschriften erstellen.</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-brand-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full flex flex-col space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Lastschrift</h1>
+        <p className="text-gray-600 mt-2">SEPA-Lastschriftlauf (pain.008) für monatliche Verträge</p>
+      </div>
+
+      {/* Creditor settings */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Zahlungsempfänger</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="creditor_name">Name</Label>
+              <Input
+                id="creditor_name"
+                value={creditor.creditor_name}
+                onChange={(e) => setCreditor({ ...creditor, creditor_name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="creditor_id">Gläubiger-ID</Label>
+              <Input
+                id="creditor_id"
+                value={creditor.creditor_id}
+                onChange={(e) => setCreditor({ ...creditor, creditor_id: e.target.value })}
+                placeholder="DE98ZZZ09999999999"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="creditor_iban">IBAN</Label>
+              <Input
+                id="creditor_iban"
+                value={creditor.creditor_iban}
+                onChange={(e) => setCreditor({ ...creditor, creditor_iban: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="creditor_bic">BIC (optional)</Label>
+              <Input
+                id="creditor_bic"
+                value={creditor.creditor_bic}
+                onChange={(e) => setCreditor({ ...creditor, creditor_bic: e.target.value })}
+              />
+            </div>
+          </div>
+          {creditorProblems.length > 0 && (
+            <div className="flex items-start gap-2 text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-md p-3">
+              <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              <span>{creditorProblems.join(' · ')}</span>
+            </div>
+          )}
+          <div className="flex justify-end">
+            <Button
+              onClick={handleSaveSettings}
+              disabled={savingSettings}
+              className="bg-brand-primary hover:bg-brand-primary/90 focus:ring-brand-primary"
+            >
+              {savingSettings ? 'Speichere...' : 'Speichern'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Run */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Lastschriftlauf</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="sepa_month">Abrechnungsmonat</Label>
+              <Input
+                id="sepa_month"
+                type="month"
+                value={month}
+                onChange={(e) => { setMonth(e.target.value); setReport(null); }}
+                className="w-full sm:w-[200px]"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="sepa_collection_date">Einzugsdatum</Label>
+              <Input
+                id="sepa_collection_date"
+                type="date"
+                value={collectionDate}
+                onChange={(e) => { setCollectionDate(e.target.value); setReport(null); }}
+                className="w-full sm:w-[200px]"
+              />
+            </div>
+            <Button
+              variant="outline"
+              onClick={handlePrepare}
+              disabled={preparing || !month || !collectionDate}
+            >
+              <RefreshCw className={`h-4 w-4 mr-2 ${preparing ? 'animate-spin' : ''}`} />
+              Prüfen
+            </Button>
+          </div>
+
+          {monthRuns.length > 0 && (
+            <div className="flex items-start gap-2 text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-md p-3">
+              <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              <span>
+                Für diesen Monat {monthRuns.length === 1 ? 'wurde bereits ein Lauf' : `wurden bereits ${monthRuns.length} Läufe`} erstellt
+                ({monthRuns.map(run => run.message_id).join(', ')}). Bereits eingezogene Verträge werden nicht erneut berücksichtigt.
+              </span>
+            </div>
+          )}
+
+          {report && (
+            <>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div className="rounded-md border p-4">
+                  <p className="text-sm text-gray-600">Einziehbar</p>
+                  <p className="text-2xl font-semibold text-gray-900">{report.valid.length}</p>
+                </div>
+                <div className="rounded-md border p-4">
+                  <p className="text-sm text-gray-600">Summe</p>
+                  <p className="text-2xl font-semibold text-green-600">{formatAmount(validTotal)}</p>
+                </div>
+                <div className="rounded-md border p-4">
+                  <p className="text-sm text-gray-600">Fehlende/ungültige Mandate</p>
+                  <p className={`text-2xl font-semibold ${report.issues.length > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                    {report.issues.length}
+                  </p>
+                </div>
+              </div>
+
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-gray-50">
+                    <TableHead>Schüler</TableHead>
+                    <TableHead>Vertrag</TableHead>
+                    <TableHead>IBAN</TableHead>
+                    <TableHead>Mandat</TableHead>
+                    <TableHead>Typ</TableHead>
+                    <TableHead className="text-right">Betrag</TableHead>
+                    <TableHead>Prüfung</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.issues.map(issue => renderItemRow(issue.item, issue.problems))}
+                  {report.valid.map(item => renderItemRow(item))}
+                </TableBody>
+              </Table>
+
+              {report.valid.length + report.issues.length === 0 && (
+                <p className="text-center text-gray-500 py-6">Keine fälligen Monatsverträge in diesem Monat.</p>
+              )}
+
+              <div className="flex justify-end">
+                <Button
+                  onClick={handleExport}
+                  disabled={exporting || report.valid.length === 0 || creditorProblems.length > 0}
+                  className="bg-brand-primary hover:bg-brand-primary/90 focus:ring-brand-primary"
+                >
+                  <Download className="h-4 w-4 mr-2" />
+                  {exporting ? 'Erstelle...' : 'XML-Datei erstellen'}
+                </Button>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Previous runs */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Bisherige Läufe</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-gray-50">
+                <TableHead>Nachrichten-ID</TableHead>
+                <TableHead>Monat</TableHead>
+                <TableHead>Einzug</TableHead>
+                <TableHead className="text-right">Buchungen</TableHead>
+                <TableHead className="text-right">Summe</TableHead>
+                <TableHead>Erstellt</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {runs.map(run => (
+                <TableRow key={run.id}>
+                  <TableCell className="font-mono text-xs">{run.message_id}</TableCell>
+                  <TableCell>{fmtMonthYear(run.period_month)}</TableCell>
+                  <TableCell>{fmtDate(run.collection_date)}</TableCell>
+                  <TableCell className="text-right">{run.transaction_count}</TableCell>
+                  <TableCell className="text-right">{formatAmount(run.control_sum)}</TableCell>
+                  <TableCell>{fmtDate(run.created_at)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {runs.length === 0 && (
+            <div className="text-center py-12">
+              <Landmark className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+              <p className="text-gray-500">Noch keine Lastschriftläufe erstellt.</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
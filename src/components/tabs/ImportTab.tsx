@@ -0,0 +1,326 @@
+import { useState, useMemo } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Upload, FileSpreadsheet, ArrowLeft, ArrowRight, CheckCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { parseImportFile, ImportTable } from '@/lib/import/parseImportFile';
+import {
+  ImportEntity,
+  ImportRowResult,
+  ColumnMapping,
+  IMPORT_ENTITIES,
+  IMPORT_FIELDS,
+  autoMapColumns,
+  validateImportRows
+} from '@/lib/import/importRows';
+import { getImportLookup, commitImportRow } from '@/lib/actions/importActions';
+
+type Step = 'upload' | 'mapping' | 'preview' | 'done';
+
+const NOT_MAPPED = '-1';
+
+const getActionBadge = (action: ImportRowResult['action']) => {
+  switch (action) {
+    case 'create':
+      return <Badge className="bg-green-100 text-green-800 hover:bg-green-100">Neu</Badge>;
+    case 'update':
+      return <Badge className="bg-blue-100 text-blue-800 hover:bg-blue-100">Änderung</Badge>;
+    case 'unchanged':
+      return <Badge className="bg-gray-100 text-gray-600 hover:bg-gray-100">Unverändert</Badge>;
+    default:
+      return <Badge className="bg-red-100 text-red-800 hover:bg-red-100">Fehler</Badge>;
+  }
+};
+
+export function ImportTab() {
+  const { isAdmin } = useAuth();
+  const [step, setStep] = useState<Step>('upload');
+  const [entity, setEntity] = useState<ImportEntity>('students');
+  const [fileName, setFileName] = useState('');
+  const [table, setTable] = useState<ImportTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [results, setResults] = useState<ImportRowResult[]>([]);
+  const [validating, setValidating] = useState(false);
+  const [committing, setCommitting] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [commitErrors, setCommitErrors] = useState<{ rowNumber: number; message: string }[]>([]);
+
+  const counts = useMemo(() => ({
+    create: results.filter(r => r.action === 'create').length,
+    update: results.filter(r => r.action === 'update').length,
+    unchanged: results.filter(r => r.action === 'unchanged').length,
+    error: results.filter(r => r.action === 'error').length,
+  }), [results]);
+
+  const rowsToCommit = results.filter(r => r.action === 'create' || r.action === 'update');
+  const missingRequired = IMPORT_FIELDS[entity].filter(f => f.required && (mapping[f.key] ?? -1) < 0);
+
+  const reset = () => {
+    setStep('upload');
+    setFileName('');
+    setTable(null);
+    setMapping({});
+    setResults([]);
+    setProgress(0);
+    setCommitErrors([]);
+  };
+
+  const handleFile = async (file?: File) => {
+    if (!file) return;
+    try {
+      const parsed = await parseImportFile(file);
+      setFileName(file.name);
+      setTable(parsed);
+      setMapping(autoMapColumns(entity, parsed.headers));
+      setStep('mapping');
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      toast.error('Datei konnte nicht gelesen werden', {
+        description: error instanceof Error ? error.message : 'Unbekannter Fehler'
+      });
+    }
+  };
+
+  const handleValidate = async () => {
+    if (!table) return;
+    setValidating(true);
+    try {
+      const lookup = await getImportLookup();
+      setResults(validateImportRows(entity, table.rows, mapping, lookup));
+      setStep('preview');
+    } catch (error) {
+      console.error('Error validating import:', error);
+      toast.error('Fehler beim Prüfen der Daten', {
+        description: error instanceof Error ? error.message : 'Unbekannter Fehler'
+      });
+    } finally {
+      setValidating(false);
+    }
+  };
+
+  const handleCommit = async () => {
+    setCommitting(true);
+    setProgress(0);
+    const errors: { rowNumber: number; message: string }[] = [];
+
+    // Rows are written one by one so a failing row does not block the rest
+    for (const row of rowsToCommit) {
+      try {
+        await commitImportRow(entity, row);
+      } catch (error) {
+        console.error(`Error importing row ${row.rowNumber}:`, error);
+        errors.push({ rowNumber: row.rowNumber, message: error instanceof Error ? error.message : 'Unbekannter Fehler' });
+      }
+      setProgress(p => p + 1);
+    }
+
+    setCommitErrors(errors);
+    setCommitting(false);
+    setStep('done');
+
+    const imported = rowsToCommit.length - errors.length;
+    if (errors.length === 0) {
+      toast.success(`${imported} Datensätze importiert`);
+    } else {
+      toast.warning(`${imported} Datensätze importiert, ${errors.length} fehlgeschlagen`);
+    }
+  };
+
+  if (!isAdmin) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <Upload className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+          <p className="text-gray-500">Nur Administratoren können Daten importieren.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full flex flex-col space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Import</h1>
+        <p className="text-gray-600 mt-2">Schüler, Lehrer und Verträge aus CSV- oder Excel-Dateien übernehmen</p>
+      </div>
+
+      {step === 'upload' && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">1. Datei auswählen</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="space-y-2 max-w-xs">
+              <Label>Was wird importiert?</Label>
+              <Select value={entity} onValueChange={(value) => setEntity(value as ImportEntity)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {IMPORT_ENTITIES.map(e => (
+                    <SelectItem key={e.value} value={e.value}>{e.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {entity === 'contracts' && (
+                <p className="text-xs text-gray-500">Schüler und Lehrer müssen bereits angelegt sein.</p>
+              )}
+            </div>
+            <label className="flex flex-col items-center justify-center border-2 border-dashed border-gray-300 rounded-lg p-10 cursor-pointer hover:border-brand-primary">
+              <FileSpreadsheet className="h-10 w-10 text-gray-400 mb-3" />
+              <span className="text-sm text-gray-600">CSV- oder XLSX-Datei auswählen (erste Zeile = Spaltenüberschriften)</span>
+              <Input
+                type="file"
+                accept=".csv,.txt,.xlsx"
+                className="hidden"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+              />
+            </label>
+          </CardContent>
+        </Card>
+      )}
+
+      {step === 'mapping' && table && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">2. Spalten zuordnen</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <p className="text-sm text-gray-600">
+              {fileName}: {table.rows.length} Zeilen, {table.headers.length} Spalten
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {IMPORT_FIELDS[entity].map(field => (
+                <div key={field.key} className="flex items-center gap-4">
+                  <Label className="w-48 text-sm">
+                    {field.label} {field.required && <span className="text-red-500">*</span>}
+                  </Label>
+                  <Select
+                    value={String(mapping[field.key] ?? -1)}
+                    onValueChange={(value) => setMapping({ ...mapping, [field.key]: Number(value) })}
+                  >
+                    <SelectTrigger className="flex-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_MAPPED}>Nicht importieren</SelectItem>
+                      {table.headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>{header || `Spalte ${index + 1}`}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-between">
+              <Button variant="outline" onClick={reset}>
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Zurück
+              </Button>
+              <Button
+                onClick={handleValidate}
+                disabled={validating || missingRequired.length > 0}
+                className="bg-brand-primary hover:bg-brand-primary/90 focus:ring-brand-primary"
+              >
+                {validating ? 'Prüfe...' : 'Probelauf'}
+                <ArrowRight className="h-4 w-4 ml-2" />
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {step === 'preview' && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">3. Probelauf prüfen</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="flex flex-wrap gap-2">
+              <Badge className="bg-green-100 text-green-800 hover:bg-green-100">{counts.create} neu</Badge>
+              <Badge className="bg-blue-100 text-blue-800 hover:bg-blue-100">{counts.update} Änderungen</Badge>
+              <Badge className="bg-gray-100 text-gray-600 hover:bg-gray-100">{counts.unchanged} unverändert</Badge>
+              <Badge className="bg-red-100 text-red-800 hover:bg-red-100">{counts.error} fehlerhaft</Badge>
+            </div>
+
+            <div className="max-h-[60vh] overflow-auto border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-gray-50">
+                    <TableHead className="w-16">Zeile</TableHead>
+                    <TableHead>Datensatz</TableHead>
+                    <TableHead>Aktion</TableHead>
+                    <TableHead>Änderungen / Hinweise</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {results.map(result => (
+                    <TableRow key={result.rowNumber} className={result.action === 'error' ? 'bg-red-50' : ''}>
+                      <TableCell className="text-gray-500">{result.rowNumber}</TableCell>
+                      <TableCell className="font-medium">{result.label || '-'}</TableCell>
+                      <TableCell>{getActionBadge(result.action)}</TableCell>
+                      <TableCell className="text-xs space-y-0.5">
+                        {result.errors.map(error => <p key={error} className="text-red-600">{error}</p>)}
+                        {result.action !== 'error' && result.changes.map(change => (
+                          <p key={change.field}>
+                            <span className="text-gray-500">{change.field}:</span>{' '}
+                            {change.from && <span className="line-through text-gray-400 mr-1">{change.from}</span>}
+                            <span>{change.to || '–'}</span>
+                          </p>
+                        ))}
+                        {result.warnings.map(warning => <p key={warning} className="text-amber-600">{warning}</p>)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="flex justify-between">
+              <Button variant="outline" onClick={() => setStep('mapping')} disabled={committing}>
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Zuordnung ändern
+              </Button>
+              <Button
+                onClick={handleCommit}
+                disabled={committing || rowsToCommit.length === 0}
+                className="bg-brand-primary hover:bg-brand-primary/90 focus:ring-brand-primary"
+              >
+                {committing
+                  ? `Importiere... (${progress}/${rowsToCommit.length})`
+                  : `${rowsToCommit.length} gültige Zeilen importieren`}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {step === 'done' && (
+        <Card>
+          <CardContent className="pt-6 space-y-4">
+            <div className="flex items-center gap-3">
+              <CheckCircle className="h-6 w-6 text-green-600" />
+              <p className="text-gray-900">
+                {rowsToCommit.length - commitErrors.length} von {rowsToCommit.length} Datensätzen importiert.
+              </p>
+            </div>
+            {commitErrors.length > 0 && (
+              <div className="text-sm text-red-600 space-y-1">
+                {commitErrors.map(error => (
+                  <p key={error.rowNumber}>Zeile {error.rowNumber}: {error.message}</p>
+                ))}
+              </div>
+            )}
+            <Button onClick={reset} variant="outline">Weitere Datei importieren</Button>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,379 @@
+import { useState, useEffect, useMemo } from 'react';
+import { supabase, Invoice, getInvoiceStatus, getInvoiceStatusDisplay, getInvoiceStatusColor, generateInvoicePDF } from '@/lib/supabase';
+import { useAuth } from '@/hooks/useAuth';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Search, MoreHorizontal, Download, CheckCircle, XCircle, Receipt, Plus } from 'lucide-react';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { fmtDate } from '@/lib/utils';
+import { generateMonthlyInvoices, markInvoicePaid, cancelInvoice } from '@/lib/actions/invoiceActions';
+
+const formatAmount = (amount: number) => `${Number(amount).toFixed(2)}€`;
+
+export function InvoicesTab() {
+  const { isAdmin } = useAuth();
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [yearFilter, setYearFilter] = useState<string>(String(new Date().getFullYear()));
+  const [showRunDialog, setShowRunDialog] = useState(false);
+  const [runMonth, setRunMonth] = useState(format(new Date(), 'yyyy-MM'));
+  const [running, setRunning] = useState(false);
+
+  useEffect(() => {
+    if (isAdmin) {
+      fetchInvoices();
+    } else {
+      setLoading(false);
+    }
+  }, [isAdmin]);
+
+  const fetchInvoices = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('invoices')
+        .select(`
+          *,
+          contract:contracts(
+            id, status, billing_cycle,
+            teacher:teachers!contracts_teacher_id_fkey(id, name),
+            contract_variant:contract_variants(id, name)
+          )
+        `)
+        .order('invoice_year', { ascending: false })
+        .order('sequence_number', { ascending: false });
+
+      if (error) {
+        toast.error('Fehler beim Laden der Rechnungen', { description: error.message });
+        return;
+      }
+
+      setInvoices(data || []);
+    } catch (error) {
+      console.error('Error fetching invoices:', error);
+      toast.error('Fehler beim Laden der Rechnungen');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const years = useMemo(() => {
+    const set = new Set(invoices.map(i => i.invoice_year));
+    set.add(new Date().getFullYear());
+    return Array.from(set).sort((a, b) => b - a);
+  }, [invoices]);
+
+  const filteredInvoices = useMemo(() => {
+    const term = searchTerm.toLowerCase();
+    return invoices.filter(invoice => {
+      const matchesSearch = !term ||
+        invoice.invoice_number.toLowerCase().includes(term) ||
+        invoice.recipient_name.toLowerCase().includes(term) ||
+        invoice.description.toLowerCase().includes(term);
+      const matchesStatus = statusFilter === 'all' || getInvoiceStatus(invoice) === statusFilter;
+      const matchesYear = yearFilter === 'all' || String(invoice.invoice_year) === yearFilter;
+      return matchesSearch && matchesStatus && matchesYear;
+    });
+  }, [invoices, searchTerm, statusFilter, yearFilter]);
+
+  const totals = useMemo(() => {
+    const sums = { open: 0, overdue: 0, paid: 0 };
+    invoices
+      .filter(invoice => yearFilter === 'all' || String(invoice.invoice_year) === yearFilter)
+      .forEach(invoice => {
+        const status = getInvoiceStatus(invoice);
+        if (status === 'open' || status === 'overdue' || status === 'paid') {
+          sums[status] += Number(invoice.amount);
+        }
+      });
+    return sums;
+  }, [invoices, yearFilter]);
+
+  const handleMonthlyRun = async () => {
+    setRunning(true);
+    try {
+      const result = await generateMonthlyInvoices(`${runMonth}-01`);
+      if (result.created > 0) {
+        toast.success(`${result.created} Rechnung${result.created !== 1 ? 'en' : ''} erstellt`);
+      } else {
+        toast.info('Keine neuen Rechnungen für diesen Monat');
+      }
+      if (result.skipped.length > 0) {
+        toast.warning(`${result.skipped.length} Vertrag/Verträge übersprungen`, {
+          description: result.skipped.map(s => `${s.student_name || 'Unbekannt'}: ${s.reason}`).join('\n')
+        });
+      }
+      setShowRunDialog(false);
+      fetchInvoices();
+    } catch (error) {
+      console.error('Error generating monthly invoices:', error);
+      toast.error('Fehler beim Erstellen der Monatsrechnungen', {
+        description: error instanceof Error ? error.message : 'Unbekannter Fehler'
+      });
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleMarkPaid = async (invoice: Invoice) => {
+    try {
+      await markInvoicePaid(invoice.id, format(new Date(), 'yyyy-MM-dd'));
+      toast.success(`Rechnung ${invoice.invoice_number} als bezahlt markiert`);
+      fetchInvoices();
+    } catch (error) {
+      console.error('Error marking invoice as paid:', error);
+      toast.error('Fehler beim Aktualisieren der Rechnung', {
+        description: error instanceof Error ? error.message : 'Unbekannter Fehler'
+      });
+    }
+  };
+
+  const handleCancel = async (invoice: Invoice) => {
+    if (!window.confirm(`Rechnung ${invoice.invoice_number} wirklich stornieren? Die Rechnungsnummer bleibt vergeben.`)) {
+      return;
+    }
+    try {
+      await cancelInvoice(invoice.id);
+      toast.success(`Rechnung ${invoice.invoice_number} storniert`);
+      fetchInvoices();
+    } catch (error) {
+      console.error('Error cancelling invoice:', error);
+      toast.error('Fehler beim Stornieren der Rechnung', {
+        description: error instanceof Error ? error.message : 'Unbekannter Fehler'
+      });
+    }
+  };
+
+  const handleDownloadPDF = async (invoice: Invoice) => {
+    try {
+      await generateInvoicePDF(invoice);
+      toast.success('Rechnung erfolgreich heruntergeladen');
+    } catch (error) {
+      console.error('Error generating invoice PDF:', error);
+      toast.error('Fehler beim Erstellen der Rechnung', {
+        description: error instanceof Error ? error.message : 'Unbekannter Fehler'
+      });
+    }
+  };
+
+  if (!isAdmin) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <Receipt className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+          <p className="text-gray-500">Nur Administratoren können Rechnungen einsehen.</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-brand-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full flex flex-col space-y-8">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Rechnungen</h1>
+          <p className="text-gray-600 mt-2">Rechnungsausgangsbuch für monatliche und einmalige Verträge</p>
+        </div>
+        <Button onClick={() => setShowRunDialog(true)} className="w-full sm:w-auto bg-brand-primary hover:bg-brand-primary/90">
+          <Plus className="h-4 w-4 mr-2" />
+          Monatsrechnungen erstellen
+        </Button>
+      </div>
+
+      {/* Totals */}
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm text-gray-600">Offen</p>
+            <p className="text-2xl font-semibold text-gray-900">{formatAmount(totals.open)}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm text-gray-600">Überfällig</p>
+            <p className="text-2xl font-semibold text-red-600">{formatAmount(totals.overdue)}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm text-gray-600">Bezahlt</p>
+            <p className="text-2xl font-semibold text-green-600">{formatAmount(totals.paid)}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="pt-6">
+          <div className="flex flex-col lg:flex-row gap-4">
+            <div className="flex-1">
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+                <Input
+                  placeholder="Suchen nach Rechnungsnummer, Empfänger oder Leistung..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="pl-10"
+                />
+              </div>
+            </div>
+            <div className="flex flex-col sm:flex-row gap-4">
+              <Select value={statusFilter} onValueChange={setStatusFilter}>
+                <SelectTrigger className="w-full sm:w-48">
+                  <SelectValue placeholder="Status" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Alle Status</SelectItem>
+                  <SelectItem value="open">Offen</SelectItem>
+                  <SelectItem value="overdue">Überfällig</SelectItem>
+                  <SelectItem value="paid">Bezahlt</SelectItem>
+                  <SelectItem value="cancelled">Storniert</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select value={yearFilter} onValueChange={setYearFilter}>
+                <SelectTrigger className="w-full sm:w-32">
+                  <SelectValue placeholder="Jahr" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Alle Jahre</SelectItem>
+                  {years.map(year => (
+                    <SelectItem key={year} value={String(year)}>{year}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Ledger */}
+      <Card>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-gray-50">
+                <TableHead>Nr.</TableHead>
+                <TableHead>Empfänger</TableHead>
+                <TableHead>Leistung</TableHead>
+                <TableHead>Datum</TableHead>
+                <TableHead>Fällig</TableHead>
+                <TableHead className="text-right">Betrag</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="w-12"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filteredInvoices.map(invoice => {
+                const status = getInvoiceStatus(invoice);
+                return (
+                  <TableRow key={invoice.id} className={status === 'cancelled' ? 'opacity-60' : ''}>
+                    <TableCell className="font-medium whitespace-nowrap">{invoice.invoice_number}</TableCell>
+                    <TableCell>{invoice.recipient_name}</TableCell>
+                    <TableCell className="text-sm text-gray-600">{invoice.description}</TableCell>
+                    <TableCell className="whitespace-nowrap">{fmtDate(invoice.issue_date)}</TableCell>
+                    <TableCell className="whitespace-nowrap">{fmtDate(invoice.due_date)}</TableCell>
+                    <TableCell className="text-right whitespace-nowrap">{formatAmount(invoice.amount)}</TableCell>
+                    <TableCell>
+                      <Badge className={`${getInvoiceStatusColor(status)} hover:${getInvoiceStatusColor(status)}`}>
+                        {getInvoiceStatusDisplay(status)}
+                      </Badge>
+                      {status === 'paid' && invoice.paid_at && (
+                        <p className="text-xs text-gray-500 mt-1">am {fmtDate(invoice.paid_at)}</p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="sm">
+                            <MoreHorizontal className="h-4 w-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuItem onClick={() => handleDownloadPDF(invoice)}>
+                            <Download className="h-4 w-4 mr-2" />
+                            Als PDF herunterladen
+                          </DropdownMenuItem>
+                          {invoice.status === 'open' && (
+                            <DropdownMenuItem onClick={() => handleMarkPaid(invoice)}>
+                              <CheckCircle className="h-4 w-4 mr-2" />
+                              Als bezahlt markieren
+                            </DropdownMenuItem>
+                          )}
+                          {invoice.status !== 'cancelled' && (
+                            <DropdownMenuItem onClick={() => handleCancel(invoice)} className="text-red-600">
+                              <XCircle className="h-4 w-4 mr-2" />
+                              Stornieren
+                            </DropdownMenuItem>
+                          )}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+
+          {filteredInvoices.length === 0 && (
+            <div className="text-center py-12">
+              <Receipt className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+              <p className="text-gray-500">Keine Rechnungen gefunden.</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Monthly run */}
+      <Dialog open={showRunDialog} onOpenChange={setShowRunDialog}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Monatsrechnungen erstellen</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Erstellt für jeden aktiven Monatsvertrag, der im gewählten Monat fällig ist, eine Rechnung.
+              Bereits abgerechnete Verträge werden übersprungen.
+            </p>
+            <div className="flex items-center gap-4">
+              <Label className="w-24">Monat</Label>
+              <Input type="month" value={runMonth} onChange={(e) => setRunMonth(e.target.value)} className="max-w-[220px]" />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setShowRunDialog(false)}
+              className="bg-brand-gray hover:bg-brand-gray/80 text-gray-700 border-brand-gray focus:ring-brand-primary"
+            >
+              Abbrechen
+            </Button>
+            <Button
+              onClick={handleMonthlyRun}
+              disabled={running || !runMonth}
+              className="bg-brand-primary hover:bg-brand-primary/90 focus:ring-brand-primary"
+            >
+              {running ? 'Erstelle...' : 'Rechnungen erstellen'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
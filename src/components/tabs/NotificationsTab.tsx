@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react';
 import { supabase, Notification, Contract, Student, Teacher, markNotificationAsRead, deleteNotification, generateContractPDF, PDFContractData } from '@/lib/supabase';
 import { useAuth } from '@/hooks/useAuth';
 import { useIsMobile } from '@/hooks/useIsMobile';
+import { useRealtimeChanges } from '@/hooks/useRealtimeChanges';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -14,6 +15,32 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/u
 import { format } from 'date-fns';
 import { de } from 'date-fns/locale';
 import { toast } from 'sonner';
+import { buildRenewalDraft } from '@/lib/renewals/contractRenewals';
+import { NotificationEmailPreference } from '@/components/NotificationEmailPreference';
+import { NotificationPushPreference } from '@/components/NotificationPushPreference';
+import { getChangedId, removeRow, upsertRow } from '@/lib/realtime/mergeRows';
+
+const NOTIFICATION_SELECT = `
+  *,
+  contract:contracts(
+    *,
+    student:students!fk_contracts_student_id(
+      id, name, instrument
+    ),
+    teacher:teachers!contracts_teacher_id_fkey(id, name, bank_id),
+    contract_variant:contract_variants(
+      id, name, duration_months, group_type, session_length_minutes, total_lessons, monthly_price, one_time_price,
+      contract_category:contract_categories(id, name, display_name)
+    ),
+    lessons:lessons(id, lesson_number, date, is_available, comment)
+  ),
+  trial_appointment:trial_appointments(
+    *,
+    teacher:teachers(id, name, instrument),
+    created_by_profile:profiles!trial_appointments_created_by_fkey(id, full_name)
+  ),
+  student:students(id, name, instrument)
+`;
 
 export function NotificationsTab() {
   const { isAdmin, profile } = useAuth();
@@ -39,27 +66,7 @@ export function NotificationsTab() {
     try {
       const { data, error } = await supabase
         .from('notifications')
-        .select(`
-          *,
-          contract:contracts(
-            *,
-            student:students!fk_contracts_student_id(
-              id, name, instrument
-            ),
-            teacher:teachers!contracts_teacher_id_fkey(id, name, bank_id),
-            contract_variant:contract_variants(
-              id, name, duration_months, group_type, session_length_minutes, total_lessons, monthly_price, one_time_price,
-              contract_category:contract_categories(id, name, display_name)
-            ),
-            lessons:lessons(id, lesson_number, date, is_available, comment)
-          ),
-          trial_appointment:trial_appointments(
-            *,
-            teacher:teachers(id, name, instrument),
-            created_by_profile:profiles!trial_appointments_created_by_fkey(id, full_name)
-          ),
-          student:students(id, name, instrument)
-        `)
+        .select(NOTIFICATION_SELECT)
         .order('created_at', { ascending: false });
 
       if (error) {
@@ -76,6 +83,30 @@ export function NotificationsTab() {
     }
   };
 
+  // Live updates: notifications created or read by other sessions
+  useRealtimeChanges('notifications', async payload => {
+    const id = getChangedId(payload);
+    if (!id) return;
+
+    if (payload.eventType === 'DELETE') {
+      setNotifications(prev => removeRow(prev, id));
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('notifications')
+      .select(NOTIFICATION_SELECT)
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error refreshing notification:', error);
+      return;
+    }
+
+    setNotifications(prev => data ? upsertRow(prev, data as Notification) : removeRow(prev, id));
+  }, { enabled: isAdmin || profile?.role === 'teacher' });
+
   const fetchStudents = async () => {
     try {
       const { data, error } = await supabase
@@ -370,6 +401,7 @@ export function NotificationsTab() {
     setSelectedStudentForNewContract(notification.contract.student.id);
     setSelectedContract(notification.contract);
     setShowNewContractForm(true);
+    // The follow-up proposal (teacher, variant, discounts, new term) is prefilled and linked on save
 
     // Mark as read when creating new contract
     if (!notification.is_read) {
@@ -477,7 +509,9 @@ export function NotificationsTab() {
             }
           </p>
         </div>
-        <div className="flex items-center gap-2">
+        <div className="flex flex-wrap items-center gap-2">
+          {profile && <NotificationEmailPreference profileId={profile.id} />}
+          <NotificationPushPreference />
           <Badge variant="outline" className="bg-red-50 text-red-700 border-red-200">
             {unreadNotifications.length} ungelesen
           </Badge>
@@ -913,7 +947,8 @@ export function NotificationsTab() {
             students={students}
             teachers={teachers}
             initialStudentId={selectedStudentForNewContract}
-            initialContract={selectedContract || undefined}
+            initialContract={selectedContract ? buildRenewalDraft(selectedContract) : undefined}
+            previousContractId={selectedContract?.id}
             onSuccess={() => {
               setShowNewContractForm(false);
               setSelectedStudentForNewContract('');
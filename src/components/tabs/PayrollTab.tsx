@@ -0,0 +1,285 @@
+import { useState, useEffect, useMemo, Fragment } from 'react';
+import { supabase, Teacher, TeacherPayRate, generatePayrollPDF } from '@/lib/supabase';
+import { useAuth } from '@/hooks/useAuth';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Wallet, Download, Settings, ChevronDown, ChevronRight, AlertTriangle } from 'lucide-react';
+import { toast } from 'sonner';
+import { format, subMonths } from 'date-fns';
+import { fmtDate } from '@/lib/utils';
+import { PayRatesModal } from '@/components/modals/PayRatesModal';
+import { getPayrollSessions, getPayRates } from '@/lib/actions/payrollActions';
+import {
+  TeacherPayrollStatement,
+  buildPayrollStatements,
+  getGroupTypeLabel,
+  formatMinutesAsHours
+} from '@/lib/payroll/teacherPayroll';
+
+const formatAmount = (amount: number) => `${Number(amount).toFixed(2)}€`;
+
+export function PayrollTab() {
+  const { isAdmin } = useAuth();
+  const [month, setMonth] = useState(format(subMonths(new Date(), 1), 'yyyy-MM'));
+  const [statements, setStatements] = useState<TeacherPayrollStatement[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expandedTeacherId, setExpandedTeacherId] = useState<string | null>(null);
+  const [rates, setRates] = useState<TeacherPayRate[]>([]);
+  const [teachers, setTeachers] = useState<Pick<Teacher, 'id' | 'name'>[]>([]);
+  const [showRatesModal, setShowRatesModal] = useState(false);
+
+  useEffect(() => {
+    if (month) {
+      fetchPayroll(month);
+    }
+  }, [month]);
+
+  useEffect(() => {
+    if (isAdmin) {
+      fetchRatesAndTeachers();
+    }
+  }, [isAdmin]);
+
+  const fetchPayroll = async (selectedMonth: string) => {
+    setLoading(true);
+    try {
+      const sessions = await getPayrollSessions(`${selectedMonth}-01`);
+      const result = buildPayrollStatements(sessions, selectedMonth);
+      setStatements(result);
+      // A single statement (always the case for teachers) is opened right away
+      setExpandedTeacherId(result.length === 1 ? result[0].teacher_id : null);
+    } catch (error) {
+      console.error('Error fetching payroll:', error);
+      toast.error('Fehler beim Laden der Honorarabrechnung', {
+        description: error instanceof Error ? error.message : 'Unbekannter Fehler'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchRatesAndTeachers = async () => {
+    try {
+      const [rateList, { data: teacherList, error }] = await Promise.all([
+        getPayRates(),
+        supabase.from('teachers').select('id, name').order('name')
+      ]);
+
+      if (error) {
+        toast.error('Fehler beim Laden der Lehrer', { description: error.message });
+        return;
+      }
+
+      setRates(rateList);
+      setTeachers(teacherList || []);
+    } catch (error) {
+      console.error('Error fetching pay rates:', error);
+      toast.error('Fehler beim Laden der Honorarsätze');
+    }
+  };
+
+  const totals = useMemo(() => ({
+    sessions: statements.reduce((sum, s) => sum + s.totalSessions, 0),
+    minutes: statements.reduce((sum, s) => sum + s.totalMinutes, 0),
+    amount: statements.reduce((sum, s) => sum + s.totalAmount, 0),
+    missingRates: statements.reduce((sum, s) => sum + s.missingRateSessions, 0),
+  }), [statements]);
+
+  const handleDownloadPDF = async (statement: TeacherPayrollStatement) => {
+    try {
+      await generatePayrollPDF(statement);
+      toast.success('Honorarabrechnung erfolgreich heruntergeladen');
+    } catch (error) {
+      console.error('Error generating payroll PDF:', error);
+      toast.error('Fehler beim Erstellen der Honorarabrechnung', {
+        description: error instanceof Error ? error.message : 'Unbekannter Fehler'
+      });
+    }
+  };
+
+  const handleRatesUpdate = async () => {
+    await fetchRatesAndTeachers();
+    fetchPayroll(month);
+  };
+
+  return (
+    <div className="h-full flex flex-col space-y-8">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Honorare</h1>
+          <p className="text-gray-600 mt-2">
+            {isAdmin ? 'Monatliche Honorarabrechnung aller Lehrkräfte' : 'Ihre monatliche Honorarabrechnung'}
+          </p>
+        </div>
+        <div className="flex flex-col sm:flex-row gap-3 w-full sm:w-auto">
+          <div className="flex items-center gap-3">
+            <Label htmlFor="payroll_month" className="whitespace-nowrap">Monat</Label>
+            <Input
+              id="payroll_month"
+              type="month"
+              value={month}
+              onChange={(e) => setMonth(e.target.value)}
+              className="w-full sm:w-[180px]"
+            />
+          </div>
+          {isAdmin && (
+            <Button variant="outline" onClick={() => setShowRatesModal(true)}>
+              <Settings className="h-4 w-4 mr-2" />
+              Honorarsätze
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Totals */}
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm text-gray-600">Unterrichtseinheiten</p>
+            <p className="text-2xl font-semibold text-gray-900">{totals.sessions}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm text-gray-600">Unterrichtszeit</p>
+            <p className="text-2xl font-semibold text-gray-900">{formatMinutesAsHours(totals.minutes)}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm text-gray-600">Honorar gesamt</p>
+            <p className="text-2xl font-semibold text-green-600">{formatAmount(totals.amount)}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {totals.missingRates > 0 && (
+        <div className="flex items-start gap-2 text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-md p-3">
+          <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          <span>
+            Für {totals.missingRates} Einheit{totals.missingRates !== 1 ? 'en' : ''} ist kein Honorarsatz hinterlegt.
+            Diese werden mit 0,00€ berechnet.
+          </span>
+        </div>
+      )}
+
+      <Card>
+        <CardContent className="p-0">
+          {loading ? (
+            <div className="flex items-center justify-center h-64">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-brand-primary"></div>
+            </div>
+          ) : (
+            <>
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-gray-50">
+                    <TableHead className="w-8"></TableHead>
+                    <TableHead>Lehrkraft</TableHead>
+                    <TableHead className="text-right">Einheiten</TableHead>
+                    <TableHead className="text-right">Zeit</TableHead>
+                    <TableHead className="text-right">Honorar</TableHead>
+                    <TableHead className="w-12"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {statements.map(statement => {
+                    const expanded = expandedTeacherId === statement.teacher_id;
+                    return (
+                      <Fragment key={statement.teacher_id}>
+                        <TableRow
+                          className="cursor-pointer hover:bg-gray-50"
+                          onClick={() => setExpandedTeacherId(expanded ? null : statement.teacher_id)}
+                        >
+                          <TableCell>
+                            {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                          </TableCell>
+                          <TableCell className="font-medium">
+                            {statement.teacher_name}
+                            {statement.missingRateSessions > 0 && (
+                              <Badge className="ml-2 bg-amber-100 text-amber-800 hover:bg-amber-100">Satz fehlt</Badge>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">{statement.totalSessions}</TableCell>
+                          <TableCell className="text-right whitespace-nowrap">{formatMinutesAsHours(statement.totalMinutes)}</TableCell>
+                          <TableCell className="text-right whitespace-nowrap font-medium">{formatAmount(statement.totalAmount)}</TableCell>
+                          <TableCell>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Als PDF herunterladen"
+                              onClick={(e) => { e.stopPropagation(); handleDownloadPDF(statement); }}
+                            >
+                              <Download className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                        {expanded && (
+                          <TableRow className="bg-gray-50/50 hover:bg-gray-50/50">
+                            <TableCell colSpan={6} className="p-4">
+                              <div className="flex flex-wrap gap-2 mb-3">
+                                {statement.lines.map(line => (
+                                  <Badge key={`${line.group_type}-${line.hourly_rate}`} variant="outline" className="text-xs">
+                                    {getGroupTypeLabel(line.group_type)}: {line.sessions} × · {formatMinutesAsHours(line.minutes)} ·{' '}
+                                    {line.hourly_rate == null ? 'kein Satz' : `${formatAmount(line.hourly_rate)}/Std.`} = {formatAmount(line.amount)}
+                                  </Badge>
+                                ))}
+                              </div>
+                              <Table>
+                                <TableHeader>
+                                  <TableRow>
+                                    <TableHead>Datum</TableHead>
+                                    <TableHead>Schüler</TableHead>
+                                    <TableHead>Vertrag</TableHead>
+                                    <TableHead className="text-right">Minuten</TableHead>
+                                    <TableHead className="text-right">Betrag</TableHead>
+                                  </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                  {statement.sessions.map((session, index) => (
+                                    <TableRow key={`${session.session_date}-${index}`}>
+                                      <TableCell className="whitespace-nowrap">{fmtDate(session.session_date)}</TableCell>
+                                      <TableCell className="text-sm">{session.student_names || '-'}</TableCell>
+                                      <TableCell className="text-sm text-gray-600">{session.variant_name || '-'}</TableCell>
+                                      <TableCell className="text-right">{session.minutes}</TableCell>
+                                      <TableCell className="text-right whitespace-nowrap">{formatAmount(session.amount)}</TableCell>
+                                    </TableRow>
+                                  ))}
+                                </TableBody>
+                              </Table>
+                            </TableCell>
+                          </TableRow>
+                        )}
+                      </Fragment>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+
+              {statements.length === 0 && (
+                <div className="text-center py-12">
+                  <Wallet className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+                  <p className="text-gray-500">Keine erteilten Unterrichtseinheiten in diesem Monat.</p>
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {isAdmin && (
+        <PayRatesModal
+          open={showRatesModal}
+          rates={rates}
+          teachers={teachers}
+          onClose={() => setShowRatesModal(false)}
+          onUpdate={handleRatesUpdate}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,284 @@
+import { useState, useEffect } from 'react';
+import { supabase, Contract, ContractRenewal, Student, Teacher } from '@/lib/supabase';
+import { useAuth } from '@/hooks/useAuth';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { RefreshCw, Check, Edit, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { fmtDate } from '@/lib/utils';
+import { ContractForm } from '@/components/forms/ContractForm';
+import { buildRenewalDraft, getDaysUntilDue, getRenewalReasonLabel, getRenewalTerm } from '@/lib/renewals/contractRenewals';
+import {
+  proposeContractRenewals,
+  getContractRenewals,
+  approveContractRenewals,
+  dismissContractRenewal
+} from '@/lib/actions/renewalActions';
+
+const formatPrice = (price?: number | null) => (price != null ? `${Number(price).toFixed(2)}€` : '-');
+
+export function RenewalsTab() {
+  const { isAdmin } = useAuth();
+  const [renewals, setRenewals] = useState<ContractRenewal[]>([]);
+  const [students, setStudents] = useState<Student[]>([]);
+  const [teachers, setTeachers] = useState<Teacher[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [approving, setApproving] = useState(false);
+  const [editingRenewal, setEditingRenewal] = useState<ContractRenewal | null>(null);
+
+  useEffect(() => {
+    if (isAdmin) {
+      fetchRenewals();
+    }
+  }, [isAdmin]);
+
+  const fetchRenewals = async () => {
+    try {
+      // Proposals for expiring contracts are created on demand
+      await proposeContractRenewals();
+
+      const [renewalData, studentsResult, teachersResult] = await Promise.all([
+        getContractRenewals(),
+        supabase.from('students').select('*').order('name'),
+        supabase.from('teachers').select('*').order('name'),
+      ]);
+
+      setRenewals(renewalData);
+      setStudents(studentsResult.data || []);
+      setTeachers(teachersResult.data || []);
+      setSelectedIds(prev => new Set(renewalData.filter(r => prev.has(r.id)).map(r => r.id)));
+    } catch (error) {
+      console.error('Error fetching renewals:', error);
+      toast.error('Fehler beim Laden der Verlängerungen', {
+        description: error instanceof Error ? error.message : 'Unbekannter Fehler'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const allSelected = renewals.length > 0 && selectedIds.size === renewals.length;
+
+  const toggleRenewal = (renewalId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(renewalId)) {
+        next.delete(renewalId);
+      } else {
+        next.add(renewalId);
+      }
+      return next;
+    });
+  };
+
+  const handleApprove = async (renewalIds: string[]) => {
+    if (renewalIds.length === 0) return;
+    if (renewalIds.length > 1 && !window.confirm(`${renewalIds.length} Folgeverträge anlegen?`)) {
+      return;
+    }
+
+    setApproving(true);
+    try {
+      const results = await approveContractRenewals(renewalIds);
+      const failed = results.filter(r => r.error);
+      const created = results.length - failed.length;
+
+      if (created > 0) {
+        toast.success(created === 1 ? 'Folgevertrag angelegt' : `${created} Folgeverträge angelegt`);
+      }
+      if (failed.length > 0) {
+        toast.error(`${failed.length} Verlängerungen fehlgeschlagen`, {
+          description: failed.map(r => r.error).join(' · ')
+        });
+      }
+      fetchRenewals();
+    } catch (error) {
+      console.error('Error approving renewals:', error);
+      toast.error('Fehler beim Anlegen der Folgeverträge', {
+        description: error instanceof Error ? error.message : 'Unbekannter Fehler'
+      });
+    } finally {
+      setApproving(false);
+    }
+  };
+
+  const handleDismiss = async (renewal: ContractRenewal) => {
+    try {
+      await dismissContractRenewal(renewal.id);
+      toast.success('Vorschlag verworfen');
+      fetchRenewals();
+    } catch (error) {
+      console.error('Error dismissing renewal:', error);
+      toast.error('Fehler beim Verwerfen des Vorschlags', {
+        description: error instanceof Error ? error.message : 'Unbekannter Fehler'
+      });
+    }
+  };
+
+  // Draft for the contract form: the proposed variant replaces the old one
+  const getEditDraft = (renewal: ContractRenewal): Contract | undefined => {
+    if (!renewal.contract) return undefined;
+    const draft = buildRenewalDraft(renewal.contract);
+    return renewal.proposed_variant_id
+      ? { ...draft, contract_variant_id: renewal.proposed_variant_id }
+      : draft;
+  };
+
+  if (!isAdmin) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <RefreshCw className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+          <p className="text-gray-500">Nur Administratoren können Verträge verlängern.</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-brand-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full flex flex-col space-y-8">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Verlängerungen</h1>
+          <p className="text-gray-600 mt-2">Vorgeschlagene Folgeverträge für erfüllte und auslaufende Verträge</p>
+        </div>
+        <Button
+          onClick={() => handleApprove(Array.from(selectedIds))}
+          disabled={approving || selectedIds.size === 0}
+          className="bg-brand-primary hover:bg-brand-primary/90 focus:ring-brand-primary"
+        >
+          <Check className="h-4 w-4 mr-2" />
+          {approving ? 'Lege an...' : `Ausgewählte verlängern (${selectedIds.size})`}
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[40px]">
+                  <Checkbox
+                    checked={allSelected}
+                    onCheckedChange={() => setSelectedIds(allSelected ? new Set() : new Set(renewals.map(r => r.id)))}
+                  />
+                </TableHead>
+                <TableHead>Schüler</TableHead>
+                <TableHead>Lehrer</TableHead>
+                <TableHead>Anlass</TableHead>
+                <TableHead>Bisher</TableHead>
+                <TableHead>Folgevertrag</TableHead>
+                <TableHead>Laufzeit</TableHead>
+                <TableHead className="text-right">Aktionen</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {renewals.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center text-gray-500 py-8">
+                    Keine offenen Verlängerungen
+                  </TableCell>
+                </TableRow>
+              ) : renewals.map(renewal => {
+                const contract = renewal.contract;
+                const days = getDaysUntilDue(renewal);
+                const term = contract ? getRenewalTerm(contract, renewal.proposed_variant || contract.contract_variant) : null;
+                const variantChanged = renewal.proposed_variant_id && renewal.proposed_variant_id !== contract?.contract_variant_id;
+
+                return (
+                  <TableRow key={renewal.id}>
+                    <TableCell>
+                      <Checkbox checked={selectedIds.has(renewal.id)} onCheckedChange={() => toggleRenewal(renewal.id)} />
+                    </TableCell>
+                    <TableCell className="font-medium">{contract?.student?.name || 'Unbekannt'}</TableCell>
+                    <TableCell>{contract?.teacher?.name || '-'}</TableCell>
+                    <TableCell>
+                      <Badge
+                        variant="outline"
+                        className={
+                          renewal.reason === 'fulfilled'
+                            ? 'border-green-200 text-green-700'
+                            : days !== null && days <= 14
+                              ? 'border-red-200 text-red-700'
+                              : 'border-amber-200 text-amber-700'
+                        }
+                      >
+                        {getRenewalReasonLabel(renewal)}
+                      </Badge>
+                      {renewal.reason === 'expiring' && renewal.due_date && (
+                        <div className="text-xs text-gray-500 mt-1">Ende {fmtDate(renewal.due_date)}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      <div>{contract?.contract_variant?.name || '-'}</div>
+                      <div className="text-gray-500">{formatPrice(contract?.final_price)}</div>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      <div>{renewal.proposed_variant?.name || contract?.contract_variant?.name || '-'}</div>
+                      {variantChanged && (
+                        <div className="text-xs text-amber-700">
+                          Preisversion {renewal.proposed_variant?.price_version ?? '-'}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {term ? `${fmtDate(term.term_start)}${term.term_end ? ` – ${fmtDate(term.term_end)}` : ''}` : '-'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        <Button variant="ghost" size="sm" onClick={() => handleApprove([renewal.id])} disabled={approving} title="Verlängern">
+                          <Check className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => setEditingRenewal(renewal)} title="Anpassen">
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => handleDismiss(renewal)} title="Verwerfen">
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!editingRenewal} onOpenChange={() => setEditingRenewal(null)}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Folgevertrag anpassen</DialogTitle>
+          </DialogHeader>
+          {editingRenewal?.contract && (
+            <ContractForm
+              students={students}
+              teachers={teachers}
+              initialStudentId={editingRenewal.contract.student_id}
+              initialContract={getEditDraft(editingRenewal)}
+              previousContractId={editingRenewal.contract_id}
+              onSuccess={() => {
+                setEditingRenewal(null);
+                fetchRenewals();
+              }}
+              onCancel={() => setEditingRenewal(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
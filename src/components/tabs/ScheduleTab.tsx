@@ -0,0 +1,484 @@
+import { useState, useEffect, useMemo } from 'react';
+import { supabase, Contract, Teacher, Room } from '@/lib/supabase';
+import { useAuth } from '@/hooks/useAuth';
+import { useIsMobile } from '@/hooks/useIsMobile';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, Bell, CalendarDays, CalendarOff, CalendarPlus, DoorOpen } from 'lucide-react';
+import { RoomsModal } from '@/components/modals/RoomsModal';
+import { LessonMessageSettingsModal } from '@/components/modals/LessonMessageSettingsModal';
+import { SchoolCalendarModal } from '@/components/modals/SchoolCalendarModal';
+import { TeacherCalendarFeedModal } from '@/components/modals/TeacherCalendarFeedModal';
+import { LessonTrackerModal } from '@/components/modals/LessonTrackerModal';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import {
+  WEEKDAYS,
+  ScheduleSlot,
+  toScheduleSlots,
+  findConflictingContractIds,
+  minutesToTime,
+} from '@/lib/schedule/weeklySchedule';
+
+// Visible grid range and scale
+const DAY_START_MINUTES = 8 * 60;
+const DAY_END_MINUTES = 21 * 60;
+const PIXELS_PER_MINUTE = 1.2;
+
+type ViewMode = 'teacher' | 'room';
+
+type PositionedSlot = ScheduleSlot & { lane: number; laneCount: number };
+
+// Places overlapping slots of one day side by side
+function layoutDay(slots: ScheduleSlot[]): PositionedSlot[] {
+  const sorted = [...slots].sort((a, b) => a.startMinutes - b.startMinutes);
+  const result: PositionedSlot[] = [];
+  let cluster: PositionedSlot[] = [];
+  let clusterEnd = -1;
+  let laneEnds: number[] = [];
+
+  const flush = () => {
+    cluster.forEach(s => { s.laneCount = laneEnds.length; });
+    result.push(...cluster);
+    cluster = [];
+    laneEnds = [];
+  };
+
+  sorted.forEach(slot => {
+    if (slot.startMinutes >= clusterEnd) flush();
+    let lane = laneEnds.findIndex(end => end <= slot.startMinutes);
+    if (lane === -1) {
+      lane = laneEnds.length;
+      laneEnds.push(0);
+    }
+    laneEnds[lane] = slot.startMinutes + slot.durationMinutes;
+    clusterEnd = Math.max(clusterEnd, slot.startMinutes + slot.durationMinutes);
+    cluster.push({ ...slot, lane, laneCount: 1 });
+  });
+  flush();
+
+  return result;
+}
+
+export function ScheduleTab() {
+  const { profile, isAdmin } = useAuth();
+  const isMobile = useIsMobile();
+  const [contracts, setContracts] = useState<Contract[]>([]);
+  const [teachers, setTeachers] = useState<Teacher[]>([]);
+  const [rooms, setRooms] = useState<Room[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [viewMode, setViewMode] = useState<ViewMode>('teacher');
+  const [selectedId, setSelectedId] = useState<string>('');
+  const [showRoomsModal, setShowRoomsModal] = useState(false);
+  const [showMessageSettings, setShowMessageSettings] = useState(false);
+  const [showSchoolCalendar, setShowSchoolCalendar] = useState(false);
+  const [showCalendarFeed, setShowCalendarFeed] = useState(false);
+  const [trackingContract, setTrackingContract] = useState<Contract | null>(null);
+
+  // Memoize current teacher lookup
+  const currentTeacher = useMemo(() =>
+    profile?.id ? teachers.find(t => t.profile_id === profile.id) : undefined,
+    [profile, teachers]
+  );
+
+  useEffect(() => {
+    const initializeData = async () => {
+      setLoading(true);
+      await Promise.all([fetchTeachers(), fetchRooms(), fetchContracts()]);
+      setLoading(false);
+    };
+    initializeData();
+  }, []);
+
+  // Teachers always start on their own timetable
+  useEffect(() => {
+    if (!selectedId && viewMode === 'teacher' && currentTeacher) {
+      setSelectedId(currentTeacher.id);
+    }
+  }, [currentTeacher, viewMode, selectedId]);
+
+  const fetchContracts = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('contracts')
+        .select(`
+          *,
+          student:students!fk_contracts_student_id(id, name, instrument, status),
+          teacher:teachers!contracts_teacher_id_fkey(id, name),
+          contract_variant:contract_variants(
+            id, name, group_type, session_length_minutes, total_lessons,
+            contract_category:contract_categories(id, name, display_name)
+          ),
+          room:rooms(id, name)
+        `)
+        .eq('status', 'active')
+        .not('schedule_weekday', 'is', null);
+
+      if (error) {
+        toast.error('Fehler beim Laden des Stundenplans', { description: error.message });
+        return;
+      }
+
+      setContracts(data || []);
+    } catch (error) {
+      console.error('Error fetching schedule:', error);
+      toast.error('Fehler beim Laden des Stundenplans');
+    }
+  };
+
+  const fetchTeachers = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('teachers')
+        .select('*')
+        .order('name');
+
+      if (error) {
+        toast.error('Fehler beim Laden der Lehrer', { description: error.message });
+        return;
+      }
+
+      setTeachers(data || []);
+    } catch (error) {
+      console.error('Error fetching teachers:', error);
+    }
+  };
+
+  const fetchRooms = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('rooms')
+        .select('*')
+        .order('name');
+
+      if (error) {
+        toast.error('Fehler beim Laden der Räume', { description: error.message });
+        return;
+      }
+
+      setRooms(data || []);
+    } catch (error) {
+      console.error('Error fetching rooms:', error);
+    }
+  };
+
+  const allSlots = useMemo(() => toScheduleSlots(contracts), [contracts]);
+  const conflictIds = useMemo(() => findConflictingContractIds(allSlots), [allSlots]);
+
+  const visibleSlots = useMemo(() => {
+    if (!selectedId) return [];
+    return allSlots.filter(slot =>
+      viewMode === 'teacher' ? slot.contract.teacher_id === selectedId : slot.contract.room_id === selectedId
+    );
+  }, [allSlots, viewMode, selectedId]);
+
+  // Saturday is always shown, Sunday only when something is booked
+  const visibleDays = useMemo(() => {
+    const hasSunday = visibleSlots.some(slot => slot.weekday === 7);
+    return WEEKDAYS.filter(day => day.value !== 7 || hasSunday);
+  }, [visibleSlots]);
+
+  const selectableTeachers = isAdmin ? teachers : teachers.filter(t => t.id === currentTeacher?.id);
+  // Calendar feed of the own teacher record, for admins of the selected teacher
+  const calendarTeacher = isAdmin
+    ? (viewMode === 'teacher' ? teachers.find(t => t.id === selectedId) : undefined)
+    : currentTeacher;
+  const visibleConflicts = visibleSlots.filter(slot => conflictIds.has(slot.contract.id));
+
+  const handleViewModeChange = (mode: ViewMode) => {
+    setViewMode(mode);
+    setSelectedId(mode === 'teacher' && !isAdmin && currentTeacher ? currentTeacher.id : '');
+  };
+
+  const getSlotLabel = (slot: ScheduleSlot) => {
+    const secondary = viewMode === 'teacher' ? slot.contract.room?.name : slot.contract.teacher?.name;
+    return [slot.contract.student?.name || 'Unbekannt', secondary].filter(Boolean).join(' · ');
+  };
+
+  const getSlotTimeRange = (slot: ScheduleSlot) =>
+    `${minutesToTime(slot.startMinutes)}–${minutesToTime(slot.startMinutes + slot.durationMinutes)}`;
+
+  const renderGrid = () => {
+    const hours: number[] = [];
+    for (let m = DAY_START_MINUTES; m < DAY_END_MINUTES; m += 60) hours.push(m);
+    const gridHeight = (DAY_END_MINUTES - DAY_START_MINUTES) * PIXELS_PER_MINUTE;
+
+    return (
+      <div className="overflow-x-auto">
+        <div className="flex min-w-[800px]">
+          {/* Time axis */}
+          <div className="w-14 flex-shrink-0">
+            <div className="h-10" />
+            <div className="relative" style={{ height: gridHeight }}>
+              {hours.map(m => (
+                <div
+                  key={m}
+                  className="absolute right-2 text-xs text-gray-500 -translate-y-2"
+                  style={{ top: (m - DAY_START_MINUTES) * PIXELS_PER_MINUTE }}
+                >
+                  {minutesToTime(m)}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {visibleDays.map(day => {
+            const daySlots = layoutDay(visibleSlots.filter(slot => slot.weekday === day.value));
+            return (
+              <div key={day.value} className="flex-1 min-w-[110px] border-l border-gray-200">
+                <div className="h-10 flex items-center justify-center text-sm font-medium text-gray-700 border-b border-gray-200">
+                  {day.label}
+                </div>
+                <div className="relative" style={{ height: gridHeight }}>
+                  {hours.map(m => (
+                    <div
+                      key={m}
+                      className="absolute left-0 right-0 border-t border-gray-100"
+                      style={{ top: (m - DAY_START_MINUTES) * PIXELS_PER_MINUTE }}
+                    />
+                  ))}
+                  {daySlots.map(slot => {
+                    const hasConflict = conflictIds.has(slot.contract.id);
+                    const top = Math.max(0, slot.startMinutes - DAY_START_MINUTES) * PIXELS_PER_MINUTE;
+                    return (
+                      <button
+                        key={slot.contract.id}
+                        type="button"
+                        onClick={() => setTrackingContract(slot.contract)}
+                        title={`${getSlotTimeRange(slot)} ${getSlotLabel(slot)}${hasConflict ? ' – Terminkonflikt' : ''}`}
+                        className={cn(
+                          'absolute rounded-md border px-1.5 py-1 text-left text-xs overflow-hidden transition-colors',
+                          hasConflict
+                            ? 'bg-red-50 border-red-300 text-red-800 hover:bg-red-100'
+                            : 'bg-brand-primary/10 border-brand-primary/30 text-gray-800 hover:bg-brand-primary/20'
+                        )}
+                        style={{
+                          top,
+                          height: slot.durationMinutes * PIXELS_PER_MINUTE - 2,
+                          left: `calc(${(slot.lane / slot.laneCount) * 100}% + 2px)`,
+                          width: `calc(${100 / slot.laneCount}% - 4px)`,
+                        }}
+                      >
+                        <div className="font-medium flex items-center gap-1">
+                          {hasConflict && <AlertTriangle className="h-3 w-3 flex-shrink-0" />}
+                          {getSlotTimeRange(slot)}
+                        </div>
+                        <div className="truncate">{getSlotLabel(slot)}</div>
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    );
+  };
+
+  const renderList = () => (
+    <div className="space-y-4">
+      {visibleDays.map(day => {
+        const daySlots = visibleSlots
+          .filter(slot => slot.weekday === day.value)
+          .sort((a, b) => a.startMinutes - b.startMinutes);
+        if (daySlots.length === 0) return null;
+        return (
+          <div key={day.value}>
+            <h3 className="text-sm font-semibold text-gray-700 mb-2">{day.label}</h3>
+            <div className="space-y-2">
+              {daySlots.map(slot => {
+                const hasConflict = conflictIds.has(slot.contract.id);
+                return (
+                  <button
+                    key={slot.contract.id}
+                    type="button"
+                    onClick={() => setTrackingContract(slot.contract)}
+                    className={cn(
+                      'w-full flex items-center justify-between rounded-lg border p-3 text-left text-sm',
+                      hasConflict ? 'bg-red-50 border-red-300' : 'bg-white border-gray-200'
+                    )}
+                  >
+                    <span className="font-medium">{getSlotTimeRange(slot)}</span>
+                    <span className="truncate ml-3 flex items-center gap-1">
+                      {hasConflict && <AlertTriangle className="h-3 w-3 text-red-600" />}
+                      {getSlotLabel(slot)}
+                    </span>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-brand-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full flex flex-col space-y-8">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Stundenplan</h1>
+          <p className="text-gray-600 mt-2">Wöchentliche Unterrichtstermine nach Lehrer und Raum</p>
+        </div>
+        <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
+          {calendarTeacher && (
+            <Button
+              variant="outline"
+              onClick={() => setShowCalendarFeed(true)}
+              className="w-full sm:w-auto"
+            >
+              <CalendarPlus className="h-4 w-4 mr-2" />
+              Kalender-Abo
+            </Button>
+          )}
+          {isAdmin && (
+            <>
+              <Button
+                variant="outline"
+                onClick={() => setShowSchoolCalendar(true)}
+                className="w-full sm:w-auto"
+              >
+                <CalendarOff className="h-4 w-4 mr-2" />
+                Ferienkalender
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => setShowMessageSettings(true)}
+                className="w-full sm:w-auto"
+              >
+                <Bell className="h-4 w-4 mr-2" />
+                Erinnerungen
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => setShowRoomsModal(true)}
+                className="w-full sm:w-auto"
+              >
+                <DoorOpen className="h-4 w-4 mr-2" />
+                Räume verwalten
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="pt-6">
+          <div className="flex flex-col sm:flex-row gap-4">
+            <Select value={viewMode} onValueChange={(value) => handleViewModeChange(value as ViewMode)}>
+              <SelectTrigger className="w-full sm:w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="teacher">Nach Lehrer</SelectItem>
+                <SelectItem value="room">Nach Raum</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={selectedId} onValueChange={setSelectedId}>
+              <SelectTrigger className="w-full sm:w-64">
+                <SelectValue placeholder={viewMode === 'teacher' ? 'Lehrer auswählen' : 'Raum auswählen'} />
+              </SelectTrigger>
+              <SelectContent>
+                {viewMode === 'teacher'
+                  ? selectableTeachers.map(teacher => (
+                      <SelectItem key={teacher.id} value={teacher.id}>{teacher.name}</SelectItem>
+                    ))
+                  : rooms.map(room => (
+                      <SelectItem key={room.id} value={room.id}>{room.name}</SelectItem>
+                    ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      {visibleConflicts.length > 0 && (
+        <Card className="border-red-200">
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2 text-red-700">
+              <AlertTriangle className="h-5 w-5" />
+              Terminkonflikte
+              <Badge variant="destructive">{visibleConflicts.length}</Badge>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-sm text-gray-600">
+              Diese Termine überschneiden sich mit einem anderen Vertrag desselben Lehrers oder im selben Raum.
+              Öffnen Sie den Vertrag unter „Verträge“, um den Termin zu ändern.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardContent className="pt-6">
+          {!selectedId ? (
+            <div className="text-center py-12">
+              <CalendarDays className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+              <p className="text-gray-500">
+                {viewMode === 'teacher' ? 'Bitte wählen Sie einen Lehrer aus.' : 'Bitte wählen Sie einen Raum aus.'}
+              </p>
+            </div>
+          ) : visibleSlots.length === 0 ? (
+            <div className="text-center py-12">
+              <CalendarDays className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+              <p className="text-gray-500">Keine festen Termine eingeplant.</p>
+            </div>
+          ) : isMobile ? renderList() : renderGrid()}
+        </CardContent>
+      </Card>
+
+      {isAdmin && (
+        <RoomsModal
+          open={showRoomsModal}
+          rooms={rooms}
+          onClose={() => setShowRoomsModal(false)}
+          onUpdate={fetchRooms}
+        />
+      )}
+
+      {isAdmin && (
+        <SchoolCalendarModal
+          open={showSchoolCalendar}
+          onClose={() => setShowSchoolCalendar(false)}
+        />
+      )}
+
+      {calendarTeacher && (
+        <TeacherCalendarFeedModal
+          open={showCalendarFeed}
+          teacher={calendarTeacher}
+          onClose={() => setShowCalendarFeed(false)}
+        />
+      )}
+
+      {isAdmin && (
+        <LessonMessageSettingsModal
+          open={showMessageSettings}
+          onClose={() => setShowMessageSettings(false)}
+        />
+      )}
+
+      {trackingContract && (
+        <LessonTrackerModal
+          contract={trackingContract}
+          open={!!trackingContract}
+          onClose={() => setTrackingContract(null)}
+          onUpdate={fetchContracts}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,12 @@
 import React from 'react';
+import { Link } from 'react-router-dom';
 import { Badge } from '@/components/ui/badge';
 import { Info } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
 import { useIsMobile } from '@/hooks/useIsMobile';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { toast } from 'sonner';
+import { formatContractPartner } from '@/lib/students/guardians';
 
 interface StudentCardViewProps {
   students: any[];
@@ -47,7 +49,9 @@ export const StudentCardView: React.FC<StudentCardViewProps> = ({ students, noOu
             className="w-full bg-white rounded-lg shadow-md border border-gray-100 p-4 flex flex-col"
           >
             <div className="flex items-center justify-between mb-2">
-              <div className="text-lg font-semibold truncate">{student.name}</div>
+              <Link to={`/students/${student.id}`} className="text-lg font-semibold truncate hover:text-brand-primary">
+                {student.name}
+              </Link>
               <Badge
                 className={
                   student.status === 'active'
@@ -85,6 +89,12 @@ export const StudentCardView: React.FC<StudentCardViewProps> = ({ students, noOu
                 <span className="font-medium">Telefon:</span>
                 <span className="truncate">{student.phone || '-'}</span>
               </div>
+              {formatContractPartner(student.guardians) && (
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">Vertragspartner:</span>
+                  <span className="truncate">{formatContractPartner(student.guardians)}</span>
+                </div>
+              )}
               {/* Only show contract information for admins */}
               {profile?.role === 'admin' && (
                 <div className="flex items-center gap-2">
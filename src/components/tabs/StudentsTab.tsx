@@ -1,4 +1,5 @@
 import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
 import { supabase, Student, Teacher } from '@/lib/supabase';
 import { useAuth } from '@/hooks/useAuth';
 import { getStudentForEdit, StudentForEdit } from '@/lib/students/getStudentForEdit';
@@ -19,6 +20,10 @@ import { ContractDetailsModal } from '@/components/modals/ContractDetailsModal';
 import { StudentCardView } from './StudentCardView';
 import { useIsMobile } from '@/hooks/useIsMobile';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { ExportMenu } from '@/components/ExportMenu';
+import { exportRows } from '@/lib/export/exportRows';
+import { studentExportColumns } from '@/lib/export/entityColumns';
+import { formatContractPartner } from '@/lib/students/guardians';
 
 export function StudentsTab() {
   const { profile, isAdmin } = useAuth();
@@ -51,6 +56,7 @@ export function StudentsTab() {
         .from('students')
         .select(`
           *,
+          guardians:student_guardians(id, name, role, phone, email, is_contract_partner, is_invoice_recipient, sort_order),
           contracts:contracts!fk_contracts_student_id(
             id,
             contract_variant_id,
@@ -319,12 +325,21 @@ export function StudentsTab() {
             }
           </p>
         </div>
-        {canAddStudent() && (
-          <Button onClick={() => setShowAddForm(true)} className="w-full sm:w-auto bg-brand-primary hover:bg-brand-primary/90">
-            <Plus className="h-4 w-4 mr-2" />
-            Neuer Schüler
-          </Button>
-        )}
+        <div className="flex gap-3 w-full sm:w-auto">
+          {isAdmin && (
+            <ExportMenu
+              count={filteredStudents.length}
+              onExport={(format) => exportRows(filteredStudents, studentExportColumns, format, 'Schueler')}
+              className="flex-1 sm:flex-none"
+            />
+          )}
+          {canAddStudent() && (
+            <Button onClick={() => setShowAddForm(true)} className="flex-1 sm:flex-none bg-brand-primary hover:bg-brand-primary/90">
+              <Plus className="h-4 w-4 mr-2" />
+              Neuer Schüler
+            </Button>
+          )}
+        </div>
       </div>
 
       {/* Filters */}
@@ -407,7 +422,14 @@ export function StudentsTab() {
               <TableBody>
                 {filteredStudents.map((student) => (
                   <TableRow key={student.id} className="hover:bg-gray-50">
-                    <TableCell className="font-medium">{student.name}</TableCell>
+                    <TableCell className="font-medium">
+                      <Link to={`/students/${student.id}`} className="hover:text-brand-primary hover:underline">
+                        {student.name}
+                      </Link>
+                      {formatContractPartner(student.guardians) && (
+                        <div className="text-xs font-normal text-gray-500">{formatContractPartner(student.guardians)}</div>
+                      )}
+                    </TableCell>
                     <TableCell>{student.instrument}</TableCell>
                     {isAdmin && (
                       <TableCell>
@@ -0,0 +1,482 @@
+import { useState, useEffect, useMemo } from 'react';
+import { ContractCategory, ContractVariant, ContractDiscount } from '@/lib/supabase';
+import { useAuth } from '@/hooks/useAuth';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { Tags, Plus, MoreHorizontal, Edit, Trash2, Power } from 'lucide-react';
+import { toast } from 'sonner';
+import { ContractCategoryForm } from '@/components/forms/ContractCategoryForm';
+import { ContractVariantForm } from '@/components/forms/ContractVariantForm';
+import { ContractDiscountForm } from '@/components/forms/ContractDiscountForm';
+import { PriceVersionRollout } from '@/components/PriceVersionRollout';
+import { getGroupTypeLabel } from '@/lib/payroll/teacherPayroll';
+import {
+  TariffCatalogue,
+  TariffTable,
+  getTariffCatalogue,
+  setTariffActive,
+  deleteTariff,
+  publishPriceVersion
+} from '@/lib/actions/tariffActions';
+
+// Form state: undefined = closed, null = new entry
+type Editing<T> = T | null | undefined;
+
+const ALL_VERSIONS = 'all';
+
+const formatPrice = (variant: ContractVariant) => {
+  if (variant.monthly_price != null) return `${Number(variant.monthly_price).toFixed(2)}€ / Monat`;
+  if (variant.one_time_price != null) return `${Number(variant.one_time_price).toFixed(2)}€ einmalig`;
+  return '-';
+};
+
+const StatusBadge = ({ active }: { active?: boolean }) => (
+  active === false
+    ? <Badge variant="secondary">Inaktiv</Badge>
+    : <Badge className="bg-green-100 text-green-800 hover:bg-green-100">Aktiv</Badge>
+);
+
+export function TariffsTab() {
+  const { isAdmin } = useAuth();
+  const [catalogue, setCatalogue] = useState<TariffCatalogue>({
+    categories: [],
+    variants: [],
+    discounts: [],
+    currentPriceVersion: null
+  });
+  const [loading, setLoading] = useState(true);
+  const [versionFilter, setVersionFilter] = useState<string | null>(null);
+  const [editingCategory, setEditingCategory] = useState<Editing<ContractCategory>>(undefined);
+  const [editingVariant, setEditingVariant] = useState<Editing<ContractVariant>>(undefined);
+  const [editingDiscount, setEditingDiscount] = useState<Editing<ContractDiscount>>(undefined);
+  const [priceChange, setPriceChange] = useState('0');
+  const [publishing, setPublishing] = useState(false);
+
+  useEffect(() => {
+    if (isAdmin) {
+      fetchCatalogue();
+    }
+  }, [isAdmin]);
+
+  const fetchCatalogue = async () => {
+    try {
+      setCatalogue(await getTariffCatalogue());
+    } catch (error) {
+      console.error('Error fetching tariffs:', error);
+      toast.error('Fehler beim Laden der Tarife', {
+        description: error instanceof Error ? error.message : 'Unbekannter Fehler'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const { categories, variants, discounts, currentPriceVersion } = catalogue;
+
+  const versionCounts = useMemo(() => {
+    const counts = new Map<number, number>();
+    variants.forEach(v => {
+      if (v.price_version != null && v.is_active) {
+        counts.set(v.price_version, (counts.get(v.price_version) || 0) + 1);
+      }
+    });
+    return Array.from(counts.entries()).sort((a, b) => b[0] - a[0]);
+  }, [variants]);
+
+  // Until the user picks a version the current one is shown
+  const selectedVersion = versionFilter ?? (currentPriceVersion != null ? String(currentPriceVersion) : ALL_VERSIONS);
+  const visibleVariants = variants.filter(v =>
+    selectedVersion === ALL_VERSIONS || String(v.price_version ?? '') === selectedVersion
+  );
+
+  const categoryName = (id: string) => categories.find(c => c.id === id)?.display_name || 'Unbekannt';
+
+  const handleToggleActive = async (table: TariffTable, id: string, isActive: boolean) => {
+    try {
+      await setTariffActive(table, id, !isActive);
+      toast.success(isActive ? 'Deaktiviert' : 'Aktiviert');
+      fetchCatalogue();
+    } catch (error) {
+      console.error('Error updating tariff status:', error);
+      toast.error('Fehler beim Ändern des Status', {
+        description: error instanceof Error ? error.message : 'Unbekannter Fehler'
+      });
+    }
+  };
+
+  const handleDelete = async (table: TariffTable, id: string, name: string) => {
+    if (!window.confirm(`"${name}" wirklich löschen?`)) {
+      return;
+    }
+
+    try {
+      await deleteTariff(table, id);
+      toast.success('Eintrag gelöscht');
+      fetchCatalogue();
+    } catch (error) {
+      console.error('Error deleting tariff:', error);
+      toast.error('Fehler beim Löschen', {
+        description: error instanceof Error ? error.message : 'Unbekannter Fehler'
+      });
+    }
+  };
+
+  const handlePublish = async () => {
+    const percent = Number(priceChange.replace(',', '.'));
+    if (isNaN(percent) || percent <= -100) {
+      toast.error('Bitte geben Sie eine gültige Preisänderung ein');
+      return;
+    }
+
+    const change = percent === 0 ? 'unveränderten Preisen' : `${percent > 0 ? '+' : ''}${percent}% auf alle Preise`;
+    if (!window.confirm(
+      `Neue Preisversion mit ${change} veröffentlichen? Neue Schüler erhalten ab sofort diese Version, bestehende Schüler behalten ihre bisherige.`
+    )) {
+      return;
+    }
+
+    setPublishing(true);
+    try {
+      const result = await publishPriceVersion(percent);
+      toast.success(`Preisversion ${result.price_version} veröffentlicht`, {
+        description: `${result.variants_copied} Varianten übernommen`
+      });
+      setPriceChange('0');
+      setVersionFilter(String(result.price_version));
+      fetchCatalogue();
+    } catch (error) {
+      console.error('Error publishing price version:', error);
+      toast.error('Fehler beim Veröffentlichen der Preisversion', {
+        description: error instanceof Error ? error.message : 'Unbekannter Fehler'
+      });
+    } finally {
+      setPublishing(false);
+    }
+  };
+
+  const renderActions = (table: TariffTable, id: string, name: string, isActive: boolean, onEdit: () => void) => (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm">
+          <MoreHorizontal className="h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={onEdit}>
+          <Edit className="h-4 w-4 mr-2" />
+          Bearbeiten
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleToggleActive(table, id, isActive)}>
+          <Power className="h-4 w-4 mr-2" />
+          {isActive ? 'Deaktivieren' : 'Aktivieren'}
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleDelete(table, id, name)} className="text-red-600">
+          <Trash2 className="h-4 w-4 mr-2" />
+          Löschen
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+
+  if (!isAdmin) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <Tags className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+          <p className="text-gray-500">Nur Administratoren können Tarife verwalten.</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-brand-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full flex flex-col space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Tarife</h1>
+        <p className="text-gray-600 mt-2">Vertragskategorien, Varianten, Rabatte und Preisversionen</p>
+      </div>
+
+      {/* Price versions */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Preisversion</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {versionCounts.map(([version, count]) => (
+              <Badge
+                key={version}
+                variant={version === currentPriceVersion ? 'default' : 'outline'}
+                className={version === currentPriceVersion ? 'bg-brand-primary hover:bg-brand-primary' : ''}
+              >
+                Version {version}: {count} Varianten{version === currentPriceVersion ? ' (aktuell)' : ''}
+              </Badge>
+            ))}
+          </div>
+          <p className="text-sm text-gray-600">
+            Beim Veröffentlichen werden alle aktiven Varianten der aktuellen Version {currentPriceVersion ?? '-'} in
+            eine neue Version kopiert. Neue Schüler erhalten danach die neue Version; bestehende Schüler und laufende
+            Verträge bleiben unverändert. Einzelne Preise können anschließend in der neuen Version angepasst werden.
+          </p>
+          <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="price_change">Preisänderung (%)</Label>
+              <Input
+                id="price_change"
+                inputMode="decimal"
+                value={priceChange}
+                onChange={(e) => setPriceChange(e.target.value)}
+                className="w-full sm:w-[160px]"
+              />
+            </div>
+            <Button
+              onClick={handlePublish}
+              disabled={publishing || currentPriceVersion == null}
+              className="bg-brand-primary hover:bg-brand-primary/90 focus:ring-brand-primary"
+            >
+              {publishing ? 'Veröffentliche...' : 'Neue Preisversion veröffentlichen'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Tabs defaultValue="variants">
+        <TabsList>
+          <TabsTrigger value="variants">Varianten ({variants.length})</TabsTrigger>
+          <TabsTrigger value="categories">Kategorien ({categories.length})</TabsTrigger>
+          <TabsTrigger value="discounts">Rabatte ({discounts.length})</TabsTrigger>
+          <TabsTrigger value="rollout">Umstellung</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="variants" className="space-y-4">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <Select value={selectedVersion} onValueChange={setVersionFilter}>
+              <SelectTrigger className="w-full sm:w-[220px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_VERSIONS}>Alle Preisversionen</SelectItem>
+                {versionCounts.map(([version]) => (
+                  <SelectItem key={version} value={String(version)}>Preisversion {version}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              onClick={() => setEditingVariant(null)}
+              className="bg-brand-primary hover:bg-brand-primary/90 focus:ring-brand-primary"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Neue Variante
+            </Button>
+          </div>
+          <Card>
+            <CardContent className="p-0">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Kategorie</TableHead>
+                    <TableHead>Unterrichtsform</TableHead>
+                    <TableHead>Laufzeit</TableHead>
+                    <TableHead>Einheit</TableHead>
+                    <TableHead>Stunden</TableHead>
+                    <TableHead>Preis</TableHead>
+                    <TableHead>Version</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="w-[50px]"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleVariants.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={10} className="text-center text-gray-500 py-8">
+                        Keine Varianten gefunden
+                      </TableCell>
+                    </TableRow>
+                  ) : visibleVariants.map(variant => (
+                    <TableRow key={variant.id} className={variant.is_active ? '' : 'opacity-60'}>
+                      <TableCell className="font-medium">{variant.name}</TableCell>
+                      <TableCell>{categoryName(variant.contract_category_id)}</TableCell>
+                      <TableCell>{getGroupTypeLabel(variant.group_type)}</TableCell>
+                      <TableCell>{variant.duration_months ? `${variant.duration_months} Monate` : 'flexibel'}</TableCell>
+                      <TableCell>{variant.session_length_minutes ? `${variant.session_length_minutes} Min.` : 'variiert'}</TableCell>
+                      <TableCell>{variant.total_lessons ?? '-'}</TableCell>
+                      <TableCell>{formatPrice(variant)}</TableCell>
+                      <TableCell>{variant.price_version ?? '-'}</TableCell>
+                      <TableCell><StatusBadge active={variant.is_active} /></TableCell>
+                      <TableCell>
+                        {renderActions('contract_variants', variant.id, variant.name, variant.is_active, () => setEditingVariant(variant))}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="categories" className="space-y-4">
+          <div className="flex justify-end">
+            <Button
+              onClick={() => setEditingCategory(null)}
+              className="bg-brand-primary hover:bg-brand-primary/90 focus:ring-brand-primary"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Neue Kategorie
+            </Button>
+          </div>
+          <Card>
+            <CardContent className="p-0">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Anzeigename</TableHead>
+                    <TableHead>Schlüssel</TableHead>
+                    <TableHead>Beschreibung</TableHead>
+                    <TableHead>Varianten</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="w-[50px]"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {categories.map(category => (
+                    <TableRow key={category.id} className={category.is_active === false ? 'opacity-60' : ''}>
+                      <TableCell className="font-medium">{category.display_name}</TableCell>
+                      <TableCell className="font-mono text-sm">{category.name}</TableCell>
+                      <TableCell className="text-sm text-gray-600">{category.description || '-'}</TableCell>
+                      <TableCell>{variants.filter(v => v.contract_category_id === category.id && v.is_active).length}</TableCell>
+                      <TableCell><StatusBadge active={category.is_active} /></TableCell>
+                      <TableCell>
+                        {renderActions('contract_categories', category.id, category.display_name, category.is_active !== false, () => setEditingCategory(category))}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="discounts" className="space-y-4">
+          <div className="flex justify-end">
+            <Button
+              onClick={() => setEditingDiscount(null)}
+              className="bg-brand-primary hover:bg-brand-primary/90 focus:ring-brand-primary"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Neuer Rabatt
+            </Button>
+          </div>
+          <Card>
+            <CardContent className="p-0">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Rabatt</TableHead>
+                    <TableHead>Bedingungen</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="w-[50px]"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {discounts.map(discount => (
+                    <TableRow key={discount.id} className={discount.is_active ? '' : 'opacity-60'}>
+                      <TableCell className="font-medium">{discount.name}</TableCell>
+                      <TableCell>{discount.discount_percent}%</TableCell>
+                      <TableCell className="text-sm text-gray-600">{discount.conditions || '-'}</TableCell>
+                      <TableCell><StatusBadge active={discount.is_active} /></TableCell>
+                      <TableCell>
+                        {renderActions('contract_discounts', discount.id, discount.name, discount.is_active, () => setEditingDiscount(discount))}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="rollout">
+          <PriceVersionRollout
+            variants={variants}
+            discounts={discounts}
+            currentPriceVersion={currentPriceVersion}
+          />
+        </TabsContent>
+      </Tabs>
+
+      <Dialog open={editingVariant !== undefined} onOpenChange={() => setEditingVariant(undefined)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingVariant ? 'Variante bearbeiten' : 'Neue Variante'}</DialogTitle>
+          </DialogHeader>
+          {editingVariant !== undefined && (
+            <ContractVariantForm
+              variant={editingVariant || undefined}
+              categories={categories}
+              defaultPriceVersion={selectedVersion === ALL_VERSIONS ? currentPriceVersion : Number(selectedVersion)}
+              onSuccess={() => {
+                setEditingVariant(undefined);
+                fetchCatalogue();
+              }}
+              onCancel={() => setEditingVariant(undefined)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={editingCategory !== undefined} onOpenChange={() => setEditingCategory(undefined)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editingCategory ? 'Kategorie bearbeiten' : 'Neue Kategorie'}</DialogTitle>
+          </DialogHeader>
+          {editingCategory !== undefined && (
+            <ContractCategoryForm
+              category={editingCategory || undefined}
+              onSuccess={() => {
+                setEditingCategory(undefined);
+                fetchCatalogue();
+              }}
+              onCancel={() => setEditingCategory(undefined)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={editingDiscount !== undefined} onOpenChange={() => setEditingDiscount(undefined)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editingDiscount ? 'Rabatt bearbeiten' : 'Neuer Rabatt'}</DialogTitle>
+          </DialogHeader>
+          {editingDiscount !== undefined && (
+            <ContractDiscountForm
+              discount={editingDiscount || undefined}
+              onSuccess={() => {
+                setEditingDiscount(undefined);
+                fetchCatalogue();
+              }}
+              onCancel={() => setEditingDiscount(undefined)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
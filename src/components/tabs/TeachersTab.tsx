@@ -16,6 +16,9 @@ import { INSTRUMENTS } from '@/lib/constants';
 import { toast } from 'sonner';
 import { StudentCountTooltip } from '@/components/StudentCountTooltip';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { ExportMenu } from '@/components/ExportMenu';
+import { exportRows } from '@/lib/export/exportRows';
+import { teacherExportColumns } from '@/lib/export/entityColumns';
 
 export function TeachersTab() {
   const { profile, isAdmin } = useAuth();
@@ -188,6 +191,13 @@ export function TeachersTab() {
           <p className="text-gray-600 mt-2">Verwalten Sie Lehrerprofile und Zuweisungen</p>
         </div>
         <div className="flex gap-3 w-full sm:w-auto">
+          {isAdmin && (
+            <ExportMenu
+              count={filteredTeachers.length}
+              onExport={(format) => exportRows(filteredTeachers, teacherExportColumns, format, 'Lehrer')}
+              className="flex-1 sm:flex-none"
+            />
+          )}
           {isAdmin && (
             <Button onClick={() => setShowAddForm(true)} className="flex-1 sm:flex-none bg-brand-primary hover:bg-brand-primary/90">
               <Plus className="h-4 w-4 mr-2" />
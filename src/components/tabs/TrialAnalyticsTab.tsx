@@ -0,0 +1,239 @@
+import { useState, useEffect, useMemo } from 'react';
+import { supabase, Teacher } from '@/lib/supabase';
+import { useAuth } from '@/hooks/useAuth';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent
+} from '@/components/ui/chart';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { BarChart3 } from 'lucide-react';
+import { format, startOfMonth, subMonths } from 'date-fns';
+import { toast } from 'sonner';
+import { getTrialFunnelData } from '@/lib/actions/trialActions';
+import {
+  FunnelTrial,
+  ConversionRow,
+  getFunnelSummary,
+  getConversionByInstrument,
+  getConversionByTeacher,
+  getDeclineReasonCounts,
+  getMonthlyTrend,
+  fmtRate,
+  fmtHours
+} from '@/lib/trials/trialFunnel';
+
+const PERIODS = [3, 6, 12, 24];
+
+const trendConfig = {
+  requests: { label: 'Anfragen', color: 'hsl(var(--chart-3))' },
+  enrolled: { label: 'Verträge', color: '#ed3b71' },
+} satisfies ChartConfig;
+
+const declineConfig = {
+  count: { label: 'Ablehnungen', color: 'hsl(var(--chart-4))' },
+} satisfies ChartConfig;
+
+function ConversionTable({ title, rows }: { title: string; rows: ConversionRow[] }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">{title}</CardTitle>
+      </CardHeader>
+      <CardContent className="p-0">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead></TableHead>
+              <TableHead className="text-right">Anfragen</TableHead>
+              <TableHead className="text-right">Angenommen</TableHead>
+              <TableHead className="text-right">Abgelehnt</TableHead>
+              <TableHead className="text-right">Verträge</TableHead>
+              <TableHead className="text-right">Quote</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-gray-500 py-8">
+                  Keine Probestunden im Zeitraum
+                </TableCell>
+              </TableRow>
+            ) : rows.map(row => (
+              <TableRow key={row.key}>
+                <TableCell className="font-medium">{row.label}</TableCell>
+                <TableCell className="text-right">{row.total}</TableCell>
+                <TableCell className="text-right">{row.accepted}</TableCell>
+                <TableCell className="text-right">{row.declines}</TableCell>
+                <TableCell className="text-right">{row.enrolled}</TableCell>
+                <TableCell className="text-right">{fmtRate(row.conversionRate)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
+
+export function TrialAnalyticsTab() {
+  const { isAdmin } = useAuth();
+  const [months, setMonths] = useState(12);
+  const [trials, setTrials] = useState<FunnelTrial[]>([]);
+  const [teachers, setTeachers] = useState<Teacher[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!isAdmin) return;
+
+    supabase
+      .from('teachers')
+      .select('*')
+      .order('name')
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error fetching teachers:', error);
+          return;
+        }
+        setTeachers(data || []);
+      });
+  }, [isAdmin]);
+
+  useEffect(() => {
+    if (!isAdmin) return;
+
+    const since = format(startOfMonth(subMonths(new Date(), months - 1)), 'yyyy-MM-dd');
+    setLoading(true);
+    getTrialFunnelData(since)
+      .then(setTrials)
+      .catch(error => {
+        console.error('Error loading trial funnel:', error);
+        toast.error('Fehler beim Laden der Auswertung', {
+          description: error instanceof Error ? error.message : 'Unbekannter Fehler'
+        });
+      })
+      .finally(() => setLoading(false));
+  }, [isAdmin, months]);
+
+  const summary = useMemo(() => getFunnelSummary(trials), [trials]);
+  const trend = useMemo(() => getMonthlyTrend(trials, months), [trials, months]);
+  const declineReasons = useMemo(() => getDeclineReasonCounts(trials), [trials]);
+  const byInstrument = useMemo(() => getConversionByInstrument(trials), [trials]);
+  const byTeacher = useMemo(
+    () => getConversionByTeacher(trials, new Map(teachers.map(t => [t.id, t.name]))),
+    [trials, teachers]
+  );
+
+  if (!isAdmin) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <BarChart3 className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+          <p className="text-gray-500">Nur Administratoren können die Auswertung einsehen.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const stages = [
+    { label: 'Anfragen', value: summary.total, hint: null },
+    { label: 'Angenommen', value: summary.accepted, hint: fmtRate(summary.total ? summary.accepted / summary.total : null) },
+    { label: 'Stattgefunden', value: summary.tookPlace, hint: `${summary.noShows} nicht erschienen` },
+    { label: 'Verträge', value: summary.enrolled, hint: `Quote ${fmtRate(summary.conversionRate)}` },
+    { label: 'Zeit bis Zuweisung', value: fmtHours(summary.medianHoursToAssignment), hint: 'Median' },
+  ];
+
+  return (
+    <div className="h-full flex flex-col space-y-8">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Probestunden-Auswertung</h1>
+          <p className="text-gray-600 mt-2">Von der Anfrage bis zum Vertrag, nach Instrument und Lehrer</p>
+        </div>
+        <Select value={String(months)} onValueChange={(value) => setMonths(Number(value))}>
+          <SelectTrigger className="w-full sm:w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PERIODS.map(period => (
+              <SelectItem key={period} value={String(period)}>Letzte {period} Monate</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-brand-primary"></div>
+        </div>
+      ) : (
+        <>
+          <div className="grid gap-4 grid-cols-2 lg:grid-cols-5">
+            {stages.map(stage => (
+              <Card key={stage.label}>
+                <CardContent className="pt-6">
+                  <p className="text-sm text-gray-500">{stage.label}</p>
+                  <p className="text-2xl font-bold text-gray-900">{stage.value}</p>
+                  {stage.hint && <p className="text-xs text-gray-500 mt-1">{stage.hint}</p>}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <div className="grid gap-4 lg:grid-cols-3">
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <CardTitle className="text-lg">Monatlicher Verlauf</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={trendConfig} className="h-72 w-full aspect-auto">
+                  <BarChart data={trend}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={30} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Bar dataKey="requests" fill="var(--color-requests)" radius={4} />
+                    <Bar dataKey="enrolled" fill="var(--color-enrolled)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Ablehnungsgründe</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {declineReasons.length === 0 ? (
+                  <p className="text-sm text-gray-500">Keine Ablehnungen im Zeitraum</p>
+                ) : (
+                  <ChartContainer config={declineConfig} className="h-72 w-full aspect-auto">
+                    <BarChart data={declineReasons} layout="vertical" margin={{ left: 8 }}>
+                      <CartesianGrid horizontal={false} />
+                      <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+                      <YAxis type="category" dataKey="label" tickLine={false} axisLine={false} width={120} />
+                      <ChartTooltip content={<ChartTooltipContent hideLabel />} />
+                      <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+                    </BarChart>
+                  </ChartContainer>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="grid gap-4 xl:grid-cols-2">
+            <ConversionTable title="Nach Instrument" rows={byInstrument} />
+            <ConversionTable title="Nach Lehrer" rows={byTeacher} />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,19 +1,43 @@
 import { useState, useEffect, useMemo } from 'react';
-import { supabase, TrialAppointment, Teacher, acceptTrial, declineTrial } from '@/lib/supabase';
+import { supabase, TrialAppointment, TrialDeclineReason, TrialOutcome, Teacher, acceptTrial, declineTrial } from '@/lib/supabase';
 import { useAuth } from '@/hooks/useAuth';
+import { useRealtimeChanges } from '@/hooks/useRealtimeChanges';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
-import { Plus, Search, MoreHorizontal, Edit, Check, Clock, User, Trash2, X, UserCheck } from 'lucide-react';
-import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { Plus, Search, MoreHorizontal, Edit, Check, Clock, User, Trash2, X, UserCheck, CalendarClock, CalendarDays, ClipboardCheck, UserPlus } from 'lucide-react';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { TrialAppointmentForm } from '@/components/forms/TrialAppointmentForm';
+import { TrialScheduleModal } from '@/components/modals/TrialScheduleModal';
+import { ConvertTrialModal } from '@/components/modals/ConvertTrialModal';
+import { DeclineTrialModal } from '@/components/modals/DeclineTrialModal';
+import { setTrialOutcome } from '@/lib/actions/trialActions';
+import {
+  TRIAL_OUTCOMES,
+  TRIAL_OUTCOME_LABELS,
+  fmtTrialSlot,
+  fmtTrialTime,
+  getTrialLocation,
+  getUpcomingTrials,
+  getTrialsAwaitingOutcome,
+  groupTrialsByDay
+} from '@/lib/trials/trialSchedule';
+import { canConvertTrial } from '@/lib/trials/trialConversion';
+import { getChangedId, removeRow, upsertRow } from '@/lib/realtime/mergeRows';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { INSTRUMENTS } from '@/lib/constants';
 import { toast } from 'sonner';
 
+const TRIAL_APPOINTMENT_SELECT = `
+  *,
+  teacher:teachers(id, name, instrument),
+  room:rooms(id, name),
+  created_by_profile:profiles!trial_appointments_created_by_fkey(id, full_name)
+`;
+
 export function TrialAppointmentsTab() {
   const { profile, isAdmin } = useAuth();
   const [trialAppointments, setTrialAppointments] = useState<TrialAppointment[]>([]);
@@ -23,6 +47,9 @@ export function TrialAppointmentsTab() {
   const [instrumentFilter, setInstrumentFilter] = useState<string>('all');
   const [showAddForm, setShowAddForm] = useState(false);
   const [editingTrialAppointment, setEditingTrialAppointment] = useState<TrialAppointment | null>(null);
+  const [schedulingTrialAppointment, setSchedulingTrialAppointment] = useState<TrialAppointment | null>(null);
+  const [convertingTrialAppointment, setConvertingTrialAppointment] = useState<TrialAppointment | null>(null);
+  const [decliningTrialAppointment, setDecliningTrialAppointment] = useState<TrialAppointment | null>(null);
 
   // Memoize current teacher lookup
   const currentTeacher = useMemo(() => 
@@ -44,11 +71,7 @@ export function TrialAppointmentsTab() {
     try {
       let query = supabase
         .from('trial_appointments')
-        .select(`
-          *,
-          teacher:teachers(id, name, instrument),
-          created_by_profile:profiles!trial_appointments_created_by_fkey(id, full_name)
-        `);
+        .select(TRIAL_APPOINTMENT_SELECT);
 
       // Apply role-based filtering
       if (profile?.role === 'teacher' && currentTeacher) {
@@ -76,6 +99,31 @@ export function TrialAppointmentsTab() {
     }
   };
 
+  // Live updates from other admins and teachers; teachers keep seeing only their own and open trials
+  useRealtimeChanges('trial_appointments', async payload => {
+    const id = getChangedId(payload);
+    if (!id) return;
+
+    if (payload.eventType === 'DELETE') {
+      setTrialAppointments(prev => removeRow(prev, id));
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('trial_appointments')
+      .select(TRIAL_APPOINTMENT_SELECT)
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error refreshing trial appointment:', error);
+      return;
+    }
+
+    const visible = data && (isAdmin || data.teacher_id === currentTeacher?.id || data.status === 'open');
+    setTrialAppointments(prev => visible ? upsertRow(prev, data as TrialAppointment) : removeRow(prev, id));
+  }, { enabled: !!profile && (isAdmin || !!currentTeacher) });
+
   const fetchTeachers = async () => {
     try {
       const { data, error } = await supabase
@@ -122,14 +170,14 @@ export function TrialAppointmentsTab() {
     }
   };
 
-  const handleDeclineTrialAppointment = async (trialAppointment: TrialAppointment) => {
+  const handleDeclineTrialAppointment = async (trialAppointment: TrialAppointment, reason: TrialDeclineReason, note: string) => {
     if (!currentTeacher) {
       toast.error('Lehrerprofil nicht gefunden');
       return;
     }
 
     try {
-      const { error } = await declineTrial(trialAppointment.id);
+      const { error } = await declineTrial(trialAppointment.id, reason, note);
 
       if (error) {
         if (error.message.includes('not assigned')) {
@@ -141,6 +189,7 @@ export function TrialAppointmentsTab() {
       }
 
       toast.success('Probestunde abgelehnt und wieder freigegeben');
+      setDecliningTrialAppointment(null);
       fetchTrialAppointments();
     } catch (error) {
       console.error('Error declining trial appointment:', error);
@@ -177,6 +226,19 @@ export function TrialAppointmentsTab() {
     }
   };
 
+  const handleSetOutcome = async (trialAppointment: TrialAppointment, outcome: TrialOutcome) => {
+    try {
+      await setTrialOutcome(trialAppointment.id, outcome);
+      toast.success(`Ergebnis gespeichert: ${TRIAL_OUTCOME_LABELS[outcome]}`);
+      fetchTrialAppointments();
+    } catch (error) {
+      console.error('Error saving trial outcome:', error);
+      toast.error('Fehler beim Speichern des Ergebnisses', {
+        description: error instanceof Error ? error.message : 'Unbekannter Fehler'
+      });
+    }
+  };
+
   const canEditTrialAppointment = () => {
     // Only admins can edit trial appointments
     return isAdmin;
@@ -208,6 +270,12 @@ export function TrialAppointmentsTab() {
     return false;
   };
 
+  // Date and outcome: admins, and the teacher the trial is assigned to or accepted by
+  const canScheduleTrial = (appointment: TrialAppointment) => {
+    if (isAdmin) return true;
+    return !!currentTeacher && appointment.teacher_id === currentTeacher.id && appointment.status !== 'open';
+  };
+
   const canDeclineTrial = (appointment: TrialAppointment) => {
     if (!currentTeacher) return false;
     
@@ -231,6 +299,16 @@ export function TrialAppointmentsTab() {
   const openAppointments = filteredTrialAppointments.filter(app => app.status === 'open');
   const acceptedAppointments = filteredTrialAppointments.filter(app => app.status === 'accepted');
 
+  // Agenda: scheduled trials of the visible list; teachers only see their own dates
+  const agendaAppointments = filteredTrialAppointments.filter(app =>
+    app.status !== 'open' && (isAdmin || app.teacher_id === currentTeacher?.id)
+  );
+  const upcomingDays = groupTrialsByDay(getUpcomingTrials(agendaAppointments));
+  const awaitingOutcome = getTrialsAwaitingOutcome(agendaAppointments);
+
+  const getTeacherAgenda = (appointment: TrialAppointment) =>
+    trialAppointments.filter(app => app.teacher_id && app.teacher_id === appointment.teacher_id && app.id !== appointment.id);
+
   const renderAppointmentCard = (appointment: TrialAppointment) => (
     <Card key={appointment.id} className="hover:shadow-md transition-shadow">
       <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
@@ -252,11 +330,35 @@ export function TrialAppointmentsTab() {
               </DropdownMenuItem>
             )}
             {canDeclineTrial(appointment) && (
-              <DropdownMenuItem onClick={() => handleDeclineTrialAppointment(appointment)}>
+              <DropdownMenuItem onClick={() => setDecliningTrialAppointment(appointment)}>
                 <X className="h-4 w-4 mr-2" />
                 Ablehnen
               </DropdownMenuItem>
             )}
+            {canScheduleTrial(appointment) && (
+              <DropdownMenuItem onClick={() => setSchedulingTrialAppointment(appointment)}>
+                <CalendarClock className="h-4 w-4 mr-2" />
+                Termin planen
+              </DropdownMenuItem>
+            )}
+            {canScheduleTrial(appointment) && appointment.scheduled_at && (
+              <>
+                <DropdownMenuSeparator />
+                {TRIAL_OUTCOMES.filter(outcome => outcome !== appointment.outcome).map(outcome => (
+                  <DropdownMenuItem key={outcome} onClick={() => handleSetOutcome(appointment, outcome)}>
+                    <ClipboardCheck className="h-4 w-4 mr-2" />
+                    {TRIAL_OUTCOME_LABELS[outcome]}
+                  </DropdownMenuItem>
+                ))}
+                <DropdownMenuSeparator />
+              </>
+            )}
+            {isAdmin && canConvertTrial(appointment) && (
+              <DropdownMenuItem onClick={() => setConvertingTrialAppointment(appointment)}>
+                <UserPlus className="h-4 w-4 mr-2" />
+                In Schüler umwandeln
+              </DropdownMenuItem>
+            )}
             {canEditTrialAppointment() && (
               <DropdownMenuItem onClick={() => setEditingTrialAppointment(appointment)}>
                 <Edit className="h-4 w-4 mr-2" />
@@ -305,6 +407,48 @@ export function TrialAppointmentsTab() {
             </Badge>
           </div>
           
+          {appointment.scheduled_at ? (
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium text-gray-600">Termin</span>
+              <span className="text-sm">{fmtTrialSlot(appointment.scheduled_at)}</span>
+            </div>
+          ) : (appointment.proposed_slots?.length ?? 0) > 0 && (
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium text-gray-600">Vorschläge</span>
+              <span className="text-sm">{appointment.proposed_slots!.length} Termin(e) angeboten</span>
+            </div>
+          )}
+
+          {getTrialLocation(appointment) && (
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium text-gray-600">Ort</span>
+              <span className="text-sm truncate max-w-40">{getTrialLocation(appointment)}</span>
+            </div>
+          )}
+
+          {appointment.outcome && (
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium text-gray-600">Ergebnis</span>
+              <Badge
+                variant="outline"
+                className={appointment.outcome === 'no_show'
+                  ? 'bg-red-50 text-red-700 border-red-200'
+                  : 'bg-green-50 text-green-700 border-green-200'}
+              >
+                {TRIAL_OUTCOME_LABELS[appointment.outcome]}
+              </Badge>
+            </div>
+          )}
+
+          {appointment.converted_at && (
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium text-gray-600">Umgewandelt</span>
+              <span className="text-sm text-gray-500">
+                {new Date(appointment.converted_at).toLocaleDateString('de-DE')}
+              </span>
+            </div>
+          )}
+
           {appointment.email && (
             <div className="flex items-center justify-between">
               <span className="text-sm font-medium text-gray-600">E-Mail</span>
@@ -328,7 +472,28 @@ export function TrialAppointmentsTab() {
             </div>
           )}
 
-          {appointment.created_by_profile && (
+          {appointment.preferred_times && (
+            <div className="space-y-1">
+              <span className="text-sm font-medium text-gray-600">Wunschzeiten</span>
+              <p className="text-sm text-gray-700 whitespace-pre-line">{appointment.preferred_times}</p>
+            </div>
+          )}
+
+          {appointment.message && (
+            <div className="space-y-1">
+              <span className="text-sm font-medium text-gray-600">Nachricht</span>
+              <p className="text-sm text-gray-700 whitespace-pre-line line-clamp-4">{appointment.message}</p>
+            </div>
+          )}
+
+          {appointment.source === 'web' ? (
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium text-gray-600">Quelle</span>
+              <Badge variant="outline" className="bg-blue-50 text-blue-700 border-blue-200">
+                Webformular
+              </Badge>
+            </div>
+          ) : appointment.created_by_profile && (
             <div className="flex items-center justify-between">
               <span className="text-sm font-medium text-gray-600">Erstellt von</span>
               <span className="text-sm">{appointment.created_by_profile.full_name}</span>
@@ -342,6 +507,19 @@ export function TrialAppointmentsTab() {
             </span>
           </div>
 
+          {isAdmin && canConvertTrial(appointment) && (appointment.outcome === 'took_place' || appointment.outcome === 'converted') && (
+            <div className="pt-2 border-t">
+              <Button
+                onClick={() => setConvertingTrialAppointment(appointment)}
+                className="w-full bg-brand-primary hover:bg-brand-primary/90 focus:ring-brand-primary"
+                size="sm"
+              >
+                <UserPlus className="h-4 w-4 mr-2" />
+                In Schüler umwandeln
+              </Button>
+            </div>
+          )}
+
           {/* Quick action buttons */}
           {(canAcceptTrial(appointment) || canDeclineTrial(appointment)) && (
             <div className="pt-2 border-t flex gap-2">
@@ -357,7 +535,7 @@ export function TrialAppointmentsTab() {
               )}
               {canDeclineTrial(appointment) && (
                 <Button
-                  onClick={() => handleDeclineTrialAppointment(appointment)}
+                  onClick={() => setDecliningTrialAppointment(appointment)}
                   variant="outline"
                   className="flex-1"
                   size="sm"
@@ -435,6 +613,73 @@ export function TrialAppointmentsTab() {
         </CardContent>
       </Card>
 
+      {/* Upcoming agenda */}
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <CalendarDays className="h-5 w-5 text-brand-primary" />
+            Anstehende Termine
+            {awaitingOutcome.length > 0 && (
+              <Badge variant="outline" className="bg-amber-50 text-amber-700 border-amber-200">
+                {awaitingOutcome.length} ohne Ergebnis
+              </Badge>
+            )}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {upcomingDays.length === 0 && awaitingOutcome.length === 0 ? (
+            <p className="text-sm text-gray-500">Keine Probestunden mit vereinbartem Termin.</p>
+          ) : (
+            <div className="space-y-4">
+              {awaitingOutcome.length > 0 && (
+                <div className="space-y-1">
+                  <p className="text-sm font-medium text-amber-700">Ergebnis eintragen</p>
+                  {awaitingOutcome.map(appointment => (
+                    <div key={appointment.id} className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                      <span>
+                        {fmtTrialSlot(appointment.scheduled_at)} · {appointment.student_name} ({appointment.instrument})
+                        {isAdmin && appointment.teacher && <span className="text-gray-500"> · {appointment.teacher.name}</span>}
+                      </span>
+                      {canScheduleTrial(appointment) && (
+                        <div className="flex gap-1">
+                          {TRIAL_OUTCOMES.map(outcome => (
+                            <Button
+                              key={outcome}
+                              variant="outline"
+                              size="sm"
+                              className="h-7 px-2 text-xs"
+                              onClick={() => handleSetOutcome(appointment, outcome)}
+                            >
+                              {TRIAL_OUTCOME_LABELS[outcome]}
+                            </Button>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {upcomingDays.map(({ day, label, trials }) => (
+                <div key={day} className="space-y-1">
+                  <p className="text-sm font-medium text-gray-900">{label}</p>
+                  {trials.map(appointment => (
+                    <div key={appointment.id} className="flex flex-wrap justify-between gap-2 text-sm text-gray-600">
+                      <span>
+                        {fmtTrialTime(appointment.scheduled_at)} · {appointment.student_name} ({appointment.instrument})
+                      </span>
+                      <span className="text-gray-500">
+                        {[isAdmin ? appointment.teacher?.name : null, getTrialLocation(appointment)].filter(Boolean).join(' · ')}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Assigned Appointments Section */}
       <div className="space-y-4">
         <div className="flex items-center justify-between">
@@ -526,12 +771,13 @@ export function TrialAppointmentsTab() {
       {/* Add Trial Appointment Dialog - Only show for admins */}
       {isAdmin && (
         <Dialog open={showAddForm} onOpenChange={setShowAddForm}>
-          <DialogContent className="max-w-2xl">
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>Neue Probestunde hinzufügen</DialogTitle>
             </DialogHeader>
             <TrialAppointmentForm
               teachers={teachers}
+              trialAppointments={trialAppointments}
               onSuccess={() => {
                 setShowAddForm(false);
                 fetchTrialAppointments();
@@ -545,7 +791,7 @@ export function TrialAppointmentsTab() {
       {/* Edit Trial Appointment Dialog - Only show for admins */}
       {isAdmin && (
         <Dialog open={!!editingTrialAppointment} onOpenChange={() => setEditingTrialAppointment(null)}>
-          <DialogContent className="max-w-2xl">
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>Probestunde bearbeiten</DialogTitle>
             </DialogHeader>
@@ -553,6 +799,7 @@ export function TrialAppointmentsTab() {
               <TrialAppointmentForm
                 trialAppointment={editingTrialAppointment}
                 teachers={teachers}
+                trialAppointments={trialAppointments}
                 onSuccess={() => {
                   setEditingTrialAppointment(null);
                   fetchTrialAppointments();
@@ -564,6 +811,45 @@ export function TrialAppointmentsTab() {
         </Dialog>
       )}
 
+      {schedulingTrialAppointment && (
+        <TrialScheduleModal
+          open={!!schedulingTrialAppointment}
+          trialAppointment={schedulingTrialAppointment}
+          agenda={getTeacherAgenda(schedulingTrialAppointment)}
+          onClose={() => setSchedulingTrialAppointment(null)}
+          onSuccess={() => {
+            setSchedulingTrialAppointment(null);
+            fetchTrialAppointments();
+          }}
+        />
+      )}
+
+      {decliningTrialAppointment && (
+        <DeclineTrialModal
+          open={!!decliningTrialAppointment}
+          trialAppointment={decliningTrialAppointment}
+          onClose={() => setDecliningTrialAppointment(null)}
+          onConfirm={(reason, note) => handleDeclineTrialAppointment(decliningTrialAppointment, reason, note)}
+        />
+      )}
+
+      {convertingTrialAppointment && (
+        <ConvertTrialModal
+          open={!!convertingTrialAppointment}
+          trialAppointment={convertingTrialAppointment}
+          teachers={teachers}
+          onClose={() => {
+            setConvertingTrialAppointment(null);
+            fetchTrialAppointments();
+          }}
+          onSuccess={() => {
+            setConvertingTrialAppointment(null);
+            toast.success('Probestunde erfolgreich umgewandelt');
+            fetchTrialAppointments();
+          }}
+        />
+      )}
+
       {/* Message Notification */}
       {/* Removed: {message && ( */}
       {/* Removed:   <Card className="bg-gray-50 border-gray-200"> */}
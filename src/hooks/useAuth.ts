@@ -1,6 +1,9 @@
 import { useState, useEffect } from 'react';
 import { User } from '@supabase/supabase-js';
 import { supabase, Profile, isSupabaseConfigured } from '@/lib/supabase';
+import { unsubscribeFromPush } from '@/lib/pwa/serviceWorker';
+import { syncQueuedLessons } from '@/lib/actions/lessonQueueActions';
+import { clearLessonQueue } from '@/lib/offline/lessonQueue';
 
 export function useAuth() {
   const [user, setUser] = useState<User | null>(null);
@@ -205,6 +208,23 @@ export function useAuth() {
       
       // Set signing out flag to prevent auth state changes from overriding our logout
       setIsSigningOut(true);
+
+      // Push for this user must not reach whoever signs in next on this device;
+      // needs the session, so before it is cleared
+      try {
+        await unsubscribeFromPush();
+      } catch (pushError) {
+        console.log('Push unsubscribe error:', pushError);
+      }
+
+      // Last chance to send offline lesson edits; afterwards the queue and the cached
+      // lessons are removed from the device
+      try {
+        if (profile && navigator.onLine) await syncQueuedLessons(profile.id);
+      } catch (syncError) {
+        console.log('Lesson queue sync error:', syncError);
+      }
+      clearLessonQueue();
       
       // Clear Supabase session storage directly
       try {
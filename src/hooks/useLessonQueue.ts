@@ -0,0 +1,86 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { useAuth } from '@/hooks/useAuth';
+import { useOnlineStatus } from '@/hooks/useOnlineStatus';
+import { syncQueuedLessons } from '@/lib/actions/lessonQueueActions';
+import { LESSON_QUEUE_EVENT, QueuedLessonEdit, getQueuedLessonEdits } from '@/lib/offline/lessonQueue';
+
+const SYNC_RETRY_MS = 60_000;
+
+// Queued offline lesson edits, optionally of one contract; follows changes from this and other tabs
+export function useLessonQueue(contractId?: string) {
+  const [entries, setEntries] = useState<QueuedLessonEdit[]>(() => getQueuedLessonEdits(contractId));
+
+  useEffect(() => {
+    const refresh = () => setEntries(getQueuedLessonEdits(contractId));
+    refresh();
+    window.addEventListener(LESSON_QUEUE_EVENT, refresh);
+    window.addEventListener('storage', refresh);
+    return () => {
+      window.removeEventListener(LESSON_QUEUE_EVENT, refresh);
+      window.removeEventListener('storage', refresh);
+    };
+  }, [contractId]);
+
+  return entries;
+}
+
+// Syncs the queue whenever the connection returns or new edits are queued while online.
+// Mounted once in the layout.
+export function useLessonQueueSync() {
+  const { profile } = useAuth();
+  const online = useOnlineStatus();
+  const entries = useLessonQueue();
+  const syncingRef = useRef(false);
+
+  // Re-run only on newly queued (or retried) edits; a failed attempt doesn't change this and
+  // so doesn't loop. Conflicts and errors wait for the user.
+  const pending = entries.filter(e => e.profile_id === profile?.id && (e.status === 'pending' || e.status === 'syncing'));
+  const lastQueuedAt = pending.reduce((latest, e) => (e.queued_at > latest ? e.queued_at : latest), '');
+
+  const sync = useCallback(async () => {
+    if (!profile || syncingRef.current) return;
+    syncingRef.current = true;
+    try {
+      const result = await syncQueuedLessons(profile.id);
+      if (result.synced > 0) {
+        toast.success(result.synced === 1 ? 'Offline-Änderung synchronisiert' : `${result.synced} Offline-Änderungen synchronisiert`);
+      }
+      if (result.conflicts > 0) {
+        toast.warning(`${result.conflicts} Stunde(n) zwischenzeitlich geändert`, {
+          description: 'Bitte die Stundenverfolgung des Vertrags öffnen und die Änderungen zusammenführen.'
+        });
+      }
+      if (result.failed > 0) {
+        toast.error(`${result.failed} Stunde(n) konnten nicht synchronisiert werden`, {
+          description: 'Bitte die Stundenverfolgung des Vertrags öffnen und erneut speichern oder verwerfen.'
+        });
+      }
+      if (result.noticesSent > 0) {
+        toast.success(result.noticesSent === 1 ? 'Absage versendet' : `${result.noticesSent} Absagen versendet`);
+      }
+      if (result.noticesFailed > 0) {
+        toast.warning(`${result.noticesFailed} Absage(n) nicht zugestellt`, {
+          description: 'Keine E-Mail-Adresse hinterlegt oder Versand fehlgeschlagen'
+        });
+      }
+    } catch (error) {
+      console.error('Error syncing lesson queue:', error);
+    } finally {
+      syncingRef.current = false;
+    }
+  }, [profile]);
+
+  useEffect(() => {
+    if (online && lastQueuedAt) sync();
+  }, [online, lastQueuedAt, sync]);
+
+  // navigator.onLine only knows about the network interface, not whether the server is reachable
+  useEffect(() => {
+    if (!online || !lastQueuedAt) return;
+    const interval = setInterval(sync, SYNC_RETRY_MS);
+    return () => clearInterval(interval);
+  }, [online, lastQueuedAt, sync]);
+
+  return { online, entries: entries.filter(e => e.profile_id === profile?.id) };
+}
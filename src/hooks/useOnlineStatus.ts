@@ -0,0 +1,19 @@
+import { useEffect, useState } from 'react';
+
+export function useOnlineStatus() {
+  const [online, setOnline] = useState(
+    typeof navigator !== 'undefined' ? navigator.onLine : true
+  );
+
+  useEffect(() => {
+    const handleChange = () => setOnline(navigator.onLine);
+    window.addEventListener('online', handleChange);
+    window.addEventListener('offline', handleChange);
+    return () => {
+      window.removeEventListener('online', handleChange);
+      window.removeEventListener('offline', handleChange);
+    };
+  }, []);
+
+  return online;
+}
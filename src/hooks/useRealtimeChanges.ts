@@ -0,0 +1,41 @@
+import { useEffect, useId, useRef } from 'react';
+import { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+
+type RealtimeRow = Record<string, unknown>;
+
+interface RealtimeOptions {
+  enabled?: boolean;
+  event?: '*' | 'INSERT' | 'UPDATE' | 'DELETE';
+  filter?: string; // PostgREST filter, e.g. `teacher_id=eq.${id}`
+}
+
+// Calls onChange for every row change of a table the user can see (RLS applies).
+// The table has to be part of the supabase_realtime publication.
+export function useRealtimeChanges<T extends RealtimeRow = RealtimeRow>(
+  table: string,
+  onChange: (payload: RealtimePostgresChangesPayload<T>) => void,
+  { enabled = true, event = '*', filter }: RealtimeOptions = {}
+) {
+  const channelId = useId();
+  // Handlers close over the latest tab state without resubscribing on every render
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const channel = supabase
+      .channel(`${table}${channelId}`)
+      .on<T>(
+        'postgres_changes',
+        { event: event as '*', schema: 'public', table, ...(filter ? { filter } : {}) },
+        payload => onChangeRef.current(payload)
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [table, channelId, enabled, event, filter]);
+}
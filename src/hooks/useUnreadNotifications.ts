@@ -0,0 +1,32 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/hooks/useAuth';
+import { useRealtimeChanges } from '@/hooks/useRealtimeChanges';
+
+// Number of unread notifications of the current user, kept up to date via realtime
+export function useUnreadNotifications() {
+  const { profile } = useAuth();
+  const [count, setCount] = useState(0);
+
+  const fetchCount = useCallback(async () => {
+    const { count, error } = await supabase
+      .from('notifications')
+      .select('id', { count: 'exact', head: true })
+      .eq('is_read', false);
+
+    if (error) {
+      console.error('Error fetching unread notifications:', error);
+      return;
+    }
+
+    setCount(count ?? 0);
+  }, []);
+
+  useEffect(() => {
+    if (profile) fetchCount();
+  }, [profile, fetchCount]);
+
+  useRealtimeChanges('notifications', fetchCount, { enabled: !!profile });
+
+  return count;
+}
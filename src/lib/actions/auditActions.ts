@@ -0,0 +1,61 @@
+import { supabase, AuditAction, AuditLogEntry, AuditTable } from '@/lib/supabase';
+
+const AUDIT_SELECT = '*, actor:profiles!audit_log_actor_id_fkey(id, full_name)';
+
+export const AUDIT_PAGE_SIZE = 50;
+
+export interface AuditLogFilters {
+  table?: AuditTable | null;
+  action?: AuditAction | null;
+  actorId?: string | null;
+  search?: string;
+  from?: string | null; // yyyy-MM-dd
+  to?: string | null;
+}
+
+// History of one record, or of all child rows (lessons of a contract) with byParent
+export async function getAuditHistory(table: AuditTable, id: string, byParent = false): Promise<AuditLogEntry[]> {
+  const { data, error } = await supabase
+    .from('audit_log')
+    .select(AUDIT_SELECT)
+    .eq('table_name', table)
+    .eq(byParent ? 'parent_id' : 'record_id', id)
+    .order('created_at', { ascending: false })
+    .limit(200);
+
+  if (error) {
+    throw new Error(error.message || 'Failed to load history');
+  }
+
+  return (data || []) as unknown as AuditLogEntry[];
+}
+
+export async function searchAuditLog(filters: AuditLogFilters, page = 0) {
+  let query = supabase
+    .from('audit_log')
+    .select(AUDIT_SELECT, { count: 'exact' });
+
+  if (filters.table) query = query.eq('table_name', filters.table);
+  if (filters.action) query = query.eq('action', filters.action);
+  if (filters.actorId) query = query.eq('actor_id', filters.actorId);
+  if (filters.from) query = query.gte('created_at', filters.from);
+  if (filters.to) query = query.lte('created_at', `${filters.to}T23:59:59`);
+
+  const search = filters.search?.trim();
+  if (search) {
+    // A pasted ID matches the record itself, anything else the record name
+    query = /^[0-9a-f-]{36}$/i.test(search)
+      ? query.or(`record_id.eq.${search},parent_id.eq.${search}`)
+      : query.ilike('record_label', `%${search.replace(/[%_]/g, '\\$&')}%`);
+  }
+
+  const { data, error, count } = await query
+    .order('created_at', { ascending: false })
+    .range(page * AUDIT_PAGE_SIZE, (page + 1) * AUDIT_PAGE_SIZE - 1);
+
+  if (error) {
+    throw new Error(error.message || 'Failed to load audit log');
+  }
+
+  return { entries: (data || []) as unknown as AuditLogEntry[], count: count ?? 0 };
+}
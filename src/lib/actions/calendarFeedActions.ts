@@ -0,0 +1,59 @@
+import { supabase } from '@/lib/supabase';
+
+const FUNCTION_NAME = 'teacher-calendar';
+
+// Subscription URL for calendar apps (webcal:// opens the subscribe dialog on phones)
+export const getCalendarFeedUrl = (token: string) =>
+  `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/${FUNCTION_NAME}?token=${token}`.replace(/^https?:/, 'webcal:');
+
+export async function getActiveCalendarToken(teacherId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('teacher_calendar_tokens')
+    .select('token')
+    .eq('teacher_id', teacherId)
+    .is('revoked_at', null)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message || 'Failed to load calendar feed');
+  }
+
+  return data?.token ?? null;
+}
+
+// Replaces the current token; the old feed URL stops working
+export async function createCalendarToken(teacherId?: string): Promise<string> {
+  const { data, error } = await supabase.rpc('create_teacher_calendar_token', {
+    p_teacher_id: teacherId ?? null
+  });
+
+  if (error) {
+    throw new Error(error.message || 'Failed to create calendar feed');
+  }
+
+  return data as string;
+}
+
+export async function revokeCalendarToken(teacherId?: string) {
+  const { error } = await supabase.rpc('revoke_teacher_calendar_token', {
+    p_teacher_id: teacherId ?? null
+  });
+
+  if (error) {
+    throw new Error(error.message || 'Failed to revoke calendar feed');
+  }
+}
+
+// One-off .ics file with the current lessons and closures
+export async function downloadTeacherCalendar(teacherId?: string): Promise<string> {
+  const { data, error } = await supabase.functions.invoke(
+    teacherId ? `${FUNCTION_NAME}?teacher_id=${teacherId}` : FUNCTION_NAME,
+    { method: 'GET' }
+  );
+
+  if (error) {
+    throw new Error(error.message || 'Failed to download calendar');
+  }
+
+  return data as string;
+}
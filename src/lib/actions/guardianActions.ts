@@ -0,0 +1,32 @@
+import { supabase, StudentGuardian } from '@/lib/supabase';
+
+export type StudentGuardianInput = Pick<
+  StudentGuardian,
+  'name' | 'role' | 'email' | 'phone' | 'address' | 'is_contract_partner' | 'is_invoice_recipient'
+>;
+
+export async function getStudentGuardians(studentId: string): Promise<StudentGuardian[]> {
+  const { data, error } = await supabase
+    .from('student_guardians')
+    .select('*')
+    .eq('student_id', studentId)
+    .order('sort_order');
+
+  if (error) {
+    throw new Error(error.message || 'Failed to load guardians');
+  }
+
+  return data || [];
+}
+
+// Replaces all contacts of the student; the list order is kept
+export async function saveStudentGuardians(studentId: string, guardians: StudentGuardianInput[]) {
+  const { error } = await supabase.rpc('save_student_guardians', {
+    p_student_id: studentId,
+    p_guardians: guardians
+  });
+
+  if (error) {
+    throw new Error(error.message || 'Failed to save guardians');
+  }
+}
@@ -0,0 +1,102 @@
+import { supabase, calculateContractPrice, getLegacyContractType } from '@/lib/supabase';
+import { ImportEntity, ImportLookup, ImportRowResult } from '@/lib/import/importRows';
+
+export async function getImportLookup(): Promise<ImportLookup> {
+  const [students, teachers, variants, contracts] = await Promise.all([
+    supabase.from('students').select('id, name, email, phone, instrument, status'),
+    supabase.from('teachers').select('id, name, email, phone, instrument'),
+    supabase
+      .from('contract_variants')
+      .select('id, name, monthly_price, one_time_price, contract_category:contract_categories(id, name, display_name)')
+      .eq('is_active', true),
+    supabase.from('contracts').select('student_id, contract_variant_id').eq('status', 'active'),
+  ]);
+
+  const error = students.error || teachers.error || variants.error || contracts.error;
+  if (error) {
+    throw new Error(error.message || 'Failed to load import reference data');
+  }
+
+  return {
+    students: students.data || [],
+    teachers: teachers.data || [],
+    variants: (variants.data || []) as unknown as ImportLookup['variants'],
+    activeContracts: contracts.data || [],
+  };
+}
+
+// Writes one validated row; students and teachers go through the same tables as the forms,
+// contracts through atomic_save_and_sync_contract like StudentForm
+export async function commitImportRow(entity: ImportEntity, row: ImportRowResult) {
+  if (entity === 'students' || entity === 'teachers') {
+    const { error } = row.existingId
+      ? await supabase.from(entity).update(row.payload).eq('id', row.existingId)
+      : await supabase.from(entity).insert([row.payload]);
+
+    if (error) {
+      throw new Error(error.message || `Failed to import ${entity}`);
+    }
+    return;
+  }
+
+  const payload = row.payload as {
+    student_id: string;
+    teacher_id: string;
+    contract_variant_id: string;
+    category_name: string;
+    custom_discount_percent: number | null;
+    billing_cycle: 'monthly' | 'upfront' | null;
+    term_start: string | null;
+    first_payment_date: string | null;
+  };
+
+  const pricing = await calculateContractPrice(
+    payload.contract_variant_id,
+    [],
+    payload.custom_discount_percent ? {
+      id: 'custom-discount',
+      name: `Custom Discount (${payload.custom_discount_percent}%)`,
+      discount_percent: payload.custom_discount_percent,
+      conditions: 'manually assigned',
+      is_active: true,
+      created_at: new Date().toISOString()
+    } : undefined
+  );
+
+  const contractData = {
+    student_id: payload.student_id,
+    teacher_id: payload.teacher_id,
+    type: getLegacyContractType(payload.category_name),
+    contract_variant_id: payload.contract_variant_id,
+    status: 'active',
+    discount_ids: null,
+    custom_discount_percent: payload.custom_discount_percent,
+    final_price: pricing?.final_monthly_price || pricing?.final_one_time_price || null,
+    payment_type: pricing?.payment_type || null,
+    billing_cycle: payload.billing_cycle,
+    first_payment_date: payload.first_payment_date,
+    term_start: payload.term_start
+  };
+
+  const { data: result, error } = await supabase.rpc('atomic_save_and_sync_contract', {
+    contract_data: contractData,
+    is_update: false,
+    contract_id_param: null
+  });
+
+  if (error) {
+    throw new Error(error.message || 'Failed to import contract');
+  }
+  if (!result?.success || !result.contract_id) {
+    throw new Error(result?.error || result?.message || 'Failed to import contract');
+  }
+
+  const { error: updateError } = await supabase
+    .from('students')
+    .update({ contract_id: result.contract_id })
+    .eq('id', payload.student_id);
+
+  if (updateError) {
+    throw new Error(updateError.message || 'Failed to link contract to student');
+  }
+}
@@ -0,0 +1,61 @@
+import { supabase, Invoice } from '@/lib/supabase';
+
+export interface MonthlyInvoiceRunResult {
+  success: boolean;
+  created: number;
+  skipped: {
+    contract_id: string;
+    student_name: string | null;
+    reason: string;
+  }[];
+}
+
+export async function createContractInvoice(contractId: string, periodStart?: string): Promise<Invoice> {
+  const { data, error } = await supabase.rpc('create_contract_invoice', {
+    contract_id_param: contractId,
+    p_period_start: periodStart || null
+  });
+
+  if (error) {
+    throw new Error(error.message || 'Failed to create invoice');
+  }
+
+  return data as Invoice;
+}
+
+// month: any date inside the month to bill (yyyy-MM-dd)
+export async function generateMonthlyInvoices(month: string): Promise<MonthlyInvoiceRunResult> {
+  const { data, error } = await supabase.rpc('generate_monthly_invoices', {
+    p_month: month
+  });
+
+  if (error) {
+    throw new Error(error.message || 'Failed to generate monthly invoices');
+  }
+
+  return data as MonthlyInvoiceRunResult;
+}
+
+export async function markInvoicePaid(invoiceId: string, paidAt: string) {
+  const { error } = await supabase.rpc('set_invoice_status', {
+    p_invoice_id: invoiceId,
+    p_status: 'paid',
+    p_date: paidAt
+  });
+
+  if (error) {
+    throw new Error(error.message || 'Failed to mark invoice as paid');
+  }
+}
+
+// Invoices are never deleted so the yearly number sequence stays gap-free
+export async function cancelInvoice(invoiceId: string) {
+  const { error } = await supabase.rpc('set_invoice_status', {
+    p_invoice_id: invoiceId,
+    p_status: 'cancelled'
+  });
+
+  if (error) {
+    throw new Error(error.message || 'Failed to cancel invoice');
+  }
+}
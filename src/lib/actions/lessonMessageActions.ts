@@ -0,0 +1,62 @@
+import { supabase, LessonMessage, LessonMessageSettings } from '@/lib/supabase';
+
+export type LessonMessageResult = {
+  sent: number;
+  failed: number;
+  skipped: number;
+};
+
+export async function getLessonMessageSettings(): Promise<LessonMessageSettings | null> {
+  const { data, error } = await supabase
+    .from('lesson_message_settings')
+    .select('reminders_enabled, reminder_hours_before, cancellation_notices_enabled, updated_at')
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message || 'Failed to load lesson message settings');
+  }
+
+  return data;
+}
+
+export async function saveLessonMessageSettings(
+  settings: Pick<LessonMessageSettings, 'reminders_enabled' | 'reminder_hours_before' | 'cancellation_notices_enabled'>
+) {
+  const { error } = await supabase
+    .from('lesson_message_settings')
+    .update({ ...settings, updated_at: new Date().toISOString() })
+    .eq('id', true);
+
+  if (error) {
+    throw new Error(error.message || 'Failed to save lesson message settings');
+  }
+}
+
+export async function getLessonMessages(lessonIds: string[]): Promise<LessonMessage[]> {
+  if (lessonIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('lesson_messages')
+    .select('*')
+    .in('lesson_id', lessonIds)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(error.message || 'Failed to load lesson messages');
+  }
+
+  return data || [];
+}
+
+// Sends the cancellation notice for lessons that were just marked unavailable
+export async function sendLessonCancellations(lessonIds: string[], reason: string | null): Promise<LessonMessageResult> {
+  const { data, error } = await supabase.functions.invoke('send-lesson-messages', {
+    body: { mode: 'cancellation', lesson_ids: lessonIds, reason }
+  });
+
+  if (error) {
+    throw new Error(error.message || 'Failed to send cancellation notices');
+  }
+
+  return data as LessonMessageResult;
+}
@@ -0,0 +1,100 @@
+import { supabase } from '@/lib/supabase';
+import { sendLessonCancellations } from '@/lib/actions/lessonMessageActions';
+import {
+  QueuedLessonEdit,
+  getQueuedLessonEdits,
+  isNetworkError,
+  removeQueuedLessonEdits,
+  updateQueuedLessonEdits
+} from '@/lib/offline/lessonQueue';
+
+export interface LessonSyncResult {
+  synced: number;
+  conflicts: number;
+  failed: number;
+  noticesSent: number;
+  noticesFailed: number;
+}
+
+const toUpdate = (entry: QueuedLessonEdit) => ({
+  id: entry.lesson_id,
+  contract_id: entry.contract_id,
+  date: entry.values.date || null,
+  comment: entry.values.comment || null,
+  is_available: entry.values.is_available,
+  cancellation_reason: entry.values.is_available ? null : entry.values.cancellation_reason,
+  version: entry.version,
+  updated_at: entry.queued_at
+});
+
+/**
+ * Sends the queued lesson edits of a user through batch_update_lessons, one lesson per
+ * call so a rejected edit doesn't hold back the others.
+ * - version conflict: status 'conflict', merged later in the tracker
+ * - other rejection: status 'error'; not retried automatically, the user retries or
+ *   discards it
+ * - connection error: the entry and all remaining ones stay pending for the next attempt
+ * Cancellation notices requested offline are sent once their lessons are synced.
+ */
+export async function syncQueuedLessons(profileId: string): Promise<LessonSyncResult> {
+  const result: LessonSyncResult = { synced: 0, conflicts: 0, failed: 0, noticesSent: 0, noticesFailed: 0 };
+  const syncedContractIds = new Set<string>();
+  // Lesson ids per notice reason ('' for none)
+  const notices = new Map<string, string[]>();
+
+  // 'syncing' left over from an interrupted run is picked up again
+  const entries = getQueuedLessonEdits().filter(
+    e => e.profile_id === profileId && (e.status === 'pending' || e.status === 'syncing')
+  );
+
+  for (const [index, entry] of entries.entries()) {
+    updateQueuedLessonEdits([entry.lesson_id], { status: 'syncing', error: undefined });
+
+    const { data, error } = await supabase.rpc('batch_update_lessons', {
+      updates: [toUpdate(entry)]
+    });
+
+    if (error && isNetworkError(error.message)) {
+      updateQueuedLessonEdits(entries.slice(index).map(e => e.lesson_id), { status: 'pending' });
+      break;
+    }
+
+    if (data?.conflict) {
+      updateQueuedLessonEdits([entry.lesson_id], { status: 'conflict' });
+      result.conflicts++;
+    } else if (error || !data?.success) {
+      const message = error?.message || (data?.errors as string[] | undefined)?.join(', ') || 'Failed to sync lesson';
+      updateQueuedLessonEdits([entry.lesson_id], { status: 'error', error: message });
+      result.failed++;
+    } else {
+      removeQueuedLessonEdits([entry.lesson_id]);
+      syncedContractIds.add(entry.contract_id);
+      result.synced++;
+      if (entry.cancellation_notice) {
+        const reason = entry.cancellation_notice.reason ?? '';
+        notices.set(reason, [...(notices.get(reason) ?? []), entry.lesson_id]);
+      }
+    }
+  }
+
+  for (const [reason, lessonIds] of notices) {
+    try {
+      const sent = await sendLessonCancellations(lessonIds, reason || null);
+      result.noticesSent += sent.sent;
+      result.noticesFailed += sent.failed + sent.skipped;
+    } catch (error) {
+      console.error('Error sending cancellation notices:', error);
+      result.noticesFailed += lessonIds.length;
+    }
+  }
+
+  // Same follow-up as an online save in the tracker
+  for (const contractId of syncedContractIds) {
+    const { error: completionError } = await supabase.rpc('check_contract_completion_after_lessons', {
+      contract_id_param: contractId
+    });
+    if (completionError) console.error('Error checking contract completion:', completionError);
+  }
+
+  return result;
+}
@@ -0,0 +1,45 @@
+import { supabase, MakeupRule } from '@/lib/supabase';
+
+export type MakeupRuleInput = Pick<MakeupRule, 'reason' | 'grants_credit' | 'valid_days'>;
+
+export async function getMakeupRules(): Promise<MakeupRule[]> {
+  const { data, error } = await supabase
+    .from('makeup_rules')
+    .select('*');
+
+  if (error) {
+    throw new Error(error.message || 'Failed to load makeup rules');
+  }
+
+  return data || [];
+}
+
+export async function saveMakeupRules(rules: MakeupRuleInput[]) {
+  for (const rule of rules) {
+    const { error } = await supabase
+      .from('makeup_rules')
+      .update({
+        grants_credit: rule.grants_credit,
+        valid_days: rule.valid_days ?? null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('reason', rule.reason);
+
+    if (error) {
+      throw new Error(error.message || 'Failed to save makeup rules');
+    }
+  }
+}
+
+// Marks the cancelled lesson as held on the makeup date and consumes the credit
+export async function logMakeupLesson(creditId: string, date: string, comment?: string | null) {
+  const { error } = await supabase.rpc('log_makeup_lesson', {
+    p_credit_id: creditId,
+    p_date: date,
+    p_comment: comment || null
+  });
+
+  if (error) {
+    throw new Error(error.message || 'Failed to log makeup lesson');
+  }
+}
@@ -0,0 +1,28 @@
+import { supabase, NotificationEmailPreference } from '@/lib/supabase';
+
+export type EmailFrequency = NotificationEmailPreference['frequency'];
+
+// Without a stored preference notifications are emailed instantly
+export async function getNotificationEmailFrequency(profileId: string): Promise<EmailFrequency> {
+  const { data, error } = await supabase
+    .from('notification_email_preferences')
+    .select('frequency')
+    .eq('profile_id', profileId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message || 'Failed to load email preference');
+  }
+
+  return data?.frequency ?? 'instant';
+}
+
+export async function saveNotificationEmailFrequency(profileId: string, frequency: EmailFrequency) {
+  const { error } = await supabase
+    .from('notification_email_preferences')
+    .upsert({ profile_id: profileId, frequency, updated_at: new Date().toISOString() });
+
+  if (error) {
+    throw new Error(error.message || 'Failed to save email preference');
+  }
+}
@@ -0,0 +1,56 @@
+import { supabase, PayrollSession, TeacherPayRate } from '@/lib/supabase';
+
+// month: any date inside the month (yyyy-MM-dd); teacherId is ignored for teachers (always their own)
+export async function getPayrollSessions(month: string, teacherId?: string | null): Promise<PayrollSession[]> {
+  const { data, error } = await supabase.rpc('get_teacher_payroll_sessions', {
+    p_month: month,
+    p_teacher_id: teacherId || null
+  });
+
+  if (error) {
+    throw new Error(error.message || 'Failed to load payroll');
+  }
+
+  return (data || []) as PayrollSession[];
+}
+
+export async function getPayRates(): Promise<TeacherPayRate[]> {
+  const { data, error } = await supabase
+    .from('teacher_pay_rates')
+    .select('*')
+    .order('group_type');
+
+  if (error) {
+    throw new Error(error.message || 'Failed to load pay rates');
+  }
+
+  return data || [];
+}
+
+export async function savePayRate(rate: Pick<TeacherPayRate, 'teacher_id' | 'group_type' | 'hourly_rate'> & { id?: string }) {
+  const payload = {
+    teacher_id: rate.teacher_id || null,
+    group_type: rate.group_type,
+    hourly_rate: rate.hourly_rate,
+    updated_at: new Date().toISOString()
+  };
+
+  const { error } = rate.id
+    ? await supabase.from('teacher_pay_rates').update(payload).eq('id', rate.id)
+    : await supabase.from('teacher_pay_rates').insert([payload]);
+
+  if (error) {
+    throw new Error(error.message || 'Failed to save pay rate');
+  }
+}
+
+export async function deletePayRate(rateId: string) {
+  const { error } = await supabase
+    .from('teacher_pay_rates')
+    .delete()
+    .eq('id', rateId);
+
+  if (error) {
+    throw new Error(error.message || 'Failed to delete pay rate');
+  }
+}
@@ -0,0 +1,77 @@
+import { supabase, ContractVariant, PriceVersionMigration } from '@/lib/supabase';
+import { RolloutStudent, RolloutContract } from '@/lib/pricing/priceVersionRollout';
+
+export async function getRolloutData(): Promise<{ students: RolloutStudent[]; contracts: RolloutContract[] }> {
+  const [students, contracts] = await Promise.all([
+    supabase.from('students').select('id, name, status, price_version').order('name'),
+    supabase
+      .from('contracts')
+      .select('id, student_id, contract_variant_id, discount_ids, custom_discount_percent, final_price, payment_type')
+      .eq('status', 'active'),
+  ]);
+
+  const error = students.error || contracts.error;
+  if (error) {
+    throw new Error(error.message || 'Failed to load price versions');
+  }
+
+  return {
+    students: students.data || [],
+    contracts: contracts.data || [],
+  };
+}
+
+export async function migrateStudentsPriceVersion(studentIds: string[], toVersion: number, note?: string): Promise<number> {
+  const { data, error } = await supabase.rpc('migrate_students_price_version', {
+    p_student_ids: studentIds,
+    p_to_version: toVersion,
+    p_note: note || null
+  });
+
+  if (error) {
+    throw new Error(error.message || 'Failed to migrate students');
+  }
+
+  return data ?? 0;
+}
+
+export async function getPriceVersionMigrations(limit = 50): Promise<PriceVersionMigration[]> {
+  const { data, error } = await supabase
+    .from('price_version_migrations')
+    .select('*, student:students(id, name)')
+    .order('migrated_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(error.message || 'Failed to load price version history');
+  }
+
+  return data || [];
+}
+
+// Cohort-aware variants (get_variants_for_student). keepVariantId keeps the variant of a running
+// contract selectable after its student was moved to another price version.
+export async function getVariantsForStudent(studentId: string | null, keepVariantId?: string | null): Promise<ContractVariant[]> {
+  const { data, error } = await supabase.rpc('get_variants_for_student', { p_student_id: studentId });
+
+  if (error) {
+    throw new Error(error.message || 'Failed to load contract variants');
+  }
+
+  const variants: ContractVariant[] = data || [];
+  if (!keepVariantId || variants.some(v => v.id === keepVariantId)) {
+    return variants;
+  }
+
+  const { data: kept, error: keptError } = await supabase
+    .from('contract_variants')
+    .select('*')
+    .eq('id', keepVariantId)
+    .maybeSingle();
+
+  if (keptError) {
+    throw new Error(keptError.message || 'Failed to load contract variant');
+  }
+
+  return kept ? [...variants, kept] : variants;
+}
@@ -0,0 +1,28 @@
+import { supabase } from '@/lib/supabase';
+
+// Stores the browser's subscription for the signed-in user (takes over the endpoint
+// if the device was used by someone else before)
+export async function savePushSubscription(subscription: PushSubscription) {
+  const json = subscription.toJSON();
+  const { error } = await supabase.rpc('save_push_subscription', {
+    endpoint_param: subscription.endpoint,
+    p256dh_param: json.keys?.p256dh,
+    auth_param: json.keys?.auth,
+    user_agent_param: navigator.userAgent
+  });
+
+  if (error) {
+    throw new Error(error.message || 'Failed to save push subscription');
+  }
+}
+
+export async function deletePushSubscription(endpoint: string) {
+  const { error } = await supabase
+    .from('push_subscriptions')
+    .delete()
+    .eq('endpoint', endpoint);
+
+  if (error) {
+    throw new Error(error.message || 'Failed to delete push subscription');
+  }
+}
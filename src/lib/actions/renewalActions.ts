@@ -0,0 +1,85 @@
+import { supabase, ContractRenewal } from '@/lib/supabase';
+import { RENEWAL_LOOKAHEAD_DAYS } from '@/lib/renewals/contractRenewals';
+
+export type RenewalApprovalResult = {
+  renewal_id: string;
+  renewal_contract_id: string | null;
+  error: string | null;
+};
+
+// Adds proposals for term-limited contracts close to term_end; fulfilled contracts are proposed by trigger
+export async function proposeContractRenewals(daysAhead = RENEWAL_LOOKAHEAD_DAYS): Promise<number> {
+  const { data, error } = await supabase.rpc('propose_contract_renewals', {
+    p_days_ahead: daysAhead
+  });
+
+  if (error) {
+    throw new Error(error.message || 'Failed to propose contract renewals');
+  }
+
+  return data ?? 0;
+}
+
+export async function getContractRenewals(status: ContractRenewal['status'] = 'proposed'): Promise<ContractRenewal[]> {
+  const { data, error } = await supabase
+    .from('contract_renewals')
+    .select(`
+      *,
+      contract:contracts!contract_renewals_contract_id_fkey(
+        *,
+        student:students!fk_contracts_student_id(id, name, instrument, status, bank_id, price_version),
+        teacher:teachers!contracts_teacher_id_fkey(id, name, bank_id),
+        contract_variant:contract_variants(
+          id, name, duration_months, group_type, session_length_minutes, total_lessons,
+          monthly_price, one_time_price, price_version,
+          contract_category:contract_categories(id, name, display_name)
+        )
+      ),
+      proposed_variant:contract_variants(id, name, duration_months, monthly_price, one_time_price, price_version)
+    `)
+    .eq('status', status)
+    .order('due_date', { ascending: true });
+
+  if (error) {
+    throw new Error(error.message || 'Failed to load contract renewals');
+  }
+
+  return data || [];
+}
+
+export async function approveContractRenewals(renewalIds: string[]): Promise<RenewalApprovalResult[]> {
+  const { data, error } = await supabase.rpc('approve_contract_renewals', {
+    p_renewal_ids: renewalIds
+  });
+
+  if (error) {
+    throw new Error(error.message || 'Failed to approve contract renewals');
+  }
+
+  return data || [];
+}
+
+export async function dismissContractRenewal(renewalId: string) {
+  const { data: { user } } = await supabase.auth.getUser();
+
+  const { error } = await supabase
+    .from('contract_renewals')
+    .update({ status: 'dismissed', decided_by: user?.id || null, decided_at: new Date().toISOString() })
+    .eq('id', renewalId);
+
+  if (error) {
+    throw new Error(error.message || 'Failed to dismiss contract renewal');
+  }
+}
+
+// Records a follow-up that was created through the contract form
+export async function linkContractRenewal(previousContractId: string, renewalContractId: string) {
+  const { error } = await supabase.rpc('link_contract_renewal', {
+    p_previous_contract_id: previousContractId,
+    p_renewal_contract_id: renewalContractId
+  });
+
+  if (error) {
+    throw new Error(error.message || 'Failed to link follow-up contract');
+  }
+}
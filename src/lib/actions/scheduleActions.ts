@@ -0,0 +1,57 @@
+import { supabase } from '@/lib/supabase';
+
+export interface ScheduleConflict {
+  contract_id: string;
+  conflict_type: 'teacher' | 'room' | 'teacher_and_room';
+  student_name: string | null;
+  teacher_name: string | null;
+  room_name: string | null;
+  start_time: string;
+  duration_minutes: number;
+}
+
+export interface ScheduleConflictQuery {
+  weekday: number;
+  startTime: string;
+  durationMinutes: number;
+  teacherId?: string | null;
+  roomId?: string | null;
+  excludeContractId?: string | null;
+  contractVariantId?: string | null;
+}
+
+export async function getScheduleConflicts(query: ScheduleConflictQuery): Promise<ScheduleConflict[]> {
+  const { data, error } = await supabase.rpc('get_schedule_conflicts', {
+    p_weekday: query.weekday,
+    p_start_time: query.startTime,
+    p_duration_minutes: query.durationMinutes,
+    p_teacher_id: query.teacherId || null,
+    p_room_id: query.roomId || null,
+    p_exclude_contract_id: query.excludeContractId || null,
+    p_contract_variant_id: query.contractVariantId || null
+  });
+
+  if (error) {
+    throw new Error(error.message || 'Failed to check schedule conflicts');
+  }
+
+  return (data || []) as ScheduleConflict[];
+}
+
+export async function updateContractSchedule(
+  contractId: string,
+  weekday: number | null,
+  startTime: string | null,
+  roomId: string | null
+) {
+  const { error } = await supabase.rpc('update_contract_schedule', {
+    _contract_id: contractId,
+    _weekday: weekday,
+    _start_time: startTime,
+    _room_id: roomId
+  });
+
+  if (error) {
+    throw new Error(error.message || 'Failed to update contract schedule');
+  }
+}
@@ -0,0 +1,76 @@
+import { supabase, SchoolClosure } from '@/lib/supabase';
+import { ICalEvent, dedupeICalEvents } from '@/lib/calendar/parseICal';
+
+export type SchoolClosureInput = Pick<SchoolClosure, 'name' | 'kind' | 'start_date' | 'end_date'>;
+
+export async function getSchoolClosures(): Promise<SchoolClosure[]> {
+  const { data, error } = await supabase
+    .from('school_closures')
+    .select('*')
+    .order('start_date');
+
+  if (error) {
+    throw new Error(error.message || 'Failed to load school calendar');
+  }
+
+  return data || [];
+}
+
+export async function createSchoolClosure(closure: SchoolClosureInput) {
+  const { data: { user } } = await supabase.auth.getUser();
+  const { error } = await supabase
+    .from('school_closures')
+    .insert([{ ...closure, created_by: user?.id ?? null }]);
+
+  if (error) {
+    throw new Error(error.message || 'Failed to create closure');
+  }
+}
+
+export async function deleteSchoolClosure(id: string) {
+  const { error } = await supabase
+    .from('school_closures')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    throw new Error(error.message || 'Failed to delete closure');
+  }
+}
+
+// Events with a UID replace the previously imported version of the same event
+export async function importSchoolHolidays(events: ICalEvent[]) {
+  const { data: { user } } = await supabase.auth.getUser();
+  // One upsert must not touch the same row twice
+  const rows = dedupeICalEvents(events).map(event => ({
+    name: event.summary,
+    kind: 'school_holiday' as const,
+    start_date: event.start_date,
+    end_date: event.end_date,
+    ical_uid: event.uid,
+    created_by: user?.id ?? null,
+  }));
+
+  const withUid = rows.filter(row => row.ical_uid);
+  const withoutUid = rows.filter(row => !row.ical_uid);
+
+  if (withUid.length > 0) {
+    const { error } = await supabase
+      .from('school_closures')
+      .upsert(withUid, { onConflict: 'ical_uid' });
+    if (error) {
+      throw new Error(error.message || 'Failed to import school holidays');
+    }
+  }
+
+  if (withoutUid.length > 0) {
+    const { error } = await supabase
+      .from('school_closures')
+      .insert(withoutUid);
+    if (error) {
+      throw new Error(error.message || 'Failed to import school holidays');
+    }
+  }
+
+  return rows.length;
+}
@@ -0,0 +1,114 @@
+import { supabase, BankId, SepaSettings, SepaRun } from '@/lib/supabase';
+import { SepaCollectionItem, SepaSequenceType } from '@/lib/sepa/pain008';
+
+export interface StudentBankAccountInput {
+  account_holder_name: string;
+  iban: string;
+  bic: string;
+  mandate_reference: string;
+  mandate_date: string | null;
+}
+
+export interface SepaRunItem {
+  contract_id: string;
+  student_id: string | null;
+  bank_record_id: string | null;
+  amount: number;
+  sequence_type: SepaSequenceType;
+  end_to_end_id: string;
+}
+
+export async function getSepaSettings(): Promise<SepaSettings | null> {
+  const { data, error } = await supabase
+    .from('sepa_settings')
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message || 'Failed to load SEPA settings');
+  }
+
+  return data;
+}
+
+export async function saveSepaSettings(settings: Pick<SepaSettings, 'creditor_name' | 'creditor_iban' | 'creditor_bic' | 'creditor_id'>) {
+  const { error } = await supabase
+    .from('sepa_settings')
+    .upsert({ id: true, ...settings, updated_at: new Date().toISOString() });
+
+  if (error) {
+    throw new Error(error.message || 'Failed to save SEPA settings');
+  }
+}
+
+// month: any date inside the collection month (yyyy-MM-dd)
+export async function getSepaCollectionItems(month: string): Promise<SepaCollectionItem[]> {
+  const { data, error } = await supabase.rpc('get_sepa_collection_items', {
+    p_month: month
+  });
+
+  if (error) {
+    throw new Error(error.message || 'Failed to load direct debit items');
+  }
+
+  return (data || []) as SepaCollectionItem[];
+}
+
+export async function recordSepaRun(messageId: string, month: string, collectionDate: string, items: SepaRunItem[]) {
+  const { error } = await supabase.rpc('record_sepa_run', {
+    p_message_id: messageId,
+    p_month: month,
+    p_collection_date: collectionDate,
+    p_items: items
+  });
+
+  if (error) {
+    throw new Error(error.message || 'Failed to record direct debit run');
+  }
+}
+
+export async function getSepaRuns(): Promise<SepaRun[]> {
+  const { data, error } = await supabase
+    .from('sepa_runs')
+    .select('id, message_id, period_month, collection_date, transaction_count, control_sum, created_by, created_at')
+    .order('created_at', { ascending: false })
+    .limit(24);
+
+  if (error) {
+    throw new Error(error.message || 'Failed to load direct debit runs');
+  }
+
+  return data || [];
+}
+
+export async function getStudentBankAccount(studentId: string): Promise<BankId | null> {
+  const { data, error } = await supabase
+    .from('bank_ids')
+    .select('*')
+    .eq('entity_type', 'student')
+    .eq('entity_id', studentId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message || 'Failed to load bank account');
+  }
+
+  return data;
+}
+
+export async function saveStudentBankAccount(studentId: string, account: StudentBankAccountInput) {
+  const { error } = await supabase.rpc('save_student_bank_account', {
+    _student_id: studentId,
+    _account_holder_name: account.account_holder_name,
+    _iban: account.iban,
+    _bic: account.bic,
+    _mandate_reference: account.mandate_reference,
+    _mandate_date: account.mandate_date
+  });
+
+  if (error) {
+    throw new Error(error.message || 'Failed to save bank account');
+  }
+}
@@ -0,0 +1,165 @@
+import { supabase, ContractCategory, ContractVariant, ContractDiscount } from '@/lib/supabase';
+
+export interface TariffCatalogue {
+  categories: ContractCategory[];
+  variants: ContractVariant[];
+  discounts: ContractDiscount[];
+  currentPriceVersion: number | null;
+}
+
+// Optional fields are sent as null so they can be cleared on update
+export interface ContractCategoryInput {
+  id?: string;
+  name: string;
+  display_name: string;
+  description: string | null;
+}
+
+export interface ContractVariantInput {
+  id?: string;
+  contract_category_id: string;
+  name: string;
+  group_type: ContractVariant['group_type'];
+  duration_months: number | null;
+  session_length_minutes: number | null;
+  total_lessons: number | null;
+  monthly_price: number | null;
+  one_time_price: number | null;
+  notes: string | null;
+  price_version: number | null;
+}
+
+export interface ContractDiscountInput {
+  id?: string;
+  name: string;
+  discount_percent: number;
+  conditions: string | null;
+}
+
+export type TariffTable = 'contract_categories' | 'contract_variants' | 'contract_discounts';
+
+// Unlike the contract forms this loads inactive entries and all price versions as well
+export async function getTariffCatalogue(): Promise<TariffCatalogue> {
+  const [categories, variants, discounts, settings] = await Promise.all([
+    supabase.from('contract_categories').select('*').order('display_name'),
+    supabase.from('contract_variants').select('*').order('name'),
+    supabase.from('contract_discounts').select('*').order('name'),
+    supabase.from('pricing_settings').select('current_price_version').maybeSingle(),
+  ]);
+
+  const error = categories.error || variants.error || discounts.error || settings.error;
+  if (error) {
+    throw new Error(error.message || 'Failed to load tariffs');
+  }
+
+  return {
+    categories: categories.data || [],
+    variants: variants.data || [],
+    discounts: discounts.data || [],
+    currentPriceVersion: settings.data?.current_price_version ?? null,
+  };
+}
+
+export async function saveContractCategory({ id, ...category }: ContractCategoryInput) {
+  const { error } = id
+    ? await supabase.from('contract_categories').update(category).eq('id', id)
+    : await supabase.from('contract_categories').insert([category]);
+
+  if (error) {
+    throw new Error(error.message || 'Failed to save contract category');
+  }
+}
+
+export async function saveContractVariant({ id, ...variant }: ContractVariantInput) {
+  const { error } = id
+    ? await supabase.from('contract_variants').update(variant).eq('id', id)
+    : await supabase.from('contract_variants').insert([variant]);
+
+  if (error) {
+    throw new Error(error.message || 'Failed to save contract variant');
+  }
+}
+
+export async function saveContractDiscount({ id, ...discount }: ContractDiscountInput) {
+  const { error } = id
+    ? await supabase.from('contract_discounts').update(discount).eq('id', id)
+    : await supabase.from('contract_discounts').insert([discount]);
+
+  if (error) {
+    throw new Error(error.message || 'Failed to save contract discount');
+  }
+}
+
+export async function setTariffActive(table: TariffTable, id: string, isActive: boolean) {
+  const { error } = await supabase
+    .from(table)
+    .update({ is_active: isActive })
+    .eq('id', id);
+
+  if (error) {
+    throw new Error(error.message || 'Failed to update status');
+  }
+}
+
+// Entries that are still referenced can only be deactivated, so existing contracts keep their pricing
+export async function deleteTariff(table: TariffTable, id: string) {
+  if (table === 'contract_categories') {
+    // Variants cascade with their category, so only empty categories may go
+    const { count, error } = await supabase
+      .from('contract_variants')
+      .select('id', { count: 'exact', head: true })
+      .eq('contract_category_id', id);
+
+    if (error) {
+      throw new Error(error.message || 'Failed to check contract category');
+    }
+    if (count) {
+      throw new Error('Die Kategorie enthält noch Varianten. Bitte deaktivieren statt löschen.');
+    }
+  }
+
+  if (table === 'contract_discounts') {
+    // discount_ids is an array without foreign key
+    const { count, error } = await supabase
+      .from('contracts')
+      .select('id', { count: 'exact', head: true })
+      .contains('discount_ids', [id]);
+
+    if (error) {
+      throw new Error(error.message || 'Failed to check contract discount');
+    }
+    if (count) {
+      throw new Error('Der Rabatt wird in Verträgen verwendet. Bitte deaktivieren statt löschen.');
+    }
+  }
+
+  const { error } = await supabase
+    .from(table)
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    // contract_variant_id is ON DELETE RESTRICT
+    if (error.code === '23503') {
+      throw new Error('Der Eintrag wird in Verträgen verwendet. Bitte deaktivieren statt löschen.');
+    }
+    throw new Error(error.message || 'Failed to delete entry');
+  }
+}
+
+export async function publishPriceVersion(priceChangePercent: number): Promise<{ price_version: number; variants_copied: number }> {
+  const { data, error } = await supabase.rpc('publish_price_version', {
+    p_price_change_percent: priceChangePercent
+  });
+
+  if (error) {
+    throw new Error(error.message || 'Failed to publish price version');
+  }
+
+  const result = Array.isArray(data) ? data[0] : data;
+  if (!result) {
+    throw new Error('Failed to publish price version');
+  }
+
+  return result;
+}
@@ -0,0 +1,119 @@
+import { supabase, TrialOutcome } from '@/lib/supabase';
+import { FunnelTrial } from '@/lib/trials/trialFunnel';
+
+export interface TrialScheduleInput {
+  scheduled_at: string | null;
+  duration_minutes: number;
+  room_id: string | null;
+  location: string | null;
+  proposed_slots: string[];
+}
+
+// Date, place and proposed slots; allowed for admins and the teacher of the trial
+export async function scheduleTrial(trialId: string, input: TrialScheduleInput) {
+  const { error } = await supabase.rpc('schedule_trial', {
+    p_trial_id: trialId,
+    p_scheduled_at: input.scheduled_at,
+    p_duration_minutes: input.duration_minutes,
+    p_room_id: input.room_id,
+    p_location: input.location,
+    p_proposed_slots: input.proposed_slots
+  });
+
+  if (error) {
+    throw new Error(error.message || 'Failed to schedule trial appointment');
+  }
+}
+
+export async function setTrialOutcome(trialId: string, outcome: TrialOutcome, note?: string | null) {
+  const { error } = await supabase.rpc('set_trial_outcome', {
+    p_trial_id: trialId,
+    p_outcome: outcome,
+    p_note: note || null
+  });
+
+  if (error) {
+    throw new Error(error.message || 'Failed to save trial outcome');
+  }
+}
+
+export interface TrialConversionInput {
+  name: string;
+  instrument: string;
+  email: string | null;
+  phone: string | null;
+}
+
+// Creates the student of an accepted trial; a trial converted before returns its student
+export async function convertTrialToStudent(trialId: string, input: TrialConversionInput): Promise<string> {
+  const { data, error } = await supabase.rpc('convert_trial_to_student', {
+    p_trial_id: trialId,
+    p_name: input.name,
+    p_instrument: input.instrument,
+    p_email: input.email,
+    p_phone: input.phone
+  });
+
+  if (error) {
+    throw new Error(error.message || 'Failed to convert trial appointment');
+  }
+
+  return data as string;
+}
+
+// Links the first contract of the converted student back to the trial (funnel reporting)
+export async function linkTrialContract(trialId: string, contractId: string) {
+  const { error } = await supabase.rpc('link_trial_contract', {
+    p_trial_id: trialId,
+    p_contract_id: contractId
+  });
+
+  if (error) {
+    throw new Error(error.message || 'Failed to link contract to trial appointment');
+  }
+}
+
+// Trials requested since the given date with declines and the resulting contract (funnel analytics)
+export async function getTrialFunnelData(since: string): Promise<FunnelTrial[]> {
+  const { data, error } = await supabase
+    .from('trial_appointments')
+    .select(`
+      id, student_name, instrument, status, teacher_id, created_at, assigned_at, accepted_at,
+      scheduled_at, outcome, student_id, contract_id, converted_at,
+      declines:trial_declines(id, trial_appointment_id, teacher_id, reason, note, declined_at),
+      contract:contracts!trial_appointments_contract_id_fkey(id, status, final_price)
+    `)
+    .gte('created_at', since)
+    .order('created_at');
+
+  if (error) {
+    throw new Error(error.message || 'Failed to load trial funnel');
+  }
+
+  return (data || []) as unknown as FunnelTrial[];
+}
+
+export interface TrialRequestInput {
+  student_name: string;
+  instrument: string;
+  email: string;
+  phone: string;
+  preferred_times: string;
+  message: string;
+  consent: boolean;
+  consent_text: string;
+  // spam protection: honeypot field and time since the form was shown
+  website: string;
+  elapsed_ms: number;
+}
+
+// Public request from /probestunde, stored as open trial appointment by the edge function trial-request
+export async function submitTrialRequest(input: TrialRequestInput) {
+  const { error } = await supabase.functions.invoke('trial-request', { body: input });
+
+  if (error) {
+    // Validation and rate limit errors come with a readable message
+    const body = await (error as { context?: Response }).context?.json().catch(() => null);
+    throw new Error(body?.error || error.message || 'Failed to submit trial request');
+  }
+}
@@ -0,0 +1,105 @@
+// lib/audit/auditLog.ts
+// Display helpers for audit_log rows. The DB stores raw column values; labels
+// for the columns users actually edit live here, everything else falls back to the column name.
+import { format, parseISO } from 'date-fns';
+import { de } from 'date-fns/locale';
+import { AuditAction, AuditLogEntry, AuditTable } from '@/lib/supabase';
+
+export const AUDIT_TABLES: AuditTable[] = ['students', 'teachers', 'contracts', 'lessons', 'trial_appointments', 'contract_discounts'];
+
+export const AUDIT_TABLE_LABELS: Record<AuditTable, string> = {
+  students: 'Schüler',
+  teachers: 'Lehrer',
+  contracts: 'Verträge',
+  lessons: 'Stunden',
+  trial_appointments: 'Probestunden',
+  contract_discounts: 'Ermäßigungen',
+};
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  insert: 'Angelegt',
+  update: 'Geändert',
+  delete: 'Gelöscht',
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  name: 'Name',
+  student_name: 'Name',
+  instrument: 'Instrument',
+  email: 'E-Mail',
+  phone: 'Telefon',
+  status: 'Status',
+  bank_id: 'Bank-ID',
+  teacher_id: 'Lehrer',
+  student_id: 'Schüler',
+  contract_variant_id: 'Vertragsvariante',
+  discount_ids: 'Ermäßigungen',
+  custom_discount_percent: 'Individuelle Ermäßigung',
+  final_price: 'Endpreis',
+  payment_type: 'Zahlungsart',
+  billing_cycle: 'Abrechnung',
+  term_start: 'Laufzeit ab',
+  term_end: 'Laufzeit bis',
+  cancelled_at: 'Gekündigt am',
+  paid_at: 'Bezahlt am',
+  private_notes: 'Notizen',
+  schedule_weekday: 'Wochentag',
+  schedule_start_time: 'Uhrzeit',
+  room_id: 'Raum',
+  lesson_number: 'Stunde',
+  date: 'Datum',
+  planned_date: 'Geplant am',
+  comment: 'Kommentar',
+  is_available: 'Verfügbar',
+  cancellation_reason: 'Ausfallgrund',
+  scheduled_at: 'Termin',
+  location: 'Ort',
+  outcome: 'Ergebnis',
+  outcome_note: 'Notiz zum Ergebnis',
+  preferred_times: 'Wunschzeiten',
+  message: 'Nachricht',
+  discount_percent: 'Ermäßigung (%)',
+  conditions: 'Bedingungen',
+  is_active: 'Aktiv',
+  price_version: 'Preisversion',
+};
+
+// Bookkeeping columns that would only clutter a created/deleted entry
+const HIDDEN_FIELDS = new Set(['id', 'created_at', 'created_by', 'profile_id']);
+
+export interface AuditChange {
+  field: string;
+  label: string;
+  before: string;
+  after: string;
+}
+
+export const getFieldLabel = (field: string) => FIELD_LABELS[field] ?? field;
+
+export function fmtAuditValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '–';
+  if (typeof value === 'boolean') return value ? 'Ja' : 'Nein';
+  if (Array.isArray(value)) return value.length ? value.map(fmtAuditValue).join(', ') : '–';
+  if (typeof value === 'object') return JSON.stringify(value);
+
+  const text = String(value);
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) return format(parseISO(text), 'dd.MM.yyyy');
+  if (/^\d{4}-\d{2}-\d{2}T/.test(text)) return format(parseISO(text), 'dd.MM.yyyy HH:mm', { locale: de });
+  return text;
+}
+
+export function getAuditChanges(entry: AuditLogEntry): AuditChange[] {
+  return entry.changed_fields
+    .filter(field => entry.action === 'update' || !HIDDEN_FIELDS.has(field))
+    .map(field => ({
+      field,
+      label: getFieldLabel(field),
+      before: fmtAuditValue(entry.old_data?.[field]),
+      after: fmtAuditValue(entry.new_data?.[field]),
+    }))
+    // created/deleted entries only list the columns that carry a value
+    .filter(change => entry.action === 'update' || (entry.action === 'insert' ? change.after : change.before) !== '–');
+}
+
+export const fmtAuditTime = (createdAt: string) =>
+  format(parseISO(createdAt), 'dd.MM.yyyy HH:mm', { locale: de });
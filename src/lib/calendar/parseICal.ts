@@ -0,0 +1,67 @@
+// lib/calendar/parseICal.ts
+// Reads all-day events (VEVENT) from an iCal file, e.g. the school holidays of a federal state.
+import { addDays, format, parseISO } from 'date-fns';
+
+export type ICalEvent = {
+  uid: string | null;
+  summary: string;
+  start_date: string;
+  // inclusive, unlike DTEND in iCal
+  end_date: string;
+};
+
+// Continuation lines start with a space or tab (RFC 5545 line folding)
+const unfold = (text: string) => text.replace(/\r?\n[ \t]/g, '');
+
+const unescapeText = (value: string) =>
+  value.replace(/\\n/gi, ' ').replace(/\\([,;\\])/g, '$1').trim();
+
+// 20251027 or 20251027T000000Z -> 2025-10-27
+const parseICalDate = (value: string) => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+};
+
+export function parseICal(text: string): ICalEvent[] {
+  const events: ICalEvent[] = [];
+  let current: Record<string, string> | null = null;
+
+  for (const line of unfold(text.replace(/^\uFEFF/, '')).split(/\r?\n/).map(l => l.trimEnd())) {
+    if (line === 'BEGIN:VEVENT') {
+      current = {};
+      continue;
+    }
+    if (line === 'END:VEVENT') {
+      const start = current?.DTSTART ? parseICalDate(current.DTSTART) : null;
+      if (current && start) {
+        const end = current.DTEND ? parseICalDate(current.DTEND) : null;
+        // All-day DTEND is exclusive; events without DTEND last one day
+        const endDate = end && end > start ? format(addDays(parseISO(end), -1), 'yyyy-MM-dd') : start;
+        events.push({
+          uid: current.UID || null,
+          summary: unescapeText(current.SUMMARY || '') || 'Ferien',
+          start_date: start,
+          end_date: endDate,
+        });
+      }
+      current = null;
+      continue;
+    }
+    if (!current) continue;
+
+    // NAME;PARAM=...:VALUE
+    const separator = line.indexOf(':');
+    if (separator < 0) continue;
+    const name = line.slice(0, separator).split(';')[0].toUpperCase();
+    current[name] = line.slice(separator + 1);
+  }
+
+  return events;
+}
+
+// A feed may list a UID more than once (e.g. changed occurrences); the last entry wins.
+// Events without UID are kept as they are.
+export function dedupeICalEvents(events: ICalEvent[]): ICalEvent[] {
+  const byUid = new Map(events.filter(event => event.uid).map(event => [event.uid, event]));
+  return events.filter(event => !event.uid || byUid.get(event.uid) === event);
+}
@@ -0,0 +1,44 @@
+// lib/calendar/schoolCalendar.ts
+// Holidays and closure days. Mirrors plan_contract_lessons in the DB: a weekly slot
+// moves on to the next week whenever its date falls into a closure.
+import { addDays, format, getISODay, parseISO } from 'date-fns';
+import { SchoolClosure } from '@/lib/supabase';
+
+export const CLOSURE_KIND_LABELS: Record<SchoolClosure['kind'], string> = {
+  school_holiday: 'Schulferien',
+  public_holiday: 'Feiertag',
+  closure: 'Schließtag',
+};
+
+type ClosureRange = Pick<SchoolClosure, 'start_date' | 'end_date'>;
+
+export const isClosedOn = (date: string, closures: ClosureRange[]) =>
+  closures.some(c => date >= c.start_date && date <= c.end_date);
+
+// First date on or after `start` that falls on the ISO weekday (1 = Monday)
+const firstWeekdayOnOrAfter = (start: string, weekday: number) => {
+  const date = parseISO(start);
+  return addDays(date, (weekday - getISODay(date) + 7) % 7);
+};
+
+// Dates of `count` weekly lessons from `start`, skipping closures
+export function getLessonDates(start: string, weekday: number, count: number, closures: ClosureRange[]) {
+  const dates: string[] = [];
+  let cursor = firstWeekdayOnOrAfter(start, weekday);
+  // a closure can never cover more than a few years; guards against bad data
+  for (let week = 0; dates.length < count && week < count + 520; week++) {
+    const date = format(cursor, 'yyyy-MM-dd');
+    if (!isClosedOn(date, closures)) dates.push(date);
+    cursor = addDays(cursor, 7);
+  }
+  return dates;
+}
+
+// Number of weekly lesson dates between start and end (inclusive) outside of closures
+export function countLessonDates(start: string, end: string, weekday: number, closures: ClosureRange[]) {
+  let count = 0;
+  for (let cursor = firstWeekdayOnOrAfter(start, weekday); format(cursor, 'yyyy-MM-dd') <= end; cursor = addDays(cursor, 7)) {
+    if (!isClosedOn(format(cursor, 'yyyy-MM-dd'), closures)) count++;
+  }
+  return count;
+}
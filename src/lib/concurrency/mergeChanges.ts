@@ -0,0 +1,81 @@
+// lib/concurrency/mergeChanges.ts
+// Three-way merge for saves rejected because another user changed the row in between:
+// base is the row as it was loaded, mine the form values, theirs the row now in the DB.
+// Fields only one side changed merge on their own; fields both sides changed differently
+// are conflicts the user decides.
+import { getFieldLabel } from '@/lib/audit/auditLog';
+
+export interface FieldChange {
+  key: string;
+  field: string;
+  label: string;
+  mine: unknown;
+  theirs: unknown;
+}
+
+export interface MergeResult<T> {
+  merged: T;
+  conflicts: FieldChange[];
+  theirChanges: FieldChange[];
+}
+
+export type ConflictChoice = 'mine' | 'theirs';
+
+// Forms and the DB spell "no value" and dates differently ('' vs null, date vs timestamptz)
+const normalize = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return 'null';
+  if (Array.isArray(value)) return value.length ? JSON.stringify([...value].map(String).sort()) : 'null';
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value)) return value.slice(0, 10);
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return JSON.stringify(value);
+};
+
+export const sameValue = (a: unknown, b: unknown) => normalize(a) === normalize(b);
+
+// keyPrefix keeps keys unique when several rows are merged at once (lessons of a contract)
+export function mergeChanges<T extends Record<string, unknown>>(
+  base: T,
+  mine: T,
+  theirs: Partial<T>,
+  { keyPrefix = '', labelPrefix = '' } = {}
+): MergeResult<T> {
+  const merged = { ...mine };
+  const conflicts: FieldChange[] = [];
+  const theirChanges: FieldChange[] = [];
+
+  for (const field of Object.keys(mine) as (keyof T & string)[]) {
+    if (!(field in theirs) || sameValue(base[field], theirs[field])) continue;
+
+    const change: FieldChange = {
+      key: `${keyPrefix}${field}`,
+      field,
+      label: `${labelPrefix}${getFieldLabel(field)}`,
+      mine: mine[field],
+      theirs: theirs[field],
+    };
+
+    if (sameValue(base[field], mine[field])) {
+      merged[field] = theirs[field] as T[typeof field];
+      theirChanges.push(change);
+    } else if (!sameValue(mine[field], theirs[field])) {
+      conflicts.push(change);
+    }
+  }
+
+  return { merged, conflicts, theirChanges };
+}
+
+// Conflicts default to the user's own value
+export function applyConflictChoices<T extends Record<string, unknown>>(
+  merged: T,
+  conflicts: FieldChange[],
+  choices: Record<string, ConflictChoice>
+): T {
+  const result = { ...merged };
+  conflicts.forEach(conflict => {
+    if (choices[conflict.key] === 'theirs') {
+      result[conflict.field as keyof T] = conflict.theirs as T[keyof T];
+    }
+  });
+  return result;
+}
@@ -0,0 +1,98 @@
+// lib/export/entityColumns.ts
+// Flat column definitions for exporting students, teachers and contracts.
+import { Student, Teacher, Contract, ContractDiscount } from '@/lib/supabase';
+import { ExportColumn } from './exportRows';
+import { formatSlot } from '@/lib/schedule/weeklySchedule';
+import { getGroupTypeLabel } from '@/lib/payroll/teacherPayroll';
+
+const activeContract = (student: Student) =>
+  student.contracts?.find(c => c.status === 'active') || student.contracts?.[0];
+
+export const studentExportColumns: ExportColumn<Student>[] = [
+  { header: 'Name', value: s => s.name },
+  { header: 'Instrument', value: s => s.instrument },
+  { header: 'E-Mail', value: s => s.email },
+  { header: 'Telefon', value: s => s.phone },
+  { header: 'Status', value: s => (s.status === 'active' ? 'Aktiv' : 'Inaktiv') },
+  { header: 'Bank-ID', value: s => s.bank_id },
+  { header: 'Lehrer', value: s => Array.from(new Set((s.contracts || []).map(c => c.teacher?.name).filter(Boolean))).join(', ') },
+  { header: 'Aktueller Vertrag', value: s => activeContract(s)?.contract_variant?.name },
+  { header: 'Anzahl Verträge', value: s => s.contracts?.length ?? 0 },
+  { header: 'Angelegt am', value: s => s.created_at?.slice(0, 10) },
+];
+
+export const teacherExportColumns: ExportColumn<Teacher>[] = [
+  { header: 'Name', value: t => t.name },
+  { header: 'E-Mail', value: t => t.email },
+  { header: 'Telefon', value: t => t.phone },
+  { header: 'Instrumente', value: t => (Array.isArray(t.instrument) ? t.instrument.join(', ') : t.instrument) },
+  { header: 'Schüler', value: t => t.student_count },
+  { header: 'Bank-ID', value: t => t.bank_id },
+  { header: 'Angelegt am', value: t => t.created_at?.slice(0, 10) },
+];
+
+// Same rule as the contract progress bar: unavailable lessons are not counted
+const getLessonProgress = (contract: Contract) => {
+  const lessons = contract.lessons || [];
+  const available = lessons.filter(l => l.is_available !== false);
+  return {
+    completed: available.filter(l => l.date).length,
+    total: available.length,
+    unavailable: lessons.length - available.length,
+  };
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export function buildContractExportColumns(discounts: ContractDiscount[]): ExportColumn<Contract>[] {
+  const appliedDiscounts = (contract: Contract) =>
+    (contract.discount_ids || [])
+      .map(id => discounts.find(d => d.id === id))
+      .filter((d): d is ContractDiscount => !!d);
+
+  const basePrice = (contract: Contract) =>
+    contract.contract_variant?.monthly_price ?? contract.contract_variant?.one_time_price ?? null;
+
+  return [
+    { header: 'Vertrags-ID', value: c => c.id },
+    { header: 'Schüler', value: c => c.student?.name },
+    { header: 'Schüler Bank-ID', value: c => c.student?.bank_id },
+    { header: 'Instrument', value: c => c.student?.instrument },
+    { header: 'Lehrer', value: c => c.teacher?.name },
+    { header: 'Lehrer Bank-ID', value: c => c.teacher?.bank_id },
+    { header: 'Status', value: c => (c.status === 'active' ? 'Aktiv' : 'Abgeschlossen') },
+    { header: 'Kategorie', value: c => c.contract_variant?.contract_category?.display_name || c.type },
+    { header: 'Variante', value: c => c.contract_variant?.name },
+    { header: 'Unterrichtsform', value: c => (c.contract_variant ? getGroupTypeLabel(c.contract_variant.group_type) : null) },
+    { header: 'Einheit (Min.)', value: c => c.contract_variant?.session_length_minutes },
+    { header: 'Laufzeit (Monate)', value: c => c.contract_variant?.duration_months },
+    { header: 'Zahlungsart', value: c => (c.payment_type === 'monthly' ? 'Monatlich' : c.payment_type === 'one_time' ? 'Einmalig' : null) },
+    { header: 'Abrechnung', value: c => (c.billing_cycle === 'monthly' ? 'Monatlich' : c.billing_cycle === 'upfront' ? 'Im Voraus' : null) },
+    { header: 'Grundpreis (€)', value: basePrice },
+    { header: 'Rabatte', value: c => appliedDiscounts(c).map(d => `${d.name} (${d.discount_percent}%)`).join(', ') },
+    { header: 'Individueller Rabatt (%)', value: c => c.custom_discount_percent || null },
+    {
+      header: 'Rabatt gesamt (%)',
+      value: c => Math.min(100, appliedDiscounts(c).reduce((sum, d) => sum + d.discount_percent, 0) + (c.custom_discount_percent || 0)),
+    },
+    { header: 'Endpreis (€)', value: c => (c.final_price != null ? round2(c.final_price) : basePrice(c)) },
+    { header: 'Vertragsbeginn', value: c => c.term_start?.slice(0, 10) },
+    { header: 'Vertragsende', value: c => c.term_end?.slice(0, 10) },
+    { header: 'Erste Zahlung', value: c => c.first_payment_date?.slice(0, 10) },
+    { header: 'Bezahlt am', value: c => c.paid_at?.slice(0, 10) },
+    { header: 'Gekündigt am', value: c => c.cancelled_at?.slice(0, 10) },
+    { header: 'Stundenplan', value: c => formatSlot(c) },
+    { header: 'Raum', value: c => c.room?.name },
+    { header: 'Stunden erteilt', value: c => getLessonProgress(c).completed },
+    { header: 'Stunden gesamt', value: c => getLessonProgress(c).total },
+    { header: 'Ausgefallen', value: c => getLessonProgress(c).unavailable },
+    {
+      header: 'Fortschritt (%)',
+      value: c => {
+        const { completed, total } = getLessonProgress(c);
+        return total > 0 ? Math.round((completed / total) * 100) : 0;
+      },
+    },
+    { header: 'Angelegt am', value: c => c.created_at?.slice(0, 10) },
+  ];
+}
@@ -0,0 +1,78 @@
+// lib/export/exportRows.ts
+// Writes table rows as CSV (Excel-compatible), XLSX or JSON and triggers the download.
+import writeXlsxFile from 'write-excel-file';
+import { format } from 'date-fns';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json';
+
+export type ExportValue = string | number | null | undefined;
+
+export type ExportColumn<T> = {
+  header: string;
+  value: (row: T) => ExportValue;
+};
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'xlsx', label: 'Excel (XLSX)' },
+  { value: 'json', label: 'JSON' },
+];
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Text starting like a formula (e.g. a name entered as "=HYPERLINK(...)") would be run by
+// Excel; the apostrophe makes it plain text. Numbers and phone numbers ("+49 89 …") stay as
+// they are. importRows strips the apostrophe again.
+const isFormulaLike = (value: string) => /^[=+\-@\t\r]/.test(value) && !/^[+-]?[\d\s()/.-]+$/.test(value);
+
+const escapeCsv = (value: ExportValue) => {
+  if (value === null || value === undefined) return '';
+  // German Excel expects a decimal comma
+  const text = typeof value === 'number'
+    ? String(value).replace('.', ',')
+    : isFormulaLike(value) ? `'${value}` : value;
+  return /[";\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function toCsv<T>(rows: T[], columns: ExportColumn<T>[]): string {
+  const lines = [
+    columns.map(c => escapeCsv(c.header)).join(';'),
+    ...rows.map(row => columns.map(c => escapeCsv(c.value(row))).join(';')),
+  ];
+  // BOM so Excel detects UTF-8 (umlauts)
+  return '\uFEFF' + lines.join('\r\n');
+}
+
+export async function exportRows<T>(rows: T[], columns: ExportColumn<T>[], exportFormat: ExportFormat, baseName: string) {
+  const fileName = `${baseName}_${format(new Date(), 'yyyy-MM-dd')}.${exportFormat}`;
+
+  if (exportFormat === 'csv') {
+    downloadBlob(new Blob([toCsv(rows, columns)], { type: 'text/csv;charset=utf-8' }), fileName);
+    return;
+  }
+
+  if (exportFormat === 'json') {
+    const data = rows.map(row => Object.fromEntries(columns.map(c => [c.header, c.value(row) ?? null])));
+    downloadBlob(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }), fileName);
+    return;
+  }
+
+  await writeXlsxFile(
+    [
+      columns.map(c => ({ value: c.header, fontWeight: 'bold' as const })),
+      ...rows.map(row => columns.map(c => {
+        const value = c.value(row);
+        if (value === null || value === undefined || value === '') return null;
+        return typeof value === 'number' ? { type: Number, value } : { type: String, value };
+      })),
+    ],
+    { fileName, stickyRowsCount: 1 }
+  );
+}
@@ -0,0 +1,285 @@
+// lib/import/importRows.ts
+// Column mapping, validation and dry-run diff for the admin import wizard.
+import { Student, Teacher, ContractVariant, ContractCategory } from '@/lib/supabase';
+import { INSTRUMENTS } from '@/lib/constants';
+
+export type ImportEntity = 'students' | 'teachers' | 'contracts';
+
+export type ImportField = {
+  key: string;
+  label: string;
+  required?: boolean;
+  // lower-case header names that are mapped automatically
+  aliases: string[];
+};
+
+export const IMPORT_ENTITIES: { value: ImportEntity; label: string }[] = [
+  { value: 'students', label: 'Schüler' },
+  { value: 'teachers', label: 'Lehrer' },
+  { value: 'contracts', label: 'Verträge' },
+];
+
+export const IMPORT_FIELDS: Record<ImportEntity, ImportField[]> = {
+  students: [
+    { key: 'name', label: 'Name', required: true, aliases: ['name', 'schüler', 'schueler', 'student'] },
+    { key: 'instrument', label: 'Instrument', required: true, aliases: ['instrument', 'fach'] },
+    { key: 'email', label: 'E-Mail', aliases: ['email', 'e-mail', 'mail'] },
+    { key: 'phone', label: 'Telefon', aliases: ['phone', 'telefon', 'tel', 'handy'] },
+    { key: 'status', label: 'Status', aliases: ['status'] },
+  ],
+  teachers: [
+    { key: 'name', label: 'Name', required: true, aliases: ['name', 'lehrer', 'lehrkraft', 'teacher'] },
+    { key: 'email', label: 'E-Mail', required: true, aliases: ['email', 'e-mail', 'mail'] },
+    { key: 'instrument', label: 'Instrumente', required: true, aliases: ['instrument', 'instrumente', 'fächer', 'faecher'] },
+    { key: 'phone', label: 'Telefon', aliases: ['phone', 'telefon', 'tel', 'handy'] },
+  ],
+  contracts: [
+    { key: 'student', label: 'Schüler (Name oder E-Mail)', required: true, aliases: ['schüler', 'schueler', 'student', 'name'] },
+    { key: 'teacher', label: 'Lehrer (Name oder E-Mail)', required: true, aliases: ['lehrer', 'lehrkraft', 'teacher'] },
+    { key: 'variant', label: 'Vertragsvariante', required: true, aliases: ['vertrag', 'vertragsvariante', 'variante', 'tarif'] },
+    { key: 'category', label: 'Vertragskategorie', aliases: ['kategorie', 'vertragskategorie'] },
+    { key: 'discount', label: 'Rabatt (%)', aliases: ['rabatt', 'rabatt %', 'rabatt (%)', 'discount'] },
+    { key: 'billing_cycle', label: 'Zahlweise', aliases: ['zahlweise', 'abrechnung', 'billing'] },
+    { key: 'term_start', label: 'Vertragsbeginn', aliases: ['beginn', 'vertragsbeginn', 'start'] },
+    { key: 'first_payment_date', label: 'Erste Zahlung', aliases: ['erste zahlung', 'erstzahlung'] },
+  ],
+};
+
+// field key -> column index (or -1 for "not imported")
+export type ColumnMapping = Record<string, number>;
+
+export function autoMapColumns(entity: ImportEntity, headers: string[]): ColumnMapping {
+  const normalized = headers.map(h => h.trim().toLowerCase());
+  const mapping: ColumnMapping = {};
+  IMPORT_FIELDS[entity].forEach(field => {
+    mapping[field.key] = normalized.findIndex(h => field.aliases.includes(h));
+  });
+  return mapping;
+}
+
+export type ImportLookup = {
+  students: Pick<Student, 'id' | 'name' | 'email' | 'phone' | 'instrument' | 'status'>[];
+  teachers: Pick<Teacher, 'id' | 'name' | 'email' | 'phone' | 'instrument'>[];
+  variants: (Pick<ContractVariant, 'id' | 'name' | 'monthly_price' | 'one_time_price'> & {
+    contract_category?: Pick<ContractCategory, 'id' | 'name' | 'display_name'> | null;
+  })[];
+  // student_id -> contract_variant_id of the active contract
+  activeContracts: { student_id: string; contract_variant_id: string | null }[];
+};
+
+export type ImportChange = { field: string; from: string; to: string };
+
+export type ImportRowResult = {
+  rowNumber: number; // 1-based line in the file incl. header
+  action: 'create' | 'update' | 'unchanged' | 'error';
+  label: string;
+  existingId?: string;
+  changes: ImportChange[];
+  errors: string[];
+  warnings: string[];
+  // data as it will be written
+  payload: Record<string, unknown>;
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const normalize = (value?: string | null) => (value || '').trim().toLowerCase();
+
+// Maps "klavier" to "Klavier"; unknown values are kept as custom instrument ("andere")
+export function matchInstrument(value: string): { instrument: string; known: boolean } {
+  const match = INSTRUMENTS.find(i => i !== 'andere' && normalize(i) === normalize(value));
+  return match ? { instrument: match, known: true } : { instrument: value.trim(), known: false };
+}
+
+const parseDate = (value: string): string | null => {
+  const trimmed = value.trim();
+  if (/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) return trimmed;
+  const german = trimmed.match(/^(\d{1,2})\.(\d{1,2})\.(\d{4})$/);
+  if (german) {
+    return `${german[3]}-${german[2].padStart(2, '0')}-${german[1].padStart(2, '0')}`;
+  }
+  return null;
+};
+
+const diff = (existing: Record<string, unknown>, next: Record<string, unknown>, labels: Record<string, string>) =>
+  Object.keys(next)
+    .filter(key => String(existing[key] ?? '') !== String(next[key] ?? ''))
+    .map(key => ({ field: labels[key] || key, from: String(existing[key] ?? ''), to: String(next[key] ?? '') }));
+
+const findPerson = <T extends { name: string; email?: string | null }>(list: T[], value: string) => {
+  const key = normalize(value);
+  const byEmail = list.filter(p => normalize(p.email) === key);
+  if (byEmail.length) return byEmail;
+  return list.filter(p => normalize(p.name) === key);
+};
+
+export function validateImportRows(
+  entity: ImportEntity,
+  rows: string[][],
+  mapping: ColumnMapping,
+  lookup: ImportLookup
+): ImportRowResult[] {
+  // Cells exported by toCsv may carry an apostrophe in front of formula-like text
+  const get = (row: string[], key: string) =>
+    (mapping[key] >= 0 ? (row[mapping[key]] ?? '').trim() : '').replace(/^'(?=[=+\-@])/, '');
+  const labels = Object.fromEntries(IMPORT_FIELDS[entity].map(f => [f.key, f.label]));
+  const seen = new Set<string>();
+
+  return rows.map((row, index) => {
+    const result: ImportRowResult = {
+      rowNumber: index + 2,
+      action: 'create',
+      label: '',
+      changes: [],
+      errors: [],
+      warnings: [],
+      payload: {},
+    };
+
+    IMPORT_FIELDS[entity]
+      .filter(field => field.required && !get(row, field.key))
+      .forEach(field => result.errors.push(`${field.label} ist erforderlich`));
+
+    if (entity === 'students' || entity === 'teachers') {
+      const name = get(row, 'name');
+      const email = get(row, 'email');
+      const phone = get(row, 'phone');
+      result.label = name;
+
+      if (email && !EMAIL_PATTERN.test(email)) {
+        result.errors.push('E-Mail-Adresse ist ungültig');
+      }
+
+      const payload: Record<string, unknown> = { name, email: email || null, phone: phone || null };
+
+      if (entity === 'students') {
+        const { instrument, known } = matchInstrument(get(row, 'instrument'));
+        if (get(row, 'instrument') && !known) result.warnings.push(`"${instrument}" wird als eigenes Instrument übernommen`);
+        payload.instrument = instrument;
+
+        const status = normalize(get(row, 'status'));
+        if (!status || ['active', 'aktiv'].includes(status)) payload.status = 'active';
+        else if (['inactive', 'inaktiv'].includes(status)) payload.status = 'inactive';
+        else result.errors.push(`Unbekannter Status "${get(row, 'status')}"`);
+      } else {
+        const instruments = get(row, 'instrument').split(/[,;/]/).map(v => v.trim()).filter(Boolean);
+        const matched = instruments.map(matchInstrument);
+        matched.filter(m => !m.known).forEach(m => result.warnings.push(`"${m.instrument}" wird als eigenes Instrument übernommen`));
+        payload.instrument = matched.map(m => m.instrument);
+      }
+
+      // Existing records are matched by e-mail first, then by exact name
+      const list: { id: string; name: string; email?: string | null }[] = entity === 'students' ? lookup.students : lookup.teachers;
+      const matches = email ? findPerson(list, email) : findPerson(list, name);
+      const duplicateKey = normalize(email || name);
+      if (duplicateKey && seen.has(duplicateKey)) {
+        result.errors.push('Doppelter Eintrag in der Datei');
+      }
+      seen.add(duplicateKey);
+
+      if (matches.length > 1) {
+        result.errors.push('Mehrere bestehende Einträge passen – bitte E-Mail angeben');
+      } else if (matches.length === 1) {
+        const existing = matches[0] as unknown as Record<string, unknown>;
+        result.existingId = matches[0].id;
+        // Updates only touch fields the file fills; missing columns and empty cells keep the
+        // stored value (defaults like status 'active' are for new records only)
+        Object.keys(payload)
+          .filter(key => !get(row, key))
+          .forEach(key => delete payload[key]);
+        const comparable = entity === 'teachers'
+          ? { ...existing, instrument: ((existing.instrument as string[]) || []).join(', ') }
+          : existing;
+        const next = entity === 'teachers' && payload.instrument
+          ? { ...payload, instrument: (payload.instrument as string[]).join(', ') }
+          : payload;
+        result.changes = diff(comparable, next, labels);
+        result.action = result.changes.length ? 'update' : 'unchanged';
+      }
+
+      result.payload = payload;
+    } else {
+      const studentMatches = findPerson(lookup.students, get(row, 'student'));
+      const teacherMatches = findPerson(lookup.teachers, get(row, 'teacher'));
+      const variantName = normalize(get(row, 'variant'));
+      const categoryName = normalize(get(row, 'category'));
+      const variants = lookup.variants.filter(v =>
+        normalize(v.name) === variantName &&
+        (!categoryName ||
+          normalize(v.contract_category?.name) === categoryName ||
+          normalize(v.contract_category?.display_name) === categoryName)
+      );
+      result.label = get(row, 'student');
+
+      if (get(row, 'student')) {
+        if (studentMatches.length === 0) result.errors.push('Schüler nicht gefunden – bitte zuerst Schüler importieren');
+        if (studentMatches.length > 1) result.errors.push('Schüler nicht eindeutig – bitte E-Mail angeben');
+      }
+      if (get(row, 'teacher')) {
+        if (teacherMatches.length === 0) result.errors.push('Lehrer nicht gefunden');
+        if (teacherMatches.length > 1) result.errors.push('Lehrer nicht eindeutig – bitte E-Mail angeben');
+      }
+      if (variantName) {
+        if (variants.length === 0) result.errors.push(`Vertragsvariante "${get(row, 'variant')}" nicht gefunden`);
+        if (variants.length > 1) result.errors.push('Vertragsvariante nicht eindeutig – bitte Kategorie angeben');
+      }
+
+      let discount: number | null = null;
+      if (get(row, 'discount')) {
+        discount = Number(get(row, 'discount').replace('%', '').replace(',', '.'));
+        if (isNaN(discount) || discount < 0 || discount > 100) {
+          result.errors.push('Rabatt muss zwischen 0 und 100 liegen');
+        }
+      }
+
+      let billingCycle: 'monthly' | 'upfront' | null = null;
+      const cycle = normalize(get(row, 'billing_cycle'));
+      if (['monthly', 'monatlich'].includes(cycle)) billingCycle = 'monthly';
+      else if (['upfront', 'einmalig', 'im voraus'].includes(cycle)) billingCycle = 'upfront';
+      else if (cycle) result.errors.push(`Unbekannte Zahlweise "${get(row, 'billing_cycle')}"`);
+
+      const termStart = get(row, 'term_start') ? parseDate(get(row, 'term_start')) : null;
+      if (get(row, 'term_start') && !termStart) result.errors.push('Vertragsbeginn ist kein gültiges Datum');
+      const firstPayment = get(row, 'first_payment_date') ? parseDate(get(row, 'first_payment_date')) : null;
+      if (get(row, 'first_payment_date') && !firstPayment) result.errors.push('Erste Zahlung ist kein gültiges Datum');
+
+      const student = studentMatches.length === 1 ? studentMatches[0] : undefined;
+      const variant = variants.length === 1 ? variants[0] : undefined;
+      if (student) {
+        result.label = student.name;
+        const active = lookup.activeContracts.find(c => c.student_id === student.id);
+        if (active && active.contract_variant_id === variant?.id) {
+          result.action = 'unchanged';
+        } else if (active) {
+          result.errors.push('Schüler hat bereits einen aktiven Vertrag');
+        }
+        if (seen.has(student.id)) result.errors.push('Mehrere Verträge für denselben Schüler in der Datei');
+        seen.add(student.id);
+      }
+
+      if (variant && result.action !== 'unchanged') {
+        result.changes = [
+          { field: 'Vertrag', from: '', to: [variant.contract_category?.display_name, variant.name].filter(Boolean).join(' – ') },
+          ...(teacherMatches.length === 1 ? [{ field: 'Lehrer', from: '', to: teacherMatches[0].name }] : []),
+          ...(discount ? [{ field: 'Rabatt', from: '', to: `${discount}%` }] : []),
+        ];
+      }
+
+      result.payload = {
+        student_id: student?.id,
+        teacher_id: teacherMatches.length === 1 ? teacherMatches[0].id : undefined,
+        contract_variant_id: variant?.id,
+        category_name: variant?.contract_category?.name || '',
+        custom_discount_percent: discount && discount > 0 ? discount : null,
+        billing_cycle: billingCycle,
+        term_start: termStart,
+        first_payment_date: billingCycle !== 'upfront' ? firstPayment : null,
+      };
+    }
+
+    if (result.errors.length) {
+      result.action = 'error';
+    }
+    return result;
+  });
+}
@@ -0,0 +1,95 @@
+// lib/import/parseImportFile.ts
+// Reads CSV and XLSX files into a header row plus string cells.
+import readXlsxFile from 'read-excel-file';
+import { format } from 'date-fns';
+
+export type ImportTable = {
+  headers: string[];
+  rows: string[][];
+};
+
+// Detects ';' (German Excel default), ',' or tab from the header line
+const detectDelimiter = (text: string) => {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const candidates = [';', ',', '\t'];
+  return candidates.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  , ';');
+};
+
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(content);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+const cellToString = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return format(value, 'yyyy-MM-dd');
+  return String(value);
+};
+
+export async function parseImportFile(file: File): Promise<ImportTable> {
+  const name = file.name.toLowerCase();
+  let cells: string[][];
+
+  if (name.endsWith('.xlsx')) {
+    const rows = await readXlsxFile(file);
+    cells = rows.map(row => row.map(cellToString));
+  } else if (name.endsWith('.csv') || name.endsWith('.txt')) {
+    cells = parseCsv(await file.text());
+  } else {
+    throw new Error('Nur CSV- und XLSX-Dateien werden unterstützt');
+  }
+
+  const nonEmpty = cells
+    .map(row => row.map(cell => cell.trim()))
+    .filter(row => row.some(cell => cell !== ''));
+
+  if (nonEmpty.length < 2) {
+    throw new Error('Die Datei enthält keine Datenzeilen');
+  }
+
+  const [headers, ...rows] = nonEmpty;
+  return {
+    headers,
+    rows: rows.map(row => headers.map((_, index) => row[index] ?? '')),
+  };
+}
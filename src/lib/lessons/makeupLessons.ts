@@ -0,0 +1,24 @@
+// lib/lessons/makeupLessons.ts
+// Cancellation reasons and makeup credits (Nachholstunden). Whether a reason grants a credit is
+// decided by the makeup_rules table; the credit itself is created in the database.
+import { format } from 'date-fns';
+import { Lesson, LessonCancellationReason, LessonMakeupCredit } from '@/lib/supabase';
+
+export const CANCELLATION_REASON_LABELS: Record<LessonCancellationReason, string> = {
+  student: 'Abgesagt durch Schüler',
+  teacher: 'Abgesagt durch Lehrkraft',
+  school: 'Ausfall Schule/Ferien',
+  no_show: 'Unentschuldigt gefehlt',
+};
+
+export const CANCELLATION_REASONS = Object.keys(CANCELLATION_REASON_LABELS) as LessonCancellationReason[];
+
+export function isCreditOpen(credit?: Pick<LessonMakeupCredit, 'used_at' | 'expires_on'> | null) {
+  if (!credit || credit.used_at) return false;
+  return !credit.expires_on || credit.expires_on >= format(new Date(), 'yyyy-MM-dd');
+}
+
+// Cancelled lessons of a contract for which a makeup lesson is still owed
+export function getOwedMakeupLessons<T extends Pick<Lesson, 'is_available' | 'makeup_credit'>>(lessons?: T[] | null) {
+  return (lessons || []).filter(lesson => lesson.is_available === false && isCreditOpen(lesson.makeup_credit));
+}
@@ -0,0 +1,133 @@
+// lib/offline/lessonQueue.ts
+// Local queue for lesson edits made without a connection (teachers logging lessons on their
+// phone in rooms without reception). Entries live in localStorage until they are synced via
+// batch_update_lessons; the last loaded lessons per contract are cached so the tracker still
+// opens offline.
+import { Lesson, LessonCancellationReason } from '@/lib/supabase';
+
+export type LessonValues = {
+  date: string;
+  comment: string;
+  is_available: boolean;
+  cancellation_reason: LessonCancellationReason | null;
+};
+
+export type QueuedLessonStatus = 'pending' | 'syncing' | 'conflict' | 'error';
+
+export interface QueuedLessonEdit {
+  lesson_id: string;
+  contract_id: string;
+  lesson_number: number;
+  profile_id: string;
+  // Values as loaded (base) and as edited; both are needed to merge a conflict later
+  base: LessonValues;
+  values: LessonValues;
+  version?: number;
+  // Cancellation notice requested with the offline save; sent after the sync
+  cancellation_notice?: { reason: string | null };
+  status: QueuedLessonStatus;
+  error?: string;
+  queued_at: string;
+}
+
+export const QUEUE_STATUS_LABELS: Record<QueuedLessonStatus, string> = {
+  pending: 'Wartet auf Verbindung',
+  syncing: 'Wird synchronisiert',
+  conflict: 'Konflikt',
+  error: 'Fehler beim Synchronisieren',
+};
+
+// Fired on the window whenever the queue changes in this tab
+export const LESSON_QUEUE_EVENT = 'lesson-queue-change';
+
+const QUEUE_KEY = 'lesson-queue';
+const CACHE_KEY_PREFIX = 'lesson-cache:';
+
+const read = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+const writeQueue = (entries: QueuedLessonEdit[]) => {
+  localStorage.setItem(QUEUE_KEY, JSON.stringify(entries));
+  window.dispatchEvent(new Event(LESSON_QUEUE_EVENT));
+};
+
+export const getQueuedLessonEdits = (contractId?: string): QueuedLessonEdit[] => {
+  const entries = read<QueuedLessonEdit[]>(QUEUE_KEY, []);
+  return contractId ? entries.filter(e => e.contract_id === contractId) : entries;
+};
+
+// A newer edit of the same lesson replaces the queued one but keeps its original base,
+// so a conflict is still detected against the version first loaded
+export const queueLessonEdits = (edits: Omit<QueuedLessonEdit, 'status' | 'queued_at'>[]) => {
+  const entries = getQueuedLessonEdits();
+  const queuedAt = new Date().toISOString();
+
+  edits.forEach(edit => {
+    const existing = entries.findIndex(e => e.lesson_id === edit.lesson_id);
+    const entry: QueuedLessonEdit = { ...edit, status: 'pending', queued_at: queuedAt };
+    if (existing >= 0) {
+      // A requested notice stays as long as the lesson remains cancelled
+      const cancellationNotice = entry.values.is_available
+        ? undefined
+        : entry.cancellation_notice ?? entries[existing].cancellation_notice;
+      entries[existing] = {
+        ...entry,
+        base: entries[existing].base,
+        version: entries[existing].version,
+        cancellation_notice: cancellationNotice
+      };
+    } else {
+      entries.push(entry);
+    }
+  });
+
+  writeQueue(entries);
+};
+
+export const updateQueuedLessonEdits = (
+  lessonIds: string[],
+  patch: Partial<Pick<QueuedLessonEdit, 'status' | 'error' | 'queued_at'>>
+) => {
+  writeQueue(getQueuedLessonEdits().map(e => (lessonIds.includes(e.lesson_id) ? { ...e, ...patch } : e)));
+};
+
+export const removeQueuedLessonEdits = (lessonIds: string[]) => {
+  const entries = getQueuedLessonEdits();
+  if (!entries.some(e => lessonIds.includes(e.lesson_id))) return;
+  writeQueue(entries.filter(e => !lessonIds.includes(e.lesson_id)));
+};
+
+// Failed entries are only sent again on request
+export const retryQueuedLessonEdits = (lessonIds: string[]) =>
+  updateQueuedLessonEdits(lessonIds, { status: 'pending', error: undefined, queued_at: new Date().toISOString() });
+
+// On sign-out: queued edits and cached lessons contain student data and must not stay
+// on a shared device
+export const clearLessonQueue = () => {
+  Object.keys(localStorage)
+    .filter(key => key === QUEUE_KEY || key.startsWith(CACHE_KEY_PREFIX))
+    .forEach(key => localStorage.removeItem(key));
+  window.dispatchEvent(new Event(LESSON_QUEUE_EVENT));
+};
+
+export const cacheContractLessons = (contractId: string, lessons: Lesson[]) => {
+  try {
+    localStorage.setItem(`${CACHE_KEY_PREFIX}${contractId}`, JSON.stringify(lessons));
+  } catch (error) {
+    // Storage full: the tracker then only opens online
+    console.error('Error caching lessons:', error);
+  }
+};
+
+export const getCachedContractLessons = (contractId: string): Lesson[] | null =>
+  read<Lesson[] | null>(`${CACHE_KEY_PREFIX}${contractId}`, null);
+
+// supabase-js reports a dropped connection as a fetch TypeError message, not an HTTP status
+export const isNetworkError = (message?: string | null) =>
+  !navigator.onLine || /failed to fetch|networkerror|load failed|network request failed/i.test(message ?? '');
@@ -0,0 +1,80 @@
+// lib/payroll/teacherPayroll.ts
+import { PayrollSession, ContractVariant } from '@/lib/supabase';
+
+export type GroupType = ContractVariant['group_type'];
+
+export const GROUP_TYPES: { value: GroupType; label: string }[] = [
+  { value: 'single', label: 'Einzelunterricht' },
+  { value: 'duo', label: 'Zweierunterricht' },
+  { value: 'group', label: 'Gruppenunterricht' },
+  { value: 'varies', label: 'Variiert' },
+];
+
+export const getGroupTypeLabel = (groupType: string) =>
+  GROUP_TYPES.find(g => g.value === groupType)?.label ?? groupType;
+
+export type PayrollLine = {
+  group_type: GroupType;
+  hourly_rate: number | null;
+  sessions: number;
+  minutes: number;
+  amount: number;
+};
+
+export type TeacherPayrollStatement = {
+  teacher_id: string;
+  teacher_name: string;
+  month: string; // yyyy-MM
+  sessions: PayrollSession[];
+  lines: PayrollLine[];
+  totalSessions: number;
+  totalMinutes: number;
+  totalAmount: number;
+  // sessions without a configured rate are paid with 0 until a rate exists
+  missingRateSessions: number;
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export function buildPayrollStatements(sessions: PayrollSession[], month: string): TeacherPayrollStatement[] {
+  const byTeacher = new Map<string, PayrollSession[]>();
+  sessions.forEach(session => {
+    const list = byTeacher.get(session.teacher_id) || [];
+    list.push(session);
+    byTeacher.set(session.teacher_id, list);
+  });
+
+  return Array.from(byTeacher.entries())
+    .map(([teacherId, teacherSessions]) => {
+      const lines = new Map<string, PayrollLine>();
+      teacherSessions.forEach(session => {
+        const rate = session.hourly_rate == null ? null : Number(session.hourly_rate);
+        const key = `${session.group_type}|${rate ?? ''}`;
+        const line = lines.get(key) || { group_type: session.group_type, hourly_rate: rate, sessions: 0, minutes: 0, amount: 0 };
+        line.sessions += 1;
+        line.minutes += session.minutes;
+        line.amount = round2(line.amount + Number(session.amount));
+        lines.set(key, line);
+      });
+
+      const lineList = Array.from(lines.values());
+      return {
+        teacher_id: teacherId,
+        teacher_name: teacherSessions[0].teacher_name,
+        month,
+        sessions: teacherSessions,
+        lines: lineList,
+        totalSessions: teacherSessions.length,
+        totalMinutes: lineList.reduce((sum, line) => sum + line.minutes, 0),
+        totalAmount: round2(lineList.reduce((sum, line) => sum + line.amount, 0)),
+        missingRateSessions: teacherSessions.filter(s => s.hourly_rate == null).length,
+      };
+    })
+    .sort((a, b) => a.teacher_name.localeCompare(b.teacher_name, 'de'));
+}
+
+export const formatMinutesAsHours = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest ? `${hours} Std. ${rest} Min.` : `${hours} Std.`;
+};
@@ -1,7 +1,10 @@
 import jsPDF from 'jspdf';
-import { Contract, Lesson, ContractDiscount } from './supabase';
+import { Contract, Lesson, ContractDiscount, Invoice } from './supabase';
 import { format } from 'date-fns';
 import { de } from 'date-fns/locale';
+import { TeacherPayrollStatement, getGroupTypeLabel, formatMinutesAsHours } from './payroll/teacherPayroll';
+import { getStudentGuardians } from './actions/guardianActions';
+import { getContractPartner, GUARDIAN_ROLE_LABELS } from './students/guardians';
 
 export interface PDFContractData extends Contract {
   lessons?: Lesson[];
@@ -114,6 +117,29 @@ export const generateContractPDF = async (
     
     let yPosition = 45;
 
+    // Addressee: the guardian flagged as contract partner, otherwise the student. A failed
+    // lookup aborts the PDF rather than addressing a minor's contract to the student.
+    const guardians = contract.student?.guardians
+      ?? (contract.student_id ? await getStudentGuardians(contract.student_id) : []);
+    const contractPartner = getContractPartner(guardians);
+
+    doc.setFontSize(11);
+    doc.setFont('helvetica', 'bold');
+    doc.text(contractPartner?.name || contract.student?.name || 'Unbekannt', 20, yPosition);
+    doc.setFont('helvetica', 'normal');
+    yPosition += 5;
+    if (contractPartner) {
+      if (contractPartner.address) {
+        yPosition = addWrappedText(contractPartner.address, 20, yPosition, 90, 11) + 1;
+      }
+      doc.setTextColor(lightGray);
+      doc.setFontSize(10);
+      doc.text(`${GUARDIAN_ROLE_LABELS[contractPartner.role]}, Vertragspartner für ${contract.student?.name || 'Unbekannt'}`, 20, yPosition);
+      doc.setTextColor(darkGray);
+      yPosition += 5;
+    }
+    yPosition += 8;
+
     // Contract Information Section
     doc.setFontSize(18);
     doc.setFont('helvetica', 'bold');
@@ -603,4 +629,292 @@ export const generateContractPDF = async (
     console.error('Error generating PDF:', error);
     throw new Error('Fehler beim Generieren der PDF-Datei');
   }
-};
\ No newline at end of file
+};
+
+export interface PDFInvoiceData extends Invoice {
+  contract?: Contract;
+}
+
+export const generateInvoicePDF = async (invoice: PDFInvoiceData): Promise<void> => {
+  try {
+    const doc = new jsPDF();
+
+    const darkGray = '#374151';
+    const lightGray = '#6b7280';
+
+    const formatDate = (dateString?: string | null) => {
+      if (!dateString) return '-';
+      const date = new Date(dateString);
+      if (isNaN(date.getTime())) return '-';
+      return format(date, 'dd.MM.yyyy', { locale: de });
+    };
+
+    const formatAmount = (amount: number) =>
+      `${Number(amount).toFixed(2).replace('.', ',')} €`;
+
+    // Header
+    doc.setFillColor(237, 59, 113); // Brand primary color
+    doc.rect(0, 0, 210, 30, 'F');
+
+    doc.setTextColor(255, 255, 255);
+    doc.setFontSize(22);
+    doc.setFont('helvetica', 'bold');
+    doc.text('Musikakademie München', 20, 18);
+
+    doc.setFontSize(14);
+    doc.setFont('helvetica', 'normal');
+    doc.text('Rechnung', 20, 26);
+
+    doc.setTextColor(darkGray);
+
+    let yPosition = 45;
+    const leftColumn = 20;
+    const rightColumn = 130;
+
+    // Recipient
+    doc.setFontSize(9);
+    doc.setTextColor(lightGray);
+    doc.text('Rechnungsempfänger', leftColumn, yPosition);
+    doc.setTextColor(darkGray);
+    doc.setFontSize(12);
+    doc.setFont('helvetica', 'bold');
+    doc.text(invoice.recipient_name, leftColumn, yPosition + 7);
+    doc.setFont('helvetica', 'normal');
+
+    // Invoice meta
+    doc.setFontSize(10);
+    const meta = [
+      ['Rechnungsnr.:', invoice.invoice_number],
+      ['Rechnungsdatum:', formatDate(invoice.issue_date)],
+      ['Fällig am:', formatDate(invoice.due_date)],
+    ];
+    meta.forEach(([label, value], index) => {
+      doc.setFont('helvetica', 'bold');
+      doc.text(label, rightColumn, yPosition + index * 7);
+      doc.setFont('helvetica', 'normal');
+      doc.text(value, rightColumn + 32, yPosition + index * 7);
+    });
+
+    yPosition += 35;
+
+    doc.setFontSize(18);
+    doc.setFont('helvetica', 'bold');
+    doc.text(`Rechnung ${invoice.invoice_number}`, leftColumn, yPosition);
+    yPosition += 12;
+
+    // Line item table
+    doc.setFillColor(245, 245, 245);
+    doc.rect(20, yPosition - 5, 170, 10, 'F');
+    doc.setFontSize(10);
+    doc.text('Leistung', 25, yPosition + 2);
+    doc.text('Zeitraum', 115, yPosition + 2);
+    doc.text('Betrag', 185, yPosition + 2, { align: 'right' });
+    yPosition += 12;
+
+    doc.setFont('helvetica', 'normal');
+    const descriptionLines = doc.splitTextToSize(invoice.description, 85);
+    doc.text(descriptionLines, 25, yPosition);
+    const period = invoice.period_end
+      ? `${formatDate(invoice.period_start)} – ${formatDate(invoice.period_end)}`
+      : `ab ${formatDate(invoice.period_start)}`;
+    doc.text(period, 115, yPosition);
+    doc.text(formatAmount(invoice.amount), 185, yPosition, { align: 'right' });
+    yPosition += descriptionLines.length * 5 + 6;
+
+    const teacherName = invoice.contract?.teacher?.name;
+    if (teacherName) {
+      doc.setTextColor(lightGray);
+      doc.text(`Lehrkraft: ${teacherName}`, 25, yPosition);
+      doc.setTextColor(darkGray);
+      yPosition += 8;
+    }
+
+    // Total
+    doc.setDrawColor(229, 231, 235);
+    doc.line(20, yPosition, 190, yPosition);
+    yPosition += 8;
+    doc.setFontSize(12);
+    doc.setFont('helvetica', 'bold');
+    doc.text('Gesamtbetrag', 115, yPosition);
+    doc.setTextColor(237, 59, 113);
+    doc.text(formatAmount(invoice.amount), 185, yPosition, { align: 'right' });
+    doc.setTextColor(darkGray);
+    yPosition += 20;
+
+    // Payment note
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'normal');
+    let paymentText: string;
+    if (invoice.status === 'paid') {
+      paymentText = `Der Betrag wurde am ${formatDate(invoice.paid_at)} beglichen. Vielen Dank!`;
+    } else if (invoice.status === 'cancelled') {
+      paymentText = `Diese Rechnung wurde am ${formatDate(invoice.cancelled_at)} storniert.`;
+    } else {
+      paymentText = `Bitte überweisen Sie den Betrag bis zum ${formatDate(invoice.due_date)} unter Angabe der Rechnungsnummer ${invoice.invoice_number}.`;
+    }
+    const paymentLines = doc.splitTextToSize(paymentText, 170);
+    doc.text(paymentLines, leftColumn, yPosition);
+
+    // Footer
+    doc.setFontSize(8);
+    doc.setTextColor(lightGray);
+    doc.setDrawColor(229, 231, 235);
+    doc.line(20, 285, 190, 285);
+    doc.text(`Rechnung ${invoice.invoice_number}`, 20, 292);
+    doc.text(`Generiert am ${format(new Date(), 'dd.MM.yyyy HH:mm', { locale: de })}`, 100, 292);
+    doc.text('Musikakademie München', 160, 292);
+
+    const recipientName = invoice.recipient_name.replace(/[^a-zA-Z0-9]/g, '_') || 'Unbekannt';
+    doc.save(`Rechnung_${invoice.invoice_number}_${recipientName}.pdf`);
+  } catch (error) {
+    console.error('Error generating invoice PDF:', error);
+    throw new Error('Fehler beim Generieren der Rechnung');
+  }
+};
+
+export const generatePayrollPDF = async (statement: TeacherPayrollStatement): Promise<void> => {
+  try {
+    const doc = new jsPDF();
+
+    const darkGray = '#374151';
+    const lightGray = '#6b7280';
+
+    const formatAmount = (amount: number) =>
+      `${Number(amount).toFixed(2).replace('.', ',')} €`;
+
+    const monthLabel = format(new Date(`${statement.month}-01`), 'MMMM yyyy', { locale: de });
+
+    const drawHeader = () => {
+      doc.setFillColor(237, 59, 113); // Brand primary color
+      doc.rect(0, 0, 210, 30, 'F');
+
+      doc.setTextColor(255, 255, 255);
+      doc.setFontSize(22);
+      doc.setFont('helvetica', 'bold');
+      doc.text('Musikakademie München', 20, 18);
+
+      doc.setFontSize(14);
+      doc.setFont('helvetica', 'normal');
+      doc.text('Honorarabrechnung', 20, 26);
+
+      doc.setTextColor(darkGray);
+    };
+
+    drawHeader();
+
+    let yPosition = 45;
+    const leftColumn = 20;
+
+    doc.setFontSize(9);
+    doc.setTextColor(lightGray);
+    doc.text('Lehrkraft', leftColumn, yPosition);
+    doc.setTextColor(darkGray);
+    doc.setFontSize(12);
+    doc.setFont('helvetica', 'bold');
+    doc.text(statement.teacher_name, leftColumn, yPosition + 7);
+
+    doc.setFontSize(10);
+    doc.text('Zeitraum:', 130, yPosition);
+    doc.setFont('helvetica', 'normal');
+    doc.text(monthLabel, 152, yPosition);
+
+    yPosition += 25;
+
+    // Summary per group type and rate
+    doc.setFontSize(14);
+    doc.setFont('helvetica', 'bold');
+    doc.text('Übersicht', leftColumn, yPosition);
+    yPosition += 8;
+
+    doc.setFillColor(245, 245, 245);
+    doc.rect(20, yPosition - 5, 170, 10, 'F');
+    doc.setFontSize(10);
+    doc.text('Unterrichtsform', 25, yPosition + 2);
+    doc.text('Einheiten', 85, yPosition + 2);
+    doc.text('Zeit', 110, yPosition + 2);
+    doc.text('Satz/Std.', 145, yPosition + 2);
+    doc.text('Betrag', 185, yPosition + 2, { align: 'right' });
+    yPosition += 12;
+
+    doc.setFont('helvetica', 'normal');
+    statement.lines.forEach(line => {
+      doc.text(getGroupTypeLabel(line.group_type), 25, yPosition);
+      doc.text(String(line.sessions), 85, yPosition);
+      doc.text(formatMinutesAsHours(line.minutes), 110, yPosition);
+      doc.text(line.hourly_rate == null ? 'kein Satz' : formatAmount(line.hourly_rate), 145, yPosition);
+      doc.text(formatAmount(line.amount), 185, yPosition, { align: 'right' });
+      yPosition += 7;
+    });
+
+    doc.setDrawColor(229, 231, 235);
+    doc.line(20, yPosition, 190, yPosition);
+    yPosition += 8;
+    doc.setFontSize(12);
+    doc.setFont('helvetica', 'bold');
+    doc.text('Honorar gesamt', 110, yPosition);
+    doc.setTextColor(237, 59, 113);
+    doc.text(formatAmount(statement.totalAmount), 185, yPosition, { align: 'right' });
+    doc.setTextColor(darkGray);
+    yPosition += 16;
+
+    // Session list
+    doc.setFontSize(14);
+    doc.text('Unterrichtseinheiten', leftColumn, yPosition);
+    yPosition += 8;
+
+    const drawSessionHeader = () => {
+      doc.setFillColor(245, 245, 245);
+      doc.rect(20, yPosition - 5, 170, 10, 'F');
+      doc.setFontSize(10);
+      doc.setFont('helvetica', 'bold');
+      doc.text('Datum', 25, yPosition + 2);
+      doc.text('Schüler', 50, yPosition + 2);
+      doc.text('Vertrag', 115, yPosition + 2);
+      doc.text('Min.', 160, yPosition + 2);
+      doc.text('Betrag', 185, yPosition + 2, { align: 'right' });
+      yPosition += 12;
+      doc.setFont('helvetica', 'normal');
+    };
+
+    drawSessionHeader();
+
+    statement.sessions.forEach(session => {
+      const studentLines: string[] = doc.splitTextToSize(session.student_names || '-', 60);
+      const variantLines: string[] = doc.splitTextToSize(session.variant_name || '-', 42);
+      const rowHeight = Math.max(studentLines.length, variantLines.length) * 5 + 2;
+
+      if (yPosition + rowHeight > 275) {
+        doc.addPage();
+        yPosition = 20;
+        drawSessionHeader();
+      }
+
+      doc.setFontSize(9);
+      doc.text(format(new Date(session.session_date), 'dd.MM.yyyy', { locale: de }), 25, yPosition);
+      doc.text(studentLines, 50, yPosition);
+      doc.text(variantLines, 115, yPosition);
+      doc.text(String(session.minutes), 160, yPosition);
+      doc.text(formatAmount(session.amount), 185, yPosition, { align: 'right' });
+      yPosition += rowHeight;
+    });
+
+    // Footer on every page
+    const pageCount = doc.getNumberOfPages();
+    for (let page = 1; page <= pageCount; page++) {
+      doc.setPage(page);
+      doc.setFontSize(8);
+      doc.setTextColor(lightGray);
+      doc.setDrawColor(229, 231, 235);
+      doc.line(20, 285, 190, 285);
+      doc.text(`Honorarabrechnung ${monthLabel} – Seite ${page}/${pageCount}`, 20, 292);
+      doc.text(`Generiert am ${format(new Date(), 'dd.MM.yyyy HH:mm', { locale: de })}`, 100, 292);
+      doc.text('Musikakademie München', 160, 292);
+    }
+
+    const teacherName = statement.teacher_name.replace(/[^a-zA-Z0-9]/g, '_') || 'Unbekannt';
+    doc.save(`Honorar_${statement.month}_${teacherName}.pdf`);
+  } catch (error) {
+    console.error('Error generating payroll PDF:', error);
+    throw new Error('Fehler beim Generieren der Honorarabrechnung');
+  }
+};
@@ -0,0 +1,164 @@
+// lib/pricing/priceVersionRollout.ts
+// Price-version cohorts and the revenue impact of moving students to another version.
+// Running contracts keep their price; the delta applies to the next contract (renewal).
+import { Contract, ContractDiscount, ContractVariant, Student } from '@/lib/supabase';
+
+export type RolloutStudent = Pick<Student, 'id' | 'name' | 'status' | 'price_version'>;
+
+export type RolloutContract = Pick<Contract,
+  'id' | 'student_id' | 'contract_variant_id' | 'discount_ids' | 'custom_discount_percent' | 'final_price' | 'payment_type'
+>;
+
+export type PriceVersionSummary = {
+  price_version: number | null;
+  students: number;
+  active_students: number;
+  active_contracts: number;
+  monthly_revenue: number;
+};
+
+export type RolloutContractImpact = {
+  contract_id: string;
+  variant_name: string;
+  successor_name: string | null; // NULL if the target version has no matching variant
+  payment_type: 'monthly' | 'one_time';
+  current_price: number;
+  new_price: number | null;
+  delta: number;
+};
+
+export type RolloutStudentImpact = {
+  student: RolloutStudent;
+  contracts: RolloutContractImpact[];
+  monthly_delta: number;
+  one_time_delta: number;
+  has_missing_successor: boolean;
+};
+
+export type RolloutSimulation = {
+  to_version: number;
+  students: RolloutStudentImpact[];
+  monthly_delta: number;
+  one_time_delta: number;
+  missing_successors: number;
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const basePrice = (variant: ContractVariant) =>
+  Number(variant.monthly_price ?? variant.one_time_price ?? 0);
+
+// Same rule as calculateContractPrice: discounts add up, capped at 100%
+export const getDiscountPercent = (contract: RolloutContract, discounts: ContractDiscount[]) => {
+  const listed = (contract.discount_ids || [])
+    .map(id => discounts.find(d => d.id === id)?.discount_percent || 0)
+    .reduce((sum, percent) => sum + Number(percent), 0);
+  return Math.min(100, listed + Number(contract.custom_discount_percent || 0));
+};
+
+// Variants are copied per version, so the counterpart shares the category and, ideally, the name;
+// otherwise the variant with the same shape (group type, length, duration, lessons) is used
+export function findSuccessorVariant(variant: ContractVariant, variants: ContractVariant[], toVersion: number) {
+  const candidates = variants.filter(v =>
+    v.is_active &&
+    v.price_version === toVersion &&
+    v.contract_category_id === variant.contract_category_id
+  );
+
+  return candidates.find(v => v.name === variant.name) ||
+    candidates.find(v =>
+      v.group_type === variant.group_type &&
+      (v.session_length_minutes ?? null) === (variant.session_length_minutes ?? null) &&
+      (v.duration_months ?? null) === (variant.duration_months ?? null) &&
+      (v.total_lessons ?? null) === (variant.total_lessons ?? null)
+    ) ||
+    null;
+}
+
+export function summarizePriceVersions(students: RolloutStudent[], contracts: RolloutContract[]): PriceVersionSummary[] {
+  const summaries = new Map<number | null, PriceVersionSummary>();
+  const versionByStudent = new Map(students.map(s => [s.id, s.price_version ?? null]));
+
+  const summaryFor = (version: number | null) => {
+    let summary = summaries.get(version);
+    if (!summary) {
+      summary = { price_version: version, students: 0, active_students: 0, active_contracts: 0, monthly_revenue: 0 };
+      summaries.set(version, summary);
+    }
+    return summary;
+  };
+
+  students.forEach(student => {
+    const summary = summaryFor(student.price_version ?? null);
+    summary.students += 1;
+    if (student.status === 'active') summary.active_students += 1;
+  });
+
+  contracts.forEach(contract => {
+    const summary = summaryFor(versionByStudent.get(contract.student_id) ?? null);
+    summary.active_contracts += 1;
+    if (contract.payment_type === 'monthly') {
+      summary.monthly_revenue = round2(summary.monthly_revenue + Number(contract.final_price || 0));
+    }
+  });
+
+  return Array.from(summaries.values()).sort((a, b) => (b.price_version ?? 0) - (a.price_version ?? 0));
+}
+
+export function simulateRollout(
+  students: RolloutStudent[],
+  contracts: RolloutContract[],
+  variants: ContractVariant[],
+  discounts: ContractDiscount[],
+  toVersion: number
+): RolloutSimulation {
+  const variantById = new Map(variants.map(v => [v.id, v]));
+
+  const impacts = students
+    .filter(student => student.price_version !== toVersion)
+    .map(student => {
+      const studentContracts = contracts
+        .filter(c => c.student_id === student.id)
+        .map((contract): RolloutContractImpact | null => {
+          const variant = variantById.get(contract.contract_variant_id);
+          if (!variant) return null;
+
+          const successor = findSuccessorVariant(variant, variants, toVersion);
+          const discountFactor = 1 - getDiscountPercent(contract, discounts) / 100;
+          const currentPrice = contract.final_price != null
+            ? Number(contract.final_price)
+            : round2(basePrice(variant) * discountFactor);
+          const newPrice = successor ? round2(basePrice(successor) * discountFactor) : null;
+
+          return {
+            contract_id: contract.id,
+            variant_name: variant.name,
+            successor_name: successor?.name ?? null,
+            payment_type: variant.monthly_price != null ? 'monthly' : 'one_time',
+            current_price: round2(currentPrice),
+            new_price: newPrice,
+            delta: newPrice != null ? round2(newPrice - currentPrice) : 0,
+          };
+        })
+        .filter((impact): impact is RolloutContractImpact => impact !== null);
+
+      const sumDelta = (paymentType: RolloutContractImpact['payment_type']) =>
+        round2(studentContracts.filter(c => c.payment_type === paymentType).reduce((sum, c) => sum + c.delta, 0));
+
+      return {
+        student,
+        contracts: studentContracts,
+        monthly_delta: sumDelta('monthly'),
+        one_time_delta: sumDelta('one_time'),
+        has_missing_successor: studentContracts.some(c => c.new_price === null),
+      };
+    });
+
+  return {
+    to_version: toVersion,
+    students: impacts,
+    monthly_delta: round2(impacts.reduce((sum, s) => sum + s.monthly_delta, 0)),
+    one_time_delta: round2(impacts.reduce((sum, s) => sum + s.one_time_delta, 0)),
+    missing_successors: impacts.reduce((sum, s) => sum + s.contracts.filter(c => c.new_price === null).length, 0),
+  };
+}
@@ -0,0 +1,60 @@
+// lib/pwa/serviceWorker.ts
+// Registration of public/sw.js (app shell cache, push display) and the browser side of
+// Web Push. Push needs VITE_VAPID_PUBLIC_KEY, the public half of the key pair the edge
+// function send-push-notifications signs with.
+import { deletePushSubscription, savePushSubscription } from '@/lib/actions/pushActions';
+
+const vapidPublicKey = import.meta.env.VITE_VAPID_PUBLIC_KEY as string | undefined;
+
+// Only in production builds; in development a cached shell would hide hot reloads
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker
+      .register('/sw.js')
+      .catch(error => console.error('Error registering service worker:', error));
+  });
+}
+
+// Needs the registered service worker, so production builds only as well
+export const isPushSupported = () =>
+  import.meta.env.PROD && !!vapidPublicKey && 'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+
+// Base64url VAPID key -> bytes for applicationServerKey
+const toApplicationServerKey = (base64: string) => {
+  const padded = (base64 + '='.repeat((4 - (base64.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(padded), char => char.charCodeAt(0));
+};
+
+export async function getPushSubscription(): Promise<PushSubscription | null> {
+  if (!isPushSupported()) return null;
+  const registration = await navigator.serviceWorker.getRegistration();
+  return (await registration?.pushManager.getSubscription()) ?? null;
+}
+
+// Asks for permission if needed; returns false if the user declined
+export async function subscribeToPush(): Promise<boolean> {
+  if (!isPushSupported()) return false;
+
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') return false;
+
+  const registration = await navigator.serviceWorker.ready;
+  const subscription = (await registration.pushManager.getSubscription()) ??
+    (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: toApplicationServerKey(vapidPublicKey!)
+    }));
+
+  await savePushSubscription(subscription);
+  return true;
+}
+
+export async function unsubscribeFromPush() {
+  const subscription = await getPushSubscription();
+  if (!subscription) return;
+
+  await deletePushSubscription(subscription.endpoint);
+  await subscription.unsubscribe();
+}
@@ -0,0 +1,25 @@
+// lib/realtime/mergeRows.ts
+// Merging realtime row changes into tab state. Realtime payloads carry the bare row
+// without embedded relations, so tabs reload the changed row with their own select
+// and put it in place here.
+
+interface Row {
+  id: string;
+}
+
+// Replaces the row with the same id or puts it in front (lists are sorted newest first)
+export function upsertRow<T extends Row>(rows: T[], row: T): T[] {
+  return rows.some(r => r.id === row.id)
+    ? rows.map(r => (r.id === row.id ? row : r))
+    : [row, ...rows];
+}
+
+export function removeRow<T extends Row>(rows: T[], id: string): T[] {
+  return rows.some(r => r.id === id) ? rows.filter(r => r.id !== id) : rows;
+}
+
+// id of the changed row; DELETE payloads only carry the primary key in `old`
+export function getChangedId(payload: { new: unknown; old: unknown }): string | undefined {
+  const row = (payload.new && Object.keys(payload.new).length ? payload.new : payload.old) as Partial<Row> | null;
+  return row?.id;
+}
@@ -0,0 +1,55 @@
+// lib/renewals/contractRenewals.ts
+// Follow-up contracts: term of the renewal and the prefilled draft for the contract form.
+// Mirrors approve_contract_renewals so manual and bulk renewals end up with the same dates.
+import { addDays, addMonths, differenceInCalendarDays, format, parseISO, startOfDay } from 'date-fns';
+import { Contract, ContractRenewal, ContractVariant } from '@/lib/supabase';
+
+// Term-limited contracts are proposed this many days before term_end
+export const RENEWAL_LOOKAHEAD_DAYS = 42;
+
+const toDateString = (date: Date) => format(date, 'yyyy-MM-dd');
+
+export function getRenewalTerm(contract: Pick<Contract, 'term_end'>, variant?: Pick<ContractVariant, 'duration_months'> | null) {
+  const today = startOfDay(new Date());
+  const termEnd = contract.term_end ? startOfDay(parseISO(contract.term_end)) : null;
+
+  // Follow-up starts the day after the term ends, or today for fulfilled card contracts
+  const start = termEnd && termEnd >= today ? addDays(termEnd, 1) : today;
+  const end = variant?.duration_months ? addDays(addMonths(start, variant.duration_months), -1) : null;
+
+  return {
+    term_start: toDateString(start),
+    term_end: end ? toDateString(end) : null,
+  };
+}
+
+// Contract form prefill for a follow-up: same student, teacher, variant and discounts, new term
+export function buildRenewalDraft(contract: Contract): Contract {
+  const term = getRenewalTerm(contract, contract.contract_variant);
+
+  return {
+    ...contract,
+    term_start: term.term_start,
+    term_end: term.term_end,
+    term_label: null,
+    cancelled_at: null,
+    paid_at: null,
+    paid_through: null,
+    first_payment_date: contract.billing_cycle === 'monthly' ? term.term_start : null,
+  };
+}
+
+export function getDaysUntilDue(renewal: Pick<ContractRenewal, 'due_date'>) {
+  if (!renewal.due_date) return null;
+  return differenceInCalendarDays(parseISO(renewal.due_date), new Date());
+}
+
+export function getRenewalReasonLabel(renewal: Pick<ContractRenewal, 'reason' | 'due_date'>) {
+  if (renewal.reason === 'fulfilled') return 'Erfüllt';
+
+  const days = getDaysUntilDue(renewal);
+  if (days === null) return 'Läuft ab';
+  if (days < 0) return `Abgelaufen seit ${-days} Tagen`;
+  if (days === 0) return 'Läuft heute ab';
+  return `Läuft in ${days} Tagen ab`;
+}
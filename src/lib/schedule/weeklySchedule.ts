@@ -0,0 +1,98 @@
+// lib/schedule/weeklySchedule.ts
+import { Contract } from '@/lib/supabase';
+
+export const WEEKDAYS = [
+  { value: 1, label: 'Montag', short: 'Mo' },
+  { value: 2, label: 'Dienstag', short: 'Di' },
+  { value: 3, label: 'Mittwoch', short: 'Mi' },
+  { value: 4, label: 'Donnerstag', short: 'Do' },
+  { value: 5, label: 'Freitag', short: 'Fr' },
+  { value: 6, label: 'Samstag', short: 'Sa' },
+  { value: 7, label: 'Sonntag', short: 'So' },
+] as const;
+
+// Fallback when a contract has no variant (legacy contracts)
+export const DEFAULT_SESSION_MINUTES = 45;
+
+export type ScheduleSlot = {
+  contract: Contract;
+  weekday: number;
+  startMinutes: number;
+  durationMinutes: number;
+};
+
+export const getWeekdayLabel = (weekday?: number | null) =>
+  WEEKDAYS.find(d => d.value === weekday)?.label ?? '-';
+
+// 'HH:mm' or 'HH:mm:ss' (Postgres time) -> minutes since midnight
+export const timeToMinutes = (time: string) => {
+  const [h, m] = time.split(':').map(Number);
+  return (h || 0) * 60 + (m || 0);
+};
+
+export const minutesToTime = (minutes: number) => {
+  const h = Math.floor(minutes / 60) % 24;
+  const m = minutes % 60;
+  return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`;
+};
+
+export const formatSlotTime = (time?: string | null) => (time ? time.slice(0, 5) : '');
+
+export const getSessionMinutes = (contract: Contract) =>
+  contract.contract_variant?.session_length_minutes || DEFAULT_SESSION_MINUTES;
+
+export const formatSlot = (contract: Contract) => {
+  if (!contract.schedule_weekday || !contract.schedule_start_time) return null;
+  const start = timeToMinutes(contract.schedule_start_time);
+  return `${getWeekdayLabel(contract.schedule_weekday)}, ${minutesToTime(start)}–${minutesToTime(start + getSessionMinutes(contract))}`;
+};
+
+export function toScheduleSlots(contracts: Contract[]): ScheduleSlot[] {
+  return contracts
+    .filter(c => c.status === 'active' && c.schedule_weekday && c.schedule_start_time)
+    .map(c => ({
+      contract: c,
+      weekday: c.schedule_weekday as number,
+      startMinutes: timeToMinutes(c.schedule_start_time as string),
+      durationMinutes: getSessionMinutes(c),
+    }));
+}
+
+const isSameGroupLesson = (a: ScheduleSlot, b: ScheduleSlot) => {
+  const groupType = a.contract.contract_variant?.group_type;
+  return (
+    a.contract.contract_variant_id === b.contract.contract_variant_id &&
+    (groupType === 'group' || groupType === 'duo') &&
+    a.startMinutes === b.startMinutes
+  );
+};
+
+/**
+ * Returns the ids of all contracts that overlap with another contract of the
+ * same teacher or in the same room. Mirrors get_schedule_conflicts in the DB.
+ */
+export function findConflictingContractIds(slots: ScheduleSlot[]): Set<string> {
+  const conflicts = new Set<string>();
+
+  for (let i = 0; i < slots.length; i++) {
+    for (let j = i + 1; j < slots.length; j++) {
+      const a = slots[i];
+      const b = slots[j];
+      if (a.weekday !== b.weekday) continue;
+
+      const overlaps =
+        a.startMinutes < b.startMinutes + b.durationMinutes &&
+        b.startMinutes < a.startMinutes + a.durationMinutes;
+      if (!overlaps) continue;
+
+      const sameTeacher = !!a.contract.teacher_id && a.contract.teacher_id === b.contract.teacher_id;
+      const sameRoom = !!a.contract.room_id && a.contract.room_id === b.contract.room_id;
+      if ((sameTeacher || sameRoom) && !isSameGroupLesson(a, b)) {
+        conflicts.add(a.contract.id);
+        conflicts.add(b.contract.id);
+      }
+    }
+  }
+
+  return conflicts;
+}
@@ -0,0 +1,218 @@
+// lib/sepa/pain008.ts
+// Builds SEPA core direct debit files (pain.008.001.02) from the monthly collection items.
+
+export type SepaCreditor = {
+  name: string;
+  iban: string;
+  bic?: string | null;
+  creditorId: string;
+};
+
+export type SepaCollectionItem = {
+  contract_id: string;
+  student_id: string | null;
+  student_name: string | null;
+  student_bank_id: string | null;
+  variant_name: string | null;
+  amount: number | null;
+  bank_record_id: string | null;
+  account_holder_name: string | null;
+  iban: string | null;
+  bic: string | null;
+  mandate_reference: string | null;
+  mandate_date: string | null;
+  first_collected_at: string | null;
+};
+
+export type SepaSequenceType = 'FRST' | 'RCUR';
+
+export type SepaValidationIssue = {
+  item: SepaCollectionItem;
+  problems: string[];
+};
+
+export type SepaValidationReport = {
+  valid: SepaCollectionItem[];
+  issues: SepaValidationIssue[];
+};
+
+const IBAN_PATTERN = /^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/;
+const BIC_PATTERN = /^[A-Z]{4}[A-Z]{2}[A-Z0-9]{2}([A-Z0-9]{3})?$/;
+const MANDATE_REFERENCE_PATTERN = /^[A-Za-z0-9+?/:().,' -]{1,35}$/;
+const CREDITOR_ID_PATTERN = /^[A-Z]{2}\d{2}[A-Z0-9]{3}[A-Z0-9]{1,28}$/;
+
+export const normalizeIban = (iban?: string | null) => (iban || '').replace(/\s+/g, '').toUpperCase();
+
+// ISO 13616 mod-97 check
+export function isValidIban(value?: string | null): boolean {
+  const iban = normalizeIban(value);
+  if (!IBAN_PATTERN.test(iban)) return false;
+
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const digits = /[A-Z]/.test(char) ? String(char.charCodeAt(0) - 55) : char;
+    for (const digit of digits) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+export const isValidBic = (value?: string | null) => BIC_PATTERN.test((value || '').trim().toUpperCase());
+
+export const getSequenceType = (item: SepaCollectionItem): SepaSequenceType =>
+  item.first_collected_at ? 'RCUR' : 'FRST';
+
+export function validateCreditor(creditor: Partial<SepaCreditor>): string[] {
+  const problems: string[] = [];
+  if (!creditor.name?.trim()) problems.push('Name des Zahlungsempfängers fehlt');
+  if (!isValidIban(creditor.iban)) problems.push('IBAN des Zahlungsempfängers ist ungültig');
+  if (creditor.bic && !isValidBic(creditor.bic)) problems.push('BIC des Zahlungsempfängers ist ungültig');
+  if (!CREDITOR_ID_PATTERN.test((creditor.creditorId || '').replace(/\s+/g, '').toUpperCase())) {
+    problems.push('Gläubiger-Identifikationsnummer fehlt oder ist ungültig');
+  }
+  return problems;
+}
+
+export function validateCollectionItems(items: SepaCollectionItem[], collectionDate: string): SepaValidationReport {
+  const report: SepaValidationReport = { valid: [], issues: [] };
+
+  items.forEach(item => {
+    const problems: string[] = [];
+    if (!item.bank_record_id) {
+      problems.push('Keine Bankverbindung hinterlegt');
+    } else {
+      if (!item.iban) problems.push('IBAN fehlt');
+      else if (!isValidIban(item.iban)) problems.push('IBAN ist ungültig');
+      if (item.bic && !isValidBic(item.bic)) problems.push('BIC ist ungültig');
+      if (!item.mandate_reference) problems.push('Mandatsreferenz fehlt');
+      else if (!MANDATE_REFERENCE_PATTERN.test(item.mandate_reference)) problems.push('Mandatsreferenz enthält unzulässige Zeichen');
+      if (!item.mandate_date) problems.push('Mandatsdatum fehlt');
+      else if (item.mandate_date > collectionDate) problems.push('Mandat ist erst nach dem Einzugsdatum gültig');
+      if (!(item.account_holder_name || item.student_name)) problems.push('Kontoinhaber fehlt');
+    }
+    if (!item.amount || item.amount <= 0) problems.push('Kein Betrag ermittelbar');
+
+    if (problems.length > 0) {
+      report.issues.push({ item, problems });
+    } else {
+      report.valid.push(item);
+    }
+  });
+
+  return report;
+}
+
+// SEPA allows only a restricted Latin character set
+export function toSepaText(value: string, maxLength: number): string {
+  const transliterated = value
+    .replace(/ä/g, 'ae').replace(/ö/g, 'oe').replace(/ü/g, 'ue')
+    .replace(/Ä/g, 'Ae').replace(/Ö/g, 'Oe').replace(/Ü/g, 'Ue')
+    .replace(/ß/g, 'ss')
+    .normalize('NFD').replace(/[̀-ͯ]/g, '')
+    .replace(/[^A-Za-z0-9/?:().,'+ -]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return transliterated.slice(0, maxLength);
+}
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+const formatAmount = (amount: number) => amount.toFixed(2);
+
+const financialInstitution = (bic?: string | null) =>
+  bic && isValidBic(bic)
+    ? `<FinInstnId><BIC>${bic.trim().toUpperCase()}</BIC></FinInstnId>`
+    : '<FinInstnId><Othr><Id>NOTPROVIDED</Id></Othr></FinInstnId>';
+
+export type Pain008Options = {
+  creditor: SepaCreditor;
+  messageId: string;
+  collectionDate: string; // yyyy-MM-dd
+  remittancePrefix: string; // e.g. 'Unterricht 10/2025'
+  items: SepaCollectionItem[];
+};
+
+export const getEndToEndId = (messageId: string, index: number) =>
+  toSepaText(`${messageId}-${index + 1}`, 35);
+
+export function buildPain008Xml({ creditor, messageId, collectionDate, remittancePrefix, items }: Pain008Options): string {
+  const creditorName = escapeXml(toSepaText(creditor.name, 70));
+  const creditorIban = normalizeIban(creditor.iban);
+  const creditorId = creditor.creditorId.replace(/\s+/g, '').toUpperCase();
+  const total = items.reduce((sum, item) => sum + (item.amount || 0), 0);
+
+  // One payment information block per sequence type
+  const groups: Record<SepaSequenceType, { item: SepaCollectionItem; index: number }[]> = { FRST: [], RCUR: [] };
+  items.forEach((item, index) => groups[getSequenceType(item)].push({ item, index }));
+
+  const paymentInfos = (Object.keys(groups) as SepaSequenceType[])
+    .filter(sequenceType => groups[sequenceType].length > 0)
+    .map(sequenceType => {
+      const entries = groups[sequenceType];
+      const groupTotal = entries.reduce((sum, { item }) => sum + (item.amount || 0), 0);
+
+      const transactions = entries.map(({ item, index }) => {
+        const debtorName = escapeXml(toSepaText(item.account_holder_name || item.student_name || '', 70));
+        const remittance = escapeXml(toSepaText(
+          `${remittancePrefix} ${item.student_name || ''} ${item.variant_name || ''}`,
+          140
+        ));
+        return [
+          '<DrctDbtTxInf>',
+          `<PmtId><EndToEndId>${escapeXml(getEndToEndId(messageId, index))}</EndToEndId></PmtId>`,
+          `<InstdAmt Ccy="EUR">${formatAmount(item.amount || 0)}</InstdAmt>`,
+          '<DrctDbtTx><MndtRltdInf>',
+          `<MndtId>${escapeXml(item.mandate_reference || '')}</MndtId>`,
+          `<DtOfSgntr>${item.mandate_date}</DtOfSgntr>`,
+          '</MndtRltdInf></DrctDbtTx>',
+          `<DbtrAgt>${financialInstitution(item.bic)}</DbtrAgt>`,
+          `<Dbtr><Nm>${debtorName}</Nm></Dbtr>`,
+          `<DbtrAcct><Id><IBAN>${normalizeIban(item.iban)}</IBAN></Id></DbtrAcct>`,
+          `<RmtInf><Ustrd>${remittance}</Ustrd></RmtInf>`,
+          '</DrctDbtTxInf>',
+        ].join('');
+      });
+
+      return [
+        '<PmtInf>',
+        `<PmtInfId>${escapeXml(toSepaText(`${messageId}-${sequenceType}`, 35))}</PmtInfId>`,
+        '<PmtMtd>DD</PmtMtd>',
+        '<BtchBookg>true</BtchBookg>',
+        `<NbOfTxs>${entries.length}</NbOfTxs>`,
+        `<CtrlSum>${formatAmount(groupTotal)}</CtrlSum>`,
+        '<PmtTpInf><SvcLvl><Cd>SEPA</Cd></SvcLvl><LclInstrm><Cd>CORE</Cd></LclInstrm>',
+        `<SeqTp>${sequenceType}</SeqTp></PmtTpInf>`,
+        `<ReqdColltnDt>${collectionDate}</ReqdColltnDt>`,
+        `<Cdtr><Nm>${creditorName}</Nm></Cdtr>`,
+        `<CdtrAcct><Id><IBAN>${creditorIban}</IBAN></Id></CdtrAcct>`,
+        `<CdtrAgt>${financialInstitution(creditor.bic)}</CdtrAgt>`,
+        '<ChrgBr>SLEV</ChrgBr>',
+        '<CdtrSchmeId><Id><PrvtId><Othr>',
+        `<Id>${creditorId}</Id>`,
+        '<SchmeNm><Prtry>SEPA</Prtry></SchmeNm>',
+        '</Othr></PrvtId></Id></CdtrSchmeId>',
+        ...transactions,
+        '</PmtInf>',
+      ].join('\n');
+    });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<Document xmlns="urn:iso:std:iso:20022:tech:xsd:pain.008.001.02" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">',
+    '<CstmrDrctDbtInitn>',
+    '<GrpHdr>',
+    `<MsgId>${escapeXml(toSepaText(messageId, 35))}</MsgId>`,
+    `<CreDtTm>${new Date().toISOString().slice(0, 19)}</CreDtTm>`,
+    `<NbOfTxs>${items.length}</NbOfTxs>`,
+    `<CtrlSum>${formatAmount(total)}</CtrlSum>`,
+    `<InitgPty><Nm>${creditorName}</Nm></InitgPty>`,
+    '</GrpHdr>',
+    ...paymentInfos,
+    '</CstmrDrctDbtInitn>',
+    '</Document>',
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,96 @@
+// lib/students/getStudentProfile.ts
+// Everything shown on /students/:id: master data, all contracts with lessons, payments and trials.
+// Payments are admin-only through RLS, so teachers simply get empty lists there.
+import { supabase, Student, Contract, Invoice, TrialAppointment } from '@/lib/supabase';
+
+export type StudentSepaCollection = {
+  run_id: string;
+  message_id: string;
+  collection_date: string;
+  contract_id: string;
+  amount: number;
+};
+
+export type StudentProfile = {
+  student: Student;
+  contracts: Contract[];
+  invoices: Invoice[];
+  collections: StudentSepaCollection[];
+  trials: TrialAppointment[];
+};
+
+export async function getStudentProfile(studentId: string): Promise<StudentProfile> {
+  const { data: student, error: studentError } = await supabase
+    .from('students')
+    .select('*, guardians:student_guardians(*)')
+    .eq('id', studentId)
+    .maybeSingle();
+
+  if (studentError) {
+    throw new Error(studentError.message || 'Failed to load student');
+  }
+  if (!student) {
+    throw new Error('Schüler nicht gefunden');
+  }
+
+  const [contracts, invoices, runs, trials] = await Promise.all([
+    supabase
+      .from('contracts')
+      .select(`
+        *,
+        teacher:teachers!contracts_teacher_id_fkey(id, name, bank_id, profile_id),
+        contract_variant:contract_variants(
+          id, name, duration_months, group_type, session_length_minutes, total_lessons,
+          monthly_price, one_time_price, price_version,
+          contract_category:contract_categories(id, name, display_name)
+        ),
+        room:rooms(id, name),
+        lessons:lessons(id, lesson_number, date, planned_date, is_available, comment)
+      `)
+      .eq('student_id', studentId)
+      .order('created_at', { ascending: false }),
+    supabase
+      .from('invoices')
+      .select('*')
+      .eq('student_id', studentId)
+      .order('issue_date', { ascending: false }),
+    supabase
+      .from('sepa_runs')
+      .select('id, message_id, collection_date, items')
+      .contains('items', [{ student_id: studentId }]),
+    // Trial appointments are not linked to students; they are matched by name
+    supabase
+      .from('trial_appointments')
+      .select('*, teacher:teachers(id, name, instrument)')
+      .ilike('student_name', student.name.replace(/[%_\\]/g, '\\$&'))
+      .order('created_at', { ascending: false }),
+  ]);
+
+  const error = contracts.error || invoices.error || runs.error || trials.error;
+  if (error) {
+    throw new Error(error.message || 'Failed to load student profile');
+  }
+
+  const collections = (runs.data || []).flatMap(run =>
+    ((run.items || []) as { student_id: string | null; contract_id: string; amount: number }[])
+      .filter(item => item.student_id === studentId)
+      .map(item => ({
+        run_id: run.id,
+        message_id: run.message_id,
+        collection_date: run.collection_date,
+        contract_id: item.contract_id,
+        amount: Number(item.amount),
+      }))
+  );
+
+  return {
+    student,
+    contracts: (contracts.data || []).map(contract => ({
+      ...contract,
+      lessons: [...(contract.lessons || [])].sort((a, b) => a.lesson_number - b.lesson_number),
+    })),
+    invoices: invoices.data || [],
+    collections,
+    trials: trials.data || [],
+  };
+}
@@ -0,0 +1,28 @@
+// lib/students/guardians.ts
+// Parents and other contacts of a student. Without a flagged guardian the student is
+// their own contract partner and invoice recipient.
+import { StudentGuardian } from '@/lib/supabase';
+
+export const GUARDIAN_ROLE_LABELS: Record<StudentGuardian['role'], string> = {
+  mother: 'Mutter',
+  father: 'Vater',
+  payer: 'Zahler',
+  emergency_contact: 'Notfallkontakt',
+  other: 'Sonstige',
+};
+
+export const GUARDIAN_ROLES = Object.keys(GUARDIAN_ROLE_LABELS) as StudentGuardian['role'][];
+
+export function getContractPartner(guardians?: StudentGuardian[] | null) {
+  return guardians?.find(g => g.is_contract_partner) ?? null;
+}
+
+// e.g. "Mutter: Anna Müller", for list views
+export function formatContractPartner(guardians?: Pick<StudentGuardian, 'name' | 'role' | 'is_contract_partner'>[] | null) {
+  const partner = guardians?.find(g => g.is_contract_partner);
+  return partner ? `${GUARDIAN_ROLE_LABELS[partner.role]}: ${partner.name}` : null;
+}
+
+export function sortGuardians(guardians?: StudentGuardian[] | null) {
+  return [...(guardians || [])].sort((a, b) => a.sort_order - b.sort_order);
+}
@@ -0,0 +1,132 @@
+// lib/students/studentTimeline.ts
+// One chronological list of contracts, lessons, payments and trial lessons for the student profile.
+import { StudentProfile } from './getStudentProfile';
+
+export type TimelineKind = 'contract' | 'lesson' | 'payment' | 'trial';
+
+export type TimelineEntry = {
+  id: string;
+  date: string;
+  kind: TimelineKind;
+  title: string;
+  detail?: string;
+  amount?: number;
+};
+
+export const TIMELINE_KINDS: { value: TimelineKind; label: string }[] = [
+  { value: 'contract', label: 'Verträge' },
+  { value: 'lesson', label: 'Stunden' },
+  { value: 'payment', label: 'Zahlungen' },
+  { value: 'trial', label: 'Probestunden' },
+];
+
+const TRIAL_STATUS_LABELS: Record<string, string> = {
+  open: 'offen',
+  assigned: 'zugewiesen',
+  accepted: 'angenommen',
+};
+
+export function buildStudentTimeline(profile: StudentProfile): TimelineEntry[] {
+  const entries: TimelineEntry[] = [];
+  const contractName = (contractId?: string | null) =>
+    profile.contracts.find(c => c.id === contractId)?.contract_variant?.name;
+
+  profile.contracts.forEach(contract => {
+    const name = contract.contract_variant?.name || contract.type;
+    const teacher = contract.teacher?.name;
+
+    entries.push({
+      id: `contract-start-${contract.id}`,
+      date: contract.term_start || contract.created_at,
+      kind: 'contract',
+      title: contract.previous_contract_id ? `Folgevertrag: ${name}` : `Vertrag begonnen: ${name}`,
+      detail: teacher ? `bei ${teacher}` : undefined,
+    });
+
+    if (contract.cancelled_at) {
+      entries.push({
+        id: `contract-cancelled-${contract.id}`,
+        date: contract.cancelled_at,
+        kind: 'contract',
+        title: `Vertrag gekündigt: ${name}`,
+        detail: teacher ? `bei ${teacher}` : undefined,
+      });
+    } else if (contract.status === 'completed') {
+      entries.push({
+        id: `contract-completed-${contract.id}`,
+        date: contract.term_end || contract.updated_at,
+        kind: 'contract',
+        title: `Vertrag abgeschlossen: ${name}`,
+        detail: teacher ? `bei ${teacher}` : undefined,
+      });
+    }
+
+    if (contract.paid_at) {
+      entries.push({
+        id: `contract-paid-${contract.id}`,
+        date: contract.paid_at,
+        kind: 'payment',
+        title: 'Vorauszahlung eingegangen',
+        detail: name,
+        amount: contract.final_price ?? undefined,
+      });
+    }
+
+    (contract.lessons || [])
+      .filter(lesson => lesson.date)
+      .forEach(lesson => {
+        entries.push({
+          id: `lesson-${lesson.id}`,
+          date: lesson.date as string,
+          kind: 'lesson',
+          title: lesson.is_available ? `Stunde ${lesson.lesson_number}` : `Stunde ${lesson.lesson_number} ausgefallen`,
+          detail: [teacher, lesson.comment].filter(Boolean).join(' · ') || undefined,
+        });
+      });
+  });
+
+  profile.invoices.forEach(invoice => {
+    entries.push({
+      id: `invoice-${invoice.id}`,
+      date: invoice.issue_date,
+      kind: 'payment',
+      title: `Rechnung ${invoice.invoice_number}${invoice.status === 'cancelled' ? ' (storniert)' : ''}`,
+      detail: invoice.description,
+      amount: invoice.amount,
+    });
+
+    if (invoice.paid_at) {
+      entries.push({
+        id: `invoice-paid-${invoice.id}`,
+        date: invoice.paid_at,
+        kind: 'payment',
+        title: `Zahlung eingegangen (${invoice.invoice_number})`,
+        amount: invoice.amount,
+      });
+    }
+  });
+
+  profile.collections.forEach(collection => {
+    entries.push({
+      id: `sepa-${collection.run_id}-${collection.contract_id}`,
+      date: collection.collection_date,
+      kind: 'payment',
+      title: 'Lastschrift eingezogen',
+      detail: contractName(collection.contract_id),
+      amount: collection.amount,
+    });
+  });
+
+  profile.trials.forEach(trial => {
+    entries.push({
+      id: `trial-${trial.id}`,
+      date: trial.created_at,
+      kind: 'trial',
+      title: `Probestunde ${trial.instrument} (${TRIAL_STATUS_LABELS[trial.status] || trial.status})`,
+      detail: trial.teacher?.name ? `bei ${trial.teacher.name}` : undefined,
+    });
+  });
+
+  // Newest first; entries of the same day keep their insertion order
+  return entries.sort((a, b) => b.date.slice(0, 10).localeCompare(a.date.slice(0, 10)));
+}
@@ -48,10 +48,12 @@ export interface Student {
   contract_id?: string; // Deprecated, use contracts array
   bank_id: string; // Now a text string, always present
   status: 'active' | 'inactive';
+  price_version?: number | null; // Pricing cohort, see get_variants_for_student
   created_at: string;
   teacher?: Teacher; // Deprecated, use contracts.teacher
   contract?: Contract; // Deprecated, use contracts array
   contracts?: Contract[]; // New: array of contracts with different teachers
+  guardians?: StudentGuardian[]; // Parents and other contacts, see student_guardians
 }
 
 export interface ContractCategory {
@@ -59,6 +61,7 @@ export interface ContractCategory {
   name: string;
   display_name: string;
   description?: string;
+  is_active?: boolean;
   created_at: string;
 }
 
@@ -74,6 +77,7 @@ export interface ContractVariant {
   one_time_price?: number; // NULL if monthly payment
   notes?: string;
   is_active: boolean;
+  price_version?: number | null;
   created_at: string;
   contract_category?: ContractCategory;
 }
@@ -117,6 +121,14 @@ export interface Contract {
   term_label?: string | null;
   cancelled_at?: string | null;
   private_notes?: string | null;
+  // Weekly timetable slot (ISO weekday: 1 = Montag ... 7 = Sonntag)
+  schedule_weekday?: number | null;
+  schedule_start_time?: string | null;
+  room_id?: string | null;
+  room?: Room | null;
+  // Renewal chain: the contract this one follows up on
+  previous_contract_id?: string | null;
+  version?: number; // Optimistic concurrency, bumped on every edit
 }
 
 export interface Lesson {
@@ -126,10 +138,22 @@ export interface Lesson {
   date?: string;
   comment?: string;
   is_available: boolean;
+  planned_date?: string | null;
+  cancellation_reason?: LessonCancellationReason | null;
+  makeup_credit?: LessonMakeupCredit | null;
+  version?: number;
   created_at: string;
   updated_at: string;
 }
 
+export interface Room {
+  id: string;
+  name: string;
+  capacity?: number | null;
+  is_active: boolean;
+  created_at: string;
+}
+
 export interface TrialAppointment {
   id: string;
   student_name: string;
@@ -140,10 +164,45 @@ export interface TrialAppointment {
   teacher_id?: string;
   created_by?: string;
   created_at: string;
+  updated_at?: string;
+  proposed_slots?: string[];
+  scheduled_at?: string | null;
+  duration_minutes?: number;
+  room_id?: string | null;
+  location?: string | null;
+  outcome?: TrialOutcome | null;
+  outcome_note?: string | null;
+  // Conversion into a student and contract, see convert_trial_to_student
+  student_id?: string | null;
+  contract_id?: string | null;
+  converted_at?: string | null;
+  // Funnel timestamps, set by trigger
+  assigned_at?: string | null;
+  accepted_at?: string | null;
+  // Requests from the public form /probestunde
+  source?: 'admin' | 'web';
+  preferred_times?: string | null;
+  message?: string | null;
+  privacy_consent_at?: string | null;
   teacher?: Teacher;
+  room?: Room | null;
+  declines?: TrialDecline[];
   created_by_profile?: Profile;
 }
 
+export type TrialOutcome = 'no_show' | 'took_place' | 'converted';
+
+export type TrialDeclineReason = 'no_capacity' | 'schedule' | 'instrument' | 'location' | 'other';
+
+export interface TrialDecline {
+  id: string;
+  trial_appointment_id: string;
+  teacher_id?: string | null;
+  reason?: TrialDeclineReason | null;
+  note?: string | null;
+  declined_at: string;
+}
+
 // Legacy interface for backward compatibility (maps to TrialAppointment)
 export interface TrialLesson {
   id: string;
@@ -183,6 +242,32 @@ export interface BankId {
   entity_type: 'teacher' | 'student';
   entity_id: string;
   account_holder_name?: string;
+  // SEPA direct debit
+  iban?: string | null;
+  bic?: string | null;
+  mandate_reference?: string | null;
+  mandate_date?: string | null;
+  first_collected_at?: string | null;
+  created_at: string;
+}
+
+export interface SepaSettings {
+  id: boolean;
+  creditor_name: string;
+  creditor_iban?: string | null;
+  creditor_bic?: string | null;
+  creditor_id?: string | null;
+  updated_at: string;
+}
+
+export interface SepaRun {
+  id: string;
+  message_id: string;
+  period_month: string;
+  collection_date: string;
+  transaction_count: number;
+  control_sum: number;
+  created_by?: string | null;
   created_at: string;
 }
 
@@ -195,6 +280,169 @@ export interface ContractPricing {
   payment_type: 'monthly' | 'one_time';
 }
 
+export interface Invoice {
+  id: string;
+  invoice_number: string;
+  invoice_year: number;
+  sequence_number: number;
+  contract_id?: string | null;
+  student_id?: string | null;
+  billing_cycle: 'monthly' | 'upfront';
+  period_start: string;
+  period_end?: string | null;
+  issue_date: string;
+  due_date: string;
+  amount: number;
+  recipient_name: string;
+  description: string;
+  status: 'open' | 'paid' | 'cancelled';
+  paid_at?: string | null;
+  cancelled_at?: string | null;
+  created_by?: string | null;
+  created_at: string;
+  contract?: Contract;
+  student?: Student;
+}
+
+export interface TeacherPayRate {
+  id: string;
+  teacher_id?: string | null; // NULL = default rate for all teachers
+  group_type: ContractVariant['group_type'];
+  hourly_rate: number;
+  updated_at: string;
+}
+
+export interface PayrollSession {
+  teacher_id: string;
+  teacher_name: string;
+  session_date: string;
+  group_type: ContractVariant['group_type'];
+  variant_name?: string | null;
+  student_names?: string | null;
+  student_count: number;
+  minutes: number;
+  hourly_rate?: number | null; // NULL if no rate is configured
+  amount: number;
+}
+
+export interface PriceVersionMigration {
+  id: string;
+  student_id: string;
+  from_version: number | null;
+  to_version: number;
+  note: string | null;
+  migrated_by: string | null;
+  migrated_at: string;
+  student?: Pick<Student, 'id' | 'name'>;
+}
+
+export interface ContractRenewal {
+  id: string;
+  contract_id: string;
+  reason: 'fulfilled' | 'expiring';
+  due_date?: string | null;
+  proposed_variant_id?: string | null;
+  status: 'proposed' | 'approved' | 'dismissed';
+  renewal_contract_id?: string | null;
+  decided_by?: string | null;
+  decided_at?: string | null;
+  created_at: string;
+  contract?: Contract;
+  proposed_variant?: ContractVariant | null;
+}
+
+export interface StudentGuardian {
+  id: string;
+  student_id: string;
+  name: string;
+  role: 'mother' | 'father' | 'payer' | 'emergency_contact' | 'other';
+  email?: string | null;
+  phone?: string | null;
+  address?: string | null;
+  is_contract_partner: boolean;
+  is_invoice_recipient: boolean;
+  sort_order: number;
+  created_at: string;
+}
+
+export interface NotificationEmailPreference {
+  profile_id: string;
+  frequency: 'instant' | 'daily' | 'off';
+  updated_at: string;
+}
+
+export interface LessonMessageSettings {
+  reminders_enabled: boolean;
+  reminder_hours_before: number;
+  cancellation_notices_enabled: boolean;
+  updated_at: string;
+}
+
+export interface LessonMessage {
+  id: string;
+  lesson_id: string;
+  kind: 'reminder' | 'cancellation';
+  lesson_date?: string | null;
+  recipient_email?: string | null;
+  recipient_name?: string | null;
+  reason?: string | null;
+  status: 'sent' | 'failed' | 'skipped';
+  error?: string | null;
+  sent_by?: string | null;
+  created_at: string;
+}
+
+export type LessonCancellationReason = 'student' | 'teacher' | 'school' | 'no_show';
+
+export interface MakeupRule {
+  reason: LessonCancellationReason;
+  grants_credit: boolean;
+  valid_days?: number | null;
+  updated_at: string;
+}
+
+export interface LessonMakeupCredit {
+  id: string;
+  lesson_id: string;
+  contract_id: string;
+  reason: LessonCancellationReason;
+  expires_on?: string | null;
+  makeup_date?: string | null;
+  used_at?: string | null;
+  used_by?: string | null;
+  created_at: string;
+}
+
+export interface SchoolClosure {
+  id: string;
+  name: string;
+  kind: 'school_holiday' | 'public_holiday' | 'closure';
+  start_date: string;
+  end_date: string;
+  ical_uid?: string | null;
+  created_by?: string | null;
+  created_at: string;
+}
+
+export type AuditTable = 'students' | 'teachers' | 'contracts' | 'lessons' | 'trial_appointments' | 'contract_discounts';
+
+export type AuditAction = 'insert' | 'update' | 'delete';
+
+export interface AuditLogEntry {
+  id: string;
+  table_name: AuditTable;
+  record_id: string;
+  parent_id?: string | null; // Contract of a lesson, student of a contract
+  record_label?: string | null;
+  action: AuditAction;
+  changed_fields: string[];
+  old_data?: Record<string, unknown> | null; // Only the changed columns on update
+  new_data?: Record<string, unknown> | null;
+  actor_id?: string | null;
+  created_at: string;
+  actor?: Pick<Profile, 'id' | 'full_name'> | null;
+}
+
 // PDF Generation types
 export interface PDFContractData extends Contract {
   lessons?: Lesson[];
@@ -210,9 +458,11 @@ export const acceptTrial = async (trialId: string) => {
   return { data, error };
 };
 
-export const declineTrial = async (trialId: string) => {
+export const declineTrial = async (trialId: string, reason?: TrialDeclineReason | null, note?: string | null) => {
   const { data, error } = await supabase.rpc('decline_trial', {
-    _trial_id: trialId
+    _trial_id: trialId,
+    _reason: reason || null,
+    _note: note || null
   });
   
   return { data, error };
@@ -401,6 +651,40 @@ export const getLessonStatusColor = (status: string) => {
   }
 };
 
+// Invoice helper functions
+// 'overdue' is not stored: an open invoice becomes overdue once its due date has passed
+export const getInvoiceStatus = (invoice: Invoice): 'open' | 'paid' | 'overdue' | 'cancelled' => {
+  if (invoice.status !== 'open') return invoice.status;
+  const today = new Date().toISOString().slice(0, 10);
+  return invoice.due_date < today ? 'overdue' : 'open';
+};
+
+export const getInvoiceStatusDisplay = (status: string) => {
+  switch (status) {
+    case 'paid':
+      return 'Bezahlt';
+    case 'overdue':
+      return 'Überfällig';
+    case 'cancelled':
+      return 'Storniert';
+    default:
+      return 'Offen';
+  }
+};
+
+export const getInvoiceStatusColor = (status: string) => {
+  switch (status) {
+    case 'paid':
+      return 'bg-green-100 text-green-800';
+    case 'overdue':
+      return 'bg-red-100 text-red-800';
+    case 'cancelled':
+      return 'bg-gray-100 text-gray-500';
+    default:
+      return 'bg-yellow-100 text-yellow-800';
+  }
+};
+
 // Legacy support functions (for backward compatibility during transition)
 export const getLegacyContractTypeDisplay = (type: string) => {
   switch (type) {
@@ -435,5 +719,5 @@ export const getLegacyContractLessonCount = (type: string) => {
   }
 };
 
-// Re-export PDF generator function
-export { generateContractPDF } from './pdfGenerator';
\ No newline at end of file
+// Re-export PDF generator functions
+export { generateContractPDF, generateInvoicePDF, generatePayrollPDF } from './pdfGenerator';
\ No newline at end of file
@@ -0,0 +1,14 @@
+// lib/trials/trialConversion.ts
+// Converting a trial appointment into a student and contract. The student is created by
+// convert_trial_to_student, the contract is linked back by link_trial_contract.
+import { ContractVariant, TrialAppointment } from '@/lib/supabase';
+
+export const canConvertTrial = (trial: Pick<TrialAppointment, 'status' | 'outcome' | 'contract_id'>) =>
+  trial.status === 'accepted' && trial.outcome !== 'no_show' && !trial.contract_id;
+
+// Single lessons with the length of the trial first, then the other single-lesson variants
+export function getMatchingVariants(variants: ContractVariant[], trial: Pick<TrialAppointment, 'duration_minutes'>) {
+  const single = variants.filter(v => v.is_active && v.group_type === 'single');
+  const sameLength = single.filter(v => v.session_length_minutes === trial.duration_minutes);
+  return sameLength.length > 0 ? sameLength : single;
+}
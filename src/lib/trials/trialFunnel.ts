@@ -0,0 +1,163 @@
+// lib/trials/trialFunnel.ts
+// Funnel from trial request to contract: request -> assignment -> acceptance -> appointment -> contract.
+// A trial counts as enrolled once a contract is linked to it (link_trial_contract).
+import { format, startOfMonth, subMonths } from 'date-fns';
+import { de } from 'date-fns/locale';
+import { Contract, TrialAppointment, TrialDeclineReason } from '@/lib/supabase';
+
+export type FunnelTrial = TrialAppointment & {
+  contract?: Pick<Contract, 'id' | 'status' | 'final_price'> | null;
+};
+
+export const TRIAL_DECLINE_REASON_LABELS: Record<TrialDeclineReason, string> = {
+  no_capacity: 'Keine Kapazität',
+  schedule: 'Zeitlich nicht passend',
+  instrument: 'Instrument/Niveau passt nicht',
+  location: 'Ort nicht passend',
+  other: 'Sonstiges',
+};
+
+export const TRIAL_DECLINE_REASONS = Object.keys(TRIAL_DECLINE_REASON_LABELS) as TrialDeclineReason[];
+
+export interface FunnelSummary {
+  total: number;
+  assigned: number;
+  accepted: number;
+  tookPlace: number;
+  enrolled: number;
+  noShows: number;
+  declines: number;
+  conversionRate: number | null;
+  medianHoursToAssignment: number | null;
+}
+
+export interface ConversionRow {
+  key: string;
+  label: string;
+  total: number;
+  accepted: number;
+  enrolled: number;
+  declines: number;
+  conversionRate: number | null;
+}
+
+export const isEnrolled = (trial: FunnelTrial) => !!trial.contract_id;
+
+const isAccepted = (trial: FunnelTrial) => trial.status === 'accepted' || !!trial.accepted_at;
+
+const hasTakenPlace = (trial: FunnelTrial) =>
+  trial.outcome === 'took_place' || trial.outcome === 'converted' || isEnrolled(trial);
+
+const rate = (part: number, total: number) => (total > 0 ? part / total : null);
+
+// Hours from the request until a teacher was assigned (or accepted an open trial)
+export function getHoursToAssignment(trial: FunnelTrial) {
+  const assignedAt = trial.assigned_at || trial.accepted_at;
+  if (!assignedAt) return null;
+  return Math.max(0, (new Date(assignedAt).getTime() - new Date(trial.created_at).getTime()) / 3600000);
+}
+
+export function median(values: number[]) {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+export function getFunnelSummary(trials: FunnelTrial[]): FunnelSummary {
+  const enrolled = trials.filter(isEnrolled).length;
+  return {
+    total: trials.length,
+    assigned: trials.filter(t => t.assigned_at || isAccepted(t)).length,
+    accepted: trials.filter(isAccepted).length,
+    tookPlace: trials.filter(hasTakenPlace).length,
+    enrolled,
+    noShows: trials.filter(t => t.outcome === 'no_show').length,
+    declines: trials.reduce((sum, t) => sum + (t.declines?.length || 0), 0),
+    conversionRate: rate(enrolled, trials.length),
+    medianHoursToAssignment: median(trials.map(getHoursToAssignment).filter((h): h is number => h !== null)),
+  };
+}
+
+function groupConversion(trials: FunnelTrial[], getKey: (trial: FunnelTrial) => { key: string; label: string }) {
+  const rows = new Map<string, ConversionRow>();
+  for (const trial of trials) {
+    const { key, label } = getKey(trial);
+    const row = rows.get(key) || { key, label, total: 0, accepted: 0, enrolled: 0, declines: 0, conversionRate: null };
+    row.total += 1;
+    row.accepted += isAccepted(trial) ? 1 : 0;
+    row.enrolled += isEnrolled(trial) ? 1 : 0;
+    row.declines += trial.declines?.length || 0;
+    rows.set(key, row);
+  }
+  return Array.from(rows.values())
+    .map(row => ({ ...row, conversionRate: rate(row.enrolled, row.total) }))
+    .sort((a, b) => b.total - a.total || a.label.localeCompare(b.label));
+}
+
+export const getConversionByInstrument = (trials: FunnelTrial[]) =>
+  groupConversion(trials, trial => ({ key: trial.instrument, label: trial.instrument }));
+
+// Trials are counted for the teacher who holds them; declines for the teacher who declined
+export function getConversionByTeacher(trials: FunnelTrial[], teacherNames: Map<string, string>) {
+  const rows = groupConversion(trials, trial => ({
+    key: trial.teacher_id || 'none',
+    label: trial.teacher_id ? teacherNames.get(trial.teacher_id) || 'Unbekannt' : 'Nicht zugewiesen',
+  })).map(row => ({ ...row, declines: 0 }));
+
+  for (const decline of trials.flatMap(t => t.declines || [])) {
+    const key = decline.teacher_id || 'none';
+    const row = rows.find(r => r.key === key);
+    if (row) {
+      row.declines += 1;
+    } else {
+      rows.push({
+        key,
+        label: decline.teacher_id ? teacherNames.get(decline.teacher_id) || 'Unbekannt' : 'Unbekannt',
+        total: 0,
+        accepted: 0,
+        enrolled: 0,
+        declines: 1,
+        conversionRate: null,
+      });
+    }
+  }
+  return rows;
+}
+
+export function getDeclineReasonCounts(trials: FunnelTrial[]) {
+  const counts = new Map<string, number>();
+  for (const decline of trials.flatMap(t => t.declines || [])) {
+    const key = decline.reason || 'unknown';
+    counts.set(key, (counts.get(key) || 0) + 1);
+  }
+  return Array.from(counts, ([reason, count]) => ({
+    reason,
+    label: reason === 'unknown' ? 'Ohne Angabe' : TRIAL_DECLINE_REASON_LABELS[reason as TrialDeclineReason],
+    count,
+  })).sort((a, b) => b.count - a.count);
+}
+
+// Requests per month and how many of them led to a contract (by request month)
+export function getMonthlyTrend(trials: FunnelTrial[], months: number, now = new Date()) {
+  const buckets = Array.from({ length: months }, (_, i) => {
+    const month = startOfMonth(subMonths(now, months - 1 - i));
+    return { month: format(month, 'yyyy-MM'), label: format(month, 'MMM yy', { locale: de }), requests: 0, enrolled: 0 };
+  });
+  for (const trial of trials) {
+    const bucket = buckets.find(b => b.month === format(new Date(trial.created_at), 'yyyy-MM'));
+    if (!bucket) continue;
+    bucket.requests += 1;
+    bucket.enrolled += isEnrolled(trial) ? 1 : 0;
+  }
+  return buckets;
+}
+
+export const fmtRate = (value: number | null) =>
+  value === null ? '–' : `${(value * 100).toLocaleString('de-DE', { maximumFractionDigits: 1 })} %`;
+
+export const fmtHours = (hours: number | null) => {
+  if (hours === null) return '–';
+  if (hours < 48) return `${Math.round(hours)} Std.`;
+  return `${(hours / 24).toLocaleString('de-DE', { maximumFractionDigits: 1 })} Tage`;
+};
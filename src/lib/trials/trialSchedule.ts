@@ -0,0 +1,59 @@
+// lib/trials/trialSchedule.ts
+// Dates, places and outcomes of trial appointments (Probestunden). Times are stored as timestamptz
+// and edited in the browser's local time via <input type="datetime-local">.
+import { format } from 'date-fns';
+import { de } from 'date-fns/locale';
+import { TrialAppointment, TrialOutcome } from '@/lib/supabase';
+
+export const TRIAL_OUTCOME_LABELS: Record<TrialOutcome, string> = {
+  took_place: 'Hat stattgefunden',
+  no_show: 'Nicht erschienen',
+  converted: 'Vertrag abgeschlossen',
+};
+
+export const TRIAL_OUTCOMES = Object.keys(TRIAL_OUTCOME_LABELS) as TrialOutcome[];
+
+export const TRIAL_DURATIONS = [30, 45, 60];
+
+// ISO timestamp <-> value of a datetime-local input
+export const toDateTimeLocal = (value?: string | null) =>
+  value ? format(new Date(value), "yyyy-MM-dd'T'HH:mm") : '';
+
+export const fromDateTimeLocal = (value: string) =>
+  value ? new Date(value).toISOString() : null;
+
+// "Di, 07.10.2025, 16:30"
+export const fmtTrialSlot = (value?: string | null) =>
+  value ? format(new Date(value), 'EEEEEE, dd.MM.yyyy, HH:mm', { locale: de }) : '';
+
+export const fmtTrialTime = (value?: string | null) =>
+  value ? format(new Date(value), 'HH:mm') : '';
+
+export const getTrialLocation = (trial: Pick<TrialAppointment, 'room' | 'location'>) =>
+  trial.room?.name || trial.location || '';
+
+// Scheduled trials still ahead without an outcome, earliest first
+export function getUpcomingTrials<T extends Pick<TrialAppointment, 'scheduled_at' | 'outcome'>>(trials: T[], now = new Date()) {
+  return trials
+    .filter(trial => trial.scheduled_at && !trial.outcome && new Date(trial.scheduled_at) >= now)
+    .sort((a, b) => a.scheduled_at!.localeCompare(b.scheduled_at!));
+}
+
+// Past scheduled trials that still need an outcome
+export function getTrialsAwaitingOutcome<T extends Pick<TrialAppointment, 'scheduled_at' | 'outcome'>>(trials: T[], now = new Date()) {
+  return trials.filter(trial => trial.scheduled_at && !trial.outcome && new Date(trial.scheduled_at) < now);
+}
+
+// Upcoming trials grouped per day for the agenda
+export function groupTrialsByDay<T extends Pick<TrialAppointment, 'scheduled_at'>>(trials: T[]) {
+  const groups = new Map<string, T[]>();
+  for (const trial of trials) {
+    const day = format(new Date(trial.scheduled_at!), 'yyyy-MM-dd');
+    groups.set(day, [...(groups.get(day) || []), trial]);
+  }
+  return Array.from(groups, ([day, items]) => ({
+    day,
+    label: format(new Date(`${day}T00:00:00`), 'EEEE, dd.MM.yyyy', { locale: de }),
+    trials: items,
+  }));
+}
@@ -0,0 +1,7 @@
+// functions/_shared/cors.ts
+// Headers for functions that are called from the browser through supabase.functions.invoke.
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
@@ -0,0 +1,84 @@
+// functions/_shared/emailTransport.ts
+// Outbound email behind one small interface. EMAIL_TRANSPORT selects the implementation:
+// - smtp: SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASSWORD, SMTP_SECURE ("true" for port 465)
+// - file: writes each message as .eml into EMAIL_OUTBOX_DIR (local development)
+// - console: logs each message (default, so nothing is sent by accident)
+import nodemailer from 'npm:nodemailer@6.9.14';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface EmailTransport {
+  name: string;
+  send(message: EmailMessage): Promise<void>;
+}
+
+export function createSmtpTransport(from: string): EmailTransport {
+  const host = Deno.env.get('SMTP_HOST');
+  if (!host) {
+    throw new Error('SMTP_HOST is not configured');
+  }
+
+  const port = Number(Deno.env.get('SMTP_PORT') || 587);
+  const mailer = nodemailer.createTransport({
+    host,
+    port,
+    secure: Deno.env.get('SMTP_SECURE') === 'true' || port === 465,
+    auth: Deno.env.get('SMTP_USER')
+      ? { user: Deno.env.get('SMTP_USER'), pass: Deno.env.get('SMTP_PASSWORD') }
+      : undefined,
+  });
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      await mailer.sendMail({ from, to: message.to, subject: message.subject, text: message.text });
+    },
+  };
+}
+
+export function createFileTransport(from: string, directory: string): EmailTransport {
+  return {
+    name: 'file',
+    async send(message) {
+      await Deno.mkdir(directory, { recursive: true });
+      const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${crypto.randomUUID()}.eml`;
+      const eml = [
+        `From: ${from}`,
+        `To: ${message.to}`,
+        `Subject: ${message.subject}`,
+        'Content-Type: text/plain; charset=utf-8',
+        '',
+        message.text,
+      ].join('\r\n');
+      await Deno.writeTextFile(`${directory}/${fileName}`, eml);
+    },
+  };
+}
+
+export function createConsoleTransport(from: string): EmailTransport {
+  return {
+    name: 'console',
+    async send(message) {
+      console.log(`[email] ${from} -> ${message.to}: ${message.subject}\n${message.text}`);
+    },
+  };
+}
+
+export function createTransportFromEnv(): EmailTransport {
+  const from = Deno.env.get('EMAIL_FROM') || 'Musikakademie München <noreply@localhost>';
+
+  switch (Deno.env.get('EMAIL_TRANSPORT') || 'console') {
+    case 'smtp':
+      return createSmtpTransport(from);
+    case 'file':
+      return createFileTransport(from, Deno.env.get('EMAIL_OUTBOX_DIR') || './outbox');
+    case 'console':
+      return createConsoleTransport(from);
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT: ${Deno.env.get('EMAIL_TRANSPORT')}`);
+  }
+}
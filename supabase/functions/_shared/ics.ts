@@ -0,0 +1,91 @@
+// functions/_shared/ics.ts
+// Minimal iCalendar (RFC 5545) writer for read-only calendar feeds.
+
+export interface CalendarEvent {
+  uid: string;
+  title: string;
+  // timed event (ISO timestamps) ...
+  starts_at?: string | null;
+  ends_at?: string | null;
+  // ... or all-day event (yyyy-MM-dd, end inclusive)
+  start_date?: string | null;
+  end_date?: string | null;
+  location?: string | null;
+  description?: string | null;
+  updated_at?: string | null;
+}
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/([,;])/g, '\\$1');
+
+// 2025-10-27T16:00:00+00:00 -> 20251027T160000Z
+const formatUtc = (value: string | Date) =>
+  new Date(value).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const formatDate = (value: string) => value.slice(0, 10).replace(/-/g, '');
+
+const nextDay = (value: string) => {
+  const date = new Date(`${value.slice(0, 10)}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + 1);
+  return date.toISOString().slice(0, 10);
+};
+
+// Lines longer than 75 octets are folded with CRLF + space
+const fold = (line: string) => {
+  const bytes = new TextEncoder().encode(line);
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    if (new TextEncoder().encode(current + char).length > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+export function buildCalendar(name: string, events: CalendarEvent[]) {
+  const stamp = formatUtc(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Musikakademie München//Kalender//DE',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    'X-WR-TIMEZONE:Europe/Berlin',
+  ];
+
+  for (const event of events) {
+    const isAllDay = !!event.start_date;
+    if (!isAllDay && !event.starts_at) continue;
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}@musikakademie`,
+      `DTSTAMP:${event.updated_at ? formatUtc(event.updated_at) : stamp}`,
+      ...(isAllDay
+        ? [
+            `DTSTART;VALUE=DATE:${formatDate(event.start_date!)}`,
+            // DTEND of all-day events is exclusive
+            `DTEND;VALUE=DATE:${formatDate(nextDay(event.end_date || event.start_date!))}`,
+            'TRANSP:TRANSPARENT',
+          ]
+        : [
+            `DTSTART:${formatUtc(event.starts_at!)}`,
+            `DTEND:${formatUtc(event.ends_at || event.starts_at!)}`,
+          ]),
+      `SUMMARY:${escapeText(event.title)}`,
+      ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+      ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+      'END:VEVENT'
+    );
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(fold).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,26 @@
+// functions/_shared/instruments.ts
+// Instruments offered in the public trial form; same list as INSTRUMENTS in
+// src/lib/constants.ts without 'andere' (edge functions can't import from the app).
+export const TRIAL_REQUEST_INSTRUMENTS: readonly string[] = [
+  'Klassischer Gesang',
+  'Moderner Gesang',
+  'Vocalcoaching',
+  'Gesang',
+  'Tenor',
+  'Bühnencoaching',
+  'Klavier',
+  'Keyboard',
+  'Gitarre',
+  'Flamenco Gitarre',
+  'Klassische Gitarre',
+  'E-Gitarre',
+  'E-Bass',
+  'Cello',
+  'Saxophon',
+  'Klarinette',
+  'Blockflöte',
+  'Steptanz',
+  'Kompositionslehre',
+  'Musikproduktion',
+  'Musikalische Grundschulung',
+];
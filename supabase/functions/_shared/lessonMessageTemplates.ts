@@ -0,0 +1,58 @@
+// functions/_shared/lessonMessageTemplates.ts
+// German plain-text reminders and cancellation notices for students and guardians.
+import { RenderedEmail } from './notificationEmailTemplates.ts';
+
+// One row of get_lesson_message_details / get_due_lesson_reminders
+export interface LessonMessageDetails {
+  lesson_id: string;
+  lesson_number: number;
+  lesson_date: string | null;
+  start_time: string | null;
+  student_name: string;
+  instrument: string | null;
+  teacher_name: string | null;
+  room_name: string | null;
+  recipient_email: string | null;
+  recipient_name: string | null;
+}
+
+const WEEKDAYS = ['Sonntag', 'Montag', 'Dienstag', 'Mittwoch', 'Donnerstag', 'Freitag', 'Samstag'];
+
+const formatLessonDate = (lesson: LessonMessageDetails) => {
+  if (!lesson.lesson_date) return 'dem vereinbarten Termin';
+  const [year, month, day] = lesson.lesson_date.split('-').map(Number);
+  const weekday = WEEKDAYS[new Date(Date.UTC(year, month - 1, day)).getUTCDay()];
+  const time = lesson.start_time ? ` um ${lesson.start_time.slice(0, 5)} Uhr` : '';
+  return `${weekday}, ${String(day).padStart(2, '0')}.${String(month).padStart(2, '0')}.${year}${time}`;
+};
+
+const lessonLabel = (lesson: LessonMessageDetails) =>
+  `${lesson.instrument ? `${lesson.instrument}unterricht` : 'Unterricht'} von ${lesson.student_name}` +
+  `${lesson.teacher_name ? ` bei ${lesson.teacher_name}` : ''}`;
+
+const signature = ['Viele Grüße', 'Musikakademie München'].join('\n');
+
+export function renderLessonReminder(lesson: LessonMessageDetails): RenderedEmail {
+  return {
+    subject: `Erinnerung: Unterricht am ${formatLessonDate(lesson)}`,
+    text: [
+      `Hallo ${lesson.recipient_name || lesson.student_name},`,
+      `wir möchten an den ${lessonLabel(lesson)} am ${formatLessonDate(lesson)} erinnern` +
+        `${lesson.room_name ? ` (${lesson.room_name})` : ''}.`,
+      'Falls der Termin nicht wahrgenommen werden kann, geben Sie bitte rechtzeitig Bescheid.',
+      signature,
+    ].join('\n\n'),
+  };
+}
+
+export function renderLessonCancellation(lesson: LessonMessageDetails, reason?: string | null): RenderedEmail {
+  return {
+    subject: `Absage: Unterricht am ${formatLessonDate(lesson)}`,
+    text: [
+      `Hallo ${lesson.recipient_name || lesson.student_name},`,
+      `leider muss der ${lessonLabel(lesson)} am ${formatLessonDate(lesson)} ausfallen.`,
+      reason?.trim() ? `Grund: ${reason.trim()}` : '',
+      signature,
+    ].filter(Boolean).join('\n\n'),
+  };
+}
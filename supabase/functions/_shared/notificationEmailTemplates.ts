@@ -0,0 +1,104 @@
+// functions/_shared/notificationEmailTemplates.ts
+// German plain-text emails for each notification type and for the daily digest.
+
+export type NotificationType = 'contract_fulfilled' | 'assigned_trial' | 'declined_trial' | 'accepted_trial';
+
+// One row of get_pending_notification_emails
+export interface PendingNotificationEmail {
+  notification_id: string;
+  profile_id: string;
+  email: string;
+  full_name: string;
+  frequency: 'instant' | 'daily' | 'off';
+  type: NotificationType;
+  message: string;
+  created_at: string;
+  student_name: string | null;
+  teacher_name: string | null;
+  variant_name: string | null;
+  trial_student_name: string | null;
+  trial_instrument: string | null;
+  trial_phone: string | null;
+  trial_email: string | null;
+  attempts: number;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+}
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('de-DE', { timeZone: 'Europe/Berlin', dateStyle: 'medium', timeStyle: 'short' });
+
+const trialContact = (n: PendingNotificationEmail) =>
+  [n.trial_phone && `Telefon: ${n.trial_phone}`, n.trial_email && `E-Mail: ${n.trial_email}`].filter(Boolean).join('\n');
+
+// Subject and the notification-specific paragraph
+const TEMPLATES: Record<NotificationType, (n: PendingNotificationEmail) => RenderedEmail> = {
+  contract_fulfilled: n => ({
+    subject: `Vertrag erfüllt: ${n.student_name || 'Schüler'}`,
+    text: [
+      `Der Vertrag${n.variant_name ? ` „${n.variant_name}“` : ''} von ${n.student_name || 'einem Schüler'}` +
+        `${n.teacher_name ? ` bei ${n.teacher_name}` : ''} ist vollständig erfüllt.`,
+      'Bitte prüfen Sie im Postfach, ob ein Folgevertrag angelegt werden soll.',
+    ].join('\n\n'),
+  }),
+  assigned_trial: n => ({
+    subject: `Neue Probestunde: ${n.trial_student_name || 'Interessent'}`,
+    text: [
+      `Ihnen wurde eine Probestunde für ${n.trial_student_name || 'einen Interessenten'}` +
+        `${n.trial_instrument ? ` (${n.trial_instrument})` : ''} zugewiesen.`,
+      trialContact(n),
+      'Bitte nehmen Sie die Probestunde im Postfach an oder lehnen Sie sie ab.',
+    ].filter(Boolean).join('\n\n'),
+  }),
+  accepted_trial: n => ({
+    subject: `Probestunde angenommen: ${n.trial_student_name || 'Interessent'}`,
+    text: `${n.teacher_name || 'Eine Lehrkraft'} hat die Probestunde für ${n.trial_student_name || 'einen Interessenten'}` +
+      `${n.trial_instrument ? ` (${n.trial_instrument})` : ''} angenommen.`,
+  }),
+  // Used both for a decline (row for the admins, naming the declining teacher) and for an
+  // open trial offered to each teacher; teacher_name is the addressee, so the trigger's
+  // message is the only text that fits both
+  declined_trial: n => ({
+    subject: `Probestunde offen: ${n.trial_student_name || 'Interessent'}`,
+    text: n.message,
+  }),
+};
+
+const renderBody = (n: PendingNotificationEmail) =>
+  TEMPLATES[n.type]?.(n) ?? { subject: 'Neue Benachrichtigung', text: n.message };
+
+const footer = (appUrl: string) =>
+  [
+    '--',
+    'Musikakademie München',
+    `Postfach: ${appUrl}/inbox`,
+    'E-Mail-Benachrichtigungen können im Postfach angepasst oder abgeschaltet werden.',
+  ].join('\n');
+
+export function renderNotificationEmail(n: PendingNotificationEmail, appUrl: string): RenderedEmail {
+  const body = renderBody(n);
+  return {
+    subject: `[Musikakademie] ${body.subject}`,
+    text: [`Hallo ${n.full_name},`, body.text, footer(appUrl)].join('\n\n'),
+  };
+}
+
+export function renderDigestEmail(items: PendingNotificationEmail[], appUrl: string): RenderedEmail {
+  const entries = items.map(n => {
+    const body = renderBody(n);
+    return `• ${formatDateTime(n.created_at)} – ${body.subject}\n  ${body.text.split('\n\n')[0]}`;
+  });
+
+  return {
+    subject: `[Musikakademie] Tägliche Zusammenfassung: ${items.length} ${items.length === 1 ? 'Benachrichtigung' : 'Benachrichtigungen'}`,
+    text: [
+      `Hallo ${items[0]?.full_name || ''},`,
+      'hier sind Ihre Benachrichtigungen seit der letzten Zusammenfassung:',
+      entries.join('\n\n'),
+      footer(appUrl),
+    ].join('\n\n'),
+  };
+}
@@ -0,0 +1,46 @@
+// functions/_shared/pushNotificationTemplates.ts
+// Short German texts for the push notifications; the service worker (public/sw.js) shows
+// title and body and opens url on click.
+
+export type PushNotificationType = 'assigned_trial' | 'contract_fulfilled';
+
+// One row of get_pending_notification_pushes
+export interface PendingNotificationPush {
+  notification_id: string;
+  profile_id: string;
+  type: PushNotificationType;
+  message: string;
+  created_at: string;
+  student_name: string | null;
+  teacher_name: string | null;
+  variant_name: string | null;
+  trial_student_name: string | null;
+  trial_instrument: string | null;
+  attempts: number;
+}
+
+export interface PushPayload {
+  title: string;
+  body: string;
+  url: string;
+  // Replaces an earlier push of the same notification instead of stacking
+  tag: string;
+}
+
+const TEMPLATES: Record<PushNotificationType, (n: PendingNotificationPush) => Omit<PushPayload, 'url' | 'tag'>> = {
+  assigned_trial: n => ({
+    title: 'Neue Probestunde',
+    body: `${n.trial_student_name || 'Ein Interessent'}${n.trial_instrument ? ` (${n.trial_instrument})` : ''} – ` +
+      'bitte annehmen oder ablehnen.',
+  }),
+  contract_fulfilled: n => ({
+    title: 'Vertrag erfüllt',
+    body: `${n.student_name || 'Ein Schüler'}${n.teacher_name ? ` bei ${n.teacher_name}` : ''}` +
+      `${n.variant_name ? ` – ${n.variant_name}` : ''}`,
+  }),
+};
+
+export function renderPushNotification(n: PendingNotificationPush, appUrl: string): PushPayload {
+  const content = TEMPLATES[n.type]?.(n) ?? { title: 'Neue Benachrichtigung', body: n.message };
+  return { ...content, url: `${appUrl}/inbox`, tag: n.notification_id };
+}
@@ -0,0 +1,163 @@
+// functions/send-lesson-messages/index.ts
+// Lesson reminders and cancellation notices to students or their guardians.
+// - { mode: 'reminders' } with the service role key (every few minutes): sends all due reminders
+// - { mode: 'cancellation', lesson_ids, reason } with a user session (right after saving in the
+//   lesson tracker): sends a notice for each lesson the user can see and that is marked unavailable
+// Every attempt is logged in lesson_messages. Transport settings: _shared/emailTransport.ts.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+import { createTransportFromEnv, EmailTransport } from '../_shared/emailTransport.ts';
+import { RenderedEmail } from '../_shared/notificationEmailTemplates.ts';
+import {
+  LessonMessageDetails,
+  renderLessonCancellation,
+  renderLessonReminder,
+} from '../_shared/lessonMessageTemplates.ts';
+
+type LessonMessageKind = 'reminder' | 'cancellation';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+const anonKey = Deno.env.get('SUPABASE_ANON_KEY') ?? '';
+
+const supabase = createClient(supabaseUrl, serviceRoleKey, { auth: { persistSession: false } });
+
+const json = (body: unknown, status = 200) =>
+  Response.json(body, { status, headers: corsHeaders });
+
+async function sendAndLog(
+  transport: EmailTransport,
+  lesson: LessonMessageDetails,
+  kind: LessonMessageKind,
+  email: RenderedEmail,
+  options: { reason?: string | null; sentBy?: string | null } = {}
+) {
+  let status: 'sent' | 'failed' | 'skipped' = 'skipped';
+  let error: string | null = lesson.recipient_email ? null : 'Keine E-Mail-Adresse hinterlegt';
+
+  if (lesson.recipient_email) {
+    try {
+      await transport.send({ to: lesson.recipient_email, subject: email.subject, text: email.text });
+      status = 'sent';
+    } catch (sendError) {
+      status = 'failed';
+      error = sendError instanceof Error ? sendError.message : String(sendError);
+      console.error(`Failed to send ${kind} for lesson ${lesson.lesson_id}:`, error);
+    }
+  }
+
+  const { error: logError } = await supabase.from('lesson_messages').insert({
+    lesson_id: lesson.lesson_id,
+    kind,
+    lesson_date: lesson.lesson_date,
+    recipient_email: lesson.recipient_email,
+    recipient_name: lesson.recipient_name,
+    reason: options.reason ?? null,
+    status,
+    error,
+    sent_by: options.sentBy ?? null,
+  });
+
+  if (logError) {
+    throw new Error(logError.message || 'Failed to log lesson message');
+  }
+
+  return status;
+}
+
+const countStatuses = (statuses: string[]) => ({
+  sent: statuses.filter(s => s === 'sent').length,
+  failed: statuses.filter(s => s === 'failed').length,
+  skipped: statuses.filter(s => s === 'skipped').length,
+});
+
+async function sendReminders(transport: EmailTransport) {
+  const { data, error } = await supabase.rpc('get_due_lesson_reminders');
+  if (error) {
+    throw new Error(error.message || 'Failed to load due lesson reminders');
+  }
+
+  const statuses: string[] = [];
+  for (const lesson of (data ?? []) as LessonMessageDetails[]) {
+    statuses.push(await sendAndLog(transport, lesson, 'reminder', renderLessonReminder(lesson)));
+  }
+  return countStatuses(statuses);
+}
+
+async function sendCancellations(transport: EmailTransport, authorization: string, lessonIds: string[], reason: string | null) {
+  // The user's own session decides which lessons may be notified (lessons RLS)
+  const userClient = createClient(supabaseUrl, anonKey, {
+    global: { headers: { Authorization: authorization } },
+    auth: { persistSession: false },
+  });
+
+  const { data: { user } } = await userClient.auth.getUser();
+  if (!user) {
+    return null;
+  }
+
+  const { data: visible, error: visibleError } = await userClient
+    .from('lessons')
+    .select('id')
+    .in('id', lessonIds)
+    .eq('is_available', false);
+  if (visibleError) {
+    throw new Error(visibleError.message || 'Failed to load lessons');
+  }
+
+  const { data: settings } = await supabase
+    .from('lesson_message_settings')
+    .select('cancellation_notices_enabled')
+    .maybeSingle();
+  if (settings && !settings.cancellation_notices_enabled) {
+    return { sent: 0, failed: 0, skipped: 0 };
+  }
+
+  const { data, error } = await supabase.rpc('get_lesson_message_details', {
+    p_lesson_ids: (visible ?? []).map(lesson => lesson.id),
+  });
+  if (error) {
+    throw new Error(error.message || 'Failed to load lesson details');
+  }
+
+  const statuses: string[] = [];
+  for (const lesson of (data ?? []) as LessonMessageDetails[]) {
+    statuses.push(await sendAndLog(transport, lesson, 'cancellation', renderLessonCancellation(lesson, reason), {
+      reason,
+      sentBy: user.id,
+    }));
+  }
+  return countStatuses(statuses);
+}
+
+Deno.serve(async req => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const authorization = req.headers.get('Authorization') ?? '';
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const transport = createTransportFromEnv();
+
+    if (body.mode === 'reminders') {
+      if (authorization !== `Bearer ${serviceRoleKey}`) {
+        return json({ error: 'Unauthorized' }, 401);
+      }
+      return json({ mode: 'reminders', ...(await sendReminders(transport)) });
+    }
+
+    if (body.mode === 'cancellation') {
+      const lessonIds = Array.isArray(body.lesson_ids) ? body.lesson_ids.filter((id: unknown) => typeof id === 'string') : [];
+      const reason = typeof body.reason === 'string' && body.reason.trim() ? body.reason.trim() : null;
+      const result = await sendCancellations(transport, authorization, lessonIds, reason);
+      return result ? json({ mode: 'cancellation', ...result }) : json({ error: 'Unauthorized' }, 401);
+    }
+
+    return json({ error: 'Unknown mode' }, 400);
+  } catch (error) {
+    console.error('send-lesson-messages failed:', error);
+    return json({ error: error instanceof Error ? error.message : String(error) }, 500);
+  }
+});
@@ -0,0 +1,110 @@
+// functions/send-notification-emails/index.ts
+// Sends pending notification emails. Call with the service role key as bearer token:
+// - every few minutes without parameters: instant emails, "off" recipients are marked skipped
+// - once a day with ?mode=digest: one summary per recipient with the daily preference
+// Env: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, APP_URL plus the transport settings
+// described in _shared/emailTransport.ts.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { createTransportFromEnv, EmailTransport } from '../_shared/emailTransport.ts';
+import {
+  PendingNotificationEmail,
+  renderDigestEmail,
+  renderNotificationEmail,
+} from '../_shared/notificationEmailTemplates.ts';
+
+type DeliveryStatus = 'sent' | 'failed' | 'skipped';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+const appUrl = (Deno.env.get('APP_URL') ?? '').replace(/\/$/, '');
+
+const supabase = createClient(supabaseUrl, serviceRoleKey, { auth: { persistSession: false } });
+
+async function recordDeliveries(items: PendingNotificationEmail[], status: DeliveryStatus, error?: string) {
+  if (items.length === 0) return;
+
+  const { error: upsertError } = await supabase
+    .from('notification_email_deliveries')
+    .upsert(
+      items.map(item => ({
+        notification_id: item.notification_id,
+        profile_id: item.profile_id,
+        status,
+        error: error ?? null,
+        attempts: item.attempts + 1,
+      })),
+      { onConflict: 'notification_id,profile_id' }
+    );
+
+  if (upsertError) {
+    throw new Error(upsertError.message || 'Failed to record email deliveries');
+  }
+}
+
+async function deliver(transport: EmailTransport, items: PendingNotificationEmail[], subject: string, text: string) {
+  try {
+    await transport.send({ to: items[0].email, subject, text });
+    await recordDeliveries(items, 'sent');
+    return true;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Failed to send email to ${items[0].email}:`, message);
+    await recordDeliveries(items, 'failed', message);
+    return false;
+  }
+}
+
+async function sendInstant(transport: EmailTransport, pending: PendingNotificationEmail[]) {
+  await recordDeliveries(pending.filter(item => item.frequency === 'off'), 'skipped');
+
+  let sent = 0;
+  let failed = 0;
+  for (const item of pending.filter(item => item.frequency === 'instant')) {
+    const email = renderNotificationEmail(item, appUrl);
+    if (await deliver(transport, [item], email.subject, email.text)) sent++;
+    else failed++;
+  }
+  return { sent, failed };
+}
+
+async function sendDigests(transport: EmailTransport, pending: PendingNotificationEmail[]) {
+  const byRecipient = new Map<string, PendingNotificationEmail[]>();
+  pending
+    .filter(item => item.frequency === 'daily')
+    .forEach(item => byRecipient.set(item.profile_id, [...(byRecipient.get(item.profile_id) ?? []), item]));
+
+  let sent = 0;
+  let failed = 0;
+  for (const items of byRecipient.values()) {
+    const email = renderDigestEmail(items, appUrl);
+    if (await deliver(transport, items, email.subject, email.text)) sent++;
+    else failed++;
+  }
+  return { sent, failed };
+}
+
+Deno.serve(async req => {
+  if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  try {
+    const mode = new URL(req.url).searchParams.get('mode') === 'digest' ? 'digest' : 'instant';
+    const transport = createTransportFromEnv();
+
+    const { data, error } = await supabase.rpc('get_pending_notification_emails');
+    if (error) {
+      throw new Error(error.message || 'Failed to load pending notification emails');
+    }
+
+    const pending = ((data ?? []) as PendingNotificationEmail[]).filter(item => !!item.email);
+    const result = mode === 'digest'
+      ? await sendDigests(transport, pending)
+      : await sendInstant(transport, pending);
+
+    return Response.json({ mode, transport: transport.name, ...result });
+  } catch (error) {
+    console.error('send-notification-emails failed:', error);
+    return Response.json({ error: error instanceof Error ? error.message : String(error) }, { status: 500 });
+  }
+});
@@ -0,0 +1,122 @@
+// functions/send-push-notifications/index.ts
+// Sends pending Web Push notifications to every subscribed device of the recipient.
+// Call every minute with the service role key as bearer token.
+// Env: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, APP_URL, VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY
+// and VAPID_SUBJECT (mailto: contact, defaults to the school's address). Generate the key pair once with
+// `npx web-push generate-vapid-keys`; the public key is also the frontend's VITE_VAPID_PUBLIC_KEY.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import webpush from 'npm:web-push@3.6.7';
+import { PendingNotificationPush, renderPushNotification } from '../_shared/pushNotificationTemplates.ts';
+
+interface PushSubscriptionRow {
+  id: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+const appUrl = (Deno.env.get('APP_URL') ?? '').replace(/\/$/, '');
+
+const supabase = createClient(supabaseUrl, serviceRoleKey, { auth: { persistSession: false } });
+
+async function recordDelivery(item: PendingNotificationPush, status: 'sent' | 'failed', error?: string) {
+  const { error: upsertError } = await supabase
+    .from('notification_push_deliveries')
+    .upsert(
+      {
+        notification_id: item.notification_id,
+        profile_id: item.profile_id,
+        status,
+        error: error ?? null,
+        attempts: item.attempts + 1,
+      },
+      { onConflict: 'notification_id,profile_id' }
+    );
+
+  if (upsertError) {
+    throw new Error(upsertError.message || 'Failed to record push delivery');
+  }
+}
+
+async function getSubscriptions(profileId: string): Promise<PushSubscriptionRow[]> {
+  const { data, error } = await supabase
+    .from('push_subscriptions')
+    .select('id, endpoint, p256dh, auth')
+    .eq('profile_id', profileId);
+
+  if (error) {
+    throw new Error(error.message || 'Failed to load push subscriptions');
+  }
+
+  return data ?? [];
+}
+
+// A notification counts as delivered once any device of the recipient accepted it.
+// Subscriptions the push service reports as gone (404/410) are removed.
+async function deliver(item: PendingNotificationPush) {
+  const payload = JSON.stringify(renderPushNotification(item, appUrl));
+  const errors: string[] = [];
+  let delivered = false;
+
+  for (const subscription of await getSubscriptions(item.profile_id)) {
+    try {
+      await webpush.sendNotification(
+        { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+        payload,
+        { TTL: 60 * 60 * 24 }
+      );
+      delivered = true;
+      await supabase.from('push_subscriptions').update({ last_used_at: new Date().toISOString() }).eq('id', subscription.id);
+    } catch (error) {
+      const statusCode = (error as { statusCode?: number }).statusCode;
+      if (statusCode === 404 || statusCode === 410) {
+        await supabase.from('push_subscriptions').delete().eq('id', subscription.id);
+        continue;
+      }
+      errors.push(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  if (delivered || errors.length === 0) {
+    await recordDelivery(item, 'sent');
+    return true;
+  }
+
+  console.error(`Failed to push notification ${item.notification_id}:`, errors.join('; '));
+  await recordDelivery(item, 'failed', errors.join('; '));
+  return false;
+}
+
+Deno.serve(async req => {
+  if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  try {
+    const publicKey = Deno.env.get('VAPID_PUBLIC_KEY');
+    const privateKey = Deno.env.get('VAPID_PRIVATE_KEY');
+    if (!publicKey || !privateKey) {
+      throw new Error('VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY are not configured');
+    }
+    webpush.setVapidDetails(Deno.env.get('VAPID_SUBJECT') || 'mailto:info@musikakademie-muenchen.de', publicKey, privateKey);
+
+    const { data, error } = await supabase.rpc('get_pending_notification_pushes');
+    if (error) {
+      throw new Error(error.message || 'Failed to load pending push notifications');
+    }
+
+    let sent = 0;
+    let failed = 0;
+    for (const item of (data ?? []) as PendingNotificationPush[]) {
+      if (await deliver(item)) sent++;
+      else failed++;
+    }
+
+    return Response.json({ sent, failed });
+  } catch (error) {
+    console.error('send-push-notifications failed:', error);
+    return Response.json({ error: error instanceof Error ? error.message : String(error) }, { status: 500 });
+  }
+});
@@ -0,0 +1,90 @@
+// functions/teacher-calendar/index.ts
+// ICS calendar of a teacher's lessons, trial appointments and the school closures.
+// - GET ?token=...: subscription feed for calendar apps; the token is the only credential, so
+//   deploy with `supabase functions deploy teacher-calendar --no-verify-jwt`
+// - GET with a user session (one-off download from the app): own calendar, admins may pass ?teacher_id=
+// Env: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+import { buildCalendar, CalendarEvent } from '../_shared/ics.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+
+const supabase = createClient(supabaseUrl, serviceRoleKey, { auth: { persistSession: false } });
+
+const headers = { ...corsHeaders, 'Access-Control-Allow-Methods': 'GET, OPTIONS' };
+
+const text = (body: string, status: number) => new Response(body, { status, headers });
+
+async function teacherFromToken(token: string) {
+  const { data, error } = await supabase
+    .from('teacher_calendar_tokens')
+    .select('teacher_id')
+    .eq('token', token)
+    .is('revoked_at', null)
+    .maybeSingle();
+  if (error) {
+    throw new Error(error.message || 'Failed to check calendar token');
+  }
+  return data?.teacher_id ?? null;
+}
+
+async function teacherFromSession(authorization: string, requestedTeacherId: string | null) {
+  const { data: { user } } = await supabase.auth.getUser(authorization.replace(/^Bearer /, ''));
+  if (!user) return null;
+
+  const { data: profile } = await supabase.from('profiles').select('role').eq('id', user.id).maybeSingle();
+  if (requestedTeacherId && profile?.role === 'admin') {
+    return requestedTeacherId;
+  }
+
+  const { data: teacher } = await supabase.from('teachers').select('id').eq('profile_id', user.id).maybeSingle();
+  if (!teacher || (requestedTeacherId && requestedTeacherId !== teacher.id)) return null;
+  return teacher.id as string;
+}
+
+Deno.serve(async req => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers });
+  }
+
+  try {
+    const url = new URL(req.url);
+    const token = url.searchParams.get('token');
+    const authorization = req.headers.get('Authorization') ?? '';
+
+    const teacherId = token
+      ? await teacherFromToken(token)
+      : authorization ? await teacherFromSession(authorization, url.searchParams.get('teacher_id')) : null;
+
+    if (!teacherId) {
+      return text('Unauthorized', 401);
+    }
+
+    const [{ data: teacher }, { data: events, error }] = await Promise.all([
+      supabase.from('teachers').select('name').eq('id', teacherId).maybeSingle(),
+      supabase.rpc('get_teacher_calendar_events', { p_teacher_id: teacherId }),
+    ]);
+    if (error) {
+      throw new Error(error.message || 'Failed to load calendar events');
+    }
+
+    const calendar = buildCalendar(
+      `Musikakademie – ${teacher?.name ?? 'Unterricht'}`,
+      (events ?? []) as CalendarEvent[]
+    );
+
+    return new Response(calendar, {
+      headers: {
+        ...headers,
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'attachment; filename="musikakademie.ics"',
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('teacher-calendar failed:', error);
+    return text('Calendar unavailable', 500);
+  }
+});
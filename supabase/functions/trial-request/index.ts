@@ -0,0 +1,116 @@
+// functions/trial-request/index.ts
+// Public trial lesson requests from /probestunde; stored as open trial appointments (source 'web').
+// Spam protection: honeypot field, minimum fill time and a rate limit per hashed client IP.
+// Called with the anon key, so no user session is required.
+// Env: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, TRIAL_REQUEST_SALT (optional, salts the IP hash)
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+import { TRIAL_REQUEST_INSTRUMENTS } from '../_shared/instruments.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+const salt = Deno.env.get('TRIAL_REQUEST_SALT') ?? '';
+
+const supabase = createClient(supabaseUrl, serviceRoleKey, { auth: { persistSession: false } });
+
+// Requests per IP within one hour
+const MAX_PER_IP = 3;
+// Forms submitted faster than this are filled in by bots
+const MIN_FILL_MS = 3000;
+
+const json = (body: unknown, status = 200) =>
+  Response.json(body, { status, headers: corsHeaders });
+
+const text = (value: unknown, maxLength: number) =>
+  typeof value === 'string' && value.trim() ? value.trim().slice(0, maxLength) : null;
+
+const isEmail = (value: string) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value);
+
+async function hashIp(ip: string) {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${salt}:${ip}`));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// The client can send its own X-Forwarded-For; only the last entry is appended by the
+// proxy in front of the function and can be trusted
+const clientIp = (req: Request) =>
+  (req.headers.get('x-forwarded-for') ?? '').split(',').pop()?.trim() || 'unknown';
+
+// Logs the request unless the IP is over its limit (check and insert in one transaction)
+async function isRateLimited(ipHash: string) {
+  const { data: logged, error } = await supabase.rpc('log_trial_request', {
+    p_ip_hash: ipHash,
+    p_max_per_hour: MAX_PER_IP,
+  });
+  if (error) {
+    throw new Error(error.message || 'Failed to check rate limit');
+  }
+  return !logged;
+}
+
+Deno.serve(async req => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.json().catch(() => ({}));
+
+    // Honeypot filled or form submitted too fast: pretend success
+    if (text(body.website, 200) || typeof body.elapsed_ms !== 'number' || body.elapsed_ms < MIN_FILL_MS) {
+      return json({ ok: true });
+    }
+
+    const studentName = text(body.student_name, 200);
+    const instrument = text(body.instrument, 100);
+    const email = text(body.email, 200);
+    const phone = text(body.phone, 50);
+    const consentText = text(body.consent_text, 1000);
+
+    if (!studentName || !instrument) {
+      return json({ error: 'Name und Instrument sind erforderlich' }, 400);
+    }
+    if (!TRIAL_REQUEST_INSTRUMENTS.includes(instrument)) {
+      return json({ error: 'Bitte ein Instrument aus der Liste wählen' }, 400);
+    }
+    if (!email && !phone) {
+      return json({ error: 'Bitte E-Mail-Adresse oder Telefonnummer angeben' }, 400);
+    }
+    if (email && !isEmail(email)) {
+      return json({ error: 'Die E-Mail-Adresse ist ungültig' }, 400);
+    }
+    if (body.consent !== true || !consentText) {
+      return json({ error: 'Bitte der Datenschutzerklärung zustimmen' }, 400);
+    }
+
+    const ipHash = await hashIp(clientIp(req));
+
+    if (await isRateLimited(ipHash)) {
+      return json({ error: 'Zu viele Anfragen. Bitte versuchen Sie es später erneut.' }, 429);
+    }
+
+    const { error } = await supabase.from('trial_appointments').insert({
+      student_name: studentName,
+      instrument,
+      email,
+      phone,
+      status: 'open',
+      source: 'web',
+      preferred_times: text(body.preferred_times, 1000),
+      message: text(body.message, 2000),
+      privacy_consent_at: new Date().toISOString(),
+      privacy_consent_text: consentText,
+    });
+    if (error) {
+      throw new Error(error.message || 'Failed to save trial request');
+    }
+
+    // Hashes are only needed for the rate limit window
+    await supabase.from('trial_request_log').delete().lt('created_at', new Date(Date.now() - 86400000).toISOString());
+
+    return json({ ok: true });
+  } catch (error) {
+    console.error('trial-request failed:', error);
+    return json({ error: 'Die Anfrage konnte nicht gespeichert werden' }, 500);
+  }
+});
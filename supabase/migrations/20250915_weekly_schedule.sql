@@ -0,0 +1,265 @@
+-- Weekly timetable: recurring weekday/time/room slot per contract
+-- - rooms: admin-maintained list of teaching rooms
+-- - contracts.schedule_weekday / schedule_start_time / room_id: the recurring slot
+-- - lessons.planned_date: planned date derived from the slot (teachers confirm it as lessons.date)
+-- - get_schedule_conflicts: overlap check across all active contracts (teacher or room)
+-- - update_contract_schedule: saves the slot and re-plans the open lessons
+
+BEGIN;
+
+-- 1) Rooms
+CREATE TABLE IF NOT EXISTS public.rooms (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL UNIQUE,
+  capacity integer,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.rooms ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE policyname = 'rooms_select_authenticated'
+      AND tablename = 'rooms'
+      AND schemaname = 'public'
+  ) THEN
+    CREATE POLICY rooms_select_authenticated
+    ON public.rooms
+    FOR SELECT
+    TO authenticated
+    USING (coalesce(public.get_user_role(), 'teacher') IN ('admin','teacher'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE policyname = 'rooms_write_admin'
+      AND tablename = 'rooms'
+      AND schemaname = 'public'
+  ) THEN
+    CREATE POLICY rooms_write_admin
+    ON public.rooms
+    FOR ALL
+    TO authenticated
+    USING (public.get_user_role() = 'admin')
+    WITH CHECK (public.get_user_role() = 'admin');
+  END IF;
+END$$;
+
+-- 2) Recurring slot on contracts (ISO weekday: 1 = Montag ... 7 = Sonntag)
+ALTER TABLE public.contracts
+  ADD COLUMN IF NOT EXISTS schedule_weekday smallint CHECK (schedule_weekday BETWEEN 1 AND 7),
+  ADD COLUMN IF NOT EXISTS schedule_start_time time,
+  ADD COLUMN IF NOT EXISTS room_id uuid REFERENCES public.rooms(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_contracts_schedule_slot
+  ON public.contracts (schedule_weekday, schedule_start_time)
+  WHERE schedule_weekday IS NOT NULL;
+
+-- 3) Planned date per lesson
+ALTER TABLE public.lessons
+  ADD COLUMN IF NOT EXISTS planned_date date;
+
+-- 4) Conflict check
+-- Two slots conflict when they share the weekday, their time ranges overlap and
+-- they use the same teacher or the same room. Contracts of the same group/duo
+-- variant booked into the identical slot are one group lesson, not a conflict.
+-- Only admins and teachers may check; teachers see student and teacher names only for
+-- their own contracts, other slots are reported without them.
+CREATE OR REPLACE FUNCTION public.get_schedule_conflicts(
+  p_weekday smallint,
+  p_start_time time,
+  p_duration_minutes integer,
+  p_teacher_id uuid DEFAULT NULL,
+  p_room_id uuid DEFAULT NULL,
+  p_exclude_contract_id uuid DEFAULT NULL,
+  p_contract_variant_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  contract_id uuid,
+  conflict_type text,
+  student_name text,
+  teacher_name text,
+  room_name text,
+  start_time time,
+  duration_minutes integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH slots AS (
+    SELECT
+      c.id,
+      c.teacher_id,
+      c.room_id,
+      c.contract_variant_id,
+      c.schedule_start_time,
+      coalesce(cv.session_length_minutes, 45) AS duration_minutes,
+      cv.group_type,
+      s.name AS student_name,
+      t.name AS teacher_name,
+      t.profile_id AS teacher_profile_id,
+      r.name AS room_name
+    FROM public.contracts c
+    LEFT JOIN public.contract_variants cv ON cv.id = c.contract_variant_id
+    LEFT JOIN public.students s ON s.id = c.student_id
+    LEFT JOIN public.teachers t ON t.id = c.teacher_id
+    LEFT JOIN public.rooms r ON r.id = c.room_id
+    WHERE c.status = 'active'
+      AND (c.cancelled_at IS NULL OR c.cancelled_at >= current_date)
+      AND c.schedule_weekday = p_weekday
+      AND c.schedule_start_time IS NOT NULL
+      AND (p_exclude_contract_id IS NULL OR c.id <> p_exclude_contract_id)
+  )
+  SELECT
+    sl.id,
+    CASE
+      WHEN p_teacher_id IS NOT NULL AND sl.teacher_id = p_teacher_id
+       AND p_room_id IS NOT NULL AND sl.room_id = p_room_id THEN 'teacher_and_room'
+      WHEN p_teacher_id IS NOT NULL AND sl.teacher_id = p_teacher_id THEN 'teacher'
+      ELSE 'room'
+    END,
+    CASE WHEN public.get_user_role() = 'admin' OR sl.teacher_profile_id = auth.uid() THEN sl.student_name END,
+    CASE WHEN public.get_user_role() = 'admin' OR sl.teacher_profile_id = auth.uid() THEN sl.teacher_name END,
+    sl.room_name,
+    sl.schedule_start_time,
+    sl.duration_minutes
+  FROM slots sl
+  WHERE public.get_user_role() IN ('admin', 'teacher')
+    AND sl.schedule_start_time < p_start_time + make_interval(mins => p_duration_minutes)
+    AND p_start_time < sl.schedule_start_time + make_interval(mins => sl.duration_minutes)
+    AND (
+      (p_teacher_id IS NOT NULL AND sl.teacher_id = p_teacher_id)
+      OR (p_room_id IS NOT NULL AND sl.room_id = p_room_id)
+    )
+    AND NOT (
+      p_contract_variant_id IS NOT NULL
+      AND sl.contract_variant_id = p_contract_variant_id
+      AND sl.group_type IN ('group', 'duo')
+      AND sl.schedule_start_time = p_start_time
+    )
+  ORDER BY sl.schedule_start_time, sl.student_name;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_schedule_conflicts(smallint, time, integer, uuid, uuid, uuid, uuid) TO authenticated;
+
+-- 5) Planned dates for open lessons
+-- Lessons that already carry a confirmed date keep it; every other lesson gets
+-- the next free slot date starting at term_start (or the contract creation date).
+CREATE OR REPLACE FUNCTION public.plan_contract_lessons(contract_id_param uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_contract record;
+  v_cursor date;
+  v_lesson record;
+  v_planned integer := 0;
+BEGIN
+  SELECT id, schedule_weekday, term_start, created_at
+  INTO v_contract
+  FROM public.contracts
+  WHERE id = contract_id_param;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'contract not found';
+  END IF;
+
+  IF v_contract.schedule_weekday IS NULL THEN
+    UPDATE public.lessons SET planned_date = NULL WHERE contract_id = contract_id_param;
+    RETURN 0;
+  END IF;
+
+  v_cursor := coalesce(v_contract.term_start::date, v_contract.created_at::date);
+  -- advance to the first slot weekday on/after the start date
+  v_cursor := v_cursor + ((v_contract.schedule_weekday - extract(isodow FROM v_cursor)::int + 7) % 7);
+
+  FOR v_lesson IN
+    SELECT id, date
+    FROM public.lessons
+    WHERE contract_id = contract_id_param
+    ORDER BY lesson_number
+  LOOP
+    IF v_lesson.date IS NOT NULL THEN
+      UPDATE public.lessons SET planned_date = v_lesson.date WHERE id = v_lesson.id;
+      -- keep the series after the last confirmed lesson
+      IF v_lesson.date >= v_cursor THEN
+        v_cursor := v_lesson.date + ((v_contract.schedule_weekday - extract(isodow FROM v_lesson.date)::int + 7) % 7);
+        IF v_cursor = v_lesson.date THEN
+          v_cursor := v_cursor + 7;
+        END IF;
+      END IF;
+    ELSE
+      UPDATE public.lessons SET planned_date = v_cursor WHERE id = v_lesson.id;
+      v_cursor := v_cursor + 7;
+      v_planned := v_planned + 1;
+    END IF;
+  END LOOP;
+
+  RETURN v_planned;
+END;
+$$;
+
+-- Internal: only called from update_contract_schedule and other SECURITY DEFINER functions
+REVOKE ALL ON FUNCTION public.plan_contract_lessons(uuid) FROM PUBLIC, anon, authenticated;
+
+-- 6) Save slot (admin or the assigned teacher) and re-plan lessons
+CREATE OR REPLACE FUNCTION public.update_contract_schedule(
+  _contract_id uuid,
+  _weekday smallint,
+  _start_time time,
+  _room_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _contract_teacher_id uuid;
+  _allowed boolean;
+  _planned integer;
+BEGIN
+  SELECT teacher_id INTO _contract_teacher_id
+  FROM public.contracts
+  WHERE id = _contract_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'contract not found';
+  END IF;
+
+  SELECT public.get_user_role() = 'admin' OR EXISTS (
+    SELECT 1 FROM public.teachers t
+    WHERE t.id = _contract_teacher_id AND t.profile_id = auth.uid()
+  ) INTO _allowed;
+
+  IF NOT coalesce(_allowed, false) THEN
+    RAISE EXCEPTION 'not allowed';
+  END IF;
+
+  IF (_weekday IS NULL) <> (_start_time IS NULL) THEN
+    RAISE EXCEPTION 'weekday and start time must be set together';
+  END IF;
+
+  UPDATE public.contracts
+  SET schedule_weekday = _weekday,
+      schedule_start_time = _start_time,
+      room_id = _room_id,
+      updated_at = now()
+  WHERE id = _contract_id;
+
+  _planned := public.plan_contract_lessons(_contract_id);
+
+  RETURN jsonb_build_object('success', true, 'contract_id', _contract_id, 'planned_lessons', _planned);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.update_contract_schedule(uuid, smallint, time, uuid) TO authenticated;
+
+COMMIT;
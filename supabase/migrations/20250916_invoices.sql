@@ -0,0 +1,320 @@
+-- Invoicing: numbered invoices for monthly and upfront contracts
+-- - invoice_number_sequences: one counter row per year; the number is taken inside
+--   the same transaction as the invoice insert, so a failed insert rolls the
+--   counter back and the yearly sequence stays gap-free
+-- - invoices: ledger with a snapshot of recipient/description/amount; invoices are
+--   never deleted, only cancelled (status 'cancelled'), to keep the sequence intact
+-- - contract_billing_amount: amount per billing period (final_price or variant price minus discounts)
+-- - create_contract_invoice / generate_monthly_invoices / set_invoice_status: admin-only RPCs;
+--   there is no UPDATE policy, so amounts and numbers of issued invoices cannot be changed
+
+BEGIN;
+
+-- 1) Yearly counter
+CREATE TABLE IF NOT EXISTS public.invoice_number_sequences (
+  year integer PRIMARY KEY,
+  last_number integer NOT NULL DEFAULT 0
+);
+
+ALTER TABLE public.invoice_number_sequences ENABLE ROW LEVEL SECURITY;
+-- no policies: only reachable through SECURITY DEFINER functions
+
+-- 2) Invoices
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'invoice_status') THEN
+    CREATE TYPE invoice_status AS ENUM ('open', 'paid', 'cancelled');
+  END IF;
+END$$;
+
+CREATE TABLE IF NOT EXISTS public.invoices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_number text NOT NULL UNIQUE,
+  invoice_year integer NOT NULL,
+  sequence_number integer NOT NULL,
+  contract_id uuid REFERENCES public.contracts(id) ON DELETE SET NULL,
+  student_id uuid REFERENCES public.students(id) ON DELETE SET NULL,
+  billing_cycle billing_cycle NOT NULL,
+  period_start date NOT NULL,
+  period_end date,
+  issue_date date NOT NULL DEFAULT current_date,
+  due_date date NOT NULL,
+  amount numeric(10,2) NOT NULL CHECK (amount >= 0),
+  recipient_name text NOT NULL,
+  description text NOT NULL,
+  status invoice_status NOT NULL DEFAULT 'open',
+  paid_at date,
+  cancelled_at date,
+  created_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (invoice_year, sequence_number)
+);
+
+-- One live invoice per contract and billing period
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_contract_period
+  ON public.invoices (contract_id, period_start)
+  WHERE status <> 'cancelled';
+
+CREATE INDEX IF NOT EXISTS idx_invoices_status_due ON public.invoices (status, due_date);
+
+ALTER TABLE public.invoices ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE policyname = 'invoices_select_admin'
+      AND tablename = 'invoices'
+      AND schemaname = 'public'
+  ) THEN
+    CREATE POLICY invoices_select_admin
+    ON public.invoices
+    FOR SELECT
+    TO authenticated
+    USING (public.get_user_role() = 'admin');
+  END IF;
+END$$;
+
+-- Status changes (paid / cancelled) go through set_invoice_status only
+DROP POLICY IF EXISTS invoices_update_admin ON public.invoices;
+
+-- 3) Amount per billing period
+CREATE OR REPLACE FUNCTION public.contract_billing_amount(contract_id_param uuid)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT round(
+    coalesce(
+      c.final_price,
+      coalesce(cv.monthly_price, cv.one_time_price, 0)
+        * greatest(0, 1 - (
+            coalesce((SELECT sum(d.discount_percent) FROM public.contract_discounts d WHERE d.id = ANY (c.discount_ids)), 0)
+            + coalesce(c.custom_discount_percent, 0)
+          ) / 100)
+    ),
+    2
+  )
+  FROM public.contracts c
+  LEFT JOIN public.contract_variants cv ON cv.id = c.contract_variant_id
+  WHERE c.id = contract_id_param;
+$$;
+
+-- Internal: only called from create_contract_invoice and the SEPA collection RPCs
+REVOKE ALL ON FUNCTION public.contract_billing_amount(uuid) FROM PUBLIC, anon, authenticated;
+
+-- 4) Next number of the year (row lock serialises concurrent callers)
+CREATE OR REPLACE FUNCTION public.next_invoice_number(p_year integer)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_number integer;
+BEGIN
+  INSERT INTO public.invoice_number_sequences (year, last_number)
+  VALUES (p_year, 1)
+  ON CONFLICT (year) DO UPDATE SET last_number = public.invoice_number_sequences.last_number + 1
+  RETURNING last_number INTO v_number;
+
+  RETURN v_number;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.next_invoice_number(integer) FROM PUBLIC, anon, authenticated;
+
+-- 5) Create one invoice for a contract
+-- Monthly contracts are billed per calendar month (p_period_start: any day of the month,
+-- default: current month). Upfront contracts get exactly one invoice for the whole term.
+CREATE OR REPLACE FUNCTION public.create_contract_invoice(
+  contract_id_param uuid,
+  p_period_start date DEFAULT NULL,
+  p_issue_date date DEFAULT current_date,
+  p_payment_days integer DEFAULT 14
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_contract record;
+  v_cycle billing_cycle;
+  v_period_start date;
+  v_period_end date;
+  v_amount numeric;
+  v_year integer;
+  v_seq integer;
+  v_description text;
+  v_invoice public.invoices;
+BEGIN
+  IF public.get_user_role() IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'not allowed';
+  END IF;
+
+  SELECT c.*, s.name AS student_name, cv.name AS variant_name, cv.monthly_price
+  INTO v_contract
+  FROM public.contracts c
+  LEFT JOIN public.students s ON s.id = c.student_id
+  LEFT JOIN public.contract_variants cv ON cv.id = c.contract_variant_id
+  WHERE c.id = contract_id_param;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'contract not found';
+  END IF;
+
+  v_cycle := coalesce(
+    v_contract.billing_cycle,
+    CASE WHEN v_contract.monthly_price IS NOT NULL THEN 'monthly' ELSE 'upfront' END::billing_cycle
+  );
+
+  IF v_cycle = 'monthly' THEN
+    v_period_start := date_trunc('month', coalesce(p_period_start, current_date))::date;
+    v_period_end := (v_period_start + interval '1 month - 1 day')::date;
+    v_description := format('Unterricht %s – %s', coalesce(v_contract.variant_name, 'Vertrag'), to_char(v_period_start, 'MM/YYYY'));
+  ELSE
+    v_period_start := coalesce(v_contract.term_start::date, v_contract.created_at::date);
+    v_period_end := v_contract.term_end::date;
+    v_description := format('Unterricht %s – Einmalzahlung', coalesce(v_contract.variant_name, 'Vertrag'));
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.invoices i
+    WHERE i.contract_id = contract_id_param
+      AND i.status <> 'cancelled'
+      AND (v_cycle = 'upfront' OR i.period_start = v_period_start)
+  ) THEN
+    RAISE EXCEPTION 'invoice already exists for this period';
+  END IF;
+
+  v_amount := public.contract_billing_amount(contract_id_param);
+  IF v_amount IS NULL OR v_amount <= 0 THEN
+    RAISE EXCEPTION 'contract has no billable amount';
+  END IF;
+
+  v_year := extract(year FROM p_issue_date)::int;
+  v_seq := public.next_invoice_number(v_year);
+
+  INSERT INTO public.invoices (
+    invoice_number, invoice_year, sequence_number, contract_id, student_id, billing_cycle,
+    period_start, period_end, issue_date, due_date, amount, recipient_name, description,
+    status, paid_at, created_by
+  ) VALUES (
+    format('%s-%s', v_year, lpad(v_seq::text, 4, '0')),
+    v_year,
+    v_seq,
+    contract_id_param,
+    v_contract.student_id,
+    v_cycle,
+    v_period_start,
+    v_period_end,
+    p_issue_date,
+    p_issue_date + p_payment_days,
+    v_amount,
+    coalesce(v_contract.student_name, 'Unbekannt'),
+    v_description,
+    -- upfront contracts that are already marked as paid in the contract
+    CASE WHEN v_cycle = 'upfront' AND v_contract.paid_at IS NOT NULL THEN 'paid' ELSE 'open' END::invoice_status,
+    CASE WHEN v_cycle = 'upfront' THEN v_contract.paid_at::date ELSE NULL END,
+    auth.uid()
+  )
+  RETURNING * INTO v_invoice;
+
+  RETURN to_jsonb(v_invoice);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_contract_invoice(uuid, date, date, integer) TO authenticated;
+
+-- 6) Monthly run: one invoice per active monthly contract that is due in the month
+CREATE OR REPLACE FUNCTION public.generate_monthly_invoices(p_month date DEFAULT current_date)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_month_start date := date_trunc('month', p_month)::date;
+  v_month_end date := (date_trunc('month', p_month) + interval '1 month - 1 day')::date;
+  v_contract record;
+  v_created integer := 0;
+  v_skipped jsonb := '[]'::jsonb;
+BEGIN
+  IF public.get_user_role() IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'not allowed';
+  END IF;
+
+  FOR v_contract IN
+    SELECT c.id, s.name AS student_name
+    FROM public.contracts c
+    LEFT JOIN public.students s ON s.id = c.student_id
+    LEFT JOIN public.contract_variants cv ON cv.id = c.contract_variant_id
+    WHERE c.status = 'active'
+      AND coalesce(c.billing_cycle::text, CASE WHEN cv.monthly_price IS NOT NULL THEN 'monthly' ELSE 'upfront' END) = 'monthly'
+      AND coalesce(c.first_payment_date, c.term_start, c.created_at)::date <= v_month_end
+      AND (c.term_end IS NULL OR c.term_end::date >= v_month_start)
+      AND (c.cancelled_at IS NULL OR c.cancelled_at::date >= v_month_start)
+      AND NOT EXISTS (
+        SELECT 1 FROM public.invoices i
+        WHERE i.contract_id = c.id AND i.period_start = v_month_start AND i.status <> 'cancelled'
+      )
+    ORDER BY s.name
+  LOOP
+    BEGIN
+      PERFORM public.create_contract_invoice(v_contract.id, v_month_start);
+      v_created := v_created + 1;
+    EXCEPTION WHEN OTHERS THEN
+      v_skipped := v_skipped || jsonb_build_object(
+        'contract_id', v_contract.id,
+        'student_name', v_contract.student_name,
+        'reason', SQLERRM
+      );
+    END;
+  END LOOP;
+
+  RETURN jsonb_build_object('success', true, 'created', v_created, 'skipped', v_skipped);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.generate_monthly_invoices(date) TO authenticated;
+
+-- 7) Status changes: open -> paid, open/paid -> cancelled; a cancelled invoice stays cancelled
+CREATE OR REPLACE FUNCTION public.set_invoice_status(
+  p_invoice_id uuid,
+  p_status invoice_status,
+  p_date date DEFAULT current_date
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_status invoice_status;
+BEGIN
+  IF public.get_user_role() IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'not allowed';
+  END IF;
+
+  SELECT status INTO v_status FROM public.invoices WHERE id = p_invoice_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'invoice not found';
+  END IF;
+
+  IF p_status = 'paid' AND v_status = 'open' THEN
+    UPDATE public.invoices SET status = 'paid', paid_at = coalesce(p_date, current_date) WHERE id = p_invoice_id;
+  ELSIF p_status = 'cancelled' AND v_status <> 'cancelled' THEN
+    UPDATE public.invoices SET status = 'cancelled', cancelled_at = coalesce(p_date, current_date) WHERE id = p_invoice_id;
+  ELSE
+    RAISE EXCEPTION 'invoice status cannot change from % to %', v_status, p_status;
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.set_invoice_status(uuid, invoice_status, date) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_invoice_status(uuid, invoice_status, date) TO authenticated;
+
+COMMIT;
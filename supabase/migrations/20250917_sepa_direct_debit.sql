@@ -0,0 +1,305 @@
+-- SEPA direct debit (Lastschriftlauf)
+-- - bank_ids: IBAN/BIC and mandate data per student bank record
+-- - sepa_settings: single-row creditor configuration (Gläubiger-ID, account)
+-- - sepa_runs: log of exported pain.008 files
+-- - sepa_run_items: contracts collected per month; a contract is collected at most once a month
+-- - monthly_contracts_due: internal helper of get_sepa_collection_items
+-- - get_sepa_collection_items / record_sepa_run: admin-only RPCs
+
+BEGIN;
+
+-- 1) Mandate data on the bank record
+ALTER TABLE public.bank_ids
+  ADD COLUMN IF NOT EXISTS iban text,
+  ADD COLUMN IF NOT EXISTS bic text,
+  ADD COLUMN IF NOT EXISTS mandate_reference text,
+  ADD COLUMN IF NOT EXISTS mandate_date date,
+  -- set by the first exported run; decides between FRST and RCUR
+  ADD COLUMN IF NOT EXISTS first_collected_at date;
+
+CREATE INDEX IF NOT EXISTS idx_bank_ids_entity ON public.bank_ids (entity_type, entity_id);
+
+-- 2) Creditor settings (single row)
+CREATE TABLE IF NOT EXISTS public.sepa_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  creditor_name text NOT NULL DEFAULT 'Musikakademie München',
+  creditor_iban text,
+  creditor_bic text,
+  creditor_id text,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.sepa_settings (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE public.sepa_settings ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE policyname = 'sepa_settings_admin'
+      AND tablename = 'sepa_settings'
+      AND schemaname = 'public'
+  ) THEN
+    CREATE POLICY sepa_settings_admin
+    ON public.sepa_settings
+    FOR ALL
+    TO authenticated
+    USING (public.get_user_role() = 'admin')
+    WITH CHECK (public.get_user_role() = 'admin');
+  END IF;
+END$$;
+
+-- 3) Export log
+CREATE TABLE IF NOT EXISTS public.sepa_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id text NOT NULL UNIQUE,
+  period_month date NOT NULL,
+  collection_date date NOT NULL,
+  transaction_count integer NOT NULL,
+  control_sum numeric(12,2) NOT NULL,
+  items jsonb NOT NULL DEFAULT '[]'::jsonb,
+  created_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.sepa_runs ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE policyname = 'sepa_runs_select_admin'
+      AND tablename = 'sepa_runs'
+      AND schemaname = 'public'
+  ) THEN
+    CREATE POLICY sepa_runs_select_admin
+    ON public.sepa_runs
+    FOR SELECT
+    TO authenticated
+    USING (public.get_user_role() = 'admin');
+  END IF;
+END$$;
+
+-- One row per collected contract and month; the primary key blocks a second debit
+CREATE TABLE IF NOT EXISTS public.sepa_run_items (
+  contract_id uuid NOT NULL REFERENCES public.contracts(id) ON DELETE CASCADE,
+  period_month date NOT NULL,
+  run_id uuid NOT NULL REFERENCES public.sepa_runs(id) ON DELETE CASCADE,
+  PRIMARY KEY (contract_id, period_month)
+);
+
+ALTER TABLE public.sepa_run_items ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE policyname = 'sepa_run_items_select_admin'
+      AND tablename = 'sepa_run_items'
+      AND schemaname = 'public'
+  ) THEN
+    CREATE POLICY sepa_run_items_select_admin
+    ON public.sepa_run_items
+    FOR SELECT
+    TO authenticated
+    USING (public.get_user_role() = 'admin');
+  END IF;
+END$$;
+
+-- 4) Active monthly contracts that are due in a given month and not collected yet
+CREATE OR REPLACE FUNCTION public.monthly_contracts_due(p_month date)
+RETURNS TABLE (contract_id uuid)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT c.id
+  FROM public.contracts c
+  LEFT JOIN public.contract_variants cv ON cv.id = c.contract_variant_id
+  WHERE c.status = 'active'
+    AND coalesce(c.billing_cycle::text, CASE WHEN cv.monthly_price IS NOT NULL THEN 'monthly' ELSE 'upfront' END) = 'monthly'
+    AND coalesce(c.first_payment_date, c.term_start, c.created_at)::date <= (date_trunc('month', p_month) + interval '1 month - 1 day')::date
+    AND (c.term_end IS NULL OR c.term_end::date >= date_trunc('month', p_month)::date)
+    AND (c.cancelled_at IS NULL OR c.cancelled_at::date >= date_trunc('month', p_month)::date)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.sepa_run_items ri
+      WHERE ri.contract_id = c.id AND ri.period_month = date_trunc('month', p_month)::date
+    );
+$$;
+
+-- Internal: only called from get_sepa_collection_items
+REVOKE ALL ON FUNCTION public.monthly_contracts_due(date) FROM PUBLIC, anon, authenticated;
+
+-- 5) Collection items incl. mandate data (missing data is reported, not filtered)
+CREATE OR REPLACE FUNCTION public.get_sepa_collection_items(p_month date)
+RETURNS TABLE (
+  contract_id uuid,
+  student_id uuid,
+  student_name text,
+  student_bank_id text,
+  variant_name text,
+  amount numeric,
+  bank_record_id uuid,
+  account_holder_name text,
+  iban text,
+  bic text,
+  mandate_reference text,
+  mandate_date date,
+  first_collected_at date
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF public.get_user_role() IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'not allowed';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    c.id,
+    s.id,
+    s.name,
+    s.bank_id,
+    cv.name,
+    public.contract_billing_amount(c.id),
+    b.id,
+    b.account_holder_name,
+    b.iban,
+    b.bic,
+    b.mandate_reference,
+    b.mandate_date,
+    b.first_collected_at
+  FROM public.monthly_contracts_due(p_month) d
+  JOIN public.contracts c ON c.id = d.contract_id
+  LEFT JOIN public.students s ON s.id = c.student_id
+  LEFT JOIN public.contract_variants cv ON cv.id = c.contract_variant_id
+  LEFT JOIN LATERAL (
+    SELECT bi.*
+    FROM public.bank_ids bi
+    WHERE bi.entity_type = 'student' AND bi.entity_id = s.id
+    ORDER BY bi.created_at DESC
+    LIMIT 1
+  ) b ON true
+  ORDER BY s.name;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_sepa_collection_items(date) TO authenticated;
+
+-- 6) Record an exported run and mark first collections
+CREATE OR REPLACE FUNCTION public.record_sepa_run(
+  p_message_id text,
+  p_month date,
+  p_collection_date date,
+  p_items jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_run_id uuid;
+BEGIN
+  IF public.get_user_role() IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'not allowed';
+  END IF;
+
+  INSERT INTO public.sepa_runs (message_id, period_month, collection_date, transaction_count, control_sum, items, created_by)
+  VALUES (
+    p_message_id,
+    date_trunc('month', p_month)::date,
+    p_collection_date,
+    jsonb_array_length(p_items),
+    coalesce((SELECT sum((i->>'amount')::numeric) FROM jsonb_array_elements(p_items) i), 0),
+    p_items,
+    auth.uid()
+  )
+  RETURNING id INTO v_run_id;
+
+  -- Fails for the whole run if any contract was collected for this month in the meantime
+  BEGIN
+    INSERT INTO public.sepa_run_items (contract_id, period_month, run_id)
+    SELECT (i->>'contract_id')::uuid, date_trunc('month', p_month)::date, v_run_id
+    FROM jsonb_array_elements(p_items) i;
+  EXCEPTION WHEN unique_violation THEN
+    RAISE EXCEPTION 'contracts already collected for this month, please check the run again';
+  END;
+
+  UPDATE public.bank_ids b
+  SET first_collected_at = p_collection_date
+  WHERE b.first_collected_at IS NULL
+    AND b.id IN (SELECT (i->>'bank_record_id')::uuid FROM jsonb_array_elements(p_items) i WHERE i->>'bank_record_id' IS NOT NULL);
+
+  RETURN jsonb_build_object('success', true, 'run_id', v_run_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_sepa_run(text, date, date, jsonb) TO authenticated;
+
+-- 7) Save bank/mandate data for a student (updates the latest record or creates one)
+CREATE OR REPLACE FUNCTION public.save_student_bank_account(
+  _student_id uuid,
+  _account_holder_name text,
+  _iban text,
+  _bic text,
+  _mandate_reference text,
+  _mandate_date date
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_record_id uuid;
+  v_reference text;
+BEGIN
+  IF public.get_user_role() IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'not allowed';
+  END IF;
+
+  SELECT bank_id INTO v_reference FROM public.students WHERE id = _student_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'student not found';
+  END IF;
+
+  SELECT id INTO v_record_id
+  FROM public.bank_ids
+  WHERE entity_type = 'student' AND entity_id = _student_id
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF v_record_id IS NULL THEN
+    INSERT INTO public.bank_ids (profile_id, reference_id, entity_type, entity_id, account_holder_name, iban, bic, mandate_reference, mandate_date)
+    VALUES (auth.uid(), coalesce(v_reference, _student_id::text), 'student', _student_id,
+            nullif(trim(_account_holder_name), ''), nullif(upper(replace(_iban, ' ', '')), ''),
+            nullif(upper(trim(_bic)), ''), nullif(trim(_mandate_reference), ''), _mandate_date)
+    RETURNING id INTO v_record_id;
+  ELSE
+    UPDATE public.bank_ids
+    SET account_holder_name = nullif(trim(_account_holder_name), ''),
+        iban = nullif(upper(replace(_iban, ' ', '')), ''),
+        bic = nullif(upper(trim(_bic)), ''),
+        -- a new mandate starts a new FRST/RCUR sequence
+        first_collected_at = CASE
+          WHEN mandate_reference IS DISTINCT FROM nullif(trim(_mandate_reference), '') THEN NULL
+          ELSE first_collected_at
+        END,
+        mandate_reference = nullif(trim(_mandate_reference), ''),
+        mandate_date = _mandate_date
+    WHERE id = v_record_id;
+  END IF;
+
+  RETURN v_record_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.save_student_bank_account(uuid, text, text, text, text, date) TO authenticated;
+
+COMMIT;
@@ -0,0 +1,152 @@
+-- Teacher payroll (Honorarabrechnung)
+-- - teacher_pay_rates: hourly rate per group type, either as default (teacher_id NULL) or per teacher
+-- - get_teacher_payroll_sessions: taught sessions of a month incl. minutes, rate and amount
+--   (lessons with a date and is_available = true; group/duo lessons sharing a slot count once)
+
+BEGIN;
+
+-- 1) Rates
+CREATE TABLE IF NOT EXISTS public.teacher_pay_rates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  teacher_id uuid REFERENCES public.teachers(id) ON DELETE CASCADE,
+  group_type text NOT NULL CHECK (group_type IN ('single', 'group', 'duo', 'varies')),
+  hourly_rate numeric(8,2) NOT NULL CHECK (hourly_rate >= 0),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_teacher_pay_rates_teacher_group
+  ON public.teacher_pay_rates (coalesce(teacher_id, '00000000-0000-0000-0000-000000000000'::uuid), group_type);
+
+ALTER TABLE public.teacher_pay_rates ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE policyname = 'teacher_pay_rates_select'
+      AND tablename = 'teacher_pay_rates'
+      AND schemaname = 'public'
+  ) THEN
+    -- teachers see the defaults and their own rates
+    CREATE POLICY teacher_pay_rates_select
+    ON public.teacher_pay_rates
+    FOR SELECT
+    TO authenticated
+    USING (
+      public.get_user_role() = 'admin'
+      OR teacher_id IS NULL
+      OR EXISTS (SELECT 1 FROM public.teachers t WHERE t.id = teacher_pay_rates.teacher_id AND t.profile_id = auth.uid())
+    );
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE policyname = 'teacher_pay_rates_write_admin'
+      AND tablename = 'teacher_pay_rates'
+      AND schemaname = 'public'
+  ) THEN
+    CREATE POLICY teacher_pay_rates_write_admin
+    ON public.teacher_pay_rates
+    FOR ALL
+    TO authenticated
+    USING (public.get_user_role() = 'admin')
+    WITH CHECK (public.get_user_role() = 'admin');
+  END IF;
+END$$;
+
+-- 2) Taught sessions of a month
+CREATE OR REPLACE FUNCTION public.get_teacher_payroll_sessions(p_month date, p_teacher_id uuid DEFAULT NULL)
+RETURNS TABLE (
+  teacher_id uuid,
+  teacher_name text,
+  session_date date,
+  group_type text,
+  variant_name text,
+  student_names text,
+  student_count integer,
+  minutes integer,
+  hourly_rate numeric,
+  amount numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_teacher_id uuid := p_teacher_id;
+  v_month_start date := date_trunc('month', p_month)::date;
+BEGIN
+  IF public.get_user_role() IS DISTINCT FROM 'admin' THEN
+    -- teachers only ever get their own statement
+    SELECT t.id INTO v_teacher_id FROM public.teachers t WHERE t.profile_id = auth.uid();
+    IF v_teacher_id IS NULL OR (p_teacher_id IS NOT NULL AND p_teacher_id <> v_teacher_id) THEN
+      RAISE EXCEPTION 'not allowed';
+    END IF;
+  END IF;
+
+  RETURN QUERY
+  WITH lesson_rows AS (
+    SELECT
+      c.teacher_id,
+      l.date::date AS session_date,
+      coalesce(cv.group_type, 'single') AS group_type,
+      cv.name AS variant_name,
+      s.name AS student_name,
+      coalesce(cv.session_length_minutes, 45) AS minutes,
+      CASE
+        WHEN cv.group_type IN ('group', 'duo') THEN concat_ws('|', cv.id::text, c.schedule_start_time::text)
+        ELSE l.id::text
+      END AS session_key
+    FROM public.lessons l
+    JOIN public.contracts c ON c.id = l.contract_id
+    LEFT JOIN public.contract_variants cv ON cv.id = c.contract_variant_id
+    LEFT JOIN public.students s ON s.id = c.student_id
+    WHERE l.date IS NOT NULL
+      AND coalesce(l.is_available, true)
+      AND l.date::date >= v_month_start
+      AND l.date::date < (v_month_start + interval '1 month')::date
+      AND c.teacher_id IS NOT NULL
+      AND (v_teacher_id IS NULL OR c.teacher_id = v_teacher_id)
+  ),
+  sessions AS (
+    SELECT
+      lr.teacher_id,
+      lr.session_date,
+      lr.group_type,
+      min(lr.variant_name) AS variant_name,
+      string_agg(DISTINCT lr.student_name, ', ') AS student_names,
+      count(*)::integer AS student_count,
+      max(lr.minutes)::integer AS minutes
+    FROM lesson_rows lr
+    GROUP BY lr.teacher_id, lr.session_date, lr.group_type, lr.session_key
+  )
+  SELECT
+    se.teacher_id,
+    t.name,
+    se.session_date,
+    se.group_type,
+    se.variant_name,
+    se.student_names,
+    se.student_count,
+    se.minutes,
+    r.hourly_rate,
+    round(se.minutes / 60.0 * coalesce(r.hourly_rate, 0), 2)
+  FROM sessions se
+  JOIN public.teachers t ON t.id = se.teacher_id
+  LEFT JOIN LATERAL (
+    -- teacher-specific rate wins over the default
+    SELECT pr.hourly_rate
+    FROM public.teacher_pay_rates pr
+    WHERE pr.group_type = se.group_type
+      AND (pr.teacher_id = se.teacher_id OR pr.teacher_id IS NULL)
+    ORDER BY pr.teacher_id NULLS LAST
+    LIMIT 1
+  ) r ON true
+  ORDER BY t.name, se.session_date;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_teacher_payroll_sessions(date, uuid) TO authenticated;
+
+COMMIT;
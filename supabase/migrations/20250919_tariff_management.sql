@@ -0,0 +1,108 @@
+-- Tariff management (Tarife)
+-- - contract_categories.is_active so categories can be retired without deleting contracts
+-- - get_variants_for_student: only variants of active categories
+-- - publish_price_version: copies the active catalogue of the current price version into a new
+--   version (optionally with a percentage price change) and makes it the default for new students
+-- Writes to categories/variants/discounts are covered by the existing "Admins can manage ..." policies.
+
+BEGIN;
+
+-- 1) Activate/deactivate categories
+ALTER TABLE public.contract_categories
+  ADD COLUMN IF NOT EXISTS is_active boolean NOT NULL DEFAULT true;
+
+CREATE INDEX IF NOT EXISTS idx_contract_categories_active ON public.contract_categories(is_active);
+
+-- 2) Variants offered to a student: active variant, active category, student's price version
+CREATE OR REPLACE FUNCTION public.get_variants_for_student(p_student_id uuid)
+RETURNS SETOF public.contract_variants
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_version smallint;
+BEGIN
+  IF p_student_id IS NOT NULL THEN
+    SELECT price_version INTO target_version
+    FROM public.students
+    WHERE id = p_student_id;
+  END IF;
+
+  -- New or unknown student: current price version
+  IF target_version IS NULL THEN
+    target_version := public.get_current_price_version();
+  END IF;
+
+  RETURN QUERY
+  SELECT v.*
+  FROM public.contract_variants v
+  JOIN public.contract_categories c ON c.id = v.contract_category_id
+  WHERE v.is_active = true
+    AND c.is_active = true
+    AND v.price_version = target_version;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_variants_for_student(uuid) TO authenticated;
+
+-- 3) Publish a new price version for the whole catalogue
+CREATE OR REPLACE FUNCTION public.publish_price_version(p_price_change_percent numeric DEFAULT 0)
+RETURNS TABLE (
+  price_version smallint,
+  variants_copied bigint
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_current smallint;
+  v_next smallint;
+  v_factor numeric;
+  v_copied bigint;
+BEGIN
+  IF public.get_user_role() IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'not allowed';
+  END IF;
+
+  IF p_price_change_percent IS NULL OR p_price_change_percent <= -100 THEN
+    RAISE EXCEPTION 'invalid price change';
+  END IF;
+
+  v_current := public.get_current_price_version();
+  SELECT greatest(coalesce(max(v.price_version), 0), coalesce(v_current, 0)) + 1
+  INTO v_next
+  FROM public.contract_variants v;
+
+  v_factor := 1 + p_price_change_percent / 100;
+
+  INSERT INTO public.contract_variants (
+    contract_category_id, name, duration_months, group_type, session_length_minutes,
+    total_lessons, monthly_price, one_time_price, notes, is_active, price_version
+  )
+  SELECT v.contract_category_id, v.name, v.duration_months, v.group_type, v.session_length_minutes,
+         v.total_lessons, round(v.monthly_price * v_factor, 2), round(v.one_time_price * v_factor, 2),
+         v.notes, true, v_next
+  FROM public.contract_variants v
+  WHERE v.is_active = true
+    AND v.price_version = v_current;
+
+  GET DIAGNOSTICS v_copied = ROW_COUNT;
+
+  IF v_copied = 0 THEN
+    RAISE EXCEPTION 'current price version has no active variants';
+  END IF;
+
+  UPDATE public.pricing_settings
+  SET current_price_version = v_next
+  WHERE id = true;
+
+  RETURN QUERY SELECT v_next, v_copied;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.publish_price_version(numeric) FROM public;
+GRANT EXECUTE ON FUNCTION public.publish_price_version(numeric) TO authenticated;
+
+COMMIT;
@@ -0,0 +1,93 @@
+-- Price version rollout
+-- - price_version_migrations: audit trail of students moved between price versions
+-- - migrate_students_price_version: moves selected students to a price version and logs each move
+-- Running contracts keep their variant and final_price; get_variants_for_student offers the new
+-- version for every follow-up contract of a migrated student.
+
+BEGIN;
+
+-- 1) Audit trail
+CREATE TABLE IF NOT EXISTS public.price_version_migrations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  student_id uuid NOT NULL REFERENCES public.students(id) ON DELETE CASCADE,
+  from_version smallint,
+  to_version smallint NOT NULL,
+  note text,
+  migrated_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  migrated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_price_version_migrations_student ON public.price_version_migrations(student_id);
+CREATE INDEX IF NOT EXISTS idx_price_version_migrations_migrated_at ON public.price_version_migrations(migrated_at DESC);
+
+ALTER TABLE public.price_version_migrations ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE policyname = 'price_version_migrations_select_admin'
+      AND tablename = 'price_version_migrations'
+      AND schemaname = 'public'
+  ) THEN
+    -- Written only through migrate_students_price_version
+    CREATE POLICY price_version_migrations_select_admin
+    ON public.price_version_migrations
+    FOR SELECT
+    TO authenticated
+    USING (public.get_user_role() = 'admin');
+  END IF;
+END$$;
+
+-- 2) Move students to another price version
+CREATE OR REPLACE FUNCTION public.migrate_students_price_version(
+  p_student_ids uuid[],
+  p_to_version smallint,
+  p_note text DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_migrated integer;
+BEGIN
+  IF public.get_user_role() IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'not allowed';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.contract_variants
+    WHERE price_version = p_to_version AND is_active = true
+  ) THEN
+    RAISE EXCEPTION 'price version % has no active variants', p_to_version;
+  END IF;
+
+  WITH moved AS (
+    SELECT s.id, s.price_version AS from_version
+    FROM public.students s
+    WHERE s.id = ANY(p_student_ids)
+      AND s.price_version IS DISTINCT FROM p_to_version
+    FOR UPDATE
+  ),
+  logged AS (
+    INSERT INTO public.price_version_migrations (student_id, from_version, to_version, note, migrated_by)
+    SELECT m.id, m.from_version, p_to_version, nullif(trim(p_note), ''), auth.uid()
+    FROM moved m
+    RETURNING student_id
+  )
+  UPDATE public.students s
+  SET price_version = p_to_version
+  FROM logged l
+  WHERE s.id = l.student_id;
+
+  GET DIAGNOSTICS v_migrated = ROW_COUNT;
+  RETURN v_migrated;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.migrate_students_price_version(uuid[], smallint, text) FROM public;
+GRANT EXECUTE ON FUNCTION public.migrate_students_price_version(uuid[], smallint, text) TO authenticated;
+
+COMMIT;
@@ -0,0 +1,312 @@
+-- Contract renewals (Verlängerungen)
+-- - contracts.previous_contract_id: the contract a follow-up replaces, so a student's history forms a chain
+-- - contract_renewals: proposed follow-up contracts (same teacher, variant and discounts)
+--   * reason 'fulfilled': created by trigger when a contract is completed
+--   * reason 'expiring': created by propose_contract_renewals for term-limited contracts near term_end
+-- - approve_contract_renewals: bulk-creates the follow-up contracts via atomic_save_and_sync_contract
+-- - link_contract_renewal: records a follow-up that was created manually through the contract form
+
+BEGIN;
+
+-- 1) Contract chain
+ALTER TABLE public.contracts
+  ADD COLUMN IF NOT EXISTS previous_contract_id uuid REFERENCES public.contracts(id) ON DELETE SET NULL;
+
+-- A contract is replaced at most once
+CREATE UNIQUE INDEX IF NOT EXISTS uq_contracts_previous_contract
+  ON public.contracts (previous_contract_id)
+  WHERE previous_contract_id IS NOT NULL;
+
+-- 2) Proposals
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'contract_renewal_status') THEN
+    CREATE TYPE contract_renewal_status AS ENUM ('proposed', 'approved', 'dismissed');
+  END IF;
+END$$;
+
+CREATE TABLE IF NOT EXISTS public.contract_renewals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  contract_id uuid NOT NULL UNIQUE REFERENCES public.contracts(id) ON DELETE CASCADE,
+  reason text NOT NULL CHECK (reason IN ('fulfilled', 'expiring')),
+  due_date date,
+  proposed_variant_id uuid REFERENCES public.contract_variants(id) ON DELETE SET NULL,
+  status contract_renewal_status NOT NULL DEFAULT 'proposed',
+  renewal_contract_id uuid REFERENCES public.contracts(id) ON DELETE SET NULL,
+  decided_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  decided_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_contract_renewals_status ON public.contract_renewals (status, due_date);
+
+ALTER TABLE public.contract_renewals ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE policyname = 'contract_renewals_admin_all'
+      AND tablename = 'contract_renewals'
+      AND schemaname = 'public'
+  ) THEN
+    CREATE POLICY contract_renewals_admin_all
+    ON public.contract_renewals
+    FOR ALL
+    TO authenticated
+    USING (public.get_user_role() = 'admin')
+    WITH CHECK (public.get_user_role() = 'admin');
+  END IF;
+END$$;
+
+-- 3) Follow-up variant: same category and name in the student's price version, else the same variant
+CREATE OR REPLACE FUNCTION public.get_renewal_variant(p_contract_id uuid)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(
+    (
+      SELECT nv.id
+      FROM public.contract_variants nv
+      WHERE nv.is_active = true
+        AND nv.contract_category_id = v.contract_category_id
+        AND nv.name = v.name
+        AND nv.price_version = coalesce(s.price_version, public.get_current_price_version())
+      LIMIT 1
+    ),
+    v.id
+  )
+  FROM public.contracts c
+  JOIN public.contract_variants v ON v.id = c.contract_variant_id
+  JOIN public.students s ON s.id = c.student_id
+  WHERE c.id = p_contract_id;
+$$;
+
+-- 4) Proposal when a contract is fulfilled
+CREATE OR REPLACE FUNCTION public.propose_renewal_on_completion()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'completed' AND OLD.status IS DISTINCT FROM 'completed'
+     AND NEW.cancelled_at IS NULL
+     AND NOT EXISTS (SELECT 1 FROM public.contracts f WHERE f.previous_contract_id = NEW.id) THEN
+    INSERT INTO public.contract_renewals (contract_id, reason, due_date, proposed_variant_id)
+    VALUES (NEW.id, 'fulfilled', current_date, public.get_renewal_variant(NEW.id))
+    ON CONFLICT (contract_id) DO NOTHING;
+  END IF;
+  RETURN NEW;
+EXCEPTION WHEN OTHERS THEN
+  -- never block lesson tracking because of a proposal
+  RAISE WARNING 'propose_renewal_on_completion failed for %: %', NEW.id, SQLERRM;
+  RETURN NEW;
+END;
+$$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger WHERE tgname = 'trg_propose_renewal_on_completion'
+  ) THEN
+    CREATE TRIGGER trg_propose_renewal_on_completion
+      AFTER UPDATE OF status ON public.contracts
+      FOR EACH ROW
+      EXECUTE FUNCTION public.propose_renewal_on_completion();
+  END IF;
+END$$;
+
+-- 5) Proposals for term-limited contracts that expire within p_days_ahead days
+CREATE OR REPLACE FUNCTION public.propose_contract_renewals(p_days_ahead integer DEFAULT 42)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_created integer;
+BEGIN
+  IF public.get_user_role() IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'not allowed';
+  END IF;
+
+  INSERT INTO public.contract_renewals (contract_id, reason, due_date, proposed_variant_id)
+  SELECT c.id, 'expiring', c.term_end::date, public.get_renewal_variant(c.id)
+  FROM public.contracts c
+  WHERE c.status = 'active'
+    AND c.term_end IS NOT NULL
+    AND c.term_end::date <= current_date + p_days_ahead
+    AND c.cancelled_at IS NULL
+    AND NOT EXISTS (SELECT 1 FROM public.contracts f WHERE f.previous_contract_id = c.id)
+  ON CONFLICT (contract_id) DO NOTHING;
+
+  GET DIAGNOSTICS v_created = ROW_COUNT;
+  RETURN v_created;
+END;
+$$;
+
+-- 6) Record a manually created follow-up contract
+CREATE OR REPLACE FUNCTION public.link_contract_renewal(p_previous_contract_id uuid, p_renewal_contract_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF public.get_user_role() IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'not allowed';
+  END IF;
+
+  UPDATE public.contracts
+  SET previous_contract_id = p_previous_contract_id
+  WHERE id = p_renewal_contract_id;
+
+  INSERT INTO public.contract_renewals (
+    contract_id, reason, due_date, proposed_variant_id, status, renewal_contract_id, decided_by, decided_at
+  )
+  SELECT c.id,
+         CASE WHEN c.status = 'completed' THEN 'fulfilled' ELSE 'expiring' END,
+         coalesce(c.term_end::date, current_date),
+         (SELECT contract_variant_id FROM public.contracts WHERE id = p_renewal_contract_id),
+         'approved', p_renewal_contract_id, auth.uid(), now()
+  FROM public.contracts c
+  WHERE c.id = p_previous_contract_id
+  ON CONFLICT (contract_id) DO UPDATE
+  SET status = 'approved',
+      renewal_contract_id = EXCLUDED.renewal_contract_id,
+      decided_by = EXCLUDED.decided_by,
+      decided_at = EXCLUDED.decided_at;
+END;
+$$;
+
+-- 7) Bulk approval: one follow-up contract per proposal, errors are reported per row
+CREATE OR REPLACE FUNCTION public.approve_contract_renewals(p_renewal_ids uuid[])
+RETURNS TABLE (
+  renewal_id uuid,
+  renewal_contract_id uuid,
+  error text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_renewal record;
+  v_variant record;
+  v_discount_percent numeric;
+  v_term_start date;
+  v_term_end date;
+  v_result jsonb;
+  v_new_id uuid;
+BEGIN
+  IF public.get_user_role() IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'not allowed';
+  END IF;
+
+  FOR v_renewal IN
+    SELECT r.id AS renewal_row_id, r.proposed_variant_id, r.contract_id,
+           c.student_id, c.teacher_id, c.type, c.contract_variant_id, c.discount_ids, c.custom_discount_percent,
+           c.billing_cycle, c.term_end, c.schedule_weekday, c.schedule_start_time, c.room_id
+    FROM public.contract_renewals r
+    JOIN public.contracts c ON c.id = r.contract_id
+    WHERE r.id = ANY(p_renewal_ids)
+      AND r.status = 'proposed'
+  LOOP
+    BEGIN
+      SELECT * INTO v_variant
+      FROM public.contract_variants
+      WHERE id = coalesce(v_renewal.proposed_variant_id, v_renewal.contract_variant_id);
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'variant not found';
+      END IF;
+
+      -- Follow-up starts the day after the term ends, or today for fulfilled card contracts
+      v_term_start := CASE
+        WHEN v_renewal.term_end IS NOT NULL AND v_renewal.term_end::date >= current_date THEN v_renewal.term_end::date + 1
+        ELSE current_date
+      END;
+      v_term_end := CASE
+        WHEN v_variant.duration_months IS NOT NULL THEN (v_term_start + make_interval(months => v_variant.duration_months))::date - 1
+        ELSE NULL
+      END;
+
+      -- Only discounts that are still offered are carried over
+      SELECT coalesce(sum(d.discount_percent), 0) INTO v_discount_percent
+      FROM public.contract_discounts d
+      WHERE d.id = ANY(coalesce(v_renewal.discount_ids, '{}'::uuid[]))
+        AND d.is_active = true;
+      v_discount_percent := least(100, v_discount_percent + coalesce(v_renewal.custom_discount_percent, 0));
+
+      v_result := public.atomic_save_and_sync_contract(
+        jsonb_build_object(
+          'student_id', v_renewal.student_id,
+          'teacher_id', v_renewal.teacher_id,
+          'type', v_renewal.type,
+          'contract_variant_id', v_variant.id,
+          'status', 'active',
+          'discount_ids', (
+            SELECT jsonb_agg(d.id)
+            FROM public.contract_discounts d
+            WHERE d.id = ANY(coalesce(v_renewal.discount_ids, '{}'::uuid[]))
+              AND d.is_active = true
+          ),
+          'custom_discount_percent', v_renewal.custom_discount_percent,
+          'payment_type', CASE WHEN v_variant.monthly_price IS NOT NULL THEN 'monthly' ELSE 'one_time' END,
+          'billing_cycle', v_renewal.billing_cycle,
+          'term_start', v_term_start,
+          'term_end', v_term_end
+        ),
+        false,
+        NULL
+      );
+      v_new_id := (v_result->>'contract_id')::uuid;
+
+      UPDATE public.contracts
+      SET previous_contract_id = v_renewal.contract_id,
+          final_price = round(coalesce(v_variant.monthly_price, v_variant.one_time_price) * (1 - v_discount_percent / 100), 2),
+          first_payment_date = CASE WHEN v_renewal.billing_cycle = 'monthly' THEN v_term_start ELSE NULL END,
+          schedule_weekday = v_renewal.schedule_weekday,
+          schedule_start_time = v_renewal.schedule_start_time,
+          room_id = v_renewal.room_id
+      WHERE id = v_new_id;
+
+      IF v_renewal.schedule_weekday IS NOT NULL THEN
+        PERFORM public.plan_contract_lessons(v_new_id);
+      END IF;
+
+      UPDATE public.contract_renewals
+      SET status = 'approved',
+          renewal_contract_id = v_new_id,
+          decided_by = auth.uid(),
+          decided_at = now()
+      WHERE id = v_renewal.renewal_row_id;
+
+      renewal_id := v_renewal.renewal_row_id;
+      renewal_contract_id := v_new_id;
+      error := NULL;
+      RETURN NEXT;
+    EXCEPTION WHEN OTHERS THEN
+      renewal_id := v_renewal.renewal_row_id;
+      renewal_contract_id := NULL;
+      error := SQLERRM;
+      RETURN NEXT;
+    END;
+  END LOOP;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.propose_contract_renewals(integer) FROM public;
+REVOKE ALL ON FUNCTION public.link_contract_renewal(uuid, uuid) FROM public;
+REVOKE ALL ON FUNCTION public.approve_contract_renewals(uuid[]) FROM public;
+GRANT EXECUTE ON FUNCTION public.get_renewal_variant(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.propose_contract_renewals(integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.link_contract_renewal(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.approve_contract_renewals(uuid[]) TO authenticated;
+
+COMMIT;
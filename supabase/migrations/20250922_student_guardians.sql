@@ -0,0 +1,214 @@
+-- Guardians / parent contacts
+-- - student_guardians: any number of contacts per student with a role (mother, father, payer,
+--   emergency contact); at most one contract partner and one invoice recipient per student
+-- - save_student_guardians: replaces all contacts of a student in one transaction
+-- - create_contract_invoice: addresses invoices to the invoice recipient if there is one
+-- Students without guardians (adults) keep being their own contract partner and recipient.
+
+BEGIN;
+
+-- 1) Roles
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'guardian_role') THEN
+    CREATE TYPE guardian_role AS ENUM ('mother', 'father', 'payer', 'emergency_contact', 'other');
+  END IF;
+END$$;
+
+-- 2) Contacts
+CREATE TABLE IF NOT EXISTS public.student_guardians (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  student_id uuid NOT NULL REFERENCES public.students(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  role guardian_role NOT NULL DEFAULT 'other',
+  email text,
+  phone text,
+  address text,
+  is_contract_partner boolean NOT NULL DEFAULT false,
+  is_invoice_recipient boolean NOT NULL DEFAULT false,
+  sort_order smallint NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_student_guardians_student ON public.student_guardians(student_id, sort_order);
+CREATE UNIQUE INDEX IF NOT EXISTS uq_student_guardians_contract_partner
+  ON public.student_guardians(student_id) WHERE is_contract_partner;
+CREATE UNIQUE INDEX IF NOT EXISTS uq_student_guardians_invoice_recipient
+  ON public.student_guardians(student_id) WHERE is_invoice_recipient;
+
+ALTER TABLE public.student_guardians ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE policyname = 'student_guardians_select'
+      AND tablename = 'student_guardians'
+      AND schemaname = 'public'
+  ) THEN
+    -- Visible to everyone who may read the student (admins, assigned teachers)
+    CREATE POLICY student_guardians_select
+    ON public.student_guardians
+    FOR SELECT
+    TO authenticated
+    USING (EXISTS (SELECT 1 FROM public.students s WHERE s.id = student_guardians.student_id));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE policyname = 'student_guardians_admin_all'
+      AND tablename = 'student_guardians'
+      AND schemaname = 'public'
+  ) THEN
+    CREATE POLICY student_guardians_admin_all
+    ON public.student_guardians
+    FOR ALL
+    TO authenticated
+    USING (public.get_user_role() = 'admin')
+    WITH CHECK (public.get_user_role() = 'admin');
+  END IF;
+END$$;
+
+-- 3) Replace all contacts of a student
+-- p_guardians: [{ name, role, email, phone, address, is_contract_partner, is_invoice_recipient }]
+CREATE OR REPLACE FUNCTION public.save_student_guardians(p_student_id uuid, p_guardians jsonb)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_saved integer;
+BEGIN
+  IF public.get_user_role() IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'not allowed';
+  END IF;
+
+  DELETE FROM public.student_guardians WHERE student_id = p_student_id;
+
+  INSERT INTO public.student_guardians (
+    student_id, name, role, email, phone, address, is_contract_partner, is_invoice_recipient, sort_order
+  )
+  SELECT
+    p_student_id,
+    trim(g.value->>'name'),
+    coalesce(nullif(g.value->>'role', ''), 'other')::guardian_role,
+    nullif(trim(g.value->>'email'), ''),
+    nullif(trim(g.value->>'phone'), ''),
+    nullif(trim(g.value->>'address'), ''),
+    coalesce((g.value->>'is_contract_partner')::boolean, false),
+    coalesce((g.value->>'is_invoice_recipient')::boolean, false),
+    (g.ordinality - 1)::smallint
+  FROM jsonb_array_elements(coalesce(p_guardians, '[]'::jsonb)) WITH ORDINALITY AS g(value, ordinality);
+
+  GET DIAGNOSTICS v_saved = ROW_COUNT;
+  RETURN v_saved;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.save_student_guardians(uuid, jsonb) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.save_student_guardians(uuid, jsonb) TO authenticated;
+
+-- 4) Invoices go to the invoice recipient, falling back to the student
+CREATE OR REPLACE FUNCTION public.create_contract_invoice(
+  contract_id_param uuid,
+  p_period_start date DEFAULT NULL,
+  p_issue_date date DEFAULT current_date,
+  p_payment_days integer DEFAULT 14
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_contract record;
+  v_cycle billing_cycle;
+  v_period_start date;
+  v_period_end date;
+  v_amount numeric;
+  v_year integer;
+  v_seq integer;
+  v_description text;
+  v_invoice public.invoices;
+BEGIN
+  IF public.get_user_role() IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'not allowed';
+  END IF;
+
+  SELECT c.*, coalesce(g.name, s.name) AS student_name, cv.name AS variant_name, cv.monthly_price
+  INTO v_contract
+  FROM public.contracts c
+  LEFT JOIN public.students s ON s.id = c.student_id
+  LEFT JOIN public.student_guardians g ON g.student_id = c.student_id AND g.is_invoice_recipient
+  LEFT JOIN public.contract_variants cv ON cv.id = c.contract_variant_id
+  WHERE c.id = contract_id_param;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'contract not found';
+  END IF;
+
+  v_cycle := coalesce(
+    v_contract.billing_cycle,
+    CASE WHEN v_contract.monthly_price IS NOT NULL THEN 'monthly' ELSE 'upfront' END::billing_cycle
+  );
+
+  IF v_cycle = 'monthly' THEN
+    v_period_start := date_trunc('month', coalesce(p_period_start, current_date))::date;
+    v_period_end := (v_period_start + interval '1 month - 1 day')::date;
+    v_description := format('Unterricht %s – %s', coalesce(v_contract.variant_name, 'Vertrag'), to_char(v_period_start, 'MM/YYYY'));
+  ELSE
+    v_period_start := coalesce(v_contract.term_start::date, v_contract.created_at::date);
+    v_period_end := v_contract.term_end::date;
+    v_description := format('Unterricht %s – Einmalzahlung', coalesce(v_contract.variant_name, 'Vertrag'));
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.invoices i
+    WHERE i.contract_id = contract_id_param
+      AND i.status <> 'cancelled'
+      AND (v_cycle = 'upfront' OR i.period_start = v_period_start)
+  ) THEN
+    RAISE EXCEPTION 'invoice already exists for this period';
+  END IF;
+
+  v_amount := public.contract_billing_amount(contract_id_param);
+  IF v_amount IS NULL OR v_amount <= 0 THEN
+    RAISE EXCEPTION 'contract has no billable amount';
+  END IF;
+
+  v_year := extract(year FROM p_issue_date)::int;
+  v_seq := public.next_invoice_number(v_year);
+
+  INSERT INTO public.invoices (
+    invoice_number, invoice_year, sequence_number, contract_id, student_id, billing_cycle,
+    period_start, period_end, issue_date, due_date, amount, recipient_name, description,
+    status, paid_at, created_by
+  ) VALUES (
+    format('%s-%s', v_year, lpad(v_seq::text, 4, '0')),
+    v_year,
+    v_seq,
+    contract_id_param,
+    v_contract.student_id,
+    v_cycle,
+    v_period_start,
+    v_period_end,
+    p_issue_date,
+    p_issue_date + p_payment_days,
+    v_amount,
+    coalesce(v_contract.student_name, 'Unbekannt'),
+    v_description,
+    -- upfront contracts that are already marked as paid in the contract
+    CASE WHEN v_cycle = 'upfront' AND v_contract.paid_at IS NOT NULL THEN 'paid' ELSE 'open' END::invoice_status,
+    CASE WHEN v_cycle = 'upfront' THEN v_contract.paid_at::date ELSE NULL END,
+    auth.uid()
+  )
+  RETURNING * INTO v_invoice;
+
+  RETURN to_jsonb(v_invoice);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_contract_invoice(uuid, date, date, integer) TO authenticated;
+
+COMMIT;
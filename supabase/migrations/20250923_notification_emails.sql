@@ -0,0 +1,166 @@
+-- Email delivery for notifications
+-- - notification_email_preferences: per user instant, daily digest or off (default: instant)
+-- - notification_email_deliveries: one row per notification and recipient once it was handled
+-- - get_pending_notification_emails: notification/recipient pairs that still need an email
+-- Sending happens in the edge function send-notification-emails (service role), which is
+-- called every few minutes for instant mails and once a day with ?mode=digest.
+-- Recipients: the teacher of a notification (except for their own trial decisions) and all
+-- admins for the rows addressed to them (declines, fulfilled contracts).
+
+BEGIN;
+
+-- 1) Preferences
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'email_frequency') THEN
+    CREATE TYPE email_frequency AS ENUM ('instant', 'daily', 'off');
+  END IF;
+END$$;
+
+CREATE TABLE IF NOT EXISTS public.notification_email_preferences (
+  profile_id uuid PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  frequency email_frequency NOT NULL DEFAULT 'instant',
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.notification_email_preferences ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE policyname = 'notification_email_preferences_own'
+      AND tablename = 'notification_email_preferences'
+      AND schemaname = 'public'
+  ) THEN
+    CREATE POLICY notification_email_preferences_own
+    ON public.notification_email_preferences
+    FOR ALL
+    TO authenticated
+    USING (profile_id = auth.uid())
+    WITH CHECK (profile_id = auth.uid());
+  END IF;
+END$$;
+
+-- 2) Delivery log
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'email_delivery_status') THEN
+    CREATE TYPE email_delivery_status AS ENUM ('sent', 'failed', 'skipped');
+  END IF;
+END$$;
+
+CREATE TABLE IF NOT EXISTS public.notification_email_deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  notification_id uuid NOT NULL REFERENCES public.notifications(id) ON DELETE CASCADE,
+  profile_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  status email_delivery_status NOT NULL,
+  error text,
+  attempts smallint NOT NULL DEFAULT 1,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (notification_id, profile_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_email_deliveries_profile ON public.notification_email_deliveries(profile_id);
+
+ALTER TABLE public.notification_email_deliveries ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE policyname = 'notification_email_deliveries_select_admin'
+      AND tablename = 'notification_email_deliveries'
+      AND schemaname = 'public'
+  ) THEN
+    -- Written only by the edge function (service role)
+    CREATE POLICY notification_email_deliveries_select_admin
+    ON public.notification_email_deliveries
+    FOR SELECT
+    TO authenticated
+    USING (public.get_user_role() = 'admin');
+  END IF;
+END$$;
+
+-- 3) Pending emails
+-- Failed deliveries are retried up to three times. Only the last 7 days are considered, so
+-- switching a preference back from "off" does not send old notifications.
+CREATE OR REPLACE FUNCTION public.get_pending_notification_emails()
+RETURNS TABLE (
+  notification_id uuid,
+  profile_id uuid,
+  email text,
+  full_name text,
+  frequency email_frequency,
+  type text,
+  message text,
+  created_at timestamptz,
+  student_name text,
+  teacher_name text,
+  variant_name text,
+  trial_student_name text,
+  trial_instrument text,
+  trial_phone text,
+  trial_email text,
+  attempts smallint
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH recipients AS (
+    SELECT n.id AS notification_id, t.profile_id
+    FROM public.notifications n
+    JOIN public.teachers t ON t.id = n.teacher_id
+    WHERE t.profile_id IS NOT NULL
+      AND n.type NOT IN ('accepted_trial', 'declined_trial')
+      AND n.created_at > now() - interval '7 days'
+    UNION
+    SELECT n.id, p.id
+    FROM public.notifications n
+    CROSS JOIN public.profiles p
+    -- Only rows addressed to admins: teacher_id NULL, or for contract_fulfilled the row
+    -- carrying the admin's own profile id. The open-trial rows (type declined_trial) exist
+    -- once per teacher and must not reach the admins.
+    WHERE p.role = 'admin'
+      AND (n.teacher_id IS NULL OR (n.type = 'contract_fulfilled' AND n.teacher_id = p.id))
+      AND n.created_at > now() - interval '7 days'
+  )
+  SELECT
+    n.id,
+    p.id,
+    p.email::text,
+    p.full_name::text,
+    coalesce(pref.frequency, 'instant'),
+    n.type::text,
+    n.message::text,
+    n.created_at,
+    coalesce(s.name, cs.name)::text,
+    coalesce(t.name, ct.name)::text,
+    cv.name::text,
+    ta.student_name::text,
+    ta.instrument::text,
+    ta.phone::text,
+    ta.email::text,
+    coalesce(d.attempts, 0::smallint)
+  FROM recipients r
+  JOIN public.notifications n ON n.id = r.notification_id
+  JOIN public.profiles p ON p.id = r.profile_id
+  LEFT JOIN public.notification_email_preferences pref ON pref.profile_id = p.id
+  LEFT JOIN public.notification_email_deliveries d ON d.notification_id = n.id AND d.profile_id = p.id
+  LEFT JOIN public.students s ON s.id = n.student_id
+  LEFT JOIN public.teachers t ON t.id = n.teacher_id
+  LEFT JOIN public.contracts c ON c.id = n.contract_id
+  LEFT JOIN public.students cs ON cs.id = c.student_id
+  LEFT JOIN public.teachers ct ON ct.id = c.teacher_id
+  LEFT JOIN public.contract_variants cv ON cv.id = c.contract_variant_id
+  LEFT JOIN public.trial_appointments ta ON ta.id = n.trial_appointment_id
+  WHERE d.id IS NULL OR (d.status = 'failed' AND d.attempts < 3)
+  ORDER BY n.created_at;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_pending_notification_emails() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_pending_notification_emails() TO service_role;
+
+COMMIT;
@@ -0,0 +1,215 @@
+-- Lesson reminders and cancellation notices
+-- - lesson_message_settings: single-row configuration (reminders on/off, hours before the lesson)
+-- - lesson_messages: log of every reminder and cancellation notice per lesson
+-- - lesson_message_recipient: contract partner guardian, else the student, else another guardian
+-- - get_lesson_message_details / get_due_lesson_reminders: data for the edge function
+--   send-lesson-messages (reminders every few minutes, cancellations right after saving)
+
+BEGIN;
+
+-- 1) Settings
+CREATE TABLE IF NOT EXISTS public.lesson_message_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  reminders_enabled boolean NOT NULL DEFAULT false,
+  reminder_hours_before integer NOT NULL DEFAULT 24 CHECK (reminder_hours_before BETWEEN 1 AND 168),
+  cancellation_notices_enabled boolean NOT NULL DEFAULT true,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.lesson_message_settings (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE public.lesson_message_settings ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE policyname = 'lesson_message_settings_select'
+      AND tablename = 'lesson_message_settings'
+      AND schemaname = 'public'
+  ) THEN
+    -- Teachers need to know whether cancellation notices are sent
+    CREATE POLICY lesson_message_settings_select
+    ON public.lesson_message_settings
+    FOR SELECT
+    TO authenticated
+    USING (true);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE policyname = 'lesson_message_settings_update_admin'
+      AND tablename = 'lesson_message_settings'
+      AND schemaname = 'public'
+  ) THEN
+    CREATE POLICY lesson_message_settings_update_admin
+    ON public.lesson_message_settings
+    FOR UPDATE
+    TO authenticated
+    USING (public.get_user_role() = 'admin')
+    WITH CHECK (public.get_user_role() = 'admin');
+  END IF;
+END$$;
+
+-- 2) Message log
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'lesson_message_kind') THEN
+    CREATE TYPE lesson_message_kind AS ENUM ('reminder', 'cancellation');
+  END IF;
+END$$;
+
+CREATE TABLE IF NOT EXISTS public.lesson_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  lesson_id uuid NOT NULL REFERENCES public.lessons(id) ON DELETE CASCADE,
+  kind lesson_message_kind NOT NULL,
+  -- the lesson date the message refers to; a rescheduled lesson gets a new reminder
+  lesson_date date,
+  recipient_email text,
+  recipient_name text,
+  reason text,
+  status email_delivery_status NOT NULL,
+  error text,
+  sent_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_lesson_messages_lesson ON public.lesson_messages(lesson_id, created_at DESC);
+CREATE UNIQUE INDEX IF NOT EXISTS uq_lesson_messages_reminder
+  ON public.lesson_messages(lesson_id, lesson_date) WHERE kind = 'reminder';
+
+ALTER TABLE public.lesson_messages ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE policyname = 'lesson_messages_select'
+      AND tablename = 'lesson_messages'
+      AND schemaname = 'public'
+  ) THEN
+    -- Written only by the edge function (service role); readable with the lesson
+    CREATE POLICY lesson_messages_select
+    ON public.lesson_messages
+    FOR SELECT
+    TO authenticated
+    USING (EXISTS (SELECT 1 FROM public.lessons l WHERE l.id = lesson_messages.lesson_id));
+  END IF;
+END$$;
+
+-- 3) Recipient of lesson messages
+CREATE OR REPLACE FUNCTION public.lesson_message_recipient(p_student_id uuid)
+RETURNS TABLE (email text, name text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT r.email, r.name
+  FROM (
+    SELECT g.email::text AS email, g.name::text AS name,
+      CASE WHEN g.is_contract_partner THEN 0 ELSE 2 END AS priority, g.sort_order AS sort_order
+    FROM public.student_guardians g
+    WHERE g.student_id = p_student_id
+      AND nullif(trim(g.email), '') IS NOT NULL
+      AND g.role <> 'emergency_contact'
+    UNION ALL
+    SELECT s.email::text, s.name::text, 1, 0
+    FROM public.students s
+    WHERE s.id = p_student_id
+      AND nullif(trim(s.email), '') IS NOT NULL
+  ) r
+  ORDER BY r.priority, r.sort_order
+  LIMIT 1;
+$$;
+
+-- 4) Everything a message needs to know about a lesson
+CREATE OR REPLACE FUNCTION public.get_lesson_message_details(p_lesson_ids uuid[])
+RETURNS TABLE (
+  lesson_id uuid,
+  lesson_number integer,
+  lesson_date date,
+  start_time time,
+  student_name text,
+  instrument text,
+  teacher_name text,
+  room_name text,
+  recipient_email text,
+  recipient_name text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    l.id,
+    l.lesson_number::integer,
+    coalesce(l.planned_date, l.date::date),
+    c.schedule_start_time,
+    s.name::text,
+    s.instrument::text,
+    t.name::text,
+    r.name::text,
+    rcpt.email,
+    rcpt.name
+  FROM public.lessons l
+  JOIN public.contracts c ON c.id = l.contract_id
+  JOIN public.students s ON s.id = c.student_id
+  LEFT JOIN public.teachers t ON t.id = c.teacher_id
+  LEFT JOIN public.rooms r ON r.id = c.room_id
+  LEFT JOIN LATERAL public.lesson_message_recipient(c.student_id) rcpt ON true
+  WHERE l.id = ANY(p_lesson_ids);
+$$;
+
+-- 5) Reminders that are due now: planned, not yet held or cancelled, inside the reminder window
+CREATE OR REPLACE FUNCTION public.get_due_lesson_reminders()
+RETURNS TABLE (
+  lesson_id uuid,
+  lesson_number integer,
+  lesson_date date,
+  start_time time,
+  student_name text,
+  instrument text,
+  teacher_name text,
+  room_name text,
+  recipient_email text,
+  recipient_name text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT d.*
+  FROM public.get_lesson_message_details(ARRAY(
+    SELECT l.id
+    FROM public.lessons l
+    JOIN public.contracts c ON c.id = l.contract_id
+    CROSS JOIN public.lesson_message_settings st
+    CROSS JOIN LATERAL (
+      SELECT ((l.planned_date + coalesce(c.schedule_start_time, time '00:00')) AT TIME ZONE 'Europe/Berlin') AS starts_at
+    ) slot
+    WHERE st.reminders_enabled
+      AND c.status = 'active'
+      AND (c.cancelled_at IS NULL OR c.cancelled_at::date >= l.planned_date)
+      AND l.is_available
+      AND l.date IS NULL
+      AND l.planned_date IS NOT NULL
+      AND slot.starts_at > now()
+      AND slot.starts_at - make_interval(hours => st.reminder_hours_before) <= now()
+      AND NOT EXISTS (
+        SELECT 1 FROM public.lesson_messages m
+        WHERE m.lesson_id = l.id AND m.kind = 'reminder' AND m.lesson_date = l.planned_date
+      )
+  )) d;
+$$;
+
+REVOKE ALL ON FUNCTION public.lesson_message_recipient(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.get_lesson_message_details(uuid[]) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.get_due_lesson_reminders() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.lesson_message_recipient(uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION public.get_lesson_message_details(uuid[]) TO service_role;
+GRANT EXECUTE ON FUNCTION public.get_due_lesson_reminders() TO service_role;
+
+COMMIT;
@@ -0,0 +1,503 @@
+-- Makeup lessons (Nachholstunden)
+-- - lessons.cancellation_reason: why an unavailable lesson did not take place
+-- - makeup_rules: per reason, whether the school owes a makeup lesson and how long the credit is valid
+-- - lesson_makeup_credits: one credit per cancelled lesson, kept in sync by a trigger on lessons
+-- - log_makeup_lesson: records the makeup on the cancelled lesson and consumes the credit
+-- - batch_update_lessons / check_contract_completion_after_lessons: lessons with an open credit
+--   keep counting towards the contract, so it is not completed while makeup lessons are owed
+
+BEGIN;
+
+-- 1) Cancellation reason per lesson
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'lesson_cancellation_reason') THEN
+    CREATE TYPE lesson_cancellation_reason AS ENUM ('student', 'teacher', 'school', 'no_show');
+  END IF;
+END$$;
+
+ALTER TABLE public.lessons
+  ADD COLUMN IF NOT EXISTS cancellation_reason lesson_cancellation_reason;
+
+-- 2) Makeup rules
+CREATE TABLE IF NOT EXISTS public.makeup_rules (
+  reason lesson_cancellation_reason PRIMARY KEY,
+  grants_credit boolean NOT NULL DEFAULT false,
+  -- NULL: the credit does not expire
+  valid_days integer CHECK (valid_days IS NULL OR valid_days > 0),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.makeup_rules (reason, grants_credit, valid_days) VALUES
+  ('student', false, NULL),
+  ('teacher', true, 90),
+  ('school', true, 90),
+  ('no_show', false, NULL)
+ON CONFLICT (reason) DO NOTHING;
+
+ALTER TABLE public.makeup_rules ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE policyname = 'makeup_rules_select'
+      AND tablename = 'makeup_rules'
+      AND schemaname = 'public'
+  ) THEN
+    CREATE POLICY makeup_rules_select
+    ON public.makeup_rules
+    FOR SELECT
+    TO authenticated
+    USING (true);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE policyname = 'makeup_rules_update_admin'
+      AND tablename = 'makeup_rules'
+      AND schemaname = 'public'
+  ) THEN
+    CREATE POLICY makeup_rules_update_admin
+    ON public.makeup_rules
+    FOR UPDATE
+    TO authenticated
+    USING (public.get_user_role() = 'admin')
+    WITH CHECK (public.get_user_role() = 'admin');
+  END IF;
+END$$;
+
+-- 3) Makeup credits
+CREATE TABLE IF NOT EXISTS public.lesson_makeup_credits (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  lesson_id uuid NOT NULL UNIQUE REFERENCES public.lessons(id) ON DELETE CASCADE,
+  contract_id uuid NOT NULL REFERENCES public.contracts(id) ON DELETE CASCADE,
+  reason lesson_cancellation_reason NOT NULL,
+  expires_on date,
+  -- set when the makeup lesson is logged
+  makeup_date date,
+  used_at timestamptz,
+  used_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_lesson_makeup_credits_contract ON public.lesson_makeup_credits(contract_id);
+
+ALTER TABLE public.lesson_makeup_credits ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE policyname = 'lesson_makeup_credits_select'
+      AND tablename = 'lesson_makeup_credits'
+      AND schemaname = 'public'
+  ) THEN
+    -- Written only by the lessons trigger and log_makeup_lesson; readable with the lesson
+    CREATE POLICY lesson_makeup_credits_select
+    ON public.lesson_makeup_credits
+    FOR SELECT
+    TO authenticated
+    USING (EXISTS (SELECT 1 FROM public.lessons l WHERE l.id = lesson_makeup_credits.lesson_id));
+  END IF;
+END$$;
+
+-- Open: not yet used and not expired
+CREATE OR REPLACE FUNCTION public.has_open_makeup_credit(p_lesson_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.lesson_makeup_credits m
+    WHERE m.lesson_id = p_lesson_id
+      AND m.used_at IS NULL
+      AND (m.expires_on IS NULL OR m.expires_on >= current_date)
+  );
+$$;
+
+-- 4) Keep credits in sync with the lesson: a cancelled lesson gets a credit when the rule for
+--    its reason grants one; an unused credit is removed when the lesson is available again or
+--    the reason no longer grants one. Used credits are never touched.
+CREATE OR REPLACE FUNCTION public.sync_lesson_makeup_credit()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rule public.makeup_rules%ROWTYPE;
+BEGIN
+  IF NEW.is_available = false AND NEW.cancellation_reason IS NOT NULL THEN
+    SELECT * INTO v_rule FROM public.makeup_rules WHERE reason = NEW.cancellation_reason;
+  END IF;
+
+  IF v_rule.grants_credit THEN
+    INSERT INTO public.lesson_makeup_credits (lesson_id, contract_id, reason, expires_on)
+    VALUES (
+      NEW.id,
+      NEW.contract_id,
+      NEW.cancellation_reason,
+      CASE WHEN v_rule.valid_days IS NOT NULL THEN current_date + v_rule.valid_days END
+    )
+    ON CONFLICT (lesson_id) DO UPDATE
+      SET reason = EXCLUDED.reason
+      WHERE lesson_makeup_credits.used_at IS NULL;
+  ELSE
+    DELETE FROM public.lesson_makeup_credits
+    WHERE lesson_id = NEW.id AND used_at IS NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_sync_lesson_makeup_credit ON public.lessons;
+CREATE TRIGGER trigger_sync_lesson_makeup_credit
+  AFTER INSERT OR UPDATE OF is_available, cancellation_reason ON public.lessons
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_lesson_makeup_credit();
+
+-- 5) Attendance and completion of a contract, counting owed makeup lessons as still to be held
+CREATE OR REPLACE FUNCTION public.refresh_contract_attendance(p_contract_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_completed integer;
+  v_excluded integer;
+  v_total integer;
+BEGIN
+  UPDATE public.contracts c
+  SET
+    attendance_count = (
+      SELECT
+        COALESCE(COUNT(*) FILTER (WHERE l.is_available = true AND l.date IS NOT NULL), 0) || '/' ||
+        COALESCE(COUNT(*) FILTER (WHERE l.is_available = true OR public.has_open_makeup_credit(l.id)), 0)
+      FROM public.lessons l
+      WHERE l.contract_id = c.id
+    ),
+    attendance_dates = (
+      SELECT COALESCE(
+        jsonb_agg(l.date ORDER BY l.lesson_number)
+          FILTER (WHERE l.is_available = true AND l.date IS NOT NULL),
+        '[]'::jsonb
+      )
+      FROM public.lessons l
+      WHERE l.contract_id = c.id
+    ),
+    updated_at = now()
+  WHERE c.id = p_contract_id;
+
+  IF (SELECT c.status FROM public.contracts c WHERE c.id = p_contract_id) = 'active' THEN
+    SELECT
+      COUNT(*) FILTER (WHERE l.is_available = true AND l.date IS NOT NULL),
+      COUNT(*) FILTER (WHERE l.is_available = false AND NOT public.has_open_makeup_credit(l.id)),
+      COUNT(*)
+    INTO v_completed, v_excluded, v_total
+    FROM public.lessons l
+    WHERE l.contract_id = p_contract_id;
+
+    IF v_total > 0 AND v_completed + v_excluded >= v_total THEN
+      UPDATE public.contracts c
+      SET status = 'completed',
+          completed_at = now(),
+          updated_at = now()
+      WHERE c.id = p_contract_id
+        AND c.status = 'active';
+    END IF;
+  END IF;
+END;
+$$;
+
+-- 6) batch_update_lessons with cancellation reasons
+CREATE OR REPLACE FUNCTION batch_update_lessons(updates jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  update_record jsonb;
+  lesson_id_val uuid;
+  contract_id_val uuid;
+  success_count integer := 0;
+  error_count integer := 0;
+  error_messages text[] := '{}';
+  contract_ids uuid[] := '{}';
+  array_length_val integer;
+  i integer;
+
+  -- temp parsed values
+  date_raw text;
+  comment_raw text;
+  is_available_raw text;
+  is_available_val boolean;
+  reason_val lesson_cancellation_reason;
+BEGIN
+  -- Process each lesson update
+  FOR update_record IN SELECT * FROM jsonb_array_elements(updates)
+  LOOP
+    BEGIN
+      lesson_id_val := NULLIF(update_record->>'id','')::uuid;
+
+      -- 1) derive contract_id robustly
+      contract_id_val := NULLIF(update_record->>'contract_id','')::uuid;
+      IF contract_id_val IS NULL AND lesson_id_val IS NOT NULL THEN
+        SELECT l.contract_id INTO contract_id_val
+        FROM lessons l
+        WHERE l.id = lesson_id_val;
+      END IF;
+
+      IF lesson_id_val IS NULL OR contract_id_val IS NULL THEN
+        error_count := error_count + 1;
+        error_messages := array_append(error_messages,
+          format('Invalid ids in update (id: %, contract_id: %)', update_record->>'id', update_record->>'contract_id'));
+        CONTINUE;
+      END IF;
+
+      -- collect contract ids
+      IF NOT (contract_id_val = ANY(contract_ids)) THEN
+        contract_ids := array_append(contract_ids, contract_id_val);
+      END IF;
+
+      -- 2) parse fields safely
+      date_raw := update_record->>'date';
+      comment_raw := update_record->>'comment';
+      is_available_raw := update_record->>'is_available';
+
+      -- Safe boolean parsing: handle all possible values
+      IF is_available_raw IS NULL OR is_available_raw = '' THEN
+        -- If not provided, keep current value
+        SELECT l.is_available INTO is_available_val FROM lessons l WHERE l.id = lesson_id_val;
+      ELSE
+        -- Parse boolean safely
+        BEGIN
+          is_available_val := (is_available_raw)::boolean;
+        EXCEPTION WHEN OTHERS THEN
+          -- If cast fails, try string parsing
+          is_available_val := CASE lower(trim(is_available_raw))
+            WHEN 'true'  THEN true
+            WHEN 't'     THEN true
+            WHEN '1'     THEN true
+            WHEN 'yes'   THEN true
+            WHEN 'false' THEN false
+            WHEN 'f'     THEN false
+            WHEN '0'     THEN false
+            WHEN 'no'    THEN false
+            ELSE true  -- default to true if we can't parse
+          END;
+        END;
+      END IF;
+
+      -- The reason only applies to unavailable lessons; if not provided, keep the current one
+      IF is_available_val THEN
+        reason_val := NULL;
+      ELSIF update_record ? 'cancellation_reason' THEN
+        reason_val := NULLIF(update_record->>'cancellation_reason', '')::lesson_cancellation_reason;
+      ELSE
+        SELECT l.cancellation_reason INTO reason_val FROM lessons l WHERE l.id = lesson_id_val;
+      END IF;
+
+      -- 3) do the update (fully qualified with explicit table aliases)
+      UPDATE lessons l
+      SET
+        date = CASE
+                 WHEN date_raw IS NOT NULL AND date_raw <> '' THEN date_raw::date
+                 ELSE NULL
+               END,
+        comment = CASE
+                    WHEN comment_raw IS NOT NULL AND comment_raw <> '' THEN comment_raw
+                    ELSE NULL
+                  END,
+        is_available = is_available_val,
+        cancellation_reason = reason_val,
+        updated_at = now()
+      WHERE l.id = lesson_id_val
+        AND l.contract_id = contract_id_val;
+
+      IF FOUND THEN
+        success_count := success_count + 1;
+      ELSE
+        error_count := error_count + 1;
+        error_messages := array_append(error_messages,
+          format('Lesson %s not found or contract mismatch (%s)', lesson_id_val, contract_id_val));
+      END IF;
+
+    EXCEPTION WHEN OTHERS THEN
+      error_count := error_count + 1;
+      error_messages := array_append(error_messages,
+        format('Error updating lesson %s: %s', lesson_id_val, SQLERRM));
+    END;
+  END LOOP;
+
+  -- Update contracts & completion status for affected contracts
+  array_length_val := array_length(contract_ids, 1);
+  IF array_length_val IS NOT NULL THEN
+    FOR i IN 1..array_length_val LOOP
+      PERFORM public.refresh_contract_attendance(contract_ids[i]);
+    END LOOP;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', error_count = 0,
+    'success_count', success_count,
+    'error_count', error_count,
+    'errors', error_messages,
+    'processed_contracts', contract_ids,
+    'contracts_updated', array_length(contract_ids, 1)
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION batch_update_lessons(jsonb) TO authenticated;
+
+-- Called by the lesson tracker after saving; same counting as refresh_contract_attendance
+CREATE OR REPLACE FUNCTION check_contract_completion_after_lessons(contract_id_param uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  completed_lessons integer := 0;
+  excluded_lessons integer := 0;
+  total_lessons integer := 0;
+  available_lessons integer := 0;
+  owed_makeups integer := 0;
+  should_complete boolean := false;
+  contract_record RECORD;
+BEGIN
+  SELECT * INTO contract_record
+  FROM contracts c
+  WHERE c.id = contract_id_param;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', 'Contract not found: ' || contract_id_param,
+      'contract_id', contract_id_param
+    );
+  END IF;
+
+  IF contract_record.status != 'active' THEN
+    RETURN jsonb_build_object(
+      'success', true,
+      'message', 'Contract is not active, skipping completion check',
+      'contract_id', contract_id_param,
+      'current_status', contract_record.status
+    );
+  END IF;
+
+  SELECT
+    COUNT(*) FILTER (WHERE l.date IS NOT NULL AND l.is_available = true),
+    COUNT(*) FILTER (WHERE l.is_available = true),
+    COUNT(*),
+    COUNT(*) FILTER (WHERE l.is_available = false AND NOT public.has_open_makeup_credit(l.id)),
+    COUNT(*) FILTER (WHERE l.is_available = false AND public.has_open_makeup_credit(l.id))
+  INTO
+    completed_lessons,
+    available_lessons,
+    total_lessons,
+    excluded_lessons,
+    owed_makeups
+  FROM lessons l
+  WHERE l.contract_id = contract_id_param;
+
+  should_complete := (completed_lessons + excluded_lessons >= total_lessons) AND (total_lessons > 0);
+
+  IF should_complete THEN
+    UPDATE contracts c
+    SET
+      status = 'completed',
+      completed_at = now(),
+      updated_at = now()
+    WHERE c.id = contract_id_param AND c.status = 'active';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'message', format(
+      'Contract %s. Lessons: %s completed of %s available (total: %s, excluded: %s, owed makeups: %s)',
+      CASE WHEN should_complete THEN 'marked as completed' ELSE 'not yet completed' END,
+      completed_lessons, available_lessons, total_lessons, excluded_lessons, owed_makeups
+    ),
+    'contract_id', contract_id_param,
+    'completed_lessons', completed_lessons,
+    'available_lessons', available_lessons,
+    'total_lessons', total_lessons,
+    'excluded_lessons', excluded_lessons,
+    'owed_makeups', owed_makeups,
+    'should_complete', should_complete,
+    'was_completed', should_complete
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION check_contract_completion_after_lessons(uuid) TO authenticated;
+
+-- 7) Log a makeup lesson: the cancelled lesson is marked as held on the makeup date
+CREATE OR REPLACE FUNCTION public.log_makeup_lesson(p_credit_id uuid, p_date date, p_comment text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_credit public.lesson_makeup_credits%ROWTYPE;
+  v_allowed boolean;
+BEGIN
+  SELECT * INTO v_credit FROM public.lesson_makeup_credits WHERE id = p_credit_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'makeup credit not found';
+  END IF;
+
+  SELECT public.get_user_role() = 'admin' OR EXISTS (
+    SELECT 1 FROM public.contracts c
+    JOIN public.teachers t ON t.id = c.teacher_id
+    WHERE c.id = v_credit.contract_id AND t.profile_id = auth.uid()
+  ) INTO v_allowed;
+
+  IF NOT coalesce(v_allowed, false) THEN
+    RAISE EXCEPTION 'not allowed';
+  END IF;
+
+  IF v_credit.used_at IS NOT NULL THEN
+    RAISE EXCEPTION 'makeup credit already used';
+  END IF;
+
+  IF v_credit.expires_on IS NOT NULL AND v_credit.expires_on < current_date THEN
+    RAISE EXCEPTION 'makeup credit expired on %', v_credit.expires_on;
+  END IF;
+
+  IF p_date IS NULL THEN
+    RAISE EXCEPTION 'date is required';
+  END IF;
+
+  -- consume first, so the lessons trigger keeps the credit
+  UPDATE public.lesson_makeup_credits
+  SET makeup_date = p_date,
+      used_at = now(),
+      used_by = auth.uid()
+  WHERE id = p_credit_id;
+
+  UPDATE public.lessons
+  SET date = p_date,
+      comment = coalesce(nullif(trim(p_comment), ''), comment),
+      is_available = true,
+      cancellation_reason = NULL,
+      updated_at = now()
+  WHERE id = v_credit.lesson_id;
+
+  PERFORM public.refresh_contract_attendance(v_credit.contract_id);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.refresh_contract_attendance(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.has_open_makeup_credit(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.log_makeup_lesson(uuid, date, text) TO authenticated;
+
+COMMIT;
@@ -0,0 +1,208 @@
+-- School holiday and closure calendar
+-- - school_closures: school holidays (e.g. imported from an iCal file), public holidays and closure days
+-- - is_school_closed: used by plan_contract_lessons, which now skips closed dates
+-- - changes to the calendar re-plan the open lessons of active contracts with a weekly slot
+--   from the first changed date on
+
+BEGIN;
+
+-- 1) Calendar
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'school_closure_kind') THEN
+    CREATE TYPE school_closure_kind AS ENUM ('school_holiday', 'public_holiday', 'closure');
+  END IF;
+END$$;
+
+CREATE TABLE IF NOT EXISTS public.school_closures (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  kind school_closure_kind NOT NULL DEFAULT 'closure',
+  start_date date NOT NULL,
+  -- inclusive; equal to start_date for single days
+  end_date date NOT NULL,
+  -- UID of the iCal event, so importing the same file twice updates instead of duplicating
+  ical_uid text UNIQUE,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT school_closures_range_check CHECK (end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_school_closures_range ON public.school_closures(start_date, end_date);
+
+ALTER TABLE public.school_closures ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE policyname = 'school_closures_select'
+      AND tablename = 'school_closures'
+      AND schemaname = 'public'
+  ) THEN
+    CREATE POLICY school_closures_select
+    ON public.school_closures
+    FOR SELECT
+    TO authenticated
+    USING (true);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE policyname = 'school_closures_admin_all'
+      AND tablename = 'school_closures'
+      AND schemaname = 'public'
+  ) THEN
+    CREATE POLICY school_closures_admin_all
+    ON public.school_closures
+    FOR ALL
+    TO authenticated
+    USING (public.get_user_role() = 'admin')
+    WITH CHECK (public.get_user_role() = 'admin');
+  END IF;
+END$$;
+
+CREATE OR REPLACE FUNCTION public.is_school_closed(p_date date)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.school_closures sc
+    WHERE p_date BETWEEN sc.start_date AND sc.end_date
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_school_closed(date) TO authenticated;
+
+-- 2) Planned dates for open lessons, skipping closed dates
+-- Lessons that already carry a confirmed date keep it; every other lesson gets
+-- the next free slot date starting at term_start (or the contract creation date).
+CREATE OR REPLACE FUNCTION public.plan_contract_lessons(contract_id_param uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_contract record;
+  v_cursor date;
+  v_lesson record;
+  v_planned integer := 0;
+BEGIN
+  SELECT id, schedule_weekday, term_start, created_at
+  INTO v_contract
+  FROM public.contracts
+  WHERE id = contract_id_param;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'contract not found';
+  END IF;
+
+  IF v_contract.schedule_weekday IS NULL THEN
+    UPDATE public.lessons SET planned_date = NULL WHERE contract_id = contract_id_param;
+    RETURN 0;
+  END IF;
+
+  v_cursor := coalesce(v_contract.term_start::date, v_contract.created_at::date);
+  -- advance to the first slot weekday on/after the start date
+  v_cursor := v_cursor + ((v_contract.schedule_weekday - extract(isodow FROM v_cursor)::int + 7) % 7);
+
+  FOR v_lesson IN
+    SELECT id, date
+    FROM public.lessons
+    WHERE contract_id = contract_id_param
+    ORDER BY lesson_number
+  LOOP
+    IF v_lesson.date IS NOT NULL THEN
+      UPDATE public.lessons SET planned_date = v_lesson.date WHERE id = v_lesson.id;
+      -- keep the series after the last confirmed lesson
+      IF v_lesson.date >= v_cursor THEN
+        v_cursor := v_lesson.date + ((v_contract.schedule_weekday - extract(isodow FROM v_lesson.date)::int + 7) % 7);
+        IF v_cursor = v_lesson.date THEN
+          v_cursor := v_cursor + 7;
+        END IF;
+      END IF;
+    ELSE
+      WHILE public.is_school_closed(v_cursor) LOOP
+        v_cursor := v_cursor + 7;
+      END LOOP;
+      UPDATE public.lessons SET planned_date = v_cursor WHERE id = v_lesson.id;
+      v_cursor := v_cursor + 7;
+      v_planned := v_planned + 1;
+    END IF;
+  END LOOP;
+
+  RETURN v_planned;
+END;
+$$;
+
+-- Internal: only called from update_contract_schedule and other SECURITY DEFINER functions
+REVOKE ALL ON FUNCTION public.plan_contract_lessons(uuid) FROM PUBLIC, anon, authenticated;
+
+-- 3) Re-plan active contracts whenever the calendar changes (once per statement, so an
+--    iCal import with many events re-plans only once). Only contracts with open lessons
+--    planned on or after the first changed date are affected; earlier lessons keep their dates.
+CREATE OR REPLACE FUNCTION public.replan_after_school_closure_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_from date;
+BEGIN
+  -- Transition tables: changed_new for INSERT/UPDATE, changed_old for UPDATE/DELETE
+  IF TG_OP = 'INSERT' THEN
+    SELECT min(start_date) INTO v_from FROM changed_new;
+  ELSIF TG_OP = 'UPDATE' THEN
+    SELECT least((SELECT min(start_date) FROM changed_old), (SELECT min(start_date) FROM changed_new)) INTO v_from;
+  ELSE
+    SELECT min(start_date) INTO v_from FROM changed_old;
+  END IF;
+
+  IF v_from IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM public.plan_contract_lessons(c.id)
+  FROM public.contracts c
+  WHERE c.status = 'active'
+    AND c.schedule_weekday IS NOT NULL
+    AND EXISTS (
+      SELECT 1 FROM public.lessons l
+      WHERE l.contract_id = c.id
+        AND l.date IS NULL
+        AND (l.planned_date IS NULL OR l.planned_date >= v_from)
+    );
+
+  RETURN NULL;
+END;
+$$;
+
+-- Transition tables allow only one event per trigger
+DROP TRIGGER IF EXISTS trigger_replan_after_school_closure_change ON public.school_closures;
+DROP TRIGGER IF EXISTS trigger_replan_after_school_closure_insert ON public.school_closures;
+CREATE TRIGGER trigger_replan_after_school_closure_insert
+  AFTER INSERT ON public.school_closures
+  REFERENCING NEW TABLE AS changed_new
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.replan_after_school_closure_change();
+
+DROP TRIGGER IF EXISTS trigger_replan_after_school_closure_update ON public.school_closures;
+CREATE TRIGGER trigger_replan_after_school_closure_update
+  AFTER UPDATE ON public.school_closures
+  REFERENCING OLD TABLE AS changed_old NEW TABLE AS changed_new
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.replan_after_school_closure_change();
+
+DROP TRIGGER IF EXISTS trigger_replan_after_school_closure_delete ON public.school_closures;
+CREATE TRIGGER trigger_replan_after_school_closure_delete
+  AFTER DELETE ON public.school_closures
+  REFERENCING OLD TABLE AS changed_old
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.replan_after_school_closure_change();
+
+COMMIT;
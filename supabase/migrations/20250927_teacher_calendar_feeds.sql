@@ -0,0 +1,216 @@
+-- Calendar (ICS) feeds for teachers
+-- - teacher_calendar_tokens: secret feed token per teacher; revoking it disables the feed at once
+-- - create/revoke_teacher_calendar_token: own feed for teachers, any teacher for admins
+-- - trial_appointments.scheduled_at / updated_at: agreed time of a trial and its last change
+-- - get_teacher_calendar_events: lessons, accepted trials and school closures for the edge
+--   function teacher-calendar
+
+BEGIN;
+
+-- 1) Tokens
+CREATE TABLE IF NOT EXISTS public.teacher_calendar_tokens (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  teacher_id uuid NOT NULL REFERENCES public.teachers(id) ON DELETE CASCADE,
+  token text NOT NULL UNIQUE,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  revoked_at timestamptz
+);
+
+-- one active feed per teacher
+CREATE UNIQUE INDEX IF NOT EXISTS uq_teacher_calendar_tokens_active
+  ON public.teacher_calendar_tokens(teacher_id) WHERE revoked_at IS NULL;
+
+ALTER TABLE public.teacher_calendar_tokens ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE policyname = 'teacher_calendar_tokens_select'
+      AND tablename = 'teacher_calendar_tokens'
+      AND schemaname = 'public'
+  ) THEN
+    -- Written only through the functions below
+    CREATE POLICY teacher_calendar_tokens_select
+    ON public.teacher_calendar_tokens
+    FOR SELECT
+    TO authenticated
+    USING (
+      public.get_user_role() = 'admin'
+      OR EXISTS (SELECT 1 FROM public.teachers t WHERE t.id = teacher_calendar_tokens.teacher_id AND t.profile_id = auth.uid())
+    );
+  END IF;
+END$$;
+
+-- Own teacher record, or the given teacher for admins
+CREATE OR REPLACE FUNCTION public.resolve_calendar_teacher(p_teacher_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_teacher_id uuid;
+BEGIN
+  IF p_teacher_id IS NOT NULL AND public.get_user_role() = 'admin' THEN
+    RETURN p_teacher_id;
+  END IF;
+
+  SELECT t.id INTO v_teacher_id FROM public.teachers t WHERE t.profile_id = auth.uid();
+
+  IF v_teacher_id IS NULL OR (p_teacher_id IS NOT NULL AND p_teacher_id <> v_teacher_id) THEN
+    RAISE EXCEPTION 'not allowed';
+  END IF;
+
+  RETURN v_teacher_id;
+END;
+$$;
+
+-- 2) New token; an existing feed URL stops working
+CREATE OR REPLACE FUNCTION public.create_teacher_calendar_token(p_teacher_id uuid DEFAULT NULL)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_teacher_id uuid := public.resolve_calendar_teacher(p_teacher_id);
+  v_token text := replace(gen_random_uuid()::text, '-', '') || replace(gen_random_uuid()::text, '-', '');
+BEGIN
+  UPDATE public.teacher_calendar_tokens
+  SET revoked_at = now()
+  WHERE teacher_id = v_teacher_id AND revoked_at IS NULL;
+
+  INSERT INTO public.teacher_calendar_tokens (teacher_id, token, created_by)
+  VALUES (v_teacher_id, v_token, auth.uid());
+
+  RETURN v_token;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.revoke_teacher_calendar_token(p_teacher_id uuid DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.teacher_calendar_tokens
+  SET revoked_at = now()
+  WHERE teacher_id = public.resolve_calendar_teacher(p_teacher_id)
+    AND revoked_at IS NULL;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.resolve_calendar_teacher(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_teacher_calendar_token(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.revoke_teacher_calendar_token(uuid) TO authenticated;
+
+-- 3) Trial appointments: agreed time and last change
+-- updated_at is the DTSTAMP of the event, so calendar apps pick up a moved appointment
+ALTER TABLE public.trial_appointments
+  ADD COLUMN IF NOT EXISTS scheduled_at timestamptz,
+  ADD COLUMN IF NOT EXISTS updated_at timestamptz NOT NULL DEFAULT now();
+
+CREATE OR REPLACE FUNCTION public.touch_trial_appointment()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_trial_appointments_updated_at ON public.trial_appointments;
+CREATE TRIGGER trg_trial_appointments_updated_at
+BEFORE UPDATE ON public.trial_appointments
+FOR EACH ROW EXECUTE FUNCTION public.touch_trial_appointment();
+
+-- 4) Events of a teacher's calendar, from 30 days back
+-- Timed events carry starts_at/ends_at, all-day events (closures) start_date/end_date (inclusive).
+CREATE OR REPLACE FUNCTION public.get_teacher_calendar_events(p_teacher_id uuid)
+RETURNS TABLE (
+  uid text,
+  kind text,
+  title text,
+  starts_at timestamptz,
+  ends_at timestamptz,
+  start_date date,
+  end_date date,
+  location text,
+  description text,
+  updated_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    ('lesson-' || l.id)::text,
+    'lesson'::text,
+    (s.name || coalesce(' (' || s.instrument || ')', ''))::text,
+    slot.starts_at,
+    slot.starts_at + make_interval(mins => coalesce(cv.session_length_minutes, 45)),
+    NULL::date,
+    NULL::date,
+    r.name::text,
+    ('Stunde ' || l.lesson_number || coalesce(' · ' || cv.name, ''))::text,
+    l.updated_at
+  FROM public.lessons l
+  JOIN public.contracts c ON c.id = l.contract_id
+  JOIN public.students s ON s.id = c.student_id
+  LEFT JOIN public.contract_variants cv ON cv.id = c.contract_variant_id
+  LEFT JOIN public.rooms r ON r.id = c.room_id
+  CROSS JOIN LATERAL (
+    SELECT ((coalesce(l.date::date, l.planned_date) + c.schedule_start_time) AT TIME ZONE 'Europe/Berlin') AS starts_at
+  ) slot
+  WHERE c.teacher_id = p_teacher_id
+    AND c.status = 'active'
+    AND c.schedule_start_time IS NOT NULL
+    AND l.is_available
+    AND coalesce(l.date::date, l.planned_date) >= current_date - 30
+
+  UNION ALL
+
+  SELECT
+    ('trial-' || ta.id)::text,
+    'trial'::text,
+    ('Probestunde: ' || ta.student_name || ' (' || ta.instrument || ')')::text,
+    ta.scheduled_at,
+    ta.scheduled_at + interval '30 minutes',
+    NULL::date,
+    NULL::date,
+    NULL::text,
+    concat_ws(' · ', ta.phone, ta.email)::text,
+    ta.updated_at
+  FROM public.trial_appointments ta
+  WHERE ta.teacher_id = p_teacher_id
+    AND ta.status = 'accepted'
+    AND ta.scheduled_at >= current_date - 30
+
+  UNION ALL
+
+  SELECT
+    ('closure-' || sc.id)::text,
+    'closure'::text,
+    sc.name::text,
+    NULL::timestamptz,
+    NULL::timestamptz,
+    sc.start_date,
+    sc.end_date,
+    NULL::text,
+    NULL::text,
+    sc.created_at
+  FROM public.school_closures sc
+  WHERE sc.end_date >= current_date - 30;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_teacher_calendar_events(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_teacher_calendar_events(uuid) TO service_role;
+
+COMMIT;
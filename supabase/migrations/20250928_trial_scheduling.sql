@@ -0,0 +1,198 @@
+-- Trial appointment scheduling
+-- - proposed_slots: times offered to the family, scheduled_at: the agreed appointment
+-- - room_id / location: school room or free text (e.g. online, at home)
+-- - outcome: recorded after the appointment (no_show, took_place, converted)
+-- - schedule_trial / set_trial_outcome: for the teacher of the trial (admins edit the table directly)
+-- - get_teacher_calendar_events: trials with their duration and location
+
+BEGIN;
+
+-- 1) Outcome enum
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'trial_outcome') THEN
+    CREATE TYPE public.trial_outcome AS ENUM ('no_show', 'took_place', 'converted');
+  END IF;
+END$$;
+
+-- 2) Columns
+ALTER TABLE public.trial_appointments
+  ADD COLUMN IF NOT EXISTS proposed_slots timestamptz[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS scheduled_at timestamptz,
+  ADD COLUMN IF NOT EXISTS duration_minutes integer NOT NULL DEFAULT 30 CHECK (duration_minutes > 0),
+  ADD COLUMN IF NOT EXISTS room_id uuid REFERENCES public.rooms(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS location text,
+  ADD COLUMN IF NOT EXISTS outcome public.trial_outcome,
+  ADD COLUMN IF NOT EXISTS outcome_note text;
+
+CREATE INDEX IF NOT EXISTS idx_trial_appointments_scheduled_at
+  ON public.trial_appointments(scheduled_at) WHERE scheduled_at IS NOT NULL;
+
+-- Admin, or the teacher the trial is assigned to / accepted by
+CREATE OR REPLACE FUNCTION public.can_manage_trial(p_trial_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.get_user_role() = 'admin'
+    OR EXISTS (
+      SELECT 1
+      FROM public.trial_appointments ta
+      JOIN public.teachers t ON t.id = ta.teacher_id
+      WHERE ta.id = p_trial_id
+        AND ta.status IN ('assigned', 'accepted')
+        AND t.profile_id = auth.uid()
+    );
+$$;
+
+-- 3) Date, place and proposals
+CREATE OR REPLACE FUNCTION public.schedule_trial(
+  p_trial_id uuid,
+  p_scheduled_at timestamptz,
+  p_duration_minutes integer DEFAULT 30,
+  p_room_id uuid DEFAULT NULL,
+  p_location text DEFAULT NULL,
+  p_proposed_slots timestamptz[] DEFAULT '{}'
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.can_manage_trial(p_trial_id) THEN
+    RAISE EXCEPTION 'not allowed';
+  END IF;
+
+  UPDATE public.trial_appointments
+  SET
+    scheduled_at = p_scheduled_at,
+    duration_minutes = coalesce(p_duration_minutes, 30),
+    room_id = p_room_id,
+    location = nullif(btrim(p_location), ''),
+    proposed_slots = coalesce(p_proposed_slots, '{}'),
+    -- a new date invalidates an earlier outcome
+    outcome = CASE WHEN scheduled_at IS DISTINCT FROM p_scheduled_at THEN NULL ELSE outcome END
+  WHERE id = p_trial_id;
+END;
+$$;
+
+-- 4) Outcome after the appointment
+CREATE OR REPLACE FUNCTION public.set_trial_outcome(
+  p_trial_id uuid,
+  p_outcome public.trial_outcome,
+  p_note text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.can_manage_trial(p_trial_id) THEN
+    RAISE EXCEPTION 'not allowed';
+  END IF;
+
+  UPDATE public.trial_appointments
+  SET outcome = p_outcome,
+      outcome_note = nullif(btrim(p_note), '')
+  WHERE id = p_trial_id
+    AND scheduled_at IS NOT NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Trial appointment has no date';
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.can_manage_trial(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.schedule_trial(uuid, timestamptz, integer, uuid, text, timestamptz[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_trial_outcome(uuid, public.trial_outcome, text) TO authenticated;
+
+-- 5) Calendar feed: lessons, accepted trials and school closures
+CREATE OR REPLACE FUNCTION public.get_teacher_calendar_events(p_teacher_id uuid)
+RETURNS TABLE (
+  uid text,
+  kind text,
+  title text,
+  starts_at timestamptz,
+  ends_at timestamptz,
+  start_date date,
+  end_date date,
+  location text,
+  description text,
+  updated_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    ('lesson-' || l.id)::text,
+    'lesson'::text,
+    (s.name || coalesce(' (' || s.instrument || ')', ''))::text,
+    slot.starts_at,
+    slot.starts_at + make_interval(mins => coalesce(cv.session_length_minutes, 45)),
+    NULL::date,
+    NULL::date,
+    r.name::text,
+    ('Stunde ' || l.lesson_number || coalesce(' · ' || cv.name, ''))::text,
+    l.updated_at
+  FROM public.lessons l
+  JOIN public.contracts c ON c.id = l.contract_id
+  JOIN public.students s ON s.id = c.student_id
+  LEFT JOIN public.contract_variants cv ON cv.id = c.contract_variant_id
+  LEFT JOIN public.rooms r ON r.id = c.room_id
+  CROSS JOIN LATERAL (
+    SELECT ((coalesce(l.date::date, l.planned_date) + c.schedule_start_time) AT TIME ZONE 'Europe/Berlin') AS starts_at
+  ) slot
+  WHERE c.teacher_id = p_teacher_id
+    AND c.status = 'active'
+    AND c.schedule_start_time IS NOT NULL
+    AND l.is_available
+    AND coalesce(l.date::date, l.planned_date) >= current_date - 30
+
+  UNION ALL
+
+  SELECT
+    ('trial-' || ta.id)::text,
+    'trial'::text,
+    ('Probestunde: ' || ta.student_name || ' (' || ta.instrument || ')')::text,
+    ta.scheduled_at,
+    ta.scheduled_at + make_interval(mins => ta.duration_minutes),
+    NULL::date,
+    NULL::date,
+    coalesce(tr.name, ta.location)::text,
+    concat_ws(' · ', ta.phone, ta.email)::text,
+    ta.updated_at
+  FROM public.trial_appointments ta
+  LEFT JOIN public.rooms tr ON tr.id = ta.room_id
+  WHERE ta.teacher_id = p_teacher_id
+    AND ta.status = 'accepted'
+    AND ta.scheduled_at >= current_date - 30
+    AND ta.outcome IS DISTINCT FROM 'no_show'
+
+  UNION ALL
+
+  SELECT
+    ('closure-' || sc.id)::text,
+    'closure'::text,
+    sc.name::text,
+    NULL::timestamptz,
+    NULL::timestamptz,
+    sc.start_date,
+    sc.end_date,
+    NULL::text,
+    NULL::text,
+    sc.created_at
+  FROM public.school_closures sc
+  WHERE sc.end_date >= current_date - 30;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_teacher_calendar_events(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_teacher_calendar_events(uuid) TO service_role;
+
+COMMIT;
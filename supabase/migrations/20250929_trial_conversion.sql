@@ -0,0 +1,106 @@
+-- Trial appointment -> student and contract
+-- - trial_appointments.student_id / contract_id / converted_at: conversion of a trial, used for funnel reporting
+-- - convert_trial_to_student: creates the student from the trial data (once per trial)
+-- - link_trial_contract: links the first contract of the converted student back to the trial
+
+BEGIN;
+
+-- 1) Columns
+ALTER TABLE public.trial_appointments
+  ADD COLUMN IF NOT EXISTS student_id uuid REFERENCES public.students(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS contract_id uuid REFERENCES public.contracts(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS converted_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_trial_appointments_student_id ON public.trial_appointments(student_id);
+CREATE INDEX IF NOT EXISTS idx_trial_appointments_contract_id ON public.trial_appointments(contract_id);
+
+-- 2) Student from an accepted trial; returns the existing student if the trial was converted before
+CREATE OR REPLACE FUNCTION public.convert_trial_to_student(
+  p_trial_id uuid,
+  p_name text,
+  p_instrument text,
+  p_email text DEFAULT NULL,
+  p_phone text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_trial public.trial_appointments%ROWTYPE;
+  v_student_id uuid;
+BEGIN
+  IF public.get_user_role() IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'not allowed';
+  END IF;
+
+  SELECT * INTO v_trial
+  FROM public.trial_appointments
+  WHERE id = p_trial_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Trial appointment not found';
+  END IF;
+
+  IF v_trial.student_id IS NOT NULL THEN
+    RETURN v_trial.student_id;
+  END IF;
+
+  IF v_trial.status <> 'accepted' THEN
+    RAISE EXCEPTION 'Only accepted trial appointments can be converted';
+  END IF;
+
+  IF v_trial.outcome = 'no_show' THEN
+    RAISE EXCEPTION 'Trial appointment was marked as no-show';
+  END IF;
+
+  IF coalesce(btrim(p_name), '') = '' OR coalesce(btrim(p_instrument), '') = '' THEN
+    RAISE EXCEPTION 'Name and instrument are required';
+  END IF;
+
+  -- bank_id is generated by the database
+  INSERT INTO public.students (name, instrument, email, phone, status)
+  VALUES (btrim(p_name), btrim(p_instrument), nullif(btrim(p_email), ''), nullif(btrim(p_phone), ''), 'active')
+  RETURNING id INTO v_student_id;
+
+  UPDATE public.trial_appointments
+  SET student_id = v_student_id
+  WHERE id = p_trial_id;
+
+  RETURN v_student_id;
+END;
+$$;
+
+-- 3) Contract of the converted student; marks the trial as converted
+CREATE OR REPLACE FUNCTION public.link_trial_contract(p_trial_id uuid, p_contract_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF public.get_user_role() IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'not allowed';
+  END IF;
+
+  UPDATE public.trial_appointments ta
+  SET contract_id = p_contract_id,
+      converted_at = coalesce(ta.converted_at, now()),
+      outcome = 'converted'
+  FROM public.contracts c
+  WHERE ta.id = p_trial_id
+    AND c.id = p_contract_id
+    AND c.student_id = ta.student_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Contract does not belong to the converted student';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.convert_trial_to_student(uuid, text, text, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.link_trial_contract(uuid, uuid) TO authenticated;
+
+COMMIT;
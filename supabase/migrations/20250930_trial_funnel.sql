@@ -0,0 +1,151 @@
+-- Trial funnel analytics
+-- - trial_appointments.assigned_at / accepted_at: first assignment and acceptance, set by trigger
+-- - trial_declines: one row per declined assignment with an optional reason
+-- - decline_trial(_trial_id, _reason, _note): replaces decline_trial(uuid) and records the decline
+-- Existing trials are backfilled from the assigned_trial/accepted_trial/declined_trial notifications.
+
+BEGIN;
+
+-- 1) Funnel timestamps
+ALTER TABLE public.trial_appointments
+  ADD COLUMN IF NOT EXISTS assigned_at timestamptz,
+  ADD COLUMN IF NOT EXISTS accepted_at timestamptz;
+
+CREATE OR REPLACE FUNCTION public.set_trial_funnel_timestamps()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'assigned' AND NEW.assigned_at IS NULL THEN
+    NEW.assigned_at := now();
+  END IF;
+
+  IF NEW.status = 'accepted' AND NEW.accepted_at IS NULL THEN
+    NEW.accepted_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_trial_funnel_timestamps ON public.trial_appointments;
+CREATE TRIGGER trg_trial_funnel_timestamps
+BEFORE INSERT OR UPDATE OF status ON public.trial_appointments
+FOR EACH ROW EXECUTE FUNCTION public.set_trial_funnel_timestamps();
+
+UPDATE public.trial_appointments ta
+SET assigned_at = n.first_at
+FROM (
+  SELECT trial_appointment_id, min(created_at) AS first_at
+  FROM public.notifications
+  WHERE type = 'assigned_trial' AND trial_appointment_id IS NOT NULL
+  GROUP BY trial_appointment_id
+) n
+WHERE n.trial_appointment_id = ta.id AND ta.assigned_at IS NULL;
+
+UPDATE public.trial_appointments ta
+SET accepted_at = n.first_at
+FROM (
+  SELECT trial_appointment_id, min(created_at) AS first_at
+  FROM public.notifications
+  WHERE type = 'accepted_trial' AND trial_appointment_id IS NOT NULL
+  GROUP BY trial_appointment_id
+) n
+WHERE n.trial_appointment_id = ta.id AND ta.accepted_at IS NULL;
+
+-- 2) Declines
+CREATE TABLE IF NOT EXISTS public.trial_declines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  trial_appointment_id uuid NOT NULL REFERENCES public.trial_appointments(id) ON DELETE CASCADE,
+  teacher_id uuid REFERENCES public.teachers(id) ON DELETE SET NULL,
+  reason text CHECK (reason IN ('no_capacity', 'schedule', 'instrument', 'location', 'other')),
+  note text,
+  declined_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_trial_declines_trial ON public.trial_declines(trial_appointment_id);
+
+ALTER TABLE public.trial_declines ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE policyname = 'trial_declines_select'
+      AND tablename = 'trial_declines'
+      AND schemaname = 'public'
+  ) THEN
+    -- Written only by decline_trial
+    CREATE POLICY trial_declines_select
+    ON public.trial_declines
+    FOR SELECT
+    TO authenticated
+    USING (
+      public.get_user_role() = 'admin'
+      OR EXISTS (SELECT 1 FROM public.teachers t WHERE t.id = trial_declines.teacher_id AND t.profile_id = auth.uid())
+    );
+  END IF;
+END$$;
+
+-- Earlier declines without reason; the admins' declined_trial notifications carry one row per decline
+INSERT INTO public.trial_declines (trial_appointment_id, declined_at)
+SELECT DISTINCT n.trial_appointment_id, date_trunc('second', n.created_at)
+FROM public.notifications n
+JOIN public.trial_appointments ta ON ta.id = n.trial_appointment_id
+WHERE n.type = 'declined_trial'
+  AND NOT EXISTS (SELECT 1 FROM public.trial_declines d WHERE d.trial_appointment_id = n.trial_appointment_id);
+
+-- 3) decline_trial with reason
+DROP FUNCTION IF EXISTS public.decline_trial(uuid);
+
+CREATE OR REPLACE FUNCTION public.decline_trial(_trial_id uuid, _reason text DEFAULT NULL, _note text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_teacher_id uuid;
+  trial_record RECORD;
+BEGIN
+  SELECT t.id INTO current_teacher_id
+  FROM teachers t
+  WHERE t.profile_id = auth.uid();
+
+  IF current_teacher_id IS NULL THEN
+    RAISE EXCEPTION 'Teacher profile not found';
+  END IF;
+
+  SELECT * INTO trial_record
+  FROM trial_appointments
+  WHERE id = _trial_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Trial appointment not found';
+  END IF;
+
+  IF trial_record.teacher_id IS DISTINCT FROM current_teacher_id THEN
+    RAISE EXCEPTION 'You are not assigned to this trial appointment';
+  END IF;
+
+  IF trial_record.status != 'assigned' THEN
+    RAISE EXCEPTION 'Trial appointment is not in assigned status';
+  END IF;
+
+  INSERT INTO trial_declines (trial_appointment_id, teacher_id, reason, note)
+  VALUES (_trial_id, current_teacher_id, _reason, nullif(btrim(_note), ''));
+
+  -- Back to open; notify_declined_trial informs the other teachers and the admins
+  UPDATE trial_appointments
+  SET
+    status = 'open',
+    teacher_id = NULL
+  WHERE id = _trial_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.decline_trial(uuid, text, text) TO authenticated;
+
+COMMIT;
@@ -0,0 +1,119 @@
+-- Public trial lesson requests (/probestunde)
+-- - trial_appointments.source: 'admin' (entered in the app) or 'web' (public form)
+-- - preferred_times / message: free text from the prospect
+-- - privacy_consent_at / privacy_consent_text: GDPR consent as shown in the form
+-- - trial_request_log: hashed client IPs for rate limiting in the edge function trial-request
+-- - log_trial_request: checks the limit and logs the request in one step
+-- - notify_new_open_trial: also runs for requests without a session (the edge function inserts
+--   with the service role) and additionally informs the admins about web requests
+
+BEGIN;
+
+-- 1) Columns
+ALTER TABLE public.trial_appointments
+  ADD COLUMN IF NOT EXISTS source text NOT NULL DEFAULT 'admin' CHECK (source IN ('admin', 'web')),
+  ADD COLUMN IF NOT EXISTS preferred_times text,
+  ADD COLUMN IF NOT EXISTS message text,
+  ADD COLUMN IF NOT EXISTS privacy_consent_at timestamptz,
+  ADD COLUMN IF NOT EXISTS privacy_consent_text text;
+
+-- 2) Rate limit log; no policies, only the service role writes and reads it
+CREATE TABLE IF NOT EXISTS public.trial_request_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  ip_hash text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_trial_request_log_ip_created
+  ON public.trial_request_log(ip_hash, created_at);
+
+ALTER TABLE public.trial_request_log ENABLE ROW LEVEL SECURITY;
+
+-- 3) Rate limit check and log
+-- The advisory lock per IP hash serializes concurrent requests of one client, so parallel
+-- submissions can't all pass the count before any of them is logged.
+CREATE OR REPLACE FUNCTION public.log_trial_request(p_ip_hash text, p_max_per_hour integer)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('trial_request:' || p_ip_hash));
+
+  IF (
+    SELECT count(*)
+    FROM public.trial_request_log
+    WHERE ip_hash = p_ip_hash
+      AND created_at >= now() - interval '1 hour'
+  ) >= p_max_per_hour THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO public.trial_request_log (ip_hash) VALUES (p_ip_hash);
+  RETURN true;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.log_trial_request(text, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.log_trial_request(text, integer) TO service_role;
+
+-- 4) Notifications for web requests
+-- auth.uid() is NULL for inserts by the service role; teachers are then notified like for a
+-- trial created by an admin. The admin row uses declined_trial like all open-trial rows.
+CREATE OR REPLACE FUNCTION public.notify_new_open_trial()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  creator_profile_id uuid := auth.uid();
+  creator_role text;
+BEGIN
+  IF NOT ((TG_OP = 'INSERT' AND NEW.status = 'open') OR
+          (TG_OP = 'UPDATE' AND NEW.status = 'open' AND OLD.status IS DISTINCT FROM 'open')) THEN
+    RETURN NEW;
+  END IF;
+
+  IF creator_profile_id IS NOT NULL THEN
+    SELECT role INTO creator_role FROM public.profiles WHERE id = creator_profile_id;
+  END IF;
+
+  INSERT INTO public.notifications (type, trial_appointment_id, teacher_id, message, is_read, created_at, updated_at)
+  SELECT
+    'declined_trial',
+    NEW.id,
+    t.id,
+    format(
+      'Eine neue offene Probestunde mit %s (%s) ist verfügbar. Sie können diese in Ihrer Probestundenübersicht annehmen.',
+      NEW.student_name,
+      NEW.instrument
+    ),
+    false,
+    now(),
+    now()
+  FROM public.teachers t
+  JOIN public.profiles p ON p.id = t.profile_id
+  WHERE p.role = 'teacher'
+    AND (creator_profile_id IS NULL OR p.id <> creator_profile_id OR creator_role = 'admin')
+  ON CONFLICT (trial_appointment_id, teacher_id, type) DO NOTHING;
+
+  IF TG_OP = 'INSERT' AND NEW.source = 'web' THEN
+    INSERT INTO public.notifications (type, trial_appointment_id, teacher_id, message, is_read, created_at, updated_at)
+    VALUES (
+      'declined_trial',
+      NEW.id,
+      NULL,
+      format('Neue Anfrage über das Webformular: Probestunde mit %s (%s).', NEW.student_name, NEW.instrument),
+      false,
+      now(),
+      now()
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+COMMIT;
@@ -0,0 +1,169 @@
+-- Generic audit trail
+-- - audit_log: one row per insert/update/delete with before/after values of the changed columns and the acting user
+-- - audit_row_change(): trigger on students, teachers, contracts, lessons, trial_appointments and contract_discounts
+-- - record_label: readable name of the record at the time of the change, used by the admin search
+-- - parent_id: the contract of a lesson and the student of a contract, so forms can show the history of child rows
+-- Lessons are generated in bulk with every contract, so only their updates and deletes are audited.
+-- Derived columns (updated_at, student_count, attendance_count, attendance_dates) are not part of the diff.
+
+BEGIN;
+
+-- 1) Table
+CREATE TABLE IF NOT EXISTS public.audit_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  table_name text NOT NULL,
+  record_id uuid NOT NULL,
+  parent_id uuid,
+  record_label text,
+  action text NOT NULL CHECK (action IN ('insert', 'update', 'delete')),
+  changed_fields text[] NOT NULL DEFAULT '{}',
+  old_data jsonb,
+  new_data jsonb,
+  actor_id uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_record ON public.audit_log(table_name, record_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_parent ON public.audit_log(table_name, parent_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_created ON public.audit_log(created_at DESC);
+
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Written only by audit_row_change; teachers see the history of records they can see themselves
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE policyname = 'audit_log_select'
+      AND tablename = 'audit_log'
+      AND schemaname = 'public'
+  ) THEN
+    CREATE POLICY audit_log_select
+    ON public.audit_log
+    FOR SELECT
+    TO authenticated
+    USING (
+      public.get_user_role() = 'admin'
+      OR (table_name = 'students' AND EXISTS (SELECT 1 FROM public.students s WHERE s.id = audit_log.record_id))
+      OR (table_name = 'contracts' AND EXISTS (SELECT 1 FROM public.contracts c WHERE c.id = audit_log.record_id))
+      OR (table_name = 'lessons' AND EXISTS (SELECT 1 FROM public.contracts c WHERE c.id = audit_log.parent_id))
+      OR (table_name = 'trial_appointments' AND EXISTS (SELECT 1 FROM public.trial_appointments ta WHERE ta.id = audit_log.record_id))
+    );
+  END IF;
+END$$;
+
+-- 2) Trigger function
+CREATE OR REPLACE FUNCTION public.audit_row_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- Derived columns: planned_date is re-planned from the slot and the school calendar,
+  -- version is bumped on every edit (20251004_optimistic_concurrency)
+  ignored_fields text[] := ARRAY['updated_at', 'student_count', 'attendance_count', 'attendance_dates', 'planned_date', 'version'];
+  old_row jsonb;
+  new_row jsonb;
+  row_data jsonb;
+  diff_fields text[];
+  diff_old jsonb;
+  diff_new jsonb;
+  parent uuid;
+  label text;
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    old_row := to_jsonb(OLD) - ignored_fields;
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    new_row := to_jsonb(NEW) - ignored_fields;
+  END IF;
+  row_data := coalesce(new_row, old_row);
+
+  IF TG_OP = 'UPDATE' THEN
+    SELECT
+      coalesce(array_agg(n.key ORDER BY n.key), '{}'),
+      jsonb_object_agg(n.key, o.value),
+      jsonb_object_agg(n.key, n.value)
+    INTO diff_fields, diff_old, diff_new
+    FROM jsonb_each(new_row) n
+    LEFT JOIN jsonb_each(old_row) o ON o.key = n.key
+    WHERE n.value IS DISTINCT FROM o.value;
+
+    -- Only derived columns changed
+    IF cardinality(diff_fields) = 0 THEN
+      RETURN NEW;
+    END IF;
+  ELSE
+    diff_old := old_row;
+    diff_new := new_row;
+    diff_fields := ARRAY(SELECT jsonb_object_keys(row_data) ORDER BY 1);
+  END IF;
+
+  CASE TG_TABLE_NAME
+    WHEN 'students', 'teachers', 'contract_discounts' THEN
+      label := row_data->>'name';
+    WHEN 'trial_appointments' THEN
+      label := row_data->>'student_name';
+    WHEN 'contracts' THEN
+      parent := (row_data->>'student_id')::uuid;
+      SELECT s.name INTO label FROM students s WHERE s.id = parent;
+    WHEN 'lessons' THEN
+      parent := (row_data->>'contract_id')::uuid;
+      SELECT s.name || ' · Stunde ' || (row_data->>'lesson_number') INTO label
+      FROM contracts c
+      JOIN students s ON s.id = c.student_id
+      WHERE c.id = parent;
+    ELSE
+      label := NULL;
+  END CASE;
+
+  INSERT INTO audit_log (table_name, record_id, parent_id, record_label, action, changed_fields, old_data, new_data, actor_id)
+  VALUES (
+    TG_TABLE_NAME,
+    (row_data->>'id')::uuid,
+    parent,
+    label,
+    lower(TG_OP),
+    diff_fields,
+    diff_old,
+    diff_new,
+    auth.uid()
+  );
+
+  RETURN coalesce(NEW, OLD);
+END;
+$$;
+
+-- 3) Triggers
+DROP TRIGGER IF EXISTS trg_audit_students ON public.students;
+CREATE TRIGGER trg_audit_students
+AFTER INSERT OR UPDATE OR DELETE ON public.students
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+DROP TRIGGER IF EXISTS trg_audit_teachers ON public.teachers;
+CREATE TRIGGER trg_audit_teachers
+AFTER INSERT OR UPDATE OR DELETE ON public.teachers
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+DROP TRIGGER IF EXISTS trg_audit_contracts ON public.contracts;
+CREATE TRIGGER trg_audit_contracts
+AFTER INSERT OR UPDATE OR DELETE ON public.contracts
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+DROP TRIGGER IF EXISTS trg_audit_lessons ON public.lessons;
+CREATE TRIGGER trg_audit_lessons
+AFTER UPDATE OR DELETE ON public.lessons
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+DROP TRIGGER IF EXISTS trg_audit_trial_appointments ON public.trial_appointments;
+CREATE TRIGGER trg_audit_trial_appointments
+AFTER INSERT OR UPDATE OR DELETE ON public.trial_appointments
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+DROP TRIGGER IF EXISTS trg_audit_contract_discounts ON public.contract_discounts;
+CREATE TRIGGER trg_audit_contract_discounts
+AFTER INSERT OR UPDATE OR DELETE ON public.contract_discounts
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+COMMIT;
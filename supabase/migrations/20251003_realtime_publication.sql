@@ -0,0 +1,27 @@
+-- Realtime row changes for the live tabs
+-- - contracts, lessons, notifications, trial_appointments join the supabase_realtime publication
+-- Realtime checks RLS per subscriber, so users only receive rows they can select.
+
+BEGIN;
+
+DO $$
+DECLARE
+  tbl text;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    CREATE PUBLICATION supabase_realtime;
+  END IF;
+
+  FOREACH tbl IN ARRAY ARRAY['contracts', 'lessons', 'notifications', 'trial_appointments'] LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime'
+        AND schemaname = 'public'
+        AND tablename = tbl
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', tbl);
+    END IF;
+  END LOOP;
+END$$;
+
+COMMIT;
@@ -0,0 +1,336 @@
+-- Optimistic concurrency for contracts and lessons
+-- - contracts.version / lessons.version: bumped by trigger whenever an editable column changes
+--   (derived columns such as attendance or planned dates do not count as an edit)
+-- - atomic_save_and_sync_contract(..., expected_version): rejects updates of a contract that
+--   changed since it was loaded and returns the current row instead of overwriting it
+-- - batch_update_lessons: update records may carry `version`; if any lesson changed in between,
+--   nothing is written and the current lessons are returned as conflicts
+-- Callers that do not send a version keep the previous last-write-wins behaviour.
+
+BEGIN;
+
+-- 1) Version columns
+ALTER TABLE public.contracts ADD COLUMN IF NOT EXISTS version integer NOT NULL DEFAULT 1;
+ALTER TABLE public.lessons ADD COLUMN IF NOT EXISTS version integer NOT NULL DEFAULT 1;
+
+-- Trigger arguments: columns that do not count as an edit
+CREATE OR REPLACE FUNCTION public.bump_row_version()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  ignored_fields text[] := TG_ARGV || ARRAY['version'];
+BEGIN
+  IF (to_jsonb(NEW) - ignored_fields) IS DISTINCT FROM (to_jsonb(OLD) - ignored_fields) THEN
+    NEW.version := OLD.version + 1;
+  ELSE
+    NEW.version := OLD.version;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_contracts_version ON public.contracts;
+CREATE TRIGGER trg_contracts_version
+BEFORE UPDATE ON public.contracts
+FOR EACH ROW EXECUTE FUNCTION public.bump_row_version('updated_at', 'attendance_count', 'attendance_dates', 'status', 'completed_at', 'final_price');
+
+DROP TRIGGER IF EXISTS trg_lessons_version ON public.lessons;
+CREATE TRIGGER trg_lessons_version
+BEFORE UPDATE ON public.lessons
+FOR EACH ROW EXECUTE FUNCTION public.bump_row_version('updated_at', 'planned_date');
+
+-- 2) Contract save with version precondition
+DROP FUNCTION IF EXISTS public.atomic_save_and_sync_contract(jsonb, boolean, uuid, uuid);
+
+CREATE OR REPLACE FUNCTION public.atomic_save_and_sync_contract(
+  contract_data jsonb,
+  is_update boolean DEFAULT false,
+  contract_id_param uuid DEFAULT NULL,
+  user_id uuid DEFAULT NULL,
+  expected_version integer DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  result jsonb;
+  lock_key bigint;
+  contract_id uuid;
+  operation_id uuid;
+  discount_array uuid[];
+  current_contract public.contracts%ROWTYPE;
+BEGIN
+  lock_key := CASE WHEN is_update THEN hashtext(contract_id_param::text)
+                   ELSE hashtext('new_contract_' || pg_backend_pid()::text) END;
+
+  IF NOT pg_try_advisory_xact_lock(lock_key) THEN
+    RAISE EXCEPTION 'Contract operation in progress. Please try again.';
+  END IF;
+
+  INSERT INTO public.contract_operation_log (contract_id, operation_type, status, created_by)
+  VALUES (contract_id_param, 'save_and_sync', 'started', COALESCE(user_id, auth.uid()))
+  RETURNING id INTO operation_id;
+
+  -- Someone else saved the contract since the caller loaded it
+  IF is_update AND expected_version IS NOT NULL THEN
+    SELECT * INTO current_contract
+    FROM public.contracts c
+    WHERE c.id = contract_id_param
+    FOR UPDATE;
+
+    IF FOUND AND current_contract.version <> expected_version THEN
+      result := jsonb_build_object(
+        'success', false,
+        'conflict', true,
+        'contract_id', contract_id_param,
+        'current', to_jsonb(current_contract),
+        'message', 'Contract was changed by another user'
+      );
+      UPDATE public.contract_operation_log SET status = 'conflict', details = result WHERE id = operation_id;
+      RETURN result;
+    END IF;
+  END IF;
+
+  -- Handle discount_ids properly - it comes as JSON array, not string
+  IF contract_data ? 'discount_ids' AND contract_data->'discount_ids' IS NOT NULL THEN
+    SELECT array_agg(elem::text::uuid) INTO discount_array
+    FROM jsonb_array_elements_text(contract_data->'discount_ids') AS elem;
+  ELSE
+    discount_array := NULL;
+  END IF;
+
+  IF is_update THEN
+    UPDATE public.contracts SET
+      student_id = (contract_data->>'student_id')::uuid,
+      teacher_id = (contract_data->>'teacher_id')::uuid,
+      type = contract_data->>'type',
+      contract_variant_id = (contract_data->>'contract_variant_id')::uuid,
+      status = COALESCE(contract_data->>'status', 'active'),
+      discount_ids = discount_array,
+      custom_discount_percent = CASE WHEN contract_data->>'custom_discount_percent' IS NOT NULL THEN (contract_data->>'custom_discount_percent')::numeric ELSE NULL END,
+      payment_type = contract_data->>'payment_type',
+      billing_cycle = CASE WHEN contract_data->>'billing_cycle' IS NOT NULL THEN (contract_data->>'billing_cycle')::billing_cycle ELSE NULL END,
+      paid_at = CASE WHEN contract_data->>'paid_at' IS NOT NULL THEN (contract_data->>'paid_at')::timestamptz ELSE NULL END,
+      paid_through = CASE WHEN contract_data->>'paid_through' IS NOT NULL THEN (contract_data->>'paid_through')::timestamptz ELSE NULL END,
+      term_start = CASE WHEN contract_data->>'term_start' IS NOT NULL THEN (contract_data->>'term_start')::timestamptz ELSE NULL END,
+      term_end = CASE WHEN contract_data->>'term_end' IS NOT NULL THEN (contract_data->>'term_end')::timestamptz ELSE NULL END,
+      term_label = contract_data->>'term_label',
+      cancelled_at = CASE WHEN contract_data->>'cancelled_at' IS NOT NULL THEN (contract_data->>'cancelled_at')::timestamptz ELSE NULL END,
+      updated_at = now()
+    WHERE id = contract_id_param
+    RETURNING id INTO contract_id;
+  ELSE
+    INSERT INTO public.contracts (
+      student_id, teacher_id, type, contract_variant_id, status, discount_ids, custom_discount_percent, payment_type,
+      billing_cycle, paid_at, paid_through, term_start, term_end, term_label, cancelled_at, attendance_count, attendance_dates
+    ) VALUES (
+      (contract_data->>'student_id')::uuid,
+      (contract_data->>'teacher_id')::uuid,
+      contract_data->>'type',
+      (contract_data->>'contract_variant_id')::uuid,
+      COALESCE(contract_data->>'status', 'active'),
+      discount_array,
+      CASE WHEN contract_data->>'custom_discount_percent' IS NOT NULL THEN (contract_data->>'custom_discount_percent')::numeric ELSE NULL END,
+      contract_data->>'payment_type',
+      CASE WHEN contract_data->>'billing_cycle' IS NOT NULL THEN (contract_data->>'billing_cycle')::billing_cycle ELSE NULL END,
+      CASE WHEN contract_data->>'paid_at' IS NOT NULL THEN (contract_data->>'paid_at')::timestamptz ELSE NULL END,
+      CASE WHEN contract_data->>'paid_through' IS NOT NULL THEN (contract_data->>'paid_through')::timestamptz ELSE NULL END,
+      CASE WHEN contract_data->>'term_start' IS NOT NULL THEN (contract_data->>'term_start')::timestamptz ELSE NULL END,
+      CASE WHEN contract_data->>'term_end' IS NOT NULL THEN (contract_data->>'term_end')::timestamptz ELSE NULL END,
+      contract_data->>'term_label',
+      CASE WHEN contract_data->>'cancelled_at' IS NOT NULL THEN (contract_data->>'cancelled_at')::timestamptz ELSE NULL END,
+      '0/0',
+      '[]'::jsonb
+    ) RETURNING id INTO contract_id;
+  END IF;
+
+  PERFORM public.smart_sync_contract_data(contract_id);
+
+  result := jsonb_build_object(
+    'success', true,
+    'contract_id', contract_id,
+    'version', (SELECT c.version FROM public.contracts c WHERE c.id = contract_id),
+    'message', 'Contract saved and synced successfully'
+  );
+
+  UPDATE public.contract_operation_log SET status = 'success', details = result WHERE id = operation_id;
+
+  RETURN result;
+EXCEPTION WHEN OTHERS THEN
+  UPDATE public.contract_operation_log SET status = 'failed', error_message = SQLERRM WHERE id = operation_id;
+  RAISE EXCEPTION 'Failed to save contract: %', SQLERRM;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.atomic_save_and_sync_contract(jsonb, boolean, uuid, uuid, integer) TO authenticated;
+
+-- 3) Lesson batch update with version precondition
+CREATE OR REPLACE FUNCTION batch_update_lessons(updates jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  update_record jsonb;
+  lesson_id_val uuid;
+  contract_id_val uuid;
+  success_count integer := 0;
+  error_count integer := 0;
+  error_messages text[] := '{}';
+  contract_ids uuid[] := '{}';
+  array_length_val integer;
+  i integer;
+  conflicts jsonb;
+
+  -- temp parsed values
+  date_raw text;
+  comment_raw text;
+  is_available_raw text;
+  is_available_val boolean;
+  reason_val lesson_cancellation_reason;
+BEGIN
+  -- All or nothing: lessons changed by someone else since they were loaded block the whole save
+  PERFORM 1
+  FROM lessons l
+  WHERE l.id IN (SELECT NULLIF(u->>'id', '')::uuid FROM jsonb_array_elements(updates) u)
+  FOR UPDATE;
+
+  SELECT jsonb_agg(to_jsonb(l) ORDER BY l.lesson_number) INTO conflicts
+  FROM jsonb_array_elements(updates) u
+  JOIN lessons l ON l.id = NULLIF(u->>'id', '')::uuid
+  WHERE u ? 'version'
+    AND NULLIF(u->>'version', '') IS NOT NULL
+    AND l.version <> (u->>'version')::integer;
+
+  IF conflicts IS NOT NULL THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'conflict', true,
+      'conflicts', conflicts,
+      'success_count', 0,
+      'error_count', 0,
+      'errors', '{}'::text[]
+    );
+  END IF;
+
+  -- Process each lesson update
+  FOR update_record IN SELECT * FROM jsonb_array_elements(updates)
+  LOOP
+    BEGIN
+      lesson_id_val := NULLIF(update_record->>'id','')::uuid;
+
+      -- 1) derive contract_id robustly
+      contract_id_val := NULLIF(update_record->>'contract_id','')::uuid;
+      IF contract_id_val IS NULL AND lesson_id_val IS NOT NULL THEN
+        SELECT l.contract_id INTO contract_id_val
+        FROM lessons l
+        WHERE l.id = lesson_id_val;
+      END IF;
+
+      IF lesson_id_val IS NULL OR contract_id_val IS NULL THEN
+        error_count := error_count + 1;
+        error_messages := array_append(error_messages,
+          format('Invalid ids in update (id: %, contract_id: %)', update_record->>'id', update_record->>'contract_id'));
+        CONTINUE;
+      END IF;
+
+      -- collect contract ids
+      IF NOT (contract_id_val = ANY(contract_ids)) THEN
+        contract_ids := array_append(contract_ids, contract_id_val);
+      END IF;
+
+      -- 2) parse fields safely
+      date_raw := update_record->>'date';
+      comment_raw := update_record->>'comment';
+      is_available_raw := update_record->>'is_available';
+
+      -- Safe boolean parsing: handle all possible values
+      IF is_available_raw IS NULL OR is_available_raw = '' THEN
+        -- If not provided, keep current value
+        SELECT l.is_available INTO is_available_val FROM lessons l WHERE l.id = lesson_id_val;
+      ELSE
+        -- Parse boolean safely
+        BEGIN
+          is_available_val := (is_available_raw)::boolean;
+        EXCEPTION WHEN OTHERS THEN
+          -- If cast fails, try string parsing
+          is_available_val := CASE lower(trim(is_available_raw))
+            WHEN 'true'  THEN true
+            WHEN 't'     THEN true
+            WHEN '1'     THEN true
+            WHEN 'yes'   THEN true
+            WHEN 'false' THEN false
+            WHEN 'f'     THEN false
+            WHEN '0'     THEN false
+            WHEN 'no'    THEN false
+            ELSE true  -- default to true if we can't parse
+          END;
+        END;
+      END IF;
+
+      -- The reason only applies to unavailable lessons; if not provided, keep the current one
+      IF is_available_val THEN
+        reason_val := NULL;
+      ELSIF update_record ? 'cancellation_reason' THEN
+        reason_val := NULLIF(update_record->>'cancellation_reason', '')::lesson_cancellation_reason;
+      ELSE
+        SELECT l.cancellation_reason INTO reason_val FROM lessons l WHERE l.id = lesson_id_val;
+      END IF;
+
+      -- 3) do the update (fully qualified with explicit table aliases)
+      UPDATE lessons l
+      SET
+        date = CASE
+                 WHEN date_raw IS NOT NULL AND date_raw <> '' THEN date_raw::date
+                 ELSE NULL
+               END,
+        comment = CASE
+                    WHEN comment_raw IS NOT NULL AND comment_raw <> '' THEN comment_raw
+                    ELSE NULL
+                  END,
+        is_available = is_available_val,
+        cancellation_reason = reason_val,
+        updated_at = now()
+      WHERE l.id = lesson_id_val
+        AND l.contract_id = contract_id_val;
+
+      IF FOUND THEN
+        success_count := success_count + 1;
+      ELSE
+        error_count := error_count + 1;
+        error_messages := array_append(error_messages,
+          format('Lesson %s not found or contract mismatch (%s)', lesson_id_val, contract_id_val));
+      END IF;
+
+    EXCEPTION WHEN OTHERS THEN
+      error_count := error_count + 1;
+      error_messages := array_append(error_messages,
+        format('Error updating lesson %s: %s', lesson_id_val, SQLERRM));
+    END;
+  END LOOP;
+
+  -- Update contracts & completion status for affected contracts
+  array_length_val := array_length(contract_ids, 1);
+  IF array_length_val IS NOT NULL THEN
+    FOR i IN 1..array_length_val LOOP
+      PERFORM public.refresh_contract_attendance(contract_ids[i]);
+    END LOOP;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', error_count = 0,
+    'success_count', success_count,
+    'error_count', error_count,
+    'errors', error_messages,
+    'processed_contracts', contract_ids,
+    'contracts_updated', array_length(contract_ids, 1)
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION batch_update_lessons(jsonb) TO authenticated;
+
+COMMIT;
@@ -0,0 +1,179 @@
+-- Web Push for notifications
+-- - push_subscriptions: one row per browser/device a user enabled push on (PushSubscription JSON)
+-- - notification_push_deliveries: one row per notification and recipient once it was handled
+-- - get_pending_notification_pushes: notification/recipient pairs that still need a push
+-- Sending happens in the edge function send-push-notifications (service role), which is
+-- called every minute. Only new trial assignments and fulfilled contracts are pushed; the
+-- recipients are the same as for the notification emails.
+
+BEGIN;
+
+-- 1) Subscriptions
+CREATE TABLE IF NOT EXISTS public.push_subscriptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  profile_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  endpoint text NOT NULL UNIQUE,
+  p256dh text NOT NULL,
+  auth text NOT NULL,
+  user_agent text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  last_used_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_profile ON public.push_subscriptions(profile_id);
+
+ALTER TABLE public.push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE policyname = 'push_subscriptions_own'
+      AND tablename = 'push_subscriptions'
+      AND schemaname = 'public'
+  ) THEN
+    CREATE POLICY push_subscriptions_own
+    ON public.push_subscriptions
+    FOR ALL
+    TO authenticated
+    USING (profile_id = auth.uid())
+    WITH CHECK (profile_id = auth.uid());
+  END IF;
+END$$;
+
+-- A device that is handed to another user moves its subscription along; the endpoint is
+-- unique, so the upsert from the browser has to be allowed to take it over
+CREATE OR REPLACE FUNCTION public.save_push_subscription(
+  endpoint_param text,
+  p256dh_param text,
+  auth_param text,
+  user_agent_param text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.push_subscriptions (profile_id, endpoint, p256dh, auth, user_agent)
+  VALUES (auth.uid(), endpoint_param, p256dh_param, auth_param, user_agent_param)
+  ON CONFLICT (endpoint) DO UPDATE
+  SET profile_id = auth.uid(),
+      p256dh = EXCLUDED.p256dh,
+      auth = EXCLUDED.auth,
+      user_agent = EXCLUDED.user_agent,
+      created_at = now();
+$$;
+
+REVOKE ALL ON FUNCTION public.save_push_subscription(text, text, text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.save_push_subscription(text, text, text, text) TO authenticated;
+
+-- 2) Delivery log
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'push_delivery_status') THEN
+    CREATE TYPE push_delivery_status AS ENUM ('sent', 'failed');
+  END IF;
+END$$;
+
+CREATE TABLE IF NOT EXISTS public.notification_push_deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  notification_id uuid NOT NULL REFERENCES public.notifications(id) ON DELETE CASCADE,
+  profile_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  status push_delivery_status NOT NULL,
+  error text,
+  attempts smallint NOT NULL DEFAULT 1,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (notification_id, profile_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_push_deliveries_profile ON public.notification_push_deliveries(profile_id);
+
+ALTER TABLE public.notification_push_deliveries ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE policyname = 'notification_push_deliveries_select_admin'
+      AND tablename = 'notification_push_deliveries'
+      AND schemaname = 'public'
+  ) THEN
+    -- Written only by the edge function (service role)
+    CREATE POLICY notification_push_deliveries_select_admin
+    ON public.notification_push_deliveries
+    FOR SELECT
+    TO authenticated
+    USING (public.get_user_role() = 'admin');
+  END IF;
+END$$;
+
+-- 3) Pending pushes
+-- Only recipients with at least one subscription. A push is only useful right away, so
+-- notifications older than a day are not pushed anymore; failures are retried up to three times.
+CREATE OR REPLACE FUNCTION public.get_pending_notification_pushes()
+RETURNS TABLE (
+  notification_id uuid,
+  profile_id uuid,
+  type text,
+  message text,
+  created_at timestamptz,
+  student_name text,
+  teacher_name text,
+  variant_name text,
+  trial_student_name text,
+  trial_instrument text,
+  attempts smallint
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH recipients AS (
+    SELECT n.id AS notification_id, t.profile_id
+    FROM public.notifications n
+    JOIN public.teachers t ON t.id = n.teacher_id
+    WHERE t.profile_id IS NOT NULL
+      AND n.type IN ('assigned_trial', 'contract_fulfilled')
+      AND n.created_at > now() - interval '1 day'
+    UNION
+    SELECT n.id, p.id
+    FROM public.notifications n
+    CROSS JOIN public.profiles p
+    -- contract_fulfilled has one row per admin (teacher_id = the admin's profile id)
+    WHERE p.role = 'admin'
+      AND n.type = 'contract_fulfilled'
+      AND n.teacher_id = p.id
+      AND n.created_at > now() - interval '1 day'
+  )
+  SELECT
+    n.id,
+    r.profile_id,
+    n.type::text,
+    n.message::text,
+    n.created_at,
+    coalesce(s.name, cs.name)::text,
+    coalesce(t.name, ct.name)::text,
+    cv.name::text,
+    ta.student_name::text,
+    ta.instrument::text,
+    coalesce(d.attempts, 0::smallint)
+  FROM recipients r
+  JOIN public.notifications n ON n.id = r.notification_id
+  LEFT JOIN public.notification_push_deliveries d ON d.notification_id = n.id AND d.profile_id = r.profile_id
+  LEFT JOIN public.students s ON s.id = n.student_id
+  LEFT JOIN public.teachers t ON t.id = n.teacher_id
+  LEFT JOIN public.contracts c ON c.id = n.contract_id
+  LEFT JOIN public.students cs ON cs.id = c.student_id
+  LEFT JOIN public.teachers ct ON ct.id = c.teacher_id
+  LEFT JOIN public.contract_variants cv ON cv.id = c.contract_variant_id
+  LEFT JOIN public.trial_appointments ta ON ta.id = n.trial_appointment_id
+  WHERE EXISTS (SELECT 1 FROM public.push_subscriptions ps WHERE ps.profile_id = r.profile_id)
+    AND (d.id IS NULL OR (d.status = 'failed' AND d.attempts < 3))
+  ORDER BY n.created_at;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_pending_notification_pushes() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_pending_notification_pushes() TO service_role;
+
+COMMIT;